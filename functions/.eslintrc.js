@@ -19,6 +19,7 @@ module.exports = {
   },
   ignorePatterns: [
     "/lib/**/*", // Ignore built files.
+    "/lib-test/**/*", // Ignore built tests.
     "/generated/**/*", // Ignore generated files.
   ],
   plugins: [
@@ -0,0 +1,136 @@
+// functions/src/advanceRoom.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { FieldValue, getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { toPlayerQuestion } from './quizPlayerViews.js';
+import { getRoomRef, parseRoomCode, RoomStatus, StoredRoom, StoredRoomAnswer, StoredRoomPlayer } from './rooms.js';
+import { getCorrectOptionText } from './scoring.js';
+import { StoredQuiz } from './types.js';
+
+interface AdvanceRoomRequest {
+  code: string;
+  // The step the host's screen was on; when the room has already moved past it, nothing happens
+  fromStatus?: RoomStatus;
+  fromQuestionIndex?: number;
+}
+
+/**
+ * Callable Cloud Function with which the host moves a live room to its next step:
+ * - from the lobby or a reveal, the next question opens with a fresh countdown (the game finishes after the last one);
+ * - from an open question, answers close, the correct option is revealed and every player's score is updated.
+ * The host's screen also calls it when the countdown runs out, so a step that was already taken
+ * (e.g. "Reveal now" racing the timer) is ignored rather than skipping a question.
+ */
+export const advanceRoom = onCall({ region: 'us-central1' }, async (request: CallableRequest<AdvanceRoomRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const code = parseRoomCode(request.data?.code);
+  const { fromStatus, fromQuestionIndex } = request.data;
+  if (fromQuestionIndex !== undefined && (typeof fromQuestionIndex !== 'number' || !Number.isInteger(fromQuestionIndex))) {
+    throw new functions.https.HttpsError('invalid-argument', '`fromQuestionIndex` must be a whole number when provided.');
+  }
+
+  const db = getFirestore(getApp());
+  const roomRef = getRoomRef(db, code);
+
+  const status = await db.runTransaction(async (tx): Promise<RoomStatus> => {
+    const roomDoc = await tx.get(roomRef);
+    if (!roomDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Room not found.');
+    }
+
+    // 3. Authorization Check: only the host runs the room
+    const room = roomDoc.data() as StoredRoom;
+    if (room.hostId !== userId) {
+      throw new functions.https.HttpsError('permission-denied', 'Only the host can move the game on.');
+    }
+    if ((fromStatus !== undefined && fromStatus !== room.status) ||
+        (fromQuestionIndex !== undefined && fromQuestionIndex !== room.currentQuestionIndex)) {
+      return room.status;
+    }
+    if (room.status === 'finished') {
+      throw new functions.https.HttpsError('failed-precondition', 'This game has already finished.');
+    }
+
+    const quizDoc = await tx.get(db.collection('quizzes').doc(room.quizId));
+    const questions = (quizDoc.data() as StoredQuiz | undefined)?.questions || [];
+
+    // 4a. Close the current question: reveal the answer and add every player's result to the scoreboard
+    if (room.status === 'question') {
+      const questionId = room.currentQuestion?.id || '';
+      const [answersSnapshot, playersSnapshot] = await Promise.all([
+        tx.get(roomRef.collection('answers').where('questionId', '==', questionId)),
+        tx.get(roomRef.collection('players')),
+      ]);
+      const answersByUser = new Map(answersSnapshot.docs.map(d => {
+        const answer = d.data() as StoredRoomAnswer;
+        return [answer.userId, answer];
+      }));
+
+      playersSnapshot.docs.forEach(playerDoc => {
+        const answer = answersByUser.get(playerDoc.id);
+        const lastResult: StoredRoomPlayer['lastResult'] = {
+          questionId,
+          credit: answer?.credit ?? 0,
+          points: answer?.points ?? 0,
+          answered: answer !== undefined,
+        };
+        tx.update(playerDoc.ref, {
+          score: FieldValue.increment(lastResult.credit),
+          points: FieldValue.increment(lastResult.points),
+          correctCount: FieldValue.increment(lastResult.credit === 1 ? 1 : 0),
+          lastResult,
+        });
+      });
+
+      const question = questions.find(q => q.id === questionId);
+      tx.update(roomRef, {
+        status: 'reveal',
+        reveal: {
+          questionId,
+          correctOption: question ? getCorrectOptionText(question) : '',
+          explanation: question?.explanation ?? null,
+        },
+      });
+      return 'reveal';
+    }
+
+    // 4b. Open the next question, skipping any removed from the quiz since the room was created
+    let nextIndex = room.currentQuestionIndex + 1;
+    while (nextIndex < room.questionOrder.length && !questions.some(q => q.id === room.questionOrder[nextIndex])) {
+      nextIndex++;
+    }
+    const nextQuestion = questions.find(q => q.id === room.questionOrder[nextIndex]);
+    if (!nextQuestion) {
+      tx.update(roomRef, {
+        status: 'finished',
+        currentQuestionIndex: room.questionOrder.length,
+        currentQuestion: null,
+        questionStartedAt: null,
+        questionEndsAt: null,
+      });
+      return 'finished';
+    }
+
+    const now = Timestamp.now();
+    tx.update(roomRef, {
+      status: 'question',
+      currentQuestionIndex: nextIndex,
+      currentQuestion: toPlayerQuestion(nextQuestion),
+      questionStartedAt: now,
+      questionEndsAt: Timestamp.fromMillis(now.toMillis() + room.secondsPerQuestion * 1000),
+      answerCount: 0,
+      reveal: null,
+    });
+    return 'question';
+  });
+
+  functions.logger.info(`Room ${code} is now in status ${status}.`);
+  return { status };
+});
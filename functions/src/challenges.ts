@@ -0,0 +1,127 @@
+// functions/src/challenges.ts
+// Head-to-head challenges: a player sends one of their attempts to a friend, who plays the same quiz
+// with the same question order, option order and time limits. Both results are compared side by side.
+//
+// challenges/{challengeId}                    the challenge; anyone signed in with the link can open it
+// challenges/{challengeId}/results/{userId}   each side's answers; readable by both once the challenge is completed
+//
+// A challenge is 'pending' until someone other than the challenger accepts or declines it. The recipient then
+// gets one session to play it (startQuizSession with the challengeId), and submitQuiz completes the challenge.
+// Challenges that are not completed by `expiresAt` are expired; a session started in time may still be submitted.
+import * as functions from 'firebase-functions';
+import { Timestamp } from 'firebase-admin/firestore';
+import { QuizMode } from './types.js';
+
+// How long the recipient has to accept and play a challenge
+export const CHALLENGE_TTL_DAYS = 7;
+
+export type ChallengeStatus = 'pending' | 'accepted' | 'declined' | 'completed';
+
+export interface StoredChallenge {
+  id: string;
+  challengerId: string;
+  challengerName: string;
+  challengerAttemptId: string;
+  recipientId: string | null; // Whoever accepted or declined the challenge
+  recipientName: string | null;
+  recipientSessionId: string | null; // The recipient's one session, set when they start playing
+  recipientAttemptId: string | null;
+  participants: string[]; // The challenger, plus the recipient once known; lets the /challenges page query both sides
+  status: ChallengeStatus;
+  quizId: string;
+  quizTitle: string;
+  // Copied from the challenger's session so the recipient plays exactly the same quiz
+  mode: QuizMode;
+  questionOrder: string[];
+  optionOrder: Record<string, string[]>;
+  timePerQuestionSeconds: number | null;
+  totalTimeLimitSeconds: number | null;
+  totalQuestions: number;
+  // Headline results; the per-question details are in the results subcollection
+  challengerScore: number;
+  challengerPoints: number;
+  recipientScore: number | null;
+  recipientPoints: number | null;
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+  respondedAt: Timestamp | null;
+  completedAt: Timestamp | null;
+}
+
+export interface StoredChallengeResult {
+  userId: string;
+  displayName: string;
+  attemptId: string;
+  score: number;
+  points: number;
+  timeSpentSeconds: number;
+  answers: {
+    questionId: string;
+    userAnswer: string; // In the stored option letters, as on the attempt
+    correctAnswer: string;
+    isCorrect: boolean;
+    credit: number;
+    timeSpentSeconds: number | null;
+    points: number;
+  }[];
+}
+
+// The attempt fields a challenge result is built from (older attempts may lack credit, time and points)
+export interface AttemptForChallenge {
+  id: string;
+  score: number;
+  points?: number;
+  timeSpent: number;
+  answers: {
+    questionId: string;
+    userAnswer: string;
+    correctAnswer: string;
+    isCorrect: boolean;
+    credit?: number;
+    timeSpentSeconds?: number | null;
+    points?: number;
+  }[];
+}
+
+export function toChallengeResult(attempt: AttemptForChallenge, userId: string, displayName: string): StoredChallengeResult {
+  return {
+    userId,
+    displayName,
+    attemptId: attempt.id,
+    score: attempt.score,
+    points: attempt.points ?? 0,
+    timeSpentSeconds: attempt.timeSpent,
+    answers: attempt.answers.map(answer => ({
+      questionId: answer.questionId,
+      userAnswer: answer.userAnswer,
+      correctAnswer: answer.correctAnswer,
+      isCorrect: answer.isCorrect,
+      credit: answer.credit ?? (answer.isCorrect ? 1 : 0),
+      timeSpentSeconds: answer.timeSpentSeconds ?? null,
+      points: answer.points ?? 0,
+    })),
+  };
+}
+
+export function isChallengeExpired(challenge: StoredChallenge, now: Timestamp): boolean {
+  return challenge.status !== 'completed' && challenge.status !== 'declined' && now.toMillis() > challenge.expiresAt.toMillis();
+}
+
+/**
+ * Rejects a session for a challenge the caller cannot play: it must be theirs to play (accepted by them),
+ * not expired, and not started before. Each recipient gets one go, like the challenger had.
+ */
+export function assertChallengePlayable(challenge: StoredChallenge, userId: string, quizId: string, now: Timestamp): void {
+  if (challenge.quizId !== quizId) {
+    throw new functions.https.HttpsError('invalid-argument', 'This challenge is for a different quiz.');
+  }
+  if (challenge.recipientId !== userId || (challenge.status !== 'accepted' && challenge.status !== 'completed')) {
+    throw new functions.https.HttpsError('permission-denied', 'Accept the challenge before playing it.');
+  }
+  if (challenge.recipientSessionId || challenge.status === 'completed') {
+    throw new functions.https.HttpsError('failed-precondition', 'You have already played this challenge.');
+  }
+  if (isChallengeExpired(challenge, now)) {
+    throw new functions.https.HttpsError('deadline-exceeded', 'This challenge has expired.');
+  }
+}
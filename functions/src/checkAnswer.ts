@@ -0,0 +1,111 @@
+// functions/src/checkAnswer.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { canPlayQuiz } from './quizAccess.js';
+import { toDisplayedQuestion, toStoredAnswer } from './optionOrder.js';
+import { loadReviewQuiz, REVIEW_QUIZ_ID } from './reviewQueue.js';
+import { getAnswerCredit, getCorrectOptionText } from './scoring.js';
+import { assertSessionUsable } from './sessions.js';
+import { StoredQuiz, StoredQuizSession } from './types.js';
+
+interface CheckAnswerRequest {
+  quizId: string;
+  questionId: string;
+  selectedOption: string; // e.g., 'A. Option Text', 'True'/'False' or 'A,C' (see scoring.ts); '' when the question timed out
+  sessionId: string; // The caller's practice session; the answer time is logged in it
+  reveal?: boolean; // The player gives up on the question: name the correct option even for a wrong answer
+}
+
+/**
+ * Callable Cloud Function giving per-question feedback in practice mode.
+ * Players only receive answer-free quizzes, so the correct option is revealed here, one question at a time, together
+ * with the explanation. A wrong answer is only marked wrong: the correct option stays hidden until the player gives up
+ * on the question (`reveal`), so practice can be retried as often as the player likes without giving the answer away.
+ * It only answers for a question of an active practice session of the caller: exams, and with them Daily Challenges,
+ * tournament and team matches and assignments, reveal nothing before they are submitted.
+ * The first answer to each question is also stamped with the server time,
+ * which submitQuiz reports as the time spent on the question.
+ * Sessions with shuffled options get the answer checked and the correct option named in the letters the player saw.
+ */
+export const checkAnswer = onCall({ region: 'us-central1' }, async (request: CallableRequest<CheckAnswerRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+
+  // 2. Input Validation
+  const { quizId, questionId, selectedOption, sessionId } = request.data || ({} as CheckAnswerRequest);
+  if (typeof quizId !== 'string' || !quizId || typeof questionId !== 'string' || !questionId || typeof selectedOption !== 'string'
+    || typeof sessionId !== 'string' || !sessionId) {
+    throw new functions.https.HttpsError('invalid-argument', 'quizId, questionId, selectedOption and sessionId are required.');
+  }
+  const reveal = request.data.reveal ?? false;
+  if (typeof reveal !== 'boolean') {
+    throw new functions.https.HttpsError('invalid-argument', '`reveal` must be a boolean when provided.');
+  }
+
+  const db = getFirestore(getApp());
+  const userId = request.auth.uid;
+  const sessionRef = db.collection('quizSessions').doc(sessionId);
+
+  // 3. Session Check: only a question of the caller's own open practice session is answered
+  const assertPracticeQuestion = (session: StoredQuizSession | undefined, now: Timestamp): StoredQuizSession => {
+    if (!session) {
+      throw new functions.https.HttpsError('not-found', 'Quiz session not found.');
+    }
+    assertSessionUsable(session, userId, now);
+    if (session.mode !== 'practice') {
+      throw new functions.https.HttpsError('failed-precondition', 'Answers are revealed once the exam is submitted.');
+    }
+    if (session.quizId !== quizId || !session.questionOrder.includes(questionId)) {
+      throw new functions.https.HttpsError('invalid-argument', 'This question is not part of the quiz session.');
+    }
+    return session;
+  };
+  assertPracticeQuestion((await sessionRef.get()).data() as StoredQuizSession | undefined, Timestamp.now());
+
+  let quizData: StoredQuiz;
+  if (quizId === REVIEW_QUIZ_ID) {
+    // 4. Authorization Check: review questions come from the player's queue and quizzes they can still play
+    quizData = await loadReviewQuiz(db, (...refs) => db.getAll(...refs), request.auth, [questionId]);
+  } else {
+    const quizDoc = await db.collection('quizzes').doc(quizId).get();
+    if (!quizDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Quiz not found.');
+    }
+
+    // 4. Authorization Check: same visibility rules as reading the player view
+    quizData = quizDoc.data() as StoredQuiz;
+    if (!canPlayQuiz(quizData, request.auth)) {
+      throw new functions.https.HttpsError('permission-denied', 'You do not have access to this quiz.');
+    }
+  }
+
+  const question = (quizData.questions || []).find(q => q.id === questionId);
+  if (!question) {
+    functions.logger.warn(`User ${request.auth.uid} checked an answer for unknown question ${questionId} in quiz ${quizId}.`);
+    throw new functions.https.HttpsError('not-found', 'Question not found.');
+  }
+
+  // 5. Log the answer time in the session (first answer per question wins), checking the session again
+  const optionOrder = await db.runTransaction(async (tx) => {
+    const now = Timestamp.now();
+    const session = assertPracticeQuestion((await tx.get(sessionRef)).data() as StoredQuizSession | undefined, now);
+    if (!session.answerLog?.[questionId]) {
+      tx.update(sessionRef, { [`answerLog.${questionId}`]: { selectedOption, answeredAt: now } });
+    }
+    return session.optionOrder?.[questionId];
+  });
+
+  const credit = getAnswerCredit(question, toStoredAnswer(question, selectedOption, optionOrder));
+  const revealed = credit === 1 || reveal;
+  return {
+    isCorrect: credit === 1,
+    credit,
+    correctOption: revealed ? getCorrectOptionText(toDisplayedQuestion(question, optionOrder)) : null,
+    explanation: revealed ? question.explanation ?? null : null,
+    source: revealed ? question.source ?? null : null,
+  };
+});
@@ -0,0 +1,76 @@
+// functions/src/createAssignment.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { assertGroupCoach, getGroupRef, MAX_ASSIGNMENT_ATTEMPTS, StoredAssignment, StoredGroup } from './groups.js';
+import { StoredQuiz } from './types.js';
+
+interface CreateAssignmentRequest {
+  groupId: string;
+  quizId: string;
+  dueAt: number; // Milliseconds since the epoch
+  maxAttempts: number;
+}
+
+/**
+ * Callable Cloud Function with which a coach sets their group a public quiz, due at a given time,
+ * with up to `maxAttempts` attempts per member.
+ */
+export const createAssignment = onCall({ region: 'us-central1' }, async (request: CallableRequest<CreateAssignmentRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const { groupId, quizId, dueAt, maxAttempts } = request.data || ({} as CreateAssignmentRequest);
+  if (typeof groupId !== 'string' || !groupId || typeof quizId !== 'string' || !quizId) {
+    throw new functions.https.HttpsError('invalid-argument', 'groupId and quizId are required.');
+  }
+  if (typeof dueAt !== 'number' || !Number.isFinite(dueAt) || dueAt <= Date.now()) {
+    throw new functions.https.HttpsError('invalid-argument', '`dueAt` must be a time in the future.');
+  }
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > MAX_ASSIGNMENT_ATTEMPTS) {
+    throw new functions.https.HttpsError('invalid-argument', `\`maxAttempts\` must be a whole number from 1 to ${MAX_ASSIGNMENT_ATTEMPTS}.`);
+  }
+
+  const db = getFirestore(getApp());
+  const groupRef = getGroupRef(db, groupId);
+  const [groupDoc, quizDoc] = await db.getAll(groupRef, db.collection('quizzes').doc(quizId));
+  const group = groupDoc.data() as StoredGroup | undefined;
+  if (!group) {
+    throw new functions.https.HttpsError('not-found', 'Group not found.');
+  }
+
+  // 3. Authorization Check
+  assertGroupCoach(group, userId);
+
+  // 4. Every member must be able to play the quiz
+  const quiz = quizDoc.data() as StoredQuiz | undefined;
+  if (!quiz || (quiz.status || 'active') !== 'active') {
+    throw new functions.https.HttpsError('not-found', 'This quiz is no longer available.');
+  }
+  if (quiz.visibility !== 'global') {
+    throw new functions.https.HttpsError('failed-precondition', 'Only public quizzes can be assigned.');
+  }
+
+  // 5. Save the assignment
+  const assignmentRef = groupRef.collection('assignments').doc();
+  const assignment: StoredAssignment = {
+    id: assignmentRef.id,
+    groupId,
+    quizId,
+    quizTitle: quiz.title || '',
+    questionCount: Array.isArray(quiz.questions) ? quiz.questions.length : 0,
+    dueAt: Timestamp.fromMillis(dueAt),
+    maxAttempts,
+    attemptsStarted: {},
+    createdAt: Timestamp.now(),
+  };
+  await assignmentRef.set(assignment);
+
+  functions.logger.info(`Coach ${userId} assigned quiz ${quizId} to group ${groupId} (assignment ${assignment.id}).`);
+  return { assignmentId: assignment.id };
+});
@@ -0,0 +1,110 @@
+// functions/src/createChallenge.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { AttemptForChallenge, CHALLENGE_TTL_DAYS, StoredChallenge, toChallengeResult } from './challenges.js';
+import { REVIEW_QUIZ_ID } from './reviewQueue.js';
+import { StoredQuiz, StoredQuizSession } from './types.js';
+
+interface CreateChallengeRequest {
+  attemptId: string; // One of the caller's own attempts
+}
+
+type AttemptDoc = AttemptForChallenge & { userId: string; quizId: string; totalQuestions: number; sessionId?: string; quizTitle?: string };
+
+/**
+ * Callable Cloud Function turning one of the caller's attempts into a head-to-head challenge.
+ * The question order, option order and time limits of the attempt's session are copied onto the challenge,
+ * and the caller's answers are stored as their side of the comparison. Returns the id for the shareable link.
+ */
+export const createChallenge = onCall({ region: 'us-central1' }, async (request: CallableRequest<CreateChallengeRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const attemptId = request.data?.attemptId;
+  if (typeof attemptId !== 'string' || attemptId.trim() === '') {
+    throw new functions.https.HttpsError('invalid-argument', 'The `attemptId` is required and must be a non-empty string.');
+  }
+
+  const db = getFirestore(getApp());
+  const attemptDoc = await db.collection('quizAttempts').doc(attemptId).get();
+  if (!attemptDoc.exists) {
+    throw new functions.https.HttpsError('not-found', 'Attempt not found.');
+  }
+
+  // 3. Authorization Check: only your own attempts
+  const attempt = { ...attemptDoc.data(), id: attemptDoc.id } as AttemptDoc;
+  if (attempt.userId !== userId) {
+    throw new functions.https.HttpsError('permission-denied', 'You can only challenge others with your own attempts.');
+  }
+  if (attempt.quizId === REVIEW_QUIZ_ID) {
+    throw new functions.https.HttpsError('failed-precondition', 'Reviews are personal and cannot be sent as a challenge.');
+  }
+  if (!attempt.sessionId) {
+    throw new functions.https.HttpsError('failed-precondition', 'This attempt is too old to be replayed as a challenge.');
+  }
+
+  // 4. The friend must be able to play the quiz exactly as it was played
+  const [sessionDoc, quizDoc, userDoc] = await db.getAll(
+    db.collection('quizSessions').doc(attempt.sessionId),
+    db.collection('quizzes').doc(attempt.quizId),
+    db.collection('users').doc(userId),
+  );
+  const quizData = quizDoc.data() as StoredQuiz | undefined;
+  if (!quizData || (quizData.status || 'active') !== 'active') {
+    throw new functions.https.HttpsError('not-found', 'This quiz is no longer available.');
+  }
+  if (quizData.visibility !== 'global') {
+    throw new functions.https.HttpsError('failed-precondition', 'Only public quizzes can be sent as a challenge.');
+  }
+  if (!sessionDoc.exists) {
+    throw new functions.https.HttpsError('failed-precondition', 'This attempt is too old to be replayed as a challenge.');
+  }
+  const session = sessionDoc.data() as StoredQuizSession;
+
+  // 5. Save the challenge together with the challenger's side of the comparison
+  const challengerName = userDoc.get('displayName') || `Player ${userId.slice(0, 6)}`;
+  const createdAt = Timestamp.now();
+  const challengeRef = db.collection('challenges').doc();
+  const challenge: StoredChallenge = {
+    id: challengeRef.id,
+    challengerId: userId,
+    challengerName,
+    challengerAttemptId: attempt.id,
+    recipientId: null,
+    recipientName: null,
+    recipientSessionId: null,
+    recipientAttemptId: null,
+    participants: [userId],
+    status: 'pending',
+    quizId: attempt.quizId,
+    quizTitle: attempt.quizTitle || quizData.title || '',
+    mode: session.mode,
+    questionOrder: session.questionOrder,
+    optionOrder: session.optionOrder || {},
+    timePerQuestionSeconds: session.timePerQuestionSeconds,
+    totalTimeLimitSeconds: session.totalTimeLimitSeconds,
+    totalQuestions: attempt.totalQuestions,
+    challengerScore: attempt.score,
+    challengerPoints: attempt.points ?? 0,
+    recipientScore: null,
+    recipientPoints: null,
+    createdAt,
+    expiresAt: Timestamp.fromMillis(createdAt.toMillis() + CHALLENGE_TTL_DAYS * 24 * 60 * 60 * 1000),
+    respondedAt: null,
+    completedAt: null,
+  };
+
+  const batch = db.batch();
+  batch.set(challengeRef, challenge);
+  batch.set(challengeRef.collection('results').doc(userId), toChallengeResult(attempt, userId, challengerName));
+  await batch.commit();
+
+  functions.logger.info(`User ${userId} created challenge ${challengeRef.id} from attempt ${attempt.id}.`);
+  return { challengeId: challengeRef.id };
+});
@@ -0,0 +1,48 @@
+// functions/src/createGroup.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { MAX_GROUP_NAME_LENGTH, StoredGroup } from './groups.js';
+import { generateInviteCode } from './teams.js';
+
+interface CreateGroupRequest {
+  name: string;
+}
+
+/**
+ * Callable Cloud Function creating a group coached by the caller. It starts without members:
+ * players join through the group's invite link (see joinGroup).
+ */
+export const createGroup = onCall({ region: 'us-central1' }, async (request: CallableRequest<CreateGroupRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const name = typeof request.data?.name === 'string' ? request.data.name.trim() : '';
+  if (name === '' || name.length > MAX_GROUP_NAME_LENGTH) {
+    throw new functions.https.HttpsError('invalid-argument', `The group needs a name of at most ${MAX_GROUP_NAME_LENGTH} characters.`);
+  }
+
+  // 3. Save the group
+  const db = getFirestore(getApp());
+  const userDoc = await db.collection('users').doc(userId).get();
+  const groupRef = db.collection('groups').doc();
+  const group: StoredGroup = {
+    id: groupRef.id,
+    name,
+    coachId: userId,
+    coachName: userDoc.get('displayName') || `Player ${userId.slice(0, 6)}`,
+    members: [],
+    memberIds: [],
+    inviteCode: generateInviteCode(),
+    createdAt: Timestamp.now(),
+  };
+  await groupRef.set(group);
+
+  functions.logger.info(`User ${userId} created group ${group.id}.`);
+  return { groupId: group.id };
+});
@@ -0,0 +1,107 @@
+// functions/src/createRoom.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { shuffle } from './optionOrder.js';
+import { canPlayQuiz } from './quizAccess.js';
+import {
+  DEFAULT_SECONDS_PER_QUESTION,
+  generateRoomCode,
+  getRoomRef,
+  isAlreadyExistsError,
+  MAX_SECONDS_PER_QUESTION,
+  MIN_SECONDS_PER_QUESTION,
+  StoredRoom,
+} from './rooms.js';
+import { assertNotOpenRoundQuiz } from './tournaments.js';
+import { StoredQuiz } from './types.js';
+
+interface CreateRoomRequest {
+  quizId: string;
+  secondsPerQuestion?: number; // Defaults to the quiz's own per-question limit, or DEFAULT_SECONDS_PER_QUESTION
+}
+
+// Fresh codes to try before giving up; with 31^6 codes a clash is already unlikely
+const MAX_CODE_ATTEMPTS = 5;
+
+/**
+ * Callable Cloud Function that opens a live room for a quiz the caller can play, with the caller as host.
+ * Returns the join code players enter at /play/{code}. See rooms.ts for how a room runs.
+ */
+export const createRoom = onCall({ region: 'us-central1' }, async (request: CallableRequest<CreateRoomRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const quizId = request.data?.quizId;
+  if (typeof quizId !== 'string' || quizId.trim() === '') {
+    throw new functions.https.HttpsError('invalid-argument', 'The `quizId` is required and must be a non-empty string.');
+  }
+  const requestedSeconds = request.data?.secondsPerQuestion;
+  if (requestedSeconds !== undefined && (
+    typeof requestedSeconds !== 'number' || !Number.isInteger(requestedSeconds) ||
+    requestedSeconds < MIN_SECONDS_PER_QUESTION || requestedSeconds > MAX_SECONDS_PER_QUESTION
+  )) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      `\`secondsPerQuestion\` must be a whole number between ${MIN_SECONDS_PER_QUESTION} and ${MAX_SECONDS_PER_QUESTION}.`,
+    );
+  }
+
+  const db = getFirestore(getApp());
+  const quizDoc = await db.collection('quizzes').doc(quizId).get();
+  if (!quizDoc.exists) {
+    throw new functions.https.HttpsError('not-found', 'Quiz not found.');
+  }
+
+  // 3. Authorization Check
+  const quizData = quizDoc.data() as StoredQuiz;
+  if (!canPlayQuiz(quizData, request.auth)) {
+    throw new functions.https.HttpsError('permission-denied', 'You do not have access to this quiz.');
+  }
+  await assertNotOpenRoundQuiz(db, userId, quizId); // A tournament round's quiz waits until the round is over
+  if (!Array.isArray(quizData.questions) || quizData.questions.length === 0) {
+    throw new functions.https.HttpsError('failed-precondition', 'This quiz has no questions.');
+  }
+
+  const userDoc = await db.collection('users').doc(userId).get();
+  const questionOrder = quizData.questions.map(q => q.id);
+  const secondsPerQuestion = requestedSeconds
+    ?? Math.min(MAX_SECONDS_PER_QUESTION, Math.max(MIN_SECONDS_PER_QUESTION, quizData.timePerQuestionSeconds || DEFAULT_SECONDS_PER_QUESTION));
+
+  // 4. Create the room under a code nobody else holds (create() fails if the document exists)
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const code = generateRoomCode();
+    const room: StoredRoom = {
+      code,
+      hostId: userId,
+      hostName: userDoc.get('displayName') || `Player ${userId.slice(0, 6)}`,
+      quizId,
+      quizTitle: quizData.title || '',
+      status: 'lobby',
+      questionOrder: quizData.shuffleQuestions ? shuffle(questionOrder) : questionOrder,
+      currentQuestionIndex: -1,
+      currentQuestion: null,
+      secondsPerQuestion,
+      questionStartedAt: null,
+      questionEndsAt: null,
+      answerCount: 0,
+      playerCount: 0,
+      reveal: null,
+      createdAt: Timestamp.now(),
+    };
+    try {
+      await getRoomRef(db, code).create(room);
+      functions.logger.info(`User ${userId} opened room ${code} for quiz ${quizId}.`);
+      return { code };
+    } catch (err: unknown) {
+      if (!isAlreadyExistsError(err)) throw err;
+    }
+  }
+
+  throw new functions.https.HttpsError('resource-exhausted', 'Could not find a free room code. Please try again.');
+});
@@ -0,0 +1,48 @@
+// functions/src/createTeam.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { createEmptyRecord, generateInviteCode, MAX_TEAM_NAME_LENGTH, StoredTeam } from './teams.js';
+
+interface CreateTeamRequest {
+  name: string;
+}
+
+/**
+ * Callable Cloud Function creating a team with the caller as its captain and only member.
+ * Others join through the team's invite link (see joinTeam).
+ */
+export const createTeam = onCall({ region: 'us-central1' }, async (request: CallableRequest<CreateTeamRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const name = typeof request.data?.name === 'string' ? request.data.name.trim() : '';
+  if (name === '' || name.length > MAX_TEAM_NAME_LENGTH) {
+    throw new functions.https.HttpsError('invalid-argument', `The team needs a name of at most ${MAX_TEAM_NAME_LENGTH} characters.`);
+  }
+
+  // 3. Save the team
+  const db = getFirestore(getApp());
+  const userDoc = await db.collection('users').doc(userId).get();
+  const teamRef = db.collection('teams').doc();
+  const now = Timestamp.now();
+  const team: StoredTeam = {
+    id: teamRef.id,
+    name,
+    captainId: userId,
+    members: [{ userId, displayName: userDoc.get('displayName') || `Player ${userId.slice(0, 6)}`, joinedAt: now }],
+    memberIds: [userId],
+    inviteCode: generateInviteCode(),
+    record: createEmptyRecord(),
+    createdAt: now,
+  };
+  await teamRef.set(team);
+
+  functions.logger.info(`User ${userId} created team ${team.id}.`);
+  return { teamId: team.id };
+});
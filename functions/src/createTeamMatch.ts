@@ -0,0 +1,87 @@
+// functions/src/createTeamMatch.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import {
+  assertTeamCaptain,
+  getTeamMatchExpiry,
+  getTeamRef,
+  StoredTeam,
+  StoredTeamMatch,
+  TEAM_SCORINGS,
+  TeamScoring,
+  toMatchSide,
+} from './teams.js';
+import { StoredQuiz } from './types.js';
+
+interface CreateTeamMatchRequest {
+  teamId: string; // The captain's team
+  quizId: string;
+  scoring: TeamScoring;
+}
+
+/**
+ * Callable Cloud Function with which a captain challenges another team to a match on a public quiz.
+ * Returns the id for the link the captain sends to the other team's captain (see respondToTeamMatch).
+ */
+export const createTeamMatch = onCall({ region: 'us-central1' }, async (request: CallableRequest<CreateTeamMatchRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const { teamId, quizId, scoring } = request.data || ({} as CreateTeamMatchRequest);
+  if (typeof teamId !== 'string' || !teamId || typeof quizId !== 'string' || !quizId) {
+    throw new functions.https.HttpsError('invalid-argument', 'teamId and quizId are required.');
+  }
+  if (!TEAM_SCORINGS.includes(scoring)) {
+    throw new functions.https.HttpsError('invalid-argument', `\`scoring\` must be one of ${TEAM_SCORINGS.join(', ')}.`);
+  }
+
+  const db = getFirestore(getApp());
+  const [teamDoc, quizDoc] = await db.getAll(getTeamRef(db, teamId), db.collection('quizzes').doc(quizId));
+  const team = teamDoc.data() as StoredTeam | undefined;
+  if (!team) {
+    throw new functions.https.HttpsError('not-found', 'Team not found.');
+  }
+
+  // 3. Authorization Check
+  assertTeamCaptain(team, userId);
+
+  // 4. Both teams must be able to play the quiz
+  const quiz = quizDoc.data() as StoredQuiz | undefined;
+  if (!quiz || (quiz.status || 'active') !== 'active') {
+    throw new functions.https.HttpsError('not-found', 'This quiz is no longer available.');
+  }
+  if (quiz.visibility !== 'global') {
+    throw new functions.https.HttpsError('failed-precondition', 'Team matches are played on public quizzes.');
+  }
+
+  // 5. Save the match; it waits for another team's captain to accept it
+  const matchRef = db.collection('teamMatches').doc();
+  const now = Timestamp.now();
+  const side = toMatchSide(team, scoring);
+  const match: StoredTeamMatch = {
+    id: matchRef.id,
+    quizId,
+    quizTitle: quiz.title || '',
+    scoring,
+    status: 'pending',
+    teamIds: [team.id],
+    sides: { [team.id]: side },
+    memberIds: [...team.memberIds],
+    createdBy: userId,
+    winnerTeamId: null,
+    createdAt: now,
+    expiresAt: getTeamMatchExpiry(now),
+    respondedAt: null,
+    completedAt: null,
+  };
+  await matchRef.set(match);
+
+  functions.logger.info(`Captain ${userId} of team ${team.id} created ${scoring} team match ${match.id} on quiz ${quizId}.`);
+  return { matchId: match.id };
+});
@@ -0,0 +1,171 @@
+// functions/src/createTournament.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { GENERATED_QUESTION_TYPES } from './questionValidation.js';
+import {
+  advanceTournament,
+  buildMatches,
+  getRoundCount,
+  MAX_TOURNAMENT_PLAYERS,
+  MIN_TOURNAMENT_PLAYERS,
+  StoredTournament,
+  TournamentFormat,
+  TournamentParticipant,
+  TournamentRound,
+  TournamentRoundGeneration,
+} from './tournaments.js';
+import { StoredQuiz } from './types.js';
+
+interface CreateTournamentRequest {
+  name: string;
+  format: TournamentFormat;
+  participantEmails: string[]; // In seed order: the first one is the top seed
+  rounds: { quizId?: string; generation?: TournamentRoundGeneration }[]; // One per round; either a quiz or how to generate it
+}
+
+const MAX_NAME_LENGTH = 80;
+const DIFFICULTIES: StoredQuiz['difficulty'][] = ['easy', 'medium', 'hard'];
+
+// Returns an error message for an invalid generation config, or null
+function validateGeneration(generation: TournamentRoundGeneration): string | null {
+  if (typeof generation.category !== 'string' || generation.category.trim() === '') {
+    return 'a category';
+  }
+  if (!DIFFICULTIES.includes(generation.difficulty)) {
+    return `a difficulty (${DIFFICULTIES.join(', ')})`;
+  }
+  if (!Number.isInteger(generation.numberOfQuestions) || generation.numberOfQuestions < 1 || generation.numberOfQuestions > 20) {
+    return 'between 1 and 20 questions';
+  }
+  if (!GENERATED_QUESTION_TYPES.includes(generation.quizType)) {
+    return `a question type (${GENERATED_QUESTION_TYPES.join(', ')})`;
+  }
+  return null;
+}
+
+/**
+ * Callable Cloud Function setting up a tournament and opening its first round.
+ * Participants are signed-up players found by email, seeded in the order given. Each round is played on an
+ * active global quiz (so every participant can open it) or on one generated when the round opens.
+ */
+export const createTournament = onCall({ region: 'us-central1' }, async (request: CallableRequest<CreateTournamentRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const { name, format, participantEmails, rounds } = request.data || ({} as CreateTournamentRequest);
+  if (typeof name !== 'string' || name.trim() === '' || name.trim().length > MAX_NAME_LENGTH) {
+    throw new functions.https.HttpsError('invalid-argument', `The tournament needs a name of at most ${MAX_NAME_LENGTH} characters.`);
+  }
+  if (format !== 'single_elimination' && format !== 'round_robin') {
+    throw new functions.https.HttpsError('invalid-argument', '`format` must be "single_elimination" or "round_robin".');
+  }
+  if (!Array.isArray(participantEmails) || !participantEmails.every(email => typeof email === 'string' && email.trim() !== '')) {
+    throw new functions.https.HttpsError('invalid-argument', '`participantEmails` must be a list of email addresses.');
+  }
+  const emails = participantEmails.map(email => email.trim().toLowerCase());
+  if (new Set(emails).size !== emails.length) {
+    throw new functions.https.HttpsError('invalid-argument', 'Each participant can only be entered once.');
+  }
+  if (emails.length < MIN_TOURNAMENT_PLAYERS || emails.length > MAX_TOURNAMENT_PLAYERS) {
+    throw new functions.https.HttpsError('invalid-argument', `A tournament has between ${MIN_TOURNAMENT_PLAYERS} and ${MAX_TOURNAMENT_PLAYERS} participants.`);
+  }
+  const roundCount = getRoundCount(format, emails.length);
+  if (!Array.isArray(rounds) || rounds.length !== roundCount) {
+    throw new functions.https.HttpsError('invalid-argument', `This tournament has ${roundCount} rounds; give a quiz for each.`);
+  }
+  rounds.forEach((round, index) => {
+    const hasQuiz = typeof round?.quizId === 'string' && round.quizId !== '';
+    if (hasQuiz === !!round?.generation) {
+      throw new functions.https.HttpsError('invalid-argument', `Round ${index + 1} needs either a quiz or a generation config.`);
+    }
+    const generationError = round.generation ? validateGeneration(round.generation) : null;
+    if (generationError) {
+      throw new functions.https.HttpsError('invalid-argument', `Round ${index + 1} needs ${generationError}.`);
+    }
+  });
+
+  // 3. Every participant must have an account
+  const authService = getAuth(getApp());
+  const participantIds = await Promise.all(emails.map(async (email) => {
+    try {
+      return (await authService.getUserByEmail(email)).uid;
+    } catch {
+      throw new functions.https.HttpsError('not-found', `No player has signed up with ${email}.`);
+    }
+  }));
+
+  // 4. Picked quizzes must be playable by everyone
+  const db = getFirestore(getApp());
+  const quizIds = [...new Set(rounds.map(round => round.quizId).filter((id): id is string => !!id))];
+  const [organizerDoc, ...docs] = await db.getAll(
+    db.collection('users').doc(userId),
+    ...participantIds.map(id => db.collection('users').doc(id)),
+    ...quizIds.map(id => db.collection('quizzes').doc(id)),
+  );
+  const userDocs = docs.slice(0, participantIds.length);
+  const quizzes = new Map(docs.slice(participantIds.length).map(doc => [doc.id, doc.data() as StoredQuiz | undefined]));
+  const tournamentRounds: TournamentRound[] = rounds.map((round, index) => {
+    const quiz = round.quizId ? quizzes.get(round.quizId) : undefined;
+    if (round.quizId && (!quiz || (quiz.status || 'active') !== 'active' || quiz.visibility !== 'global')) {
+      throw new functions.https.HttpsError('failed-precondition', `Round ${index + 1} must be played on an active public quiz.`);
+    }
+    return {
+      quizId: round.quizId || null,
+      quizTitle: quiz ? quiz.title : null,
+      generation: round.generation
+        ? {
+          category: round.generation.category.trim(),
+          difficulty: round.generation.difficulty,
+          numberOfQuestions: round.generation.numberOfQuestions,
+          quizType: round.generation.quizType,
+        }
+        : null,
+      generationError: null,
+      status: index === 0 ? 'open' : 'pending',
+    };
+  });
+
+  // 5. Save the tournament with every match of the schedule; first-round byes are settled straight away
+  const participants: TournamentParticipant[] = participantIds.map((id, index) => ({
+    userId: id,
+    displayName: userDocs[index].get('displayName') || `Player ${id.slice(0, 6)}`,
+    seed: index + 1,
+  }));
+  const tournamentRef = db.collection('tournaments').doc();
+  const now = Timestamp.now();
+  const tournament: StoredTournament = {
+    id: tournamentRef.id,
+    name: name.trim(),
+    organizerId: userId,
+    organizerName: organizerDoc.get('displayName') || `Player ${userId.slice(0, 6)}`,
+    format,
+    status: 'active',
+    participants,
+    memberIds: [...new Set([userId, ...participantIds])],
+    rounds: tournamentRounds,
+    currentRound: 0,
+    standings: [],
+    winnerId: null,
+    createdAt: now,
+    completedAt: null,
+  };
+  const matches = buildMatches(format, participants);
+  advanceTournament(tournament, matches, now);
+
+  const batch = db.batch();
+  batch.set(tournamentRef, tournament);
+  for (const match of matches) {
+    batch.set(tournamentRef.collection('matches').doc(match.id), match);
+  }
+  await batch.commit();
+
+  functions.logger.info(`User ${userId} created ${format} tournament ${tournament.id} with ${participants.length} participants.`);
+  return { tournamentId: tournament.id };
+});
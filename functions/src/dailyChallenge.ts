@@ -0,0 +1,167 @@
+// functions/src/dailyChallenge.ts
+// The Daily Challenge: one global quiz per UTC day that everyone plays, generated on a schedule.
+//
+// dailyChallenges/{date}                    the day's challenge, {date} being the UTC date (YYYY-MM-DD)
+// dailyChallenges/{date}/entries/{userId}   each player's one scored attempt; the day's leaderboard, ranked by `points`.
+//                                           Claimed with the session id when the player starts (see startQuizSession),
+//                                           scored by submitQuiz; until then it has no points and is not ranked
+// dailyChallengeStreaks/{userId}            consecutive days on which the player played the challenge
+//
+// On its own day the challenge quiz can only be played once, as an exam; from the next day on it is
+// an ordinary global quiz in the archive. A quiz is the day's challenge only if dailyChallenges/{date} names it:
+// its dailyChallengeDate alone proves nothing.
+import * as functions from 'firebase-functions';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, DocumentReference, DocumentSnapshot, FieldValue, Firestore, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { generateQuestions } from './quizGeneration.js';
+import { QuizMode, StoredQuiz } from './types.js';
+
+// Rotated through day by day (kept in step with the categories offered in the app)
+export const DAILY_CHALLENGE_CATEGORIES = ['Football', 'Basketball', 'Tennis', 'Formula 1', 'Cricket', 'Golf', 'Rugby'];
+const DAILY_CHALLENGE_QUESTIONS = 10;
+const DAILY_CHALLENGE_SECONDS_PER_QUESTION = 20;
+// createdBy of the generated quizzes: no player owns them
+const DAILY_CHALLENGE_CREATOR = 'daily-challenge';
+
+export interface DailyChallenge {
+  date: string;
+  quizId: string;
+  title: string;
+  category: string;
+  difficulty: StoredQuiz['difficulty'];
+  numberOfQuestions: number;
+}
+
+export interface DailyChallengeStreak {
+  userId: string;
+  current: number; // Consecutive days played, ending on lastPlayedDate
+  longest: number;
+  lastPlayedDate: string | null;
+}
+
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function getDailyChallengeRef(db: Firestore, dateKey: string): DocumentReference {
+  return db.collection('dailyChallenges').doc(dateKey);
+}
+
+export function getDailyChallengeEntryRef(db: Firestore, dateKey: string, userId: string): DocumentReference {
+  return getDailyChallengeRef(db, dateKey).collection('entries').doc(userId);
+}
+
+// Whether the quiz is the one createDailyChallenge generated for the day of `challengeDoc`
+export function isDailyChallengeQuiz(challengeDoc: DocumentSnapshot, quizId: string): boolean {
+  return challengeDoc.exists && challengeDoc.get('quizId') === quizId;
+}
+
+// Each day takes the next category in the list, so every category comes round once a week
+export function getDailyChallengeCategory(dateKey: string): string {
+  const dayNumber = Math.floor(Date.parse(`${dateKey}T00:00:00Z`) / 86400000);
+  return DAILY_CHALLENGE_CATEGORIES[dayNumber % DAILY_CHALLENGE_CATEGORIES.length];
+}
+
+// The streak after playing on `dateKey`: the next day extends it, a gap restarts it
+export function applyDayToStreak(previous: DailyChallengeStreak | null, userId: string, dateKey: string): DailyChallengeStreak {
+  const streak = previous || { userId, current: 0, longest: 0, lastPlayedDate: null };
+  if (streak.lastPlayedDate === dateKey) return streak;
+
+  const gap = streak.lastPlayedDate
+    ? Math.round((Date.parse(`${dateKey}T00:00:00Z`) - Date.parse(`${streak.lastPlayedDate}T00:00:00Z`)) / 86400000)
+    : null;
+  const current = gap === 1 ? streak.current + 1 : 1;
+  return { userId, current, longest: Math.max(streak.longest, current), lastPlayedDate: dateKey };
+}
+
+/**
+ * Rejects sessions that would break the one-scored-attempt rule while the challenge is today's:
+ * it is played in full, as an exam, by players who have not played it yet.
+ */
+export function assertDailyChallengePlayable(mode: QuizMode, hasQuestionSubset: boolean, alreadyPlayed: boolean): void {
+  if (alreadyPlayed) {
+    throw new functions.https.HttpsError('failed-precondition', "You have already played today's Daily Challenge. Come back tomorrow!");
+  }
+  if (mode !== 'exam' || hasQuestionSubset) {
+    throw new functions.https.HttpsError('failed-precondition', "Today's Daily Challenge is played in full as an exam. Practice opens tomorrow.");
+  }
+}
+
+/**
+ * Claims the player's entry for the Daily Challenge of `dateKey` in the transaction that opens their session, so a
+ * second session is refused even while the first is still being played. Nothing is claimed when the session's quiz
+ * is not that day's challenge. Reads before it writes: call it after the transaction's other reads and before its
+ * other writes.
+ */
+export async function claimDailyChallengeEntry(
+  tx: Transaction,
+  db: Firestore,
+  dateKey: string,
+  session: { userId: string; id: string; quizId: string; mode: QuizMode; startedAt: Timestamp },
+  hasQuestionSubset: boolean,
+): Promise<void> {
+  const entryRef = getDailyChallengeEntryRef(db, dateKey, session.userId);
+  const [challengeDoc, entryDoc] = await tx.getAll(getDailyChallengeRef(db, dateKey), entryRef);
+  if (!isDailyChallengeQuiz(challengeDoc, session.quizId)) return;
+  assertDailyChallengePlayable(session.mode, hasQuestionSubset, entryDoc.exists);
+  tx.create(entryRef, { userId: session.userId, sessionId: session.id, startedAt: session.startedAt });
+}
+
+/**
+ * Scheduled Cloud Function creating the day's challenge shortly after midnight UTC.
+ * The quiz and the dailyChallenges document are written in one batch that fails if the day already has a challenge,
+ * so a retried or manually repeated run never creates a second one.
+ */
+export const createDailyChallenge = onSchedule({
+  schedule: '5 0 * * *',
+  timeZone: 'UTC',
+  region: 'us-central1',
+  retryCount: 3,
+}, async () => {
+  const db = getFirestore(getApp());
+  const date = toDateKey(new Date());
+  const challengeRef = getDailyChallengeRef(db, date);
+
+  if ((await challengeRef.get()).exists) {
+    functions.logger.info(`Daily challenge for ${date} already exists; nothing to do.`);
+    return;
+  }
+
+  const category = getDailyChallengeCategory(date);
+  const difficulty: StoredQuiz['difficulty'] = 'medium';
+  const questions = await generateQuestions(db, {
+    category,
+    difficulty,
+    numberOfQuestions: DAILY_CHALLENGE_QUESTIONS,
+    quizType: 'multiple_choice',
+  });
+
+  const quizRef = db.collection('quizzes').doc();
+  const title = `Daily Challenge: ${category} (${date})`;
+  const challenge: DailyChallenge = { date, quizId: quizRef.id, title, category, difficulty, numberOfQuestions: questions.length };
+  const batch = db.batch();
+  batch.create(challengeRef, { ...challenge, createdAt: FieldValue.serverTimestamp() });
+  batch.set(quizRef, {
+    id: quizRef.id,
+    title,
+    category,
+    difficulty,
+    event: '',
+    team: '',
+    country: '',
+    questions,
+    createdAt: FieldValue.serverTimestamp(),
+    createdBy: DAILY_CHALLENGE_CREATOR,
+    visibility: 'global',
+    status: 'active',
+    quizType: 'multiple_choice',
+    timePerQuestionSeconds: DAILY_CHALLENGE_SECONDS_PER_QUESTION,
+    totalTimeLimitSeconds: null,
+    shuffleOptions: true,
+    dailyChallengeDate: date,
+  });
+  await batch.commit();
+
+  functions.logger.info(`Created daily challenge ${quizRef.id} for ${date} (${category}).`);
+});
@@ -9,29 +9,11 @@ import { getApp } from 'firebase-admin/app';
 import { getFirestore, FieldValue } from 'firebase-admin/firestore'; // Specifically import getFirestore and FieldValue
 import { getAuth } from 'firebase-admin/auth';
 
-import { GoogleGenerativeAI, GenerateContentRequest } from "@google/generative-ai";
-import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
-
-// Securely fetch Gemini API key
-let geminiApiKey: string | undefined;
-async function getGeminiApiKey(): Promise<string | undefined> {
-  if (geminiApiKey) return geminiApiKey; // Memoize the key
-  const client = new SecretManagerServiceClient();
-  try {
-    const [version] = await client.accessSecretVersion({
-      name: 'projects/sportsquiz-3bb45/secrets/GEMINI_API_KEY/versions/latest'
-    });
-    geminiApiKey = version.payload?.data?.toString();
-    return geminiApiKey;
-  } catch (error: unknown) {
-    let errorMessage = 'Unknown error accessing Secret Manager';
-    if (error instanceof Error) {
-      errorMessage = error.message;
-    }
-    functions.logger.error("Failed to access Secret Manager for Gemini API Key:", errorMessage);
-    return undefined;
-  }
-}
+import { GeneratedQuestionType } from './providers/index.js';
+import { generateQuestions } from './quizGeneration.js';
+import { GENERATED_QUESTION_TYPES } from './questionValidation.js';
+import { validateTypeDistribution } from './typeDistribution.js';
+import { TypeDistribution } from './types.js';
 
 // --- MODIFICATION 1: Update QuizGenerationCallableRequest interface ---
 // Define expected request body from client for onCall
@@ -45,14 +27,23 @@ interface QuizGenerationCallableRequest {
   country?: string;
   visibility?: 'global' | 'private';
   // ✅ NEW: Add quizType to the expected request payload
-  quizType: 'multiple_choice' | 'true_false';
+  quizType: GeneratedQuestionType | 'mixed';
+  typeDistribution?: TypeDistribution; // Required for 'mixed': percentage per question type
+  // Optional countdowns; omit or null for an untimed quiz
+  timePerQuestionSeconds?: number | null;
+  totalTimeLimitSeconds?: number | null;
 }
 
-// Define Gemini output structure (No change needed here for this step)
-interface GeminiQuestion {
-  question: string;
-  options: string[];
-  answer: string;
+// Bounds for the optional time limits, in seconds
+const MIN_TIME_PER_QUESTION = 5;
+const MAX_TIME_PER_QUESTION = 300;
+const MIN_TOTAL_TIME_LIMIT = 30;
+const MAX_TOTAL_TIME_LIMIT = 3 * 60 * 60;
+
+// Returns true when `value` is unset or a whole number of seconds within [min, max]
+function isValidTimeLimit(value: unknown, min: number, max: number): boolean {
+  if (value === undefined || value === null) return true;
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
 }
 
 // Use onCall from v2, with corrected signature
@@ -88,7 +79,7 @@ export const generateQuiz = onCall({ region: 'us-central1' }, async (request: Ca
 
   // --- MODIFICATION 2: Destructure and Validate new quizType ---
   // 2. Validate input from data (payload)
-  const { category, difficulty, numberOfQuestions, team, event, country, title, quizType } = data; // ✅ NEW: Destructure quizType
+  const { category, difficulty, numberOfQuestions, team, event, country, title, quizType, typeDistribution, timePerQuestionSeconds, totalTimeLimitSeconds } = data; // ✅ NEW: Destructure quizType
   const requestedVisibility = data.visibility || 'private';
 
   if (!category || typeof category !== 'string' || category.trim() === '') {
@@ -104,131 +95,48 @@ export const generateQuiz = onCall({ region: 'us-central1' }, async (request: Ca
     );
   }
   // ✅ NEW: Validate quizType
-  if (!quizType || !['multiple_choice', 'true_false'].includes(quizType)) {
+  if (!quizType || (quizType !== 'mixed' && !GENERATED_QUESTION_TYPES.includes(quizType))) {
     throw new functions.https.HttpsError(
       'invalid-argument',
-      'Quiz type is required and must be "multiple_choice" or "true_false".'
+      `Quiz type is required and must be "mixed" or one of: ${GENERATED_QUESTION_TYPES.join(', ')}.`
     );
   }
-
-  // 3. Determine final visibility based on user role and request
-  const finalVisibility: 'private' | 'global' =
-    isAdmin && requestedVisibility === 'global' ? 'global' : 'private';
-
-  const apiKey = await getGeminiApiKey();
-  if (!apiKey) {
-    functions.logger.error("Gemini API key not found during function execution.");
-    throw new functions.https.HttpsError('internal', 'Server configuration error: Gemini API key missing.');
-  }
-
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-
-  // --- MODIFICATION 3: Dynamically construct the Gemini prompt ---
-  let questionFormatInstructions: string;
-  let responseFormatInstructions: string;
-  // REMOVE 'answerChoiceOptions' declaration, as it's not used directly
-  // let answerChoiceOptions: string; // To specify options for validation later
-
-  let expectedAnswers: string[]; // Define this to use for validation
-
-  if (quizType === 'multiple_choice') {
-    questionFormatInstructions = `multiple-choice questions. Each question must have exactly 4 options.`;
-    responseFormatInstructions = `question (string), options (array of 4 strings, e.g., ["A. Option 1", "B. Option 2", "C. Option 3", "D. Option 4"]), and answer (string, one of "A", "B", "C", or "D").`;
-    expectedAnswers = ['A', 'B', 'C', 'D']; // Use this for validation
-  } else if (quizType === 'true_false') {
-    questionFormatInstructions = `True/False questions. Each question must be a statement that is either definitively True or False.`;
-    responseFormatInstructions = `question (string), options (array containing ONLY "True" and "False"), and answer (string, either "True" or "False").`;
-    expectedAnswers = ['True', 'False']; // Use this for validation
-  } else {
-    // This case should ideally be caught by validation above, but as a fallback:
-    throw new functions.https.HttpsError('invalid-argument', `Unsupported quizType: ${quizType}.`);
-  }
-
-  const promptText = `You are a professional sports quiz generator. Generate exactly ${numberOfQuestions} ${questionFormatInstructions} about ${category}${difficulty ? ` with ${difficulty} difficulty` : ""}${team ? ` focused on ${team}` : ""}${event ? ` about the ${event}` : ""}${country ? ` in ${country}` : ""}.
-
-Return ONLY a JSON array of ${numberOfQuestions} such objects, parsable by JSON.parse(). Each object should have these properties: ${responseFormatInstructions} DO NOT add explanations, markdown, or extra text.`;
-
-  const generateContentRequest: GenerateContentRequest = {
-    contents: [{ role: 'user', parts: [{ text: promptText }] }],
-    generationConfig: {
-      responseMimeType: "application/json",
-    },
-  };
-
-  let text: string;
-  try {
-    const result = await model.generateContent(generateContentRequest);
-    const response = result.response;
-    text = await response.text();
-  } catch (aiError: unknown) {
-    let errorMessage = 'Unknown AI error';
-    if (aiError instanceof Error) {
-      errorMessage = aiError.message;
-    } else if (typeof aiError === 'string') {
-      errorMessage = aiError;
+  if (quizType === 'mixed') {
+    const distributionError = validateTypeDistribution(typeDistribution, GENERATED_QUESTION_TYPES);
+    if (distributionError) {
+      throw new functions.https.HttpsError('invalid-argument', distributionError);
     }
-    functions.logger.error("Gemini API call failed:", errorMessage);
-    throw new functions.https.HttpsError('internal', 'Failed to generate quiz content from AI.');
   }
 
-  functions.logger.info("RAW GEMINI RESPONSE:", text);
-
-  let cleanedText = text.trim();
-  if (cleanedText.startsWith('```json')) cleanedText = cleanedText.slice(7);
-  if (cleanedText.endsWith('```')) cleanedText = cleanedText.slice(0, -3);
-  cleanedText = cleanedText.trim();
-
-  let questionsRaw: GeminiQuestion[];
-  try {
-    questionsRaw = JSON.parse(cleanedText);
-  } catch (e: unknown) {
-    let errorMessage = 'Unknown JSON parse error';
-    if (e instanceof Error) {
-      errorMessage = e.message;
-    }
-    functions.logger.error("Failed to parse JSON from Gemini:", { rawOutput: cleanedText, parseError: errorMessage });
-    throw new functions.https.HttpsError('internal', "Invalid JSON format from AI. Please try again.");
+  if (!isValidTimeLimit(timePerQuestionSeconds, MIN_TIME_PER_QUESTION, MAX_TIME_PER_QUESTION)) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      `Time per question must be a whole number of seconds between ${MIN_TIME_PER_QUESTION} and ${MAX_TIME_PER_QUESTION}.`
+    );
   }
-
-  if (!Array.isArray(questionsRaw) || questionsRaw.length !== numberOfQuestions) {
-    functions.logger.error(`Expected ${numberOfQuestions} questions but got:`, questionsRaw.length, questionsRaw);
-    throw new functions.https.HttpsError('internal', `AI did not return the expected number of questions or format.`);
+  if (!isValidTimeLimit(totalTimeLimitSeconds, MIN_TOTAL_TIME_LIMIT, MAX_TOTAL_TIME_LIMIT)) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      `Total time limit must be a whole number of seconds between ${MIN_TOTAL_TIME_LIMIT} and ${MAX_TOTAL_TIME_LIMIT}.`
+    );
   }
 
-  // --- MODIFICATION 4: Update question validation and mapping for quizType ---
-  const invalidQuestions = questionsRaw.filter((q, index) => {
-    let isValid = typeof q.question === 'string' && q.question.trim().length > 0 &&
-      Array.isArray(q.options) && q.options.every(opt => typeof opt === 'string' && opt.trim().length > 0);
-
-    if (quizType === 'multiple_choice') {
-      // Use expectedAnswers for validation here
-      isValid = isValid && q.options.length === 4 && expectedAnswers.includes(q.answer);
-    } else if (quizType === 'true_false') {
-      // Use expectedAnswers for validation here
-      isValid = isValid && q.options.length === 2 &&
-        (q.options[0] === 'True' && q.options[1] === 'False' || q.options[0] === 'False' && q.options[1] === 'True') &&
-        expectedAnswers.includes(q.answer);
-    }
+  // 3. Determine final visibility based on user role and request
+  const finalVisibility: 'private' | 'global' =
+    isAdmin && requestedVisibility === 'global' ? 'global' : 'private';
 
-    if (!isValid) {
-      functions.logger.error(`Invalid question at index ${index} from AI for type ${quizType}:`, q);
-    }
-    return !isValid;
+  // Provider call and validation per question type (see quizGeneration.ts)
+  const questions = await generateQuestions(db, {
+    category,
+    difficulty,
+    numberOfQuestions,
+    quizType,
+    typeDistribution,
+    team,
+    event,
+    country,
   });
 
-  if (invalidQuestions.length > 0) {
-    throw new functions.https.HttpsError('internal', `Some generated questions were invalid for type ${quizType}.`);
-  }
-
-  const questions = questionsRaw.map((q) => ({ // REMOVED 'i' from here as it's unused
-    id: db.collection('quizzes').doc().id, // Generate unique ID for each question
-    text: q.question,
-    type: quizType, // ✅ NEW: Assign the generated quizType to each question
-    options: q.options,
-    correctAnswer: q.answer
-  }));
-
   const quizId = db.collection('quizzes').doc().id;
   const quizToSave = {
     id: quizId,
@@ -243,7 +151,10 @@ Return ONLY a JSON array of ${numberOfQuestions} such objects, parsable by JSON.
     createdBy: userId,
     visibility: finalVisibility,
     // --- MODIFICATION 5: Add quizType to the saved Quiz object ---
-    quizType: quizType // ✅ NEW: Store the type it was generated as in the database
+    quizType: quizType, // ✅ NEW: Store the type it was generated as in the database
+    ...(quizType === 'mixed' ? { typeDistribution } : {}),
+    timePerQuestionSeconds: timePerQuestionSeconds ?? null,
+    totalTimeLimitSeconds: totalTimeLimitSeconds ?? null,
   };
 
   functions.logger.info("Saving quiz to Firestore:", JSON.stringify(quizToSave, null, 2));
@@ -0,0 +1,47 @@
+// functions/src/getTeamMatchInvite.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { getTeamMatchRef, isTeamMatchExpired, StoredTeamMatch, wasClosedUnanswered } from './teams.js';
+
+interface GetTeamMatchInviteRequest {
+  matchId: string;
+}
+
+/**
+ * Callable Cloud Function serving a match link to another team's captain.
+ * Only the members of the teams in a match can read it, so the challenging team's roster stays private:
+ * the invite holds the challenging team's name, the quiz and the scoring, which is all the captain needs to respond.
+ */
+export const getTeamMatchInvite = onCall({ region: 'us-central1' }, async (request: CallableRequest<GetTeamMatchInviteRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+
+  // 2. Input Validation
+  const matchId = request.data?.matchId;
+  if (typeof matchId !== 'string' || matchId.trim() === '') {
+    throw new functions.https.HttpsError('invalid-argument', 'The `matchId` is required and must be a non-empty string.');
+  }
+
+  const db = getFirestore(getApp());
+  const match = (await getTeamMatchRef(db, matchId).get()).data() as StoredTeamMatch | undefined;
+  if (!match) {
+    throw new functions.https.HttpsError('not-found', 'Team match not found.');
+  }
+
+  const home = match.sides[match.teamIds[0]];
+  return {
+    id: match.id,
+    teamId: home.teamId,
+    teamName: home.name,
+    quizId: match.quizId,
+    quizTitle: match.quizTitle,
+    scoring: match.scoring,
+    status: match.status,
+    isExpired: (match.status === 'pending' && isTeamMatchExpired(match, Timestamp.now())) || wasClosedUnanswered(match),
+    expiresAt: match.expiresAt.toMillis(),
+  };
+});
@@ -0,0 +1,83 @@
+// functions/src/groups.ts
+// Coach groups and their assignments.
+//
+// groups/{groupId}                             the group: coach, roster and invite code; readable by the coach
+//                                              and the members
+// groups/{groupId}/assignments/{assignmentId}  a quiz the coach set the group, with a due date and an attempt limit
+//
+// Players join a group through its invite link (/groups/join/{inviteCode}); the coach manages the roster and is not
+// a member themselves. An assignment is played like any exam, with the group and assignment given to
+// startQuizSession, which holds the due date and counts the member's attempts. submitQuiz stamps the attempt with
+// the group and assignment, and that stamp is what lets the coach read it (see the quizAttempts rules): the coach's
+// results grid is built from those attempts.
+import * as functions from 'firebase-functions';
+import { DocumentReference, Firestore, Timestamp } from 'firebase-admin/firestore';
+
+export const MAX_GROUP_MEMBERS = 50;
+export const MAX_GROUP_NAME_LENGTH = 40;
+export const MAX_ASSIGNMENT_ATTEMPTS = 10;
+
+export interface GroupMember {
+  userId: string;
+  displayName: string;
+  joinedAt: Timestamp;
+}
+
+export interface StoredGroup {
+  id: string;
+  name: string;
+  coachId: string;
+  coachName: string;
+  members: GroupMember[]; // In the order they joined; the coach is not one of them
+  memberIds: string[]; // Same players; lets the rules and the /groups page check membership
+  inviteCode: string;
+  createdAt: Timestamp;
+}
+
+export interface StoredAssignment {
+  id: string;
+  groupId: string;
+  quizId: string;
+  quizTitle: string;
+  questionCount: number;
+  dueAt: Timestamp;
+  maxAttempts: number;
+  attemptsStarted: Record<string, number>; // Sessions each member opened for it, counted by startQuizSession
+  createdAt: Timestamp;
+}
+
+export function getGroupRef(db: Firestore, groupId: string): DocumentReference {
+  return db.collection('groups').doc(groupId);
+}
+
+export function getAssignmentRef(db: Firestore, groupId: string, assignmentId: string): DocumentReference {
+  return getGroupRef(db, groupId).collection('assignments').doc(assignmentId);
+}
+
+export function assertGroupCoach(group: StoredGroup, userId: string): void {
+  if (group.coachId !== userId) {
+    throw new functions.https.HttpsError('permission-denied', 'Only the group coach can do this.');
+  }
+}
+
+/**
+ * Rejects a session for an assignment the caller cannot play: they must be a member of the group, the assignment
+ * must be on this quiz and not yet due, and they must have attempts left. Starting a session uses one up, whether
+ * or not it is submitted.
+ */
+export function assertAssignmentPlayable(group: StoredGroup, assignment: StoredAssignment, userId: string, quizId: string, now: Timestamp): void {
+  if (!group.memberIds.includes(userId)) {
+    throw new functions.https.HttpsError('permission-denied', 'You are not a member of this group.');
+  }
+  if (assignment.quizId !== quizId) {
+    throw new functions.https.HttpsError('invalid-argument', 'This assignment is on a different quiz.');
+  }
+  if (now.toMillis() > assignment.dueAt.toMillis()) {
+    throw new functions.https.HttpsError('failed-precondition', 'This assignment is past its due date.');
+  }
+  if ((assignment.attemptsStarted[userId] || 0) >= assignment.maxAttempts) {
+    throw new functions.https.HttpsError('failed-precondition', assignment.maxAttempts === 1
+      ? 'You have already used your attempt at this assignment.'
+      : `You have used all ${assignment.maxAttempts} attempts at this assignment.`);
+  }
+}
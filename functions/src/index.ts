@@ -11,6 +11,38 @@ initializeApp(); // Call initializeApp directly from the specific import
 import { generateQuiz } from "./generateQuiz.js";
 import { submitQuiz } from "./submitQuiz.js"; // ⭐ FIX: Corrected '././submitQuiz.js' to './submitQuiz.js'
 import { deleteQuiz } from "./deleteQuiz.js"; // ⭐ NEW: Import deleteQuiz
+import { checkAnswer } from "./checkAnswer.js";
+import { lockExamAnswer } from "./lockExamAnswer.js";
+import { startQuizSession } from "./startQuizSession.js";
+import { syncQuizPlayerView, rebuildQuizPlayerViews } from "./quizPlayerViews.js";
+import { updateLeaderboards } from "./leaderboards.js";
+import { regenerateQuestion } from "./regenerateQuestion.js";
+import { updateReviewSchedule } from "./reviewQueue.js";
+import { createDailyChallenge } from "./dailyChallenge.js";
+import { createRoom } from "./createRoom.js";
+import { joinRoom } from "./joinRoom.js";
+import { submitRoomAnswer } from "./submitRoomAnswer.js";
+import { advanceRoom } from "./advanceRoom.js";
+import { createChallenge } from "./createChallenge.js";
+import { respondToChallenge } from "./respondToChallenge.js";
+import { prepareTournamentRound } from "./tournaments.js";
+import { createTournament } from "./createTournament.js";
+import { reseedTournament } from "./reseedTournament.js";
+import { resolveTournamentMatch } from "./resolveTournamentMatch.js";
+import { retryTournamentRound } from "./retryTournamentRound.js";
+import { closeExpiredTeamMatches, updateTeamStandings } from "./teams.js";
+import { createTeam } from "./createTeam.js";
+import { joinTeam } from "./joinTeam.js";
+import { leaveTeam } from "./leaveTeam.js";
+import { manageTeam } from "./manageTeam.js";
+import { createTeamMatch } from "./createTeamMatch.js";
+import { respondToTeamMatch } from "./respondToTeamMatch.js";
+import { getTeamMatchInvite } from "./getTeamMatchInvite.js";
+import { createGroup } from "./createGroup.js";
+import { joinGroup } from "./joinGroup.js";
+import { leaveGroup } from "./leaveGroup.js";
+import { manageGroup } from "./manageGroup.js";
+import { createAssignment } from "./createAssignment.js";
 
 // ✅ Test function for emulator verification
 export const helloWorld = onRequest((request, response) => {
@@ -21,4 +53,16 @@ export const helloWorld = onRequest((request, response) => {
 // ✅ Export your callable Cloud Functions for Firebase to detect
 export { generateQuiz };
 export { submitQuiz };
-export { deleteQuiz }; // ⭐ NEW: Export deleteQuiz
\ No newline at end of file
+export { deleteQuiz }; // ⭐ NEW: Export deleteQuiz
+export { checkAnswer, lockExamAnswer };
+export { startQuizSession };
+export { syncQuizPlayerView, rebuildQuizPlayerViews };
+export { updateLeaderboards };
+export { regenerateQuestion };
+export { updateReviewSchedule };
+export { createDailyChallenge };
+export { createRoom, joinRoom, submitRoomAnswer, advanceRoom };
+export { createChallenge, respondToChallenge };
+export { createTournament, reseedTournament, resolveTournamentMatch, retryTournamentRound, prepareTournamentRound };
+export { createTeam, joinTeam, leaveTeam, manageTeam, createTeamMatch, getTeamMatchInvite, respondToTeamMatch, closeExpiredTeamMatches, updateTeamStandings };
+export { createGroup, joinGroup, leaveGroup, manageGroup, createAssignment };
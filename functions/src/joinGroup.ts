@@ -0,0 +1,61 @@
+// functions/src/joinGroup.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { MAX_GROUP_MEMBERS, StoredGroup } from './groups.js';
+
+interface JoinGroupRequest {
+  inviteCode: string;
+}
+
+/**
+ * Callable Cloud Function adding the caller to the group an invite link belongs to.
+ * Opening the link again as a member, or as the coach, just returns the group.
+ */
+export const joinGroup = onCall({ region: 'us-central1' }, async (request: CallableRequest<JoinGroupRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const inviteCode = request.data?.inviteCode;
+  if (typeof inviteCode !== 'string' || inviteCode.trim() === '') {
+    throw new functions.https.HttpsError('invalid-argument', 'The `inviteCode` is required and must be a non-empty string.');
+  }
+
+  const db = getFirestore(getApp());
+  const groupSnapshot = await db.collection('groups').where('inviteCode', '==', inviteCode.trim()).limit(1).get();
+  if (groupSnapshot.empty) {
+    throw new functions.https.HttpsError('not-found', 'This invite link is no longer valid. Ask the coach for a new one.');
+  }
+  const groupRef = groupSnapshot.docs[0].ref;
+  const userRef = db.collection('users').doc(userId);
+
+  // 3. Add the member (in a transaction so the roster limit holds when several players join at once)
+  const joined = await db.runTransaction(async (tx) => {
+    const [groupDoc, userDoc] = await tx.getAll(groupRef, userRef);
+    const group = groupDoc.data() as StoredGroup | undefined;
+    // The coach may have issued a new code since the lookup
+    if (!group || group.inviteCode !== inviteCode.trim()) {
+      throw new functions.https.HttpsError('not-found', 'This invite link is no longer valid. Ask the coach for a new one.');
+    }
+    if (group.coachId === userId || group.memberIds.includes(userId)) return false;
+    if (group.memberIds.length >= MAX_GROUP_MEMBERS) {
+      throw new functions.https.HttpsError('resource-exhausted', `This group is full (${MAX_GROUP_MEMBERS} members).`);
+    }
+
+    tx.update(groupRef, {
+      members: [...group.members, { userId, displayName: userDoc.get('displayName') || `Player ${userId.slice(0, 6)}`, joinedAt: Timestamp.now() }],
+      memberIds: [...group.memberIds, userId],
+    });
+    return true;
+  });
+
+  if (joined) {
+    functions.logger.info(`User ${userId} joined group ${groupRef.id}.`);
+  }
+  return { groupId: groupRef.id };
+});
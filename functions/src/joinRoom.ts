@@ -0,0 +1,62 @@
+// functions/src/joinRoom.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { FieldValue, getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { getRoomRef, parseRoomCode, StoredRoom, StoredRoomPlayer } from './rooms.js';
+
+interface JoinRoomRequest {
+  code: string;
+}
+
+/**
+ * Callable Cloud Function adding the caller to a live room as a player.
+ * Players can join until the room is finished, also mid-game (they start on zero);
+ * joining again, e.g. after a reload, keeps the player's score.
+ */
+export const joinRoom = onCall({ region: 'us-central1' }, async (request: CallableRequest<JoinRoomRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const code = parseRoomCode(request.data?.code);
+
+  const db = getFirestore(getApp());
+  const roomRef = getRoomRef(db, code);
+  const playerRef = roomRef.collection('players').doc(userId);
+  const userRef = db.collection('users').doc(userId);
+
+  // 3. Add the player (in a transaction so playerCount stays in step with the players collection)
+  await db.runTransaction(async (tx) => {
+    const [roomDoc, playerDoc, userDoc] = await tx.getAll(roomRef, playerRef, userRef);
+    if (!roomDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Room not found. Check the code and try again.');
+    }
+    const room = roomDoc.data() as StoredRoom;
+    if (room.hostId === userId) {
+      throw new functions.https.HttpsError('failed-precondition', 'You are hosting this room.');
+    }
+    if (playerDoc.exists) return; // Rejoining
+    if (room.status === 'finished') {
+      throw new functions.https.HttpsError('failed-precondition', 'This game has already finished.');
+    }
+
+    const player: StoredRoomPlayer = {
+      userId,
+      displayName: userDoc.get('displayName') || `Player ${userId.slice(0, 6)}`,
+      score: 0,
+      points: 0,
+      correctCount: 0,
+      lastResult: null,
+      joinedAt: Timestamp.now(),
+    };
+    tx.create(playerRef, player);
+    tx.update(roomRef, { playerCount: FieldValue.increment(1) });
+  });
+
+  functions.logger.info(`User ${userId} joined room ${code}.`);
+  return { code };
+});
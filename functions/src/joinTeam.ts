@@ -0,0 +1,61 @@
+// functions/src/joinTeam.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { MAX_TEAM_MEMBERS, StoredTeam } from './teams.js';
+
+interface JoinTeamRequest {
+  inviteCode: string;
+}
+
+/**
+ * Callable Cloud Function adding the caller to the team an invite link belongs to.
+ * Opening the link again as a member just returns the team.
+ */
+export const joinTeam = onCall({ region: 'us-central1' }, async (request: CallableRequest<JoinTeamRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const inviteCode = request.data?.inviteCode;
+  if (typeof inviteCode !== 'string' || inviteCode.trim() === '') {
+    throw new functions.https.HttpsError('invalid-argument', 'The `inviteCode` is required and must be a non-empty string.');
+  }
+
+  const db = getFirestore(getApp());
+  const teamSnapshot = await db.collection('teams').where('inviteCode', '==', inviteCode.trim()).limit(1).get();
+  if (teamSnapshot.empty) {
+    throw new functions.https.HttpsError('not-found', 'This invite link is no longer valid. Ask the captain for a new one.');
+  }
+  const teamRef = teamSnapshot.docs[0].ref;
+  const userRef = db.collection('users').doc(userId);
+
+  // 3. Add the member (in a transaction so the roster limit holds when several players join at once)
+  const joined = await db.runTransaction(async (tx) => {
+    const [teamDoc, userDoc] = await tx.getAll(teamRef, userRef);
+    const team = teamDoc.data() as StoredTeam | undefined;
+    // The captain may have issued a new code since the lookup
+    if (!team || team.inviteCode !== inviteCode.trim()) {
+      throw new functions.https.HttpsError('not-found', 'This invite link is no longer valid. Ask the captain for a new one.');
+    }
+    if (team.memberIds.includes(userId)) return false;
+    if (team.memberIds.length >= MAX_TEAM_MEMBERS) {
+      throw new functions.https.HttpsError('resource-exhausted', `This team is full (${MAX_TEAM_MEMBERS} members).`);
+    }
+
+    tx.update(teamRef, {
+      members: [...team.members, { userId, displayName: userDoc.get('displayName') || `Player ${userId.slice(0, 6)}`, joinedAt: Timestamp.now() }],
+      memberIds: [...team.memberIds, userId],
+    });
+    return true;
+  });
+
+  if (joined) {
+    functions.logger.info(`User ${userId} joined team ${teamRef.id}.`);
+  }
+  return { teamId: teamRef.id };
+});
@@ -0,0 +1,182 @@
+// functions/src/leaderboards.ts
+// Leaderboard aggregates, maintained from every exam attempt that submitQuiz writes for a global quiz
+// (attempts on a quiz the player created themselves are left out).
+//
+// leaderboards/{boardId}                  board metadata (kind, window, quiz or category, title)
+// leaderboards/{boardId}/entries/{userId} one row per player, ranked by `points` (descending)
+// leaderboards/{boardId}/entries/{userId}/quizBests/{quizId}
+//                                         summed boards only: the player's best points on one quiz within the board,
+//                                         so replaying a quiz only adds what it improves on; never readable by clients
+//
+// Board ids (kept in sync with src/utils/leaderboard.ts):
+//   quiz_{quizId}                          best attempt per player on one quiz
+//   global_all_time / global_{week}        points summed over every quiz, each quiz counting with the player's best
+//   category_{slug}_all_time / category_{slug}_{week}
+//   teams_all_time / teams_{week}          team match points, one row per team (entries/{teamId}, see teams.ts)
+// where {week} is the ISO week of the attempt in UTC, e.g. 2026-W42.
+import * as functions from 'firebase-functions';
+import { onDocumentCreated } from 'firebase-functions/v2/firestore';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, FieldValue, Firestore, Timestamp, Transaction, DocumentReference } from 'firebase-admin/firestore';
+import { BASE_POINTS } from './scoring.js';
+import { isSubmittedAttemptOf } from './sessions.js';
+import { QuizMode, StoredQuiz, StoredQuizSession } from './types.js';
+
+export type LeaderboardKind = 'quiz' | 'global' | 'category' | 'team';
+export type LeaderboardWindow = 'all_time' | 'weekly' | 'best';
+
+export interface LeaderboardBoard {
+  id: string;
+  kind: LeaderboardKind;
+  window: LeaderboardWindow;
+  title: string;
+  quizId?: string;
+  category?: string;
+  week?: string;
+}
+
+// The attempt fields the leaderboards read, as written by submitQuiz
+interface AttemptForLeaderboard {
+  userId: string;
+  quizId: string;
+  sessionId?: string; // The quizSessions doc submitQuiz closed with this attempt
+  score: number;
+  totalQuestions: number;
+  points?: number;
+  mode?: QuizMode; // Missing on attempts from before practice mode, which all counted
+  completedAt?: Timestamp;
+  leaderboardsUpdatedAt?: Timestamp;
+}
+
+// ISO 8601 week of a date in UTC, e.g. "2026-W42"
+export function getIsoWeekKey(date: Date): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const weekday = day.getUTCDay() || 7; // Monday = 1 ... Sunday = 7
+  day.setUTCDate(day.getUTCDate() + 4 - weekday); // Thursday of this week decides the year
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${day.getUTCFullYear()}-W${week.toString().padStart(2, '0')}`;
+}
+
+// Lowercase, dash-separated category name that is safe to use inside a document id
+export function toCategorySlug(category: string): string {
+  return category.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'uncategorized';
+}
+
+// Attempts written before timed scoring existed have no points: count every correct answer at the base value
+function getAttemptPoints(attempt: AttemptForLeaderboard): number {
+  return typeof attempt.points === 'number' ? attempt.points : attempt.score * BASE_POINTS;
+}
+
+function getBoardsForAttempt(quiz: StoredQuiz, quizId: string, week: string): { best: LeaderboardBoard; summed: LeaderboardBoard[] } {
+  const category = quiz.category || 'Uncategorized';
+  const slug = toCategorySlug(category);
+  return {
+    best: { id: `quiz_${quizId}`, kind: 'quiz', window: 'best', title: quiz.title, quizId },
+    summed: [
+      { id: 'global_all_time', kind: 'global', window: 'all_time', title: 'All Quizzes' },
+      { id: `global_${week}`, kind: 'global', window: 'weekly', title: 'All Quizzes', week },
+      { id: `category_${slug}_all_time`, kind: 'category', window: 'all_time', title: category, category },
+      { id: `category_${slug}_${week}`, kind: 'category', window: 'weekly', title: category, category, week },
+    ],
+  };
+}
+
+// Team boards are summed like the global ones, from completed team matches rather than attempts
+export function getTeamBoards(week: string): LeaderboardBoard[] {
+  return [
+    { id: 'teams_all_time', kind: 'team', window: 'all_time', title: 'Teams' },
+    { id: `teams_${week}`, kind: 'team', window: 'weekly', title: 'Teams', week },
+  ];
+}
+
+// The row of one player (or team, on team boards)
+export function boardEntryRef(db: Firestore, boardId: string, entryId: string): DocumentReference {
+  return db.collection('leaderboards').doc(boardId).collection('entries').doc(entryId);
+}
+
+export function writeBoard(tx: Transaction, db: Firestore, board: LeaderboardBoard): void {
+  tx.set(db.collection('leaderboards').doc(board.id), { ...board, updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+}
+
+/**
+ * Firestore trigger that folds each new quiz attempt into the leaderboards.
+ * Only attempts recorded by submitQuiz count, checked against the session they closed.
+ * Runs in a transaction and stamps the attempt, so a retried event is never counted twice.
+ */
+export const updateLeaderboards = onDocumentCreated({ document: 'quizAttempts/{attemptId}', region: 'us-central1' }, async (event) => {
+  if (!event.data) return;
+
+  const db = getFirestore(getApp());
+  const attemptRef = event.data.ref;
+
+  await db.runTransaction(async (tx) => {
+    const attemptDoc = await tx.get(attemptRef);
+    const attempt = attemptDoc.data() as AttemptForLeaderboard | undefined;
+    if (!attempt || attempt.leaderboardsUpdatedAt) return; // Gone, or already counted by an earlier delivery
+    if (attempt.mode === 'practice') return; // Practice runs never count
+
+    const sessionDoc = attempt.sessionId ? await tx.get(db.collection('quizSessions').doc(attempt.sessionId)) : null;
+    if (!isSubmittedAttemptOf(sessionDoc?.data() as StoredQuizSession | undefined, attemptRef.id, attempt)) {
+      functions.logger.warn(`Attempt ${attemptRef.id} does not match a submitted session; skipping leaderboards.`);
+      return;
+    }
+
+    const quizDoc = await tx.get(db.collection('quizzes').doc(attempt.quizId));
+    if (!quizDoc.exists) {
+      functions.logger.warn(`Attempt ${attemptRef.id} references missing quiz ${attempt.quizId}; skipping leaderboards.`);
+      return;
+    }
+    const quiz = quizDoc.data() as StoredQuiz;
+    // Only public quizzes count: private ones are visible to their creator alone and could be farmed.
+    // Neither does a creator's own quiz, since they wrote its answer key.
+    if (quiz.visibility !== 'global' || quiz.createdBy === attempt.userId) return;
+
+    const userDoc = await tx.get(db.collection('users').doc(attempt.userId));
+    const displayName: string = userDoc.get('displayName') || `Player ${attempt.userId.slice(0, 6)}`;
+
+    const completedAt = attempt.completedAt || Timestamp.now();
+    const boards = getBoardsForAttempt(quiz, attempt.quizId, getIsoWeekKey(completedAt.toDate()));
+    const points = getAttemptPoints(attempt);
+
+    // All reads happen before any write, as Firestore transactions require
+    const bestEntryRef = boardEntryRef(db, boards.best.id, attempt.userId);
+    const quizBestRefs = boards.summed.map(board =>
+      boardEntryRef(db, board.id, attempt.userId).collection('quizBests').doc(attempt.quizId));
+    const [bestEntry, ...quizBests] = await tx.getAll(bestEntryRef, ...quizBestRefs);
+
+    const previousBest = bestEntry.exists ? (bestEntry.get('points') as number) : -1;
+    writeBoard(tx, db, boards.best);
+    if (points > previousBest) {
+      tx.set(bestEntryRef, {
+        userId: attempt.userId,
+        displayName,
+        points,
+        score: attempt.score,
+        totalQuestions: attempt.totalQuestions,
+        attemptId: attemptRef.id,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+
+    // Summed boards count each quiz once per player, with their best attempt on it: a replay only adds the
+    // points it improves on, so memorising one public quiz cannot be farmed. `attempts` counts the quizzes played.
+    boards.summed.forEach((board, index) => {
+      const quizBest = quizBests[index];
+      const previousQuizBest = quizBest.exists ? (quizBest.get('points') as number) : null;
+      const gain = Math.max(0, points - (previousQuizBest ?? 0));
+      writeBoard(tx, db, board);
+      if (previousQuizBest !== null && gain === 0) return;
+      tx.set(boardEntryRef(db, board.id, attempt.userId), {
+        userId: attempt.userId,
+        displayName,
+        points: FieldValue.increment(gain),
+        attempts: FieldValue.increment(previousQuizBest === null ? 1 : 0),
+        updatedAt: FieldValue.serverTimestamp(),
+      }, { merge: true });
+      tx.set(quizBest.ref, { points: Math.max(points, previousQuizBest ?? 0), attemptId: attemptRef.id });
+    });
+
+    tx.update(attemptRef, { leaderboardsUpdatedAt: FieldValue.serverTimestamp() });
+  });
+});
@@ -0,0 +1,46 @@
+// functions/src/leaveGroup.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getGroupRef, StoredGroup } from './groups.js';
+
+interface LeaveGroupRequest {
+  groupId: string;
+}
+
+/**
+ * Callable Cloud Function with which a member leaves a group.
+ * The attempts they made for its assignments stay stamped with the group, so they remain in the coach's results.
+ */
+export const leaveGroup = onCall({ region: 'us-central1' }, async (request: CallableRequest<LeaveGroupRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const groupId = request.data?.groupId;
+  if (typeof groupId !== 'string' || groupId.trim() === '') {
+    throw new functions.https.HttpsError('invalid-argument', 'The `groupId` is required and must be a non-empty string.');
+  }
+
+  const db = getFirestore(getApp());
+  const groupRef = getGroupRef(db, groupId);
+
+  await db.runTransaction(async (tx) => {
+    const group = (await tx.get(groupRef)).data() as StoredGroup | undefined;
+    if (!group || !group.memberIds.includes(userId)) {
+      throw new functions.https.HttpsError('not-found', 'You are not a member of this group.');
+    }
+
+    tx.update(groupRef, {
+      members: group.members.filter(member => member.userId !== userId),
+      memberIds: group.memberIds.filter(memberId => memberId !== userId),
+    });
+  });
+
+  functions.logger.info(`User ${userId} left group ${groupId}.`);
+  return { success: true };
+});
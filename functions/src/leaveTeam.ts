@@ -0,0 +1,55 @@
+// functions/src/leaveTeam.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getTeamRef, StoredTeam } from './teams.js';
+
+interface LeaveTeamRequest {
+  teamId: string;
+}
+
+/**
+ * Callable Cloud Function with which a member leaves their team.
+ * The captain hands the captaincy on first, unless they are the last member: the team is then disbanded.
+ * Matches already set up keep their players.
+ */
+export const leaveTeam = onCall({ region: 'us-central1' }, async (request: CallableRequest<LeaveTeamRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const teamId = request.data?.teamId;
+  if (typeof teamId !== 'string' || teamId.trim() === '') {
+    throw new functions.https.HttpsError('invalid-argument', 'The `teamId` is required and must be a non-empty string.');
+  }
+
+  const db = getFirestore(getApp());
+  const teamRef = getTeamRef(db, teamId);
+
+  const disbanded = await db.runTransaction(async (tx) => {
+    const team = (await tx.get(teamRef)).data() as StoredTeam | undefined;
+    if (!team || !team.memberIds.includes(userId)) {
+      throw new functions.https.HttpsError('not-found', 'You are not a member of this team.');
+    }
+    if (team.memberIds.length === 1) {
+      tx.delete(teamRef);
+      return true;
+    }
+    if (team.captainId === userId) {
+      throw new functions.https.HttpsError('failed-precondition', 'Make another member captain before leaving the team.');
+    }
+
+    tx.update(teamRef, {
+      members: team.members.filter(member => member.userId !== userId),
+      memberIds: team.memberIds.filter(memberId => memberId !== userId),
+    });
+    return false;
+  });
+
+  functions.logger.info(disbanded ? `User ${userId} left and disbanded team ${teamId}.` : `User ${userId} left team ${teamId}.`);
+  return { disbanded };
+});
@@ -0,0 +1,62 @@
+// functions/src/lockExamAnswer.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { assertSessionUsable, hasQuestionClock } from './sessions.js';
+import { StoredQuizSession } from './types.js';
+
+interface LockExamAnswerRequest {
+  sessionId: string;
+  questionId: string;
+  selectedOption: string; // In the displayed option letters (see scoring.ts); '' when the question timed out
+}
+
+/**
+ * Callable Cloud Function that locks in the answer to one question of an exam with a per-question limit.
+ * Those exams are played one question at a time: the player moves on, or the countdown runs out, and the answer is
+ * stamped with the server time in the session's answer log. submitQuiz scores the logged answers and measures each
+ * question's time from them, for the countdown and the speed bonus, like checkAnswer's log does for practice.
+ * Nothing about the answer is revealed. Questions are locked in the session order, and the first answer to each wins.
+ */
+export const lockExamAnswer = onCall({ region: 'us-central1' }, async (request: CallableRequest<LockExamAnswerRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const { sessionId, questionId, selectedOption } = request.data || ({} as LockExamAnswerRequest);
+  if (typeof sessionId !== 'string' || !sessionId || typeof questionId !== 'string' || !questionId || typeof selectedOption !== 'string') {
+    throw new functions.https.HttpsError('invalid-argument', 'sessionId, questionId and selectedOption are required.');
+  }
+
+  const db = getFirestore(getApp());
+  const sessionRef = db.collection('quizSessions').doc(sessionId);
+
+  // 3. Session Check and Log: only the next question of the caller's own open exam with a per-question limit
+  await db.runTransaction(async (tx) => {
+    const session = (await tx.get(sessionRef)).data() as StoredQuizSession | undefined;
+    if (!session) {
+      throw new functions.https.HttpsError('not-found', 'Quiz session not found.');
+    }
+    const now = Timestamp.now();
+    assertSessionUsable(session, userId, now);
+    if (!hasQuestionClock(session)) {
+      throw new functions.https.HttpsError('failed-precondition', 'Only exams with a time limit per question lock in their answers.');
+    }
+    if (!session.questionOrder.includes(questionId)) {
+      throw new functions.https.HttpsError('invalid-argument', 'This question is not part of the quiz session.');
+    }
+    if (session.answerLog?.[questionId]) return; // Already locked in, e.g. a retried call
+
+    const nextQuestionId = session.questionOrder.find(id => !session.answerLog?.[id]);
+    if (nextQuestionId !== questionId) {
+      throw new functions.https.HttpsError('failed-precondition', 'Questions of this exam are answered in order.');
+    }
+    tx.update(sessionRef, { [`answerLog.${questionId}`]: { selectedOption, answeredAt: now } });
+  });
+
+  return { success: true };
+});
@@ -0,0 +1,66 @@
+// functions/src/manageGroup.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { assertGroupCoach, getGroupRef, StoredGroup } from './groups.js';
+import { generateInviteCode } from './teams.js';
+
+type GroupAction = 'remove_member' | 'reset_invite';
+
+interface ManageGroupRequest {
+  groupId: string;
+  action: GroupAction;
+  userId?: string; // The member to remove
+}
+
+const GROUP_ACTIONS: GroupAction[] = ['remove_member', 'reset_invite'];
+
+/**
+ * Callable Cloud Function for the coach's roster tools: removing a member and issuing a new invite link
+ * (the old one stops working).
+ */
+export const manageGroup = onCall({ region: 'us-central1' }, async (request: CallableRequest<ManageGroupRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const { groupId, action, userId: memberId } = request.data || ({} as ManageGroupRequest);
+  if (typeof groupId !== 'string' || !groupId || !GROUP_ACTIONS.includes(action)) {
+    throw new functions.https.HttpsError('invalid-argument', `groupId and action (${GROUP_ACTIONS.join(', ')}) are required.`);
+  }
+  if (action === 'remove_member' && (typeof memberId !== 'string' || !memberId)) {
+    throw new functions.https.HttpsError('invalid-argument', 'The `userId` of a member is required.');
+  }
+
+  const db = getFirestore(getApp());
+  const groupRef = getGroupRef(db, groupId);
+
+  await db.runTransaction(async (tx) => {
+    const group = (await tx.get(groupRef)).data() as StoredGroup | undefined;
+    if (!group) {
+      throw new functions.https.HttpsError('not-found', 'Group not found.');
+    }
+
+    // 3. Authorization Check
+    assertGroupCoach(group, userId);
+
+    if (action === 'reset_invite') {
+      tx.update(groupRef, { inviteCode: generateInviteCode() });
+      return;
+    }
+    if (!group.memberIds.includes(memberId as string)) {
+      throw new functions.https.HttpsError('not-found', 'That player is not a member of this group.');
+    }
+    tx.update(groupRef, {
+      members: group.members.filter(member => member.userId !== memberId),
+      memberIds: group.memberIds.filter(id => id !== memberId),
+    });
+  });
+
+  functions.logger.info(`Coach ${userId} ran ${action} on group ${groupId}${memberId ? ` for ${memberId}` : ''}.`);
+  return { success: true };
+});
@@ -0,0 +1,75 @@
+// functions/src/manageTeam.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { assertTeamCaptain, generateInviteCode, getTeamRef, StoredTeam } from './teams.js';
+
+type TeamAction = 'remove_member' | 'make_captain' | 'reset_invite';
+
+interface ManageTeamRequest {
+  teamId: string;
+  action: TeamAction;
+  userId?: string; // The member to remove or make captain
+}
+
+const TEAM_ACTIONS: TeamAction[] = ['remove_member', 'make_captain', 'reset_invite'];
+
+/**
+ * Callable Cloud Function for the captain's roster tools: removing a member, handing the captaincy to another
+ * member, and issuing a new invite link (the old one stops working).
+ */
+export const manageTeam = onCall({ region: 'us-central1' }, async (request: CallableRequest<ManageTeamRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const { teamId, action, userId: memberId } = request.data || ({} as ManageTeamRequest);
+  if (typeof teamId !== 'string' || !teamId || !TEAM_ACTIONS.includes(action)) {
+    throw new functions.https.HttpsError('invalid-argument', `teamId and action (${TEAM_ACTIONS.join(', ')}) are required.`);
+  }
+  if (action !== 'reset_invite' && (typeof memberId !== 'string' || !memberId)) {
+    throw new functions.https.HttpsError('invalid-argument', 'The `userId` of a member is required.');
+  }
+
+  const db = getFirestore(getApp());
+  const teamRef = getTeamRef(db, teamId);
+
+  await db.runTransaction(async (tx) => {
+    const team = (await tx.get(teamRef)).data() as StoredTeam | undefined;
+    if (!team) {
+      throw new functions.https.HttpsError('not-found', 'Team not found.');
+    }
+
+    // 3. Authorization Check
+    assertTeamCaptain(team, userId);
+
+    if (action === 'reset_invite') {
+      tx.update(teamRef, { inviteCode: generateInviteCode() });
+      return;
+    }
+    if (!team.memberIds.includes(memberId as string)) {
+      throw new functions.https.HttpsError('not-found', 'That player is not a member of this team.');
+    }
+    if (memberId === userId) {
+      throw new functions.https.HttpsError('failed-precondition', action === 'make_captain'
+        ? 'You are already the captain.'
+        : 'Leave the team instead of removing yourself.');
+    }
+
+    if (action === 'make_captain') {
+      tx.update(teamRef, { captainId: memberId });
+    } else {
+      tx.update(teamRef, {
+        members: team.members.filter(member => member.userId !== memberId),
+        memberIds: team.memberIds.filter(id => id !== memberId),
+      });
+    }
+  });
+
+  functions.logger.info(`Captain ${userId} ran ${action} on team ${teamId}${memberId ? ` for ${memberId}` : ''}.`);
+  return { success: true };
+});
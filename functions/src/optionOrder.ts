@@ -0,0 +1,89 @@
+// functions/src/optionOrder.ts
+// Per-session shuffling of question order and answer options.
+// An option order lists the stored option letters in the order a player sees them: ["C", "A", "D", "B"]
+// means the player's option A is the stored option C, their B is the stored A, and so on.
+import { StoredQuestion } from './types.js';
+import { parseLetterList } from './scoring.js';
+
+// Fisher–Yates shuffle into a new array
+export function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Question types whose answers are option letters; true/false keeps its fixed True/False order
+function hasLetteredOptions(question: StoredQuestion): boolean {
+  return (question.type === 'multiple_choice' || question.type === 'multi_select' || question.type === 'ordering') &&
+    Array.isArray(question.options) && question.options.length > 1;
+}
+
+const letterOf = (option: string) => option.charAt(0);
+const textOf = (option: string) => option.replace(/^[A-F]\.\s*/, '');
+
+/**
+ * A random option order for the question, or null when its options cannot be shuffled.
+ */
+export function createOptionOrder(question: StoredQuestion): string[] | null {
+  if (!hasLetteredOptions(question)) return null;
+  const letters = (question.options as string[]).map(letterOf);
+  let order = shuffle(letters);
+  // An ordering question must not be shown already in its correct order
+  const solved = question.type === 'ordering' ? parseLetterList(question.correctAnswer.toString()).join(',') : null;
+  while (order.join(',') === solved) {
+    order = shuffle(letters);
+  }
+  return order;
+}
+
+/**
+ * The question the way the player saw it: options relabelled A, B, C... in the shuffled order,
+ * and the correct answer in those displayed letters. Without an order the question is returned as is.
+ */
+export function toDisplayedQuestion(question: StoredQuestion, optionOrder?: string[] | null): StoredQuestion {
+  if (!optionOrder || !hasLetteredOptions(question)) return question;
+  const options = question.options as string[];
+  const displayedLetter = (storedLetter: string) => {
+    const index = optionOrder.indexOf(storedLetter);
+    return index === -1 ? storedLetter : letterOf(options[index]);
+  };
+  const letters = parseLetterList(question.correctAnswer.toString()).map(displayedLetter);
+
+  return {
+    ...question,
+    options: optionOrder.map((storedLetter, index) => {
+      const stored = options.find(option => letterOf(option) === storedLetter) || storedLetter;
+      return `${letterOf(options[index])}. ${textOf(stored)}`;
+    }),
+    // multi_select answers are compared as sets, so their letters are kept sorted like a fresh answer
+    correctAnswer: (question.type === 'multi_select' ? letters.sort() : letters).join(','),
+  };
+}
+
+/**
+ * Maps an answer given in displayed letters back to the stored letters, so it can be scored against
+ * the stored correctAnswer. Unanswered ('') and answers to unshuffled questions pass through unchanged.
+ */
+export function toStoredAnswer(question: StoredQuestion, selectedOption: string, optionOrder?: string[] | null): string {
+  if (!optionOrder || selectedOption === '' || !hasLetteredOptions(question)) return selectedOption;
+  const options = question.options as string[];
+  const storedLetter = (displayed: string) => {
+    const index = options.findIndex(option => letterOf(option) === displayed);
+    return index === -1 || index >= optionOrder.length ? displayed : optionOrder[index];
+  };
+
+  switch (question.type) {
+    case 'multiple_choice': {
+      // Sent as the full label ("B. Uruguay"); stored as the stored option's full label
+      const letter = storedLetter(letterOf(selectedOption));
+      return options.find(option => letterOf(option) === letter) || letter;
+    }
+    case 'multi_select':
+      return parseLetterList(selectedOption).map(storedLetter).sort().join(',');
+    default:
+      return parseLetterList(selectedOption).map(storedLetter).join(',');
+  }
+}
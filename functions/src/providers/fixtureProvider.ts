@@ -0,0 +1,143 @@
+// functions/src/providers/fixtureProvider.ts
+import { GeminiQuestion, QuestionPromptSpec, QuestionProvider } from './types.js';
+
+const MULTIPLE_CHOICE_BANK: GeminiQuestion[] = [
+  {
+    question: 'Which country won the first FIFA World Cup in 1930?',
+    options: ['A. Uruguay', 'B. Argentina', 'C. Brazil', 'D. Italy'],
+    answer: 'A',
+    explanation: 'Hosts Uruguay beat Argentina 4–2 in the final in Montevideo.',
+  },
+  {
+    question: 'How many players does a basketball team have on the court at once?',
+    options: ['A. Four', 'B. Five', 'C. Six', 'D. Seven'],
+    answer: 'B',
+    explanation: 'Each side fields five players: two guards, two forwards and a center.',
+  },
+  {
+    question: 'On which surface is the French Open played?',
+    options: ['A. Grass', 'B. Hard court', 'C. Clay', 'D. Carpet'],
+    answer: 'C',
+    explanation: 'Roland Garros is the only Grand Slam played on red clay.',
+  },
+  {
+    question: 'How many holes are played in a standard round of golf?',
+    options: ['A. 9', 'B. 12', 'C. 16', 'D. 18'],
+    answer: 'D',
+    explanation: 'A standard round covers 18 holes, usually split into a front and back nine.',
+  },
+  {
+    question: 'How many points is a try worth in rugby union?',
+    options: ['A. Five', 'B. Three', 'C. Four', 'D. Seven'],
+    answer: 'A',
+    explanation: 'A try has been worth five points in rugby union since 1992.',
+  },
+  {
+    question: 'In cricket, how many balls make up a standard over?',
+    options: ['A. Five', 'B. Six', 'C. Eight', 'D. Ten'],
+    answer: 'B',
+    explanation: 'An over is six legal deliveries bowled by the same bowler.',
+  },
+];
+
+const TRUE_FALSE_BANK: GeminiQuestion[] = [
+  { question: 'The Olympic rings consist of five interlocking rings.', options: ['True', 'False'], answer: 'True', explanation: 'The five rings stand for the five inhabited continents taking part.' },
+  { question: 'A marathon is exactly 40 kilometres long.', options: ['True', 'False'], answer: 'False', explanation: 'The marathon distance is 42.195 kilometres.' },
+  { question: 'Wimbledon is played on grass courts.', options: ['True', 'False'], answer: 'True', explanation: 'Wimbledon is the only Grand Slam still played on grass.' },
+  { question: 'An ice hockey team fields eight players at a time.', options: ['True', 'False'], answer: 'False', explanation: 'Teams field six players: five skaters and a goaltender.' },
+  { question: 'The Tour de France traditionally finishes in Paris.', options: ['True', 'False'], answer: 'True', explanation: 'The final stage has finished on the Champs-Élysées since 1975.' },
+  { question: 'A regulation football (soccer) match lasts 100 minutes.', options: ['True', 'False'], answer: 'False', explanation: 'A match has two 45-minute halves, 90 minutes plus stoppage time.' },
+];
+
+const MULTI_SELECT_BANK: GeminiQuestion[] = [
+  {
+    question: 'Which of these countries have won the FIFA World Cup? Select all that apply.',
+    options: ['A. Spain', 'B. Netherlands', 'C. Uruguay', 'D. Portugal'],
+    answer: 'A,C',
+    explanation: 'Uruguay won in 1930 and 1950 and Spain in 2010; the Netherlands and Portugal never have.',
+  },
+  {
+    question: 'Which of these tournaments are tennis Grand Slams? Select all that apply.',
+    options: ['A. Wimbledon', 'B. Indian Wells', 'C. US Open', 'D. Australian Open', 'E. Monte Carlo Masters'],
+    answer: 'A,C,D',
+    explanation: 'The four Grand Slams are the Australian Open, French Open, Wimbledon and US Open.',
+  },
+  {
+    question: 'Which of these sports are played with a net? Select all that apply.',
+    options: ['A. Volleyball', 'B. Rugby', 'C. Badminton', 'D. Baseball'],
+    answer: 'A,C',
+    explanation: 'Volleyball and badminton are played over a net; rugby and baseball are not.',
+  },
+];
+
+const NUMERIC_BANK: GeminiQuestion[] = [
+  { question: 'In which year did England win the FIFA World Cup?', options: [], answer: '1966', explanation: 'England beat West Germany 4–2 after extra time at Wembley in 1966.' },
+  { question: 'How many players are on the field for one team in a cricket match?', options: [], answer: '11', unit: 'players', explanation: 'A cricket side fields eleven players.' },
+  { question: 'What is the official length of a marathon in kilometres?', options: [], answer: '42.195', tolerance: 0.1, unit: 'km', explanation: 'The distance was fixed at 42.195 km in 1921.' },
+  { question: 'How many minutes does a regulation NBA game last, overtime excluded?', options: [], answer: '48', unit: 'minutes', explanation: 'An NBA game has four 12-minute quarters.' },
+];
+
+const ORDERING_BANK: GeminiQuestion[] = [
+  {
+    question: 'Put these Summer Olympics host cities in chronological order, earliest first.',
+    options: ['A. Sydney', 'B. Barcelona', 'C. London', 'D. Beijing'],
+    answer: 'B,A,D,C',
+    explanation: 'Barcelona hosted in 1992, Sydney in 2000, Beijing in 2008 and London in 2012.',
+  },
+  {
+    question: 'Order these races from shortest to longest.',
+    options: ['A. Marathon', 'B. 400 metres', 'C. 10,000 metres', 'D. 1500 metres'],
+    answer: 'B,D,C,A',
+    explanation: '400 m, 1500 m and 10,000 m are all shorter than the 42.195 km marathon.',
+  },
+  {
+    question: 'Order these World Cup winners by the year of their first title, earliest first.',
+    options: ['A. Brazil', 'B. Uruguay', 'C. France', 'D. England'],
+    answer: 'B,A,D,C',
+    explanation: 'Uruguay first won in 1930, Brazil in 1958, England in 1966 and France in 1998.',
+  },
+];
+
+const FILL_IN_BANK: GeminiQuestion[] = [
+  { question: 'Which country hosts the Tour de France?', options: [], answer: 'France', explanation: 'The race has been held in France, with occasional foreign stages, since 1903.' },
+  { question: 'Which Brazilian forward won three World Cups, in 1958, 1962 and 1970?', options: [], answer: 'Pelé', acceptedAnswers: ['Pele', 'Edson Arantes do Nascimento'], explanation: 'Pelé is the only player to win three World Cups.' },
+  { question: 'What piece of equipment is hit over the net in badminton?', options: [], answer: 'Shuttlecock', acceptedAnswers: ['Shuttle', 'Birdie'], explanation: 'Badminton is played with a feathered shuttlecock, also called a shuttle or birdie.' },
+  { question: 'In which city is the Wimbledon Championships held?', options: [], answer: 'London', explanation: 'Wimbledon is a district of south-west London.' },
+];
+
+const BANKS: Record<QuestionPromptSpec['quizType'], GeminiQuestion[]> = {
+  multiple_choice: MULTIPLE_CHOICE_BANK,
+  true_false: TRUE_FALSE_BANK,
+  multi_select: MULTI_SELECT_BANK,
+  numeric: NUMERIC_BANK,
+  ordering: ORDERING_BANK,
+  fill_in: FILL_IN_BANK,
+};
+
+/**
+ * Deterministic, offline provider for the emulator and local development.
+ * The same spec always yields the same questions, so the generate → save → play flow
+ * can be exercised without network access or API keys.
+ */
+export class FixtureProvider implements QuestionProvider {
+  readonly name = 'fixture';
+
+  async generateQuestions(spec: QuestionPromptSpec): Promise<GeminiQuestion[]> {
+    const bank = BANKS[spec.quizType] || MULTIPLE_CHOICE_BANK;
+    const focus = [spec.team, spec.event, spec.country].filter(Boolean).join(', ');
+    const avoid = new Set(spec.avoidQuestions || []);
+
+    // Walks the bank in order, skipping questions listed in avoidQuestions; later rounds get a "#n" suffix,
+    // so the walk always ends
+    const questions: GeminiQuestion[] = [];
+    for (let index = 0; questions.length < spec.numberOfQuestions; index++) {
+      const template = bank[index % bank.length];
+      const round = Math.floor(index / bank.length);
+      const label = `[${spec.category}${focus ? ` / ${focus}` : ''}${round > 0 ? ` #${round + 1}` : ''}]`;
+      const question = `${label} ${template.question}`;
+      if (avoid.has(question)) continue;
+      questions.push({ ...template, question, options: [...template.options] });
+    }
+    return questions;
+  }
+}
@@ -0,0 +1,51 @@
+// functions/src/providers/geminiProvider.ts
+import * as functions from 'firebase-functions';
+import { GoogleGenerativeAI, GenerateContentRequest } from "@google/generative-ai";
+import { buildQuestionPrompt, parseQuestionsJson } from './prompt.js';
+import { getProviderSecret } from './secrets.js';
+import { GeminiQuestion, QuestionPromptSpec, QuestionProvider } from './types.js';
+
+/**
+ * Google Gemini provider. The model defaults to gemini-1.5-flash and can be changed with GEMINI_MODEL.
+ */
+export class GeminiProvider implements QuestionProvider {
+  readonly name = 'gemini';
+
+  constructor(private readonly modelName: string = process.env.GEMINI_MODEL || 'gemini-1.5-flash') {}
+
+  async generateQuestions(spec: QuestionPromptSpec): Promise<GeminiQuestion[]> {
+    const apiKey = await getProviderSecret('GEMINI_API_KEY');
+    if (!apiKey) {
+      functions.logger.error("Gemini API key not found during function execution.");
+      throw new functions.https.HttpsError('internal', 'Server configuration error: Gemini API key missing.');
+    }
+
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const model = genAI.getGenerativeModel({ model: this.modelName });
+
+    const generateContentRequest: GenerateContentRequest = {
+      contents: [{ role: 'user', parts: [{ text: buildQuestionPrompt(spec) }] }],
+      generationConfig: {
+        responseMimeType: "application/json",
+      },
+    };
+
+    let text: string;
+    try {
+      const result = await model.generateContent(generateContentRequest);
+      text = result.response.text();
+    } catch (aiError: unknown) {
+      let errorMessage = 'Unknown AI error';
+      if (aiError instanceof Error) {
+        errorMessage = aiError.message;
+      } else if (typeof aiError === 'string') {
+        errorMessage = aiError;
+      }
+      functions.logger.error("Gemini API call failed:", errorMessage);
+      throw new functions.https.HttpsError('internal', 'Failed to generate quiz content from AI.');
+    }
+
+    functions.logger.info("RAW GEMINI RESPONSE:", text);
+    return parseQuestionsJson(text, this.name);
+  }
+}
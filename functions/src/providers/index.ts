@@ -0,0 +1,42 @@
+// functions/src/providers/index.ts
+import * as functions from 'firebase-functions';
+import { FixtureProvider } from './fixtureProvider.js';
+import { GeminiProvider } from './geminiProvider.js';
+import { OpenAiCompatibleProvider } from './openAiCompatibleProvider.js';
+import { QuestionProvider } from './types.js';
+
+export * from './types.js';
+
+let cachedProvider: QuestionProvider | undefined;
+
+/**
+ * Returns the question provider selected by the QUIZ_PROVIDER environment variable:
+ *   - 'gemini'  (default in production)
+ *   - 'openai'  any OpenAI-compatible chat completions endpoint
+ *   - 'fixture' deterministic offline questions (default when running in the emulator)
+ * Set it in functions/.env (or .env.local for the emulator) to swap models without touching the callables.
+ */
+export function getQuestionProvider(): QuestionProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const configured = (process.env.QUIZ_PROVIDER || '').trim().toLowerCase();
+  const providerName = configured || (process.env.FUNCTIONS_EMULATOR === 'true' ? 'fixture' : 'gemini');
+
+  switch (providerName) {
+    case 'gemini':
+      cachedProvider = new GeminiProvider();
+      break;
+    case 'openai':
+      cachedProvider = new OpenAiCompatibleProvider();
+      break;
+    case 'fixture':
+      cachedProvider = new FixtureProvider();
+      break;
+    default:
+      functions.logger.error(`Unknown QUIZ_PROVIDER "${providerName}".`);
+      throw new functions.https.HttpsError('internal', `Server configuration error: unknown question provider "${providerName}".`);
+  }
+
+  functions.logger.info(`Using question provider: ${cachedProvider.name}`);
+  return cachedProvider;
+}
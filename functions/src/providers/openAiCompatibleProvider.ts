@@ -0,0 +1,64 @@
+// functions/src/providers/openAiCompatibleProvider.ts
+import * as functions from 'firebase-functions';
+import { buildQuestionPrompt, parseQuestionsJson } from './prompt.js';
+import { getProviderSecret } from './secrets.js';
+import { GeminiQuestion, QuestionPromptSpec, QuestionProvider } from './types.js';
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+/**
+ * Provider for any endpoint speaking the OpenAI chat completions protocol
+ * (OpenAI itself, Azure-style proxies, vLLM, Ollama, LM Studio, ...).
+ *
+ * Configured with OPENAI_BASE_URL (default https://api.openai.com/v1), OPENAI_MODEL (default gpt-4o-mini)
+ * and the OPENAI_API_KEY secret. Local servers that need no key may leave the secret unset.
+ */
+export class OpenAiCompatibleProvider implements QuestionProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly baseUrl: string = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    private readonly modelName: string = process.env.OPENAI_MODEL || 'gpt-4o-mini',
+  ) {}
+
+  async generateQuestions(spec: QuestionPromptSpec): Promise<GeminiQuestion[]> {
+    const apiKey = await getProviderSecret('OPENAI_API_KEY');
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    let text: string;
+    try {
+      const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.modelName,
+          messages: [
+            { role: 'system', content: 'You only answer with raw JSON.' },
+            { role: 'user', content: buildQuestionPrompt(spec) },
+          ],
+          temperature: 0.7,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+      }
+
+      const body = await response.json() as ChatCompletionResponse;
+      text = body.choices?.[0]?.message?.content || '';
+    } catch (aiError: unknown) {
+      const errorMessage = aiError instanceof Error ? aiError.message : 'Unknown AI error';
+      functions.logger.error("OpenAI-compatible API call failed:", errorMessage);
+      throw new functions.https.HttpsError('internal', 'Failed to generate quiz content from AI.');
+    }
+
+    functions.logger.info("RAW OPENAI-COMPATIBLE RESPONSE:", text);
+    return parseQuestionsJson(text, this.name);
+  }
+}
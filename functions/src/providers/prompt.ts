@@ -0,0 +1,72 @@
+// functions/src/providers/prompt.ts
+import * as functions from 'firebase-functions';
+import { GeminiQuestion, QuestionPromptSpec } from './types.js';
+
+/**
+ * Builds the text prompt shared by the LLM-backed providers (Gemini, OpenAI-compatible).
+ */
+export function buildQuestionPrompt(spec: QuestionPromptSpec): string {
+  const { category, difficulty, numberOfQuestions, quizType, team, event, country, avoidQuestions } = spec;
+
+  const explanationInstructions = `explanation (string, one or two sentences on why the answer is correct), and source (string, a URL or publication backing the answer, or "" if you are not sure of one).`;
+
+  let questionFormatInstructions: string;
+  let responseFormatInstructions: string;
+
+  if (quizType === 'multiple_choice') {
+    questionFormatInstructions = `multiple-choice questions. Each question must have exactly 4 options.`;
+    responseFormatInstructions = `question (string), options (array of 4 strings, e.g., ["A. Option 1", "B. Option 2", "C. Option 3", "D. Option 4"]), answer (string, one of "A", "B", "C", or "D"), ${explanationInstructions}`;
+  } else if (quizType === 'true_false') {
+    questionFormatInstructions = `True/False questions. Each question must be a statement that is either definitively True or False.`;
+    responseFormatInstructions = `question (string), options (array containing ONLY "True" and "False"), answer (string, either "True" or "False"), ${explanationInstructions}`;
+  } else if (quizType === 'multi_select') {
+    questionFormatInstructions = `"select all that apply" questions. Each question must have between 4 and 6 options, of which at least 2 are correct and at least 1 is wrong.`;
+    responseFormatInstructions = `question (string), options (array of 4 to 6 strings lettered in order, e.g., ["A. Option 1", "B. Option 2", "C. Option 3", "D. Option 4"]), answer (string, the letters of ALL correct options separated by commas, e.g., "A,C"), ${explanationInstructions}`;
+  } else if (quizType === 'numeric') {
+    questionFormatInstructions = `questions whose answer is a single number (a year, a score, a count, a time or a distance).`;
+    responseFormatInstructions = `question (string), options (an empty array), answer (string holding only the number, e.g., "1966" or "9.58"), tolerance (number, how far off an answer may be and still count, usually 0), unit (string, e.g., "goals" or "seconds", or "" for years and plain counts), ${explanationInstructions}`;
+  } else if (quizType === 'ordering') {
+    questionFormatInstructions = `ordering questions that ask the player to put 4 items in order (for example chronologically or by a statistic). The question must say which order is wanted.`;
+    responseFormatInstructions = `question (string), options (array of 4 strings lettered in order but listed in a SHUFFLED order, e.g., ["A. Item 1", "B. Item 2", "C. Item 3", "D. Item 4"]), answer (string, the letters of all options in the correct order separated by commas, e.g., "C,A,D,B"), ${explanationInstructions}`;
+  } else if (quizType === 'fill_in') {
+    questionFormatInstructions = `fill-in-the-blank questions with a short answer of one to four words (a name, a team, a place).`;
+    responseFormatInstructions = `question (string), options (an empty array), answer (string, the preferred spelling of the answer), acceptedAnswers (array of strings, other common spellings or short forms that should also count, may be empty), ${explanationInstructions}`;
+  } else {
+    throw new functions.https.HttpsError('invalid-argument', `Unsupported quizType: ${quizType}.`);
+  }
+
+  const avoidInstructions = avoidQuestions && avoidQuestions.length > 0
+    ? `\n\nDo NOT repeat or rephrase any of these existing questions:\n${avoidQuestions.map(text => `- ${text}`).join('\n')}`
+    : '';
+
+  return `You are a professional sports quiz generator. Generate exactly ${numberOfQuestions} ${questionFormatInstructions} about ${category}${difficulty ? ` with ${difficulty} difficulty` : ""}${team ? ` focused on ${team}` : ""}${event ? ` about the ${event}` : ""}${country ? ` in ${country}` : ""}.
+
+Return ONLY a JSON array of ${numberOfQuestions} such objects, parsable by JSON.parse(). Each object should have these properties: ${responseFormatInstructions} DO NOT add explanations, markdown, or extra text.${avoidInstructions}`;
+}
+
+/**
+ * Parses the raw model output into question records.
+ * Accepts a bare JSON array (optionally wrapped in a ```json fence) or an object with a `questions` array,
+ * since some OpenAI-compatible endpoints only emit top-level objects in JSON mode.
+ */
+export function parseQuestionsJson(text: string, providerName: string): GeminiQuestion[] {
+  let cleanedText = text.trim();
+  if (cleanedText.startsWith('```json')) cleanedText = cleanedText.slice(7);
+  else if (cleanedText.startsWith('```')) cleanedText = cleanedText.slice(3);
+  if (cleanedText.endsWith('```')) cleanedText = cleanedText.slice(0, -3);
+  cleanedText = cleanedText.trim();
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleanedText);
+  } catch (e: unknown) {
+    const errorMessage = e instanceof Error ? e.message : 'Unknown JSON parse error';
+    functions.logger.error(`Failed to parse JSON from ${providerName}:`, { rawOutput: cleanedText, parseError: errorMessage });
+    throw new functions.https.HttpsError('internal', "Invalid JSON format from AI. Please try again.");
+  }
+
+  if (parsed && !Array.isArray(parsed) && typeof parsed === 'object' && Array.isArray((parsed as { questions?: unknown }).questions)) {
+    return (parsed as { questions: GeminiQuestion[] }).questions;
+  }
+  return parsed as GeminiQuestion[];
+}
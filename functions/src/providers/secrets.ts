@@ -0,0 +1,41 @@
+// functions/src/providers/secrets.ts
+import * as functions from 'firebase-functions';
+import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
+
+const secretCache = new Map<string, string>();
+
+/**
+ * Resolves a provider credential.
+ * A plain environment variable of the same name wins (handy for the emulator and functions/.env.local),
+ * otherwise the latest version is read from Secret Manager in the current project and memoized.
+ */
+export async function getProviderSecret(secretName: string): Promise<string | undefined> {
+  const fromEnv = process.env[secretName];
+  if (fromEnv) return fromEnv;
+
+  const cached = secretCache.get(secretName);
+  if (cached) return cached;
+
+  const projectId = process.env.GCLOUD_PROJECT || process.env.GOOGLE_CLOUD_PROJECT;
+  if (!projectId) {
+    functions.logger.error(`Cannot resolve secret ${secretName}: no project id in the environment.`);
+    return undefined;
+  }
+
+  const client = new SecretManagerServiceClient();
+  try {
+    const [version] = await client.accessSecretVersion({
+      name: `projects/${projectId}/secrets/${secretName}/versions/latest`
+    });
+    const value = version.payload?.data?.toString();
+    if (value) secretCache.set(secretName, value);
+    return value;
+  } catch (error: unknown) {
+    let errorMessage = 'Unknown error accessing Secret Manager';
+    if (error instanceof Error) {
+      errorMessage = error.message;
+    }
+    functions.logger.error(`Failed to access Secret Manager for ${secretName}:`, errorMessage);
+    return undefined;
+  }
+}
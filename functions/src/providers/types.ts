@@ -0,0 +1,40 @@
+// functions/src/providers/types.ts
+
+import { QuestionType } from '../types.js';
+
+// The question formats a provider can be asked for
+export type GeneratedQuestionType = QuestionType;
+
+// Normalized description of the questions we want, independent of the model behind it
+export interface QuestionPromptSpec {
+  category: string;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  numberOfQuestions: number;
+  quizType: GeneratedQuestionType;
+  team?: string | null;
+  event?: string | null;
+  country?: string | null;
+  avoidQuestions?: string[]; // Existing question texts the new questions must not repeat
+}
+
+// Raw question record as returned by a provider (still unvalidated).
+// numeric and fill_in questions have no options; see prompt.ts for the answer format of each type.
+export interface GeminiQuestion {
+  question: string;
+  options: string[];
+  answer: string;
+  tolerance?: number; // numeric only
+  unit?: string; // numeric only
+  acceptedAnswers?: string[]; // fill_in only
+  explanation?: string; // Why the answer is right, shown after the quiz
+  source?: string; // Optional reference (URL or publication) backing the answer
+}
+
+/**
+ * A source of quiz questions. Implementations only produce raw records;
+ * validation and persistence stay in the callables that use them.
+ */
+export interface QuestionProvider {
+  readonly name: string;
+  generateQuestions(spec: QuestionPromptSpec): Promise<GeminiQuestion[]>;
+}
@@ -0,0 +1,118 @@
+// functions/src/questionValidation.ts
+// Checks raw provider output before it becomes a stored question. Shared by generateQuiz and regenerateQuestion.
+import { GeminiQuestion, GeneratedQuestionType } from './providers/index.js';
+import { parseLetterList, parseNumericAnswer } from './scoring.js';
+import { StoredQuestion } from './types.js';
+
+// Every type a quiz can be generated in
+export const GENERATED_QUESTION_TYPES: GeneratedQuestionType[] = ['multiple_choice', 'true_false', 'multi_select', 'numeric', 'ordering', 'fill_in'];
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+// Caps on the extra answer fields kept from a provider
+const MAX_TEXT_ANSWER_LENGTH = 100;
+const MAX_ACCEPTED_ANSWERS = 10;
+const MAX_UNIT_LENGTH = 30;
+
+// Answers accepted for the single-answer question types
+export function expectedAnswersFor(quizType: 'multiple_choice' | 'true_false'): string[] {
+  return quizType === 'multiple_choice' ? OPTION_LETTERS.slice(0, 4) : ['True', 'False'];
+}
+
+// True when every option is non-empty text lettered in order ("A. ...", "B. ...")
+function hasLetteredOptions(options: string[], min: number, max: number): boolean {
+  return options.length >= min && options.length <= max &&
+    options.every((option, index) => option.trim().startsWith(`${OPTION_LETTERS[index]}.`));
+}
+
+// True when a provider record is a well-formed question of the requested type
+export function isValidGeneratedQuestion(q: GeminiQuestion, quizType: GeneratedQuestionType): boolean {
+  const isValid = !!q && typeof q.question === 'string' && q.question.trim().length > 0 &&
+    typeof q.answer === 'string' && q.answer.trim().length > 0;
+  if (!isValid) return false;
+
+  // numeric and fill_in questions have no options, so a missing list is fine for them
+  const options = q.options === undefined || q.options === null ? [] : q.options;
+  if (!Array.isArray(options) || !options.every(opt => typeof opt === 'string' && opt.trim().length > 0)) return false;
+
+  switch (quizType) {
+    case 'multiple_choice':
+      return options.length === 4 && expectedAnswersFor(quizType).includes(q.answer);
+    case 'true_false':
+      return options.length === 2 &&
+        (options[0] === 'True' && options[1] === 'False' || options[0] === 'False' && options[1] === 'True') &&
+        expectedAnswersFor(quizType).includes(q.answer);
+    case 'multi_select': {
+      const letters = parseLetterList(q.answer);
+      return hasLetteredOptions(options, 4, 6) && letters.length > 0 && new Set(letters).size === letters.length &&
+        letters.every(letter => OPTION_LETTERS.indexOf(letter) >= 0 && OPTION_LETTERS.indexOf(letter) < options.length);
+    }
+    case 'ordering': {
+      const letters = parseLetterList(q.answer);
+      return hasLetteredOptions(options, 3, 6) && letters.length === options.length &&
+        [...letters].sort().join(',') === OPTION_LETTERS.slice(0, options.length).join(',');
+    }
+    case 'numeric':
+      return parseNumericAnswer(q.answer) !== null &&
+        (q.tolerance === undefined || q.tolerance === null || typeof q.tolerance === 'number' && q.tolerance >= 0);
+    case 'fill_in':
+      return q.answer.trim().length <= MAX_TEXT_ANSWER_LENGTH;
+    default:
+      return false;
+  }
+}
+
+/**
+ * The answer fields of a validated provider record, in the shape they are stored
+ * (see StoredQuestion). Optional fields are left out when empty, since Firestore rejects undefined fields.
+ */
+export function getStoredAnswer(q: GeminiQuestion, quizType: GeneratedQuestionType):
+  Pick<StoredQuestion, 'options' | 'correctAnswer' | 'tolerance' | 'unit' | 'acceptedAnswers'> {
+  switch (quizType) {
+    case 'multi_select':
+      return { options: q.options, correctAnswer: parseLetterList(q.answer).sort().join(',') };
+    case 'ordering':
+      return { options: q.options, correctAnswer: parseLetterList(q.answer).join(',') };
+    case 'numeric': {
+      const unit = typeof q.unit === 'string' ? q.unit.trim().slice(0, MAX_UNIT_LENGTH) : '';
+      return {
+        correctAnswer: String(parseNumericAnswer(q.answer)),
+        ...(typeof q.tolerance === 'number' && q.tolerance > 0 ? { tolerance: q.tolerance } : {}),
+        ...(unit ? { unit } : {}),
+      };
+    }
+    case 'fill_in': {
+      const answer = q.answer.trim();
+      const acceptedAnswers = [...new Set((Array.isArray(q.acceptedAnswers) ? q.acceptedAnswers : [])
+        .filter((variant): variant is string => typeof variant === 'string')
+        .map(variant => variant.trim().slice(0, MAX_TEXT_ANSWER_LENGTH))
+        .filter(variant => variant && variant !== answer))]
+        .slice(0, MAX_ACCEPTED_ANSWERS);
+      return { correctAnswer: answer, ...(acceptedAnswers.length > 0 ? { acceptedAnswers } : {}) };
+    }
+    default:
+      return { options: q.options, correctAnswer: q.answer };
+  }
+}
+
+// Longest explanation and source kept from a provider
+const MAX_EXPLANATION_LENGTH = 1000;
+const MAX_SOURCE_LENGTH = 500;
+
+/**
+ * The optional explanation and source of a provider record, trimmed and capped.
+ * Blank or non-string values are left out, since Firestore rejects undefined fields.
+ */
+export function getQuestionExtras(q: GeminiQuestion): { explanation?: string; source?: string } {
+  const explanation = typeof q.explanation === 'string' ? q.explanation.trim().slice(0, MAX_EXPLANATION_LENGTH) : '';
+  const source = typeof q.source === 'string' ? q.source.trim().slice(0, MAX_SOURCE_LENGTH) : '';
+  return {
+    ...(explanation ? { explanation } : {}),
+    ...(source ? { source } : {}),
+  };
+}
+
+// Question text reduced to letters and digits, so trivial rewordings of case or punctuation still count as duplicates
+export function normalizeQuestionText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
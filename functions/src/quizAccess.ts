@@ -0,0 +1,26 @@
+// functions/src/quizAccess.ts
+import { CallableRequest } from 'firebase-functions/v2/https';
+import { StoredQuiz } from './types.js';
+
+/**
+ * Mirrors the quizPlayerViews read rule in firestore.rules: a quiz can be played when it is active and
+ * either global, created by the caller or a round quiz of one of their tournaments. Admins can play anything.
+ */
+export function canPlayQuiz(quiz: StoredQuiz, auth: NonNullable<CallableRequest['auth']>): boolean {
+  if (auth.token && auth.token.admin === true) {
+    return true;
+  }
+  const isActive = (quiz.status || 'active') === 'active';
+  return isActive && (quiz.visibility === 'global' || quiz.createdBy === auth.uid || !!quiz.tournamentMemberIds?.includes(auth.uid));
+}
+
+/**
+ * Mirrors the quizzes update rules in firestore.rules: creators can change their own active quizzes,
+ * admins can change any quiz.
+ */
+export function canEditQuiz(quiz: StoredQuiz, auth: NonNullable<CallableRequest['auth']>): boolean {
+  if (auth.token && auth.token.admin === true) {
+    return true;
+  }
+  return (quiz.status || 'active') === 'active' && quiz.createdBy === auth.uid;
+}
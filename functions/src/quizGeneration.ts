@@ -0,0 +1,78 @@
+// functions/src/quizGeneration.ts
+// The question generation pipeline shared by generateQuiz and the scheduled daily challenge:
+// the configured provider is asked for each question type in turn, and every batch is validated before it is used.
+import * as functions from 'firebase-functions';
+import { Firestore } from 'firebase-admin/firestore';
+import { getQuestionProvider, GeminiQuestion, GeneratedQuestionType } from './providers/index.js';
+import { getQuestionExtras, getStoredAnswer, isValidGeneratedQuestion } from './questionValidation.js';
+import { allocateQuestionCounts, interleaveByType } from './typeDistribution.js';
+import { StoredQuestion, TypeDistribution } from './types.js';
+
+export interface QuestionGenerationSpec {
+  category: string;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  numberOfQuestions: number;
+  quizType: GeneratedQuestionType | 'mixed';
+  typeDistribution?: TypeDistribution; // Required for 'mixed', already validated by the caller
+  team?: string;
+  event?: string;
+  country?: string;
+}
+
+/**
+ * Generates and validates the questions of a new quiz, with ids, answer keys and extras in their stored form.
+ * Throws an 'internal' HttpsError when the provider returns the wrong number of questions or invalid ones.
+ */
+export async function generateQuestions(db: Firestore, spec: QuestionGenerationSpec): Promise<StoredQuestion[]> {
+  const { category, difficulty, numberOfQuestions, quizType, typeDistribution, team, event, country } = spec;
+
+  // Mixed quizzes are generated one type at a time, each with its own prompt format and validation
+  const typePlan: { type: GeneratedQuestionType; count: number }[] = quizType === 'mixed'
+    ? allocateQuestionCounts(numberOfQuestions, typeDistribution as TypeDistribution)
+    : [{ type: quizType, count: numberOfQuestions }];
+
+  // The provider (Gemini, OpenAI-compatible or local fixtures) is chosen by configuration, see providers/index.ts
+  const provider = getQuestionProvider();
+  const questionsByType: StoredQuestion[][] = [];
+  for (const { type, count } of typePlan) {
+    const questionsRaw: GeminiQuestion[] = await provider.generateQuestions({
+      category,
+      difficulty,
+      numberOfQuestions: count,
+      quizType: type,
+      team,
+      event,
+      country,
+      // Later types must not repeat what earlier types already asked
+      avoidQuestions: questionsByType.flat().map(q => q.text),
+    });
+
+    if (!Array.isArray(questionsRaw) || questionsRaw.length !== count) {
+      functions.logger.error(`Expected ${count} ${type} questions but got:`, questionsRaw?.length, questionsRaw);
+      throw new functions.https.HttpsError('internal', `AI did not return the expected number of questions or format.`);
+    }
+
+    // Validate every question against the type it was asked for
+    const invalidQuestions = questionsRaw.filter((q, index) => {
+      const isValid = isValidGeneratedQuestion(q, type);
+      if (!isValid) {
+        functions.logger.error(`Invalid question at index ${index} from ${provider.name} for type ${type}:`, q);
+      }
+      return !isValid;
+    });
+
+    if (invalidQuestions.length > 0) {
+      throw new functions.https.HttpsError('internal', `Some generated questions were invalid for type ${type}.`);
+    }
+
+    questionsByType.push(questionsRaw.map((q) => ({
+      id: db.collection('quizzes').doc().id, // Generate unique ID for each question
+      text: q.question,
+      type, // ✅ NEW: Assign the generated type to each question
+      ...getStoredAnswer(q, type), // Options, answer key and the type's extra answer fields
+      ...getQuestionExtras(q), // Explanation and source, when the provider gave them
+    })));
+  }
+
+  return interleaveByType(questionsByType);
+}
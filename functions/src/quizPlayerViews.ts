@@ -0,0 +1,78 @@
+// functions/src/quizPlayerViews.ts
+import * as functions from 'firebase-functions';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, DocumentData } from 'firebase-admin/firestore';
+import { PlayerQuestion, StoredQuestion } from './types.js';
+
+// A question without its answer key, explanation and accepted spellings
+export function toPlayerQuestion(question: StoredQuestion): PlayerQuestion {
+  const playerQuestion: Partial<StoredQuestion> = { ...question };
+  delete playerQuestion.correctAnswer;
+  delete playerQuestion.explanation;
+  delete playerQuestion.source;
+  delete playerQuestion.acceptedAnswers;
+  return playerQuestion as PlayerQuestion;
+}
+
+/**
+ * Builds the player-facing copy of a quiz document: identical except that every question
+ * loses its answer key, explanation and accepted spellings. Players read quizPlayerViews/{quizId}; only creators and admins can
+ * read quizzes/{quizId} itself (see firestore.rules).
+ */
+export function toPlayerView(quizData: DocumentData): DocumentData {
+  const questions: StoredQuestion[] = Array.isArray(quizData.questions) ? quizData.questions : [];
+  return { ...quizData, questions: questions.map(toPlayerQuestion) };
+}
+
+// Keeps quizPlayerViews/{quizId} in sync with every create, update and delete of quizzes/{quizId}
+export const syncQuizPlayerView = onDocumentWritten({ document: 'quizzes/{quizId}', region: 'us-central1' }, async (event) => {
+  const db = getFirestore(getApp());
+  const quizId = event.params.quizId;
+  const viewRef = db.collection('quizPlayerViews').doc(quizId);
+
+  const after = event.data?.after;
+  if (!after || !after.exists) {
+    await viewRef.delete();
+    functions.logger.info(`Removed player view for deleted quiz ${quizId}.`);
+    return;
+  }
+
+  await viewRef.set(toPlayerView(after.data() as DocumentData));
+});
+
+/**
+ * Admin-only callable that (re)creates the player view of every quiz.
+ * Needed once for quizzes written before the sync trigger existed.
+ */
+export const rebuildQuizPlayerViews = onCall({ region: 'us-central1' }, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'The request is not authenticated. Please log in.');
+  }
+  if (!request.auth.token || request.auth.token.admin !== true) {
+    throw new HttpsError('permission-denied', 'Only administrators can rebuild quiz player views.');
+  }
+
+  const db = getFirestore(getApp());
+  const snapshot = await db.collection('quizzes').get();
+
+  let batch = db.batch();
+  let pending = 0;
+  for (const quizDoc of snapshot.docs) {
+    batch.set(db.collection('quizPlayerViews').doc(quizDoc.id), toPlayerView(quizDoc.data()));
+    pending++;
+    // Firestore batches are limited to 500 writes
+    if (pending === 450) {
+      await batch.commit();
+      batch = db.batch();
+      pending = 0;
+    }
+  }
+  if (pending > 0) {
+    await batch.commit();
+  }
+
+  functions.logger.info(`Admin ${request.auth.uid} rebuilt ${snapshot.size} quiz player views.`);
+  return { success: true, rebuilt: snapshot.size };
+});
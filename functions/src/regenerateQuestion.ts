@@ -0,0 +1,113 @@
+// functions/src/regenerateQuestion.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getQuestionProvider, GeneratedQuestionType } from './providers/index.js';
+import { canEditQuiz } from './quizAccess.js';
+import {
+  GENERATED_QUESTION_TYPES,
+  getQuestionExtras,
+  getStoredAnswer,
+  isValidGeneratedQuestion,
+  normalizeQuestionText,
+} from './questionValidation.js';
+import { StoredQuestion, StoredQuiz } from './types.js';
+
+interface RegenerateQuestionRequest {
+  quizId: string;
+  questionId: string; // The question being replaced; the replacement gets a new id
+  questionType?: GeneratedQuestionType; // Defaults to the replaced question's type
+  avoidQuestions?: string[]; // Question texts shown in the editor, which may differ from the saved quiz
+}
+
+// Caps on what the client may add to the prompt
+const MAX_AVOID_QUESTIONS = 50;
+const MAX_AVOID_QUESTION_LENGTH = 500;
+// Providers are asked again when they repeat an existing question
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Callable Cloud Function asking the question provider for a single replacement question.
+ * The replacement matches the quiz's category, difficulty and topic and avoids the quiz's other questions.
+ * Nothing is written: the creator reviews the question and saves the quiz as usual.
+ */
+export const regenerateQuestion = onCall({ region: 'us-central1' }, async (request: CallableRequest<RegenerateQuestionRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+
+  // 2. Input Validation
+  const { quizId, questionId, questionType, avoidQuestions = [] } = request.data || ({} as RegenerateQuestionRequest);
+  if (typeof quizId !== 'string' || !quizId || typeof questionId !== 'string' || !questionId) {
+    throw new functions.https.HttpsError('invalid-argument', 'quizId and questionId are required.');
+  }
+  if (questionType !== undefined && !GENERATED_QUESTION_TYPES.includes(questionType)) {
+    throw new functions.https.HttpsError('invalid-argument', `questionType must be one of: ${GENERATED_QUESTION_TYPES.join(', ')}.`);
+  }
+  if (!Array.isArray(avoidQuestions) || avoidQuestions.length > MAX_AVOID_QUESTIONS ||
+    !avoidQuestions.every(text => typeof text === 'string' && text.length <= MAX_AVOID_QUESTION_LENGTH)) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      `avoidQuestions must be at most ${MAX_AVOID_QUESTIONS} strings of up to ${MAX_AVOID_QUESTION_LENGTH} characters.`
+    );
+  }
+
+  const db = getFirestore(getApp());
+  const quizDoc = await db.collection('quizzes').doc(quizId).get();
+  if (!quizDoc.exists) {
+    throw new functions.https.HttpsError('not-found', 'Quiz not found.');
+  }
+
+  // 3. Authorization Check: only whoever may edit the quiz can regenerate its questions
+  const quiz = quizDoc.data() as StoredQuiz;
+  if (!canEditQuiz(quiz, request.auth)) {
+    throw new functions.https.HttpsError('permission-denied', 'You can only regenerate questions of your own quizzes.');
+  }
+
+  // 4. Build the spec from the quiz; every other question, saved or only in the editor, must not be repeated
+  const replaced = (quiz.questions || []).find(q => q.id === questionId);
+  const type: GeneratedQuestionType = questionType || replaced?.type ||
+    (quiz.quizType === 'mixed' ? 'multiple_choice' : quiz.quizType);
+  const existingTexts = [
+    ...(quiz.questions || []).map(q => q.text),
+    ...avoidQuestions,
+  ].filter(text => text && text.trim());
+  const existing = new Set(existingTexts.map(normalizeQuestionText));
+
+  const provider = getQuestionProvider();
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const questionsRaw = await provider.generateQuestions({
+      category: quiz.category,
+      difficulty: quiz.difficulty,
+      numberOfQuestions: 1,
+      quizType: type,
+      team: quiz.team,
+      event: quiz.event,
+      country: quiz.country,
+      avoidQuestions: [...new Set(existingTexts)],
+    });
+
+    const candidate = Array.isArray(questionsRaw) ? questionsRaw[0] : undefined;
+    if (!candidate || !isValidGeneratedQuestion(candidate, type)) {
+      functions.logger.error(`Invalid replacement question from ${provider.name} for type ${type}:`, questionsRaw);
+      throw new functions.https.HttpsError('internal', `The generated question was invalid for type ${type}.`);
+    }
+    if (existing.has(normalizeQuestionText(candidate.question))) {
+      functions.logger.warn(`Replacement question for quiz ${quizId} repeated an existing question (attempt ${attempt}).`);
+      continue;
+    }
+
+    const question: StoredQuestion = {
+      id: db.collection('quizzes').doc().id,
+      text: candidate.question,
+      type,
+      ...getStoredAnswer(candidate, type),
+      ...getQuestionExtras(candidate),
+    };
+    return { question };
+  }
+
+  throw new functions.https.HttpsError('resource-exhausted', 'Could not find a question that is not already in the quiz. Please try again.');
+});
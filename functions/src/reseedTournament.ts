@@ -0,0 +1,71 @@
+// functions/src/reseedTournament.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import {
+  advanceTournament,
+  assertTournamentOrganizer,
+  buildMatches,
+  getTournamentRef,
+  readTournament,
+  TournamentParticipant,
+  writeTournament,
+} from './tournaments.js';
+
+interface ReseedTournamentRequest {
+  tournamentId: string;
+  userIds: string[]; // Every participant, in the new seed order
+}
+
+/**
+ * Callable Cloud Function with which the organizer changes the seeding. The schedule is rebuilt from the new order,
+ * so this is only possible until the first match has been started, and no walkover has been awarded.
+ */
+export const reseedTournament = onCall({ region: 'us-central1' }, async (request: CallableRequest<ReseedTournamentRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const { tournamentId, userIds } = request.data || ({} as ReseedTournamentRequest);
+  if (typeof tournamentId !== 'string' || !tournamentId || !Array.isArray(userIds) || !userIds.every(id => typeof id === 'string')) {
+    throw new functions.https.HttpsError('invalid-argument', 'tournamentId and userIds (the participants in seed order) are required.');
+  }
+
+  const db = getFirestore(getApp());
+  const tournamentRef = getTournamentRef(db, tournamentId);
+
+  await db.runTransaction(async (tx) => {
+    const stored = await readTournament(tx, tournamentRef);
+    if (!stored) {
+      throw new functions.https.HttpsError('not-found', 'Tournament not found.');
+    }
+    const { tournament, matches } = stored;
+
+    // 3. Authorization Check
+    assertTournamentOrganizer(tournament, userId);
+
+    const current = new Set(tournament.participants.map(p => p.userId));
+    if (userIds.length !== current.size || new Set(userIds).size !== userIds.length || !userIds.every(id => current.has(id))) {
+      throw new functions.https.HttpsError('invalid-argument', 'The new order must list every participant exactly once.');
+    }
+    const started = tournament.currentRound > 0 || tournament.status !== 'active'
+      || matches.some(match => Object.keys(match.sessionIds).length > 0 || match.resolution === 'walkover');
+    if (started) {
+      throw new functions.https.HttpsError('failed-precondition', 'Matches have already been played; the seeding can no longer change.');
+    }
+
+    // 4. Rebuild the schedule; it has the same matches (and ids) as before, with the players moved
+    const byId = new Map(tournament.participants.map(p => [p.userId, p]));
+    tournament.participants = userIds.map((id, index) => ({ ...(byId.get(id) as TournamentParticipant), seed: index + 1 }));
+    const rebuilt = buildMatches(tournament.format, tournament.participants);
+    advanceTournament(tournament, rebuilt, Timestamp.now());
+    writeTournament(tx, tournamentRef, tournament, rebuilt);
+  });
+
+  functions.logger.info(`User ${userId} reseeded tournament ${tournamentId}.`);
+  return { success: true };
+});
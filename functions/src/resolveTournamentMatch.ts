@@ -0,0 +1,69 @@
+// functions/src/resolveTournamentMatch.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { advanceTournament, assertTournamentOrganizer, getTournamentRef, readTournament, writeTournament } from './tournaments.js';
+
+interface ResolveTournamentMatchRequest {
+  tournamentId: string;
+  matchId: string;
+  winnerId: string | null; // The player who showed up; null when neither did (round-robin only)
+}
+
+/**
+ * Callable Cloud Function with which the organizer settles an open match by walkover, for no-shows.
+ * A bracket always needs someone to move on; in a round-robin a double no-show counts as a loss for both.
+ * A result submitted later for the match is kept in the player's history but no longer counts.
+ */
+export const resolveTournamentMatch = onCall({ region: 'us-central1' }, async (request: CallableRequest<ResolveTournamentMatchRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const { tournamentId, matchId, winnerId } = request.data || ({} as ResolveTournamentMatchRequest);
+  if (typeof tournamentId !== 'string' || !tournamentId || typeof matchId !== 'string' || !matchId
+    || (winnerId !== null && (typeof winnerId !== 'string' || !winnerId))) {
+    throw new functions.https.HttpsError('invalid-argument', 'tournamentId, matchId and winnerId (a player id or null) are required.');
+  }
+
+  const db = getFirestore(getApp());
+  const tournamentRef = getTournamentRef(db, tournamentId);
+
+  await db.runTransaction(async (tx) => {
+    const stored = await readTournament(tx, tournamentRef);
+    if (!stored) {
+      throw new functions.https.HttpsError('not-found', 'Tournament not found.');
+    }
+    const { tournament, matches } = stored;
+
+    // 3. Authorization Check
+    assertTournamentOrganizer(tournament, userId);
+
+    const match = matches.find(m => m.id === matchId);
+    if (!match) {
+      throw new functions.https.HttpsError('not-found', 'Match not found.');
+    }
+    if (tournament.status !== 'active' || match.status !== 'open' || match.round !== tournament.currentRound) {
+      throw new functions.https.HttpsError('failed-precondition', 'Only open matches of the current round can be settled.');
+    }
+    if (winnerId === null ? tournament.format !== 'round_robin' : !match.playerIds.includes(winnerId)) {
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        winnerId === null ? 'A bracket match needs a winner to move on.' : 'The winner must be one of the match players.',
+      );
+    }
+
+    // 4. Settle the match and move the tournament on
+    const now = Timestamp.now();
+    Object.assign(match, { status: 'completed', winnerId, resolution: 'walkover', completedAt: now });
+    const changed = advanceTournament(tournament, matches, now);
+    writeTournament(tx, tournamentRef, tournament, [match, ...changed.filter(m => m !== match)]);
+  });
+
+  functions.logger.info(`User ${userId} settled match ${matchId} of tournament ${tournamentId} by walkover (winner: ${winnerId ?? 'none'}).`);
+  return { success: true };
+});
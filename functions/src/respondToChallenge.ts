@@ -0,0 +1,65 @@
+// functions/src/respondToChallenge.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { FieldValue, getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { isChallengeExpired, StoredChallenge } from './challenges.js';
+
+interface RespondToChallengeRequest {
+  challengeId: string;
+  accept: boolean;
+}
+
+/**
+ * Callable Cloud Function with which the recipient of a challenge link accepts or declines it.
+ * The first player other than the challenger to respond becomes the recipient; the challenge is then theirs alone.
+ */
+export const respondToChallenge = onCall({ region: 'us-central1' }, async (request: CallableRequest<RespondToChallengeRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const { challengeId, accept } = request.data || ({} as RespondToChallengeRequest);
+  if (typeof challengeId !== 'string' || !challengeId || typeof accept !== 'boolean') {
+    throw new functions.https.HttpsError('invalid-argument', 'challengeId and accept (boolean) are required.');
+  }
+
+  const db = getFirestore(getApp());
+  const challengeRef = db.collection('challenges').doc(challengeId);
+  const userRef = db.collection('users').doc(userId);
+
+  // 3. Claim the challenge (in a transaction so two friends opening the same link cannot both accept it)
+  const status = await db.runTransaction(async (tx) => {
+    const [challengeDoc, userDoc] = await tx.getAll(challengeRef, userRef);
+    if (!challengeDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Challenge not found.');
+    }
+    const challenge = challengeDoc.data() as StoredChallenge;
+    if (challenge.challengerId === userId) {
+      throw new functions.https.HttpsError('failed-precondition', 'You cannot respond to your own challenge.');
+    }
+    if (challenge.status !== 'pending') {
+      throw new functions.https.HttpsError('failed-precondition', 'This challenge has already been answered.');
+    }
+    const now = Timestamp.now();
+    if (isChallengeExpired(challenge, now)) {
+      throw new functions.https.HttpsError('deadline-exceeded', 'This challenge has expired.');
+    }
+
+    const nextStatus = accept ? 'accepted' : 'declined';
+    tx.update(challengeRef, {
+      status: nextStatus,
+      recipientId: userId,
+      recipientName: userDoc.get('displayName') || `Player ${userId.slice(0, 6)}`,
+      participants: FieldValue.arrayUnion(userId),
+      respondedAt: now,
+    });
+    return nextStatus;
+  });
+
+  functions.logger.info(`User ${userId} ${status} challenge ${challengeId}.`);
+  return { status };
+});
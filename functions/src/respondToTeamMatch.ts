@@ -0,0 +1,91 @@
+// functions/src/respondToTeamMatch.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import {
+  assertTeamCaptain,
+  getTeamMatchExpiry,
+  getTeamMatchRef,
+  getTeamRef,
+  isTeamMatchExpired,
+  StoredTeam,
+  StoredTeamMatch,
+  toMatchSide,
+} from './teams.js';
+
+interface RespondToTeamMatchRequest {
+  matchId: string;
+  teamId: string; // The responding captain's team
+  accept: boolean;
+}
+
+/**
+ * Callable Cloud Function with which another team's captain accepts or declines a match link.
+ * The first team to respond becomes the opponent. Accepting fixes the opponent's players and starts the clock
+ * for both teams to play. A player cannot play for both sides.
+ */
+export const respondToTeamMatch = onCall({ region: 'us-central1' }, async (request: CallableRequest<RespondToTeamMatchRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const { matchId, teamId, accept } = request.data || ({} as RespondToTeamMatchRequest);
+  if (typeof matchId !== 'string' || !matchId || typeof teamId !== 'string' || !teamId || typeof accept !== 'boolean') {
+    throw new functions.https.HttpsError('invalid-argument', 'matchId, teamId and accept (boolean) are required.');
+  }
+
+  const db = getFirestore(getApp());
+  const matchRef = getTeamMatchRef(db, matchId);
+  const teamRef = getTeamRef(db, teamId);
+
+  // 3. Claim the match (in a transaction so two captains opening the same link cannot both accept it)
+  const status = await db.runTransaction(async (tx) => {
+    const [matchDoc, teamDoc] = await tx.getAll(matchRef, teamRef);
+    const match = matchDoc.data() as StoredTeamMatch | undefined;
+    const team = teamDoc.data() as StoredTeam | undefined;
+    if (!match) {
+      throw new functions.https.HttpsError('not-found', 'Team match not found.');
+    }
+    if (!team) {
+      throw new functions.https.HttpsError('not-found', 'Team not found.');
+    }
+    assertTeamCaptain(team, userId);
+    if (match.teamIds.includes(teamId)) {
+      throw new functions.https.HttpsError('failed-precondition', 'Your team cannot play against itself.');
+    }
+    if (match.status !== 'pending') {
+      throw new functions.https.HttpsError('failed-precondition', 'This match has already been answered.');
+    }
+    const now = Timestamp.now();
+    if (isTeamMatchExpired(match, now)) {
+      throw new functions.https.HttpsError('deadline-exceeded', 'This match has expired.');
+    }
+
+    if (!accept) {
+      tx.update(matchRef, { status: 'declined', respondedAt: now });
+      return 'declined';
+    }
+    const home = match.sides[match.teamIds[0]];
+    const away = toMatchSide(team, match.scoring);
+    if (away.playerIds.some(playerId => home.playerIds.includes(playerId))) {
+      throw new functions.https.HttpsError('failed-precondition', 'Some players are on both teams; each player can only play for one side.');
+    }
+
+    tx.update(matchRef, {
+      status: 'active',
+      teamIds: [...match.teamIds, teamId],
+      [`sides.${teamId}`]: away,
+      memberIds: [...new Set([...match.memberIds, ...team.memberIds])],
+      respondedAt: now,
+      expiresAt: getTeamMatchExpiry(now),
+    });
+    return 'active';
+  });
+
+  functions.logger.info(`Captain ${userId} of team ${teamId} ${status === 'active' ? 'accepted' : 'declined'} team match ${matchId}.`);
+  return { status };
+});
@@ -0,0 +1,53 @@
+// functions/src/retryTournamentRound.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { assertTournamentOrganizer, getTournamentRef, StoredTournament } from './tournaments.js';
+
+interface RetryTournamentRoundRequest {
+  tournamentId: string;
+}
+
+/**
+ * Callable Cloud Function with which the organizer retries generating the open round's quiz after it failed.
+ * Clearing the error is enough: prepareTournamentRound picks the round up again.
+ */
+export const retryTournamentRound = onCall({ region: 'us-central1' }, async (request: CallableRequest<RetryTournamentRoundRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const tournamentId = request.data?.tournamentId;
+  if (typeof tournamentId !== 'string' || !tournamentId) {
+    throw new functions.https.HttpsError('invalid-argument', 'The `tournamentId` is required and must be a non-empty string.');
+  }
+
+  const db = getFirestore(getApp());
+  const tournamentRef = getTournamentRef(db, tournamentId);
+
+  await db.runTransaction(async (tx) => {
+    const tournamentDoc = await tx.get(tournamentRef);
+    if (!tournamentDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Tournament not found.');
+    }
+    const tournament = tournamentDoc.data() as StoredTournament;
+
+    // 3. Authorization Check
+    assertTournamentOrganizer(tournament, userId);
+
+    const round = tournament.rounds[tournament.currentRound];
+    if (tournament.status !== 'active' || !round || !round.generationError) {
+      throw new functions.https.HttpsError('failed-precondition', 'The current round has no failed quiz generation to retry.');
+    }
+    tx.update(tournamentRef, {
+      rounds: tournament.rounds.map((r, index) => (index === tournament.currentRound ? { ...r, generationError: null } : r)),
+    });
+  });
+
+  functions.logger.info(`User ${userId} retried the quiz generation of tournament ${tournamentId}.`);
+  return { success: true };
+});
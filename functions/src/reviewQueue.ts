@@ -0,0 +1,158 @@
+// functions/src/reviewQueue.ts
+// The spaced-repetition review queue: questions a player missed come back in a daily review.
+//
+// reviewItems/{userId}_{quizId}_{questionId}   one scheduled question per player (see spacedRepetition.ts)
+//
+// A review is played like any quiz, under the pseudo quiz id "review". Its questions are drawn from several
+// quizzes, so each one is identified as {quizId}:{questionId} (kept in sync with src/utils/review.ts).
+// Review sessions are always practice sessions, so they never touch stats or leaderboards.
+import * as functions from 'firebase-functions';
+import { onDocumentCreated } from 'firebase-functions/v2/firestore';
+import { CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, DocumentReference, DocumentSnapshot, FieldValue, Firestore, Timestamp } from 'firebase-admin/firestore';
+import { canPlayQuiz } from './quizAccess.js';
+import { isSubmittedAttemptOf } from './sessions.js';
+import { scheduleNextReview } from './spacedRepetition.js';
+import { StoredQuestion, StoredQuiz, StoredQuizSession, StoredReviewItem } from './types.js';
+
+export const REVIEW_QUIZ_ID = 'review';
+export const REVIEW_QUIZ_TITLE = 'Daily Review';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The attempt fields the review schedule reads, as written by submitQuiz
+interface AttemptForReview {
+  userId: string;
+  quizId: string;
+  quizTitle?: string;
+  sessionId?: string;
+  answers?: { questionId: string; isCorrect: boolean; credit?: number }[];
+  completedAt?: Timestamp;
+  reviewScheduleUpdatedAt?: Timestamp;
+}
+
+interface ReviewSource {
+  quizId: string;
+  questionId: string;
+}
+
+export function toReviewQuestionId(quizId: string, questionId: string): string {
+  return `${quizId}:${questionId}`;
+}
+
+// Quiz ids never contain ':', so everything after the first one is the question id
+export function parseReviewQuestionId(reviewQuestionId: string): ReviewSource | null {
+  const separator = reviewQuestionId.indexOf(':');
+  if (separator <= 0 || separator === reviewQuestionId.length - 1) return null;
+  return { quizId: reviewQuestionId.slice(0, separator), questionId: reviewQuestionId.slice(separator + 1) };
+}
+
+export function getReviewItemId(userId: string, quizId: string, questionId: string): string {
+  return `${userId}_${quizId}_${questionId}`;
+}
+
+/**
+ * The review questions as one quiz that the session callables can score like any other.
+ * Questions that are not in the player's review queue, or whose quiz is gone or no longer playable, are left out.
+ * `getAll` reads the documents, either directly or through the caller's transaction.
+ */
+export async function loadReviewQuiz(
+  db: Firestore,
+  getAll: (...refs: DocumentReference[]) => Promise<DocumentSnapshot[]>,
+  auth: NonNullable<CallableRequest['auth']>,
+  reviewQuestionIds: string[],
+): Promise<StoredQuiz> {
+  const sources = reviewQuestionIds
+    .map(id => ({ id, source: parseReviewQuestionId(id) }))
+    .filter((entry): entry is { id: string; source: ReviewSource } => entry.source !== null);
+  const quizIds = [...new Set(sources.map(entry => entry.source.quizId))];
+
+  const itemRefs = sources.map(entry => db.collection('reviewItems').doc(getReviewItemId(auth.uid, entry.source.quizId, entry.source.questionId)));
+  const quizRefs = quizIds.map(quizId => db.collection('quizzes').doc(quizId));
+  const docs = sources.length > 0 ? await getAll(...itemRefs, ...quizRefs) : [];
+  const itemDocs = docs.slice(0, itemRefs.length);
+  const quizzes = new Map(docs.slice(itemRefs.length).map(quizDoc => [quizDoc.id, quizDoc.exists ? (quizDoc.data() as StoredQuiz) : null]));
+
+  const questions: StoredQuestion[] = [];
+  sources.forEach((entry, index) => {
+    const quiz = quizzes.get(entry.source.quizId);
+    if (!itemDocs[index].exists || !quiz || !canPlayQuiz(quiz, auth)) return;
+    const question = (quiz.questions || []).find(q => q.id === entry.source.questionId);
+    if (question) questions.push({ ...question, id: entry.id });
+  });
+
+  return {
+    id: REVIEW_QUIZ_ID,
+    title: REVIEW_QUIZ_TITLE,
+    category: 'Review',
+    difficulty: 'medium',
+    questions,
+    createdBy: auth.uid,
+    visibility: 'private',
+    quizType: 'mixed',
+  };
+}
+
+/**
+ * Firestore trigger that reschedules the questions of each new quiz attempt.
+ * Missed questions join the player's review queue; questions already in it move by their SM-2 schedule,
+ * whether they were answered in a review or met again in a quiz. Correct answers to questions that were
+ * never missed are ignored. Only attempts recorded by submitQuiz are applied. Runs in a transaction and stamps the attempt, so a retried event is applied once.
+ */
+export const updateReviewSchedule = onDocumentCreated({ document: 'quizAttempts/{attemptId}', region: 'us-central1' }, async (event) => {
+  if (!event.data) return;
+
+  const db = getFirestore(getApp());
+  const attemptRef = event.data.ref;
+
+  await db.runTransaction(async (tx) => {
+    const attemptDoc = await tx.get(attemptRef);
+    const attempt = attemptDoc.data() as AttemptForReview | undefined;
+    if (!attempt || attempt.reviewScheduleUpdatedAt) return; // Gone, or already applied by an earlier delivery
+    const sessionDoc = attempt.sessionId ? await tx.get(db.collection('quizSessions').doc(attempt.sessionId)) : null;
+    if (!isSubmittedAttemptOf(sessionDoc?.data() as StoredQuizSession | undefined, attemptRef.id, attempt)) {
+      functions.logger.warn(`Attempt ${attemptRef.id} does not match a submitted session; skipping the review queue.`);
+      return;
+    }
+
+    const isReview = attempt.quizId === REVIEW_QUIZ_ID;
+    const answers = (attempt.answers || [])
+      .map(answer => {
+        const source = isReview ? parseReviewQuestionId(answer.questionId) : { quizId: attempt.quizId, questionId: answer.questionId };
+        // Attempts from before partial credit only know whether the answer was right
+        return source ? { ...source, credit: answer.credit ?? (answer.isCorrect ? 1 : 0) } : null;
+      })
+      .filter((answer): answer is ReviewSource & { credit: number } => answer !== null);
+
+    // All reads happen before any write, as Firestore transactions require
+    const itemRefs = answers.map(answer => db.collection('reviewItems').doc(getReviewItemId(attempt.userId, answer.quizId, answer.questionId)));
+    const itemDocs = itemRefs.length > 0 ? await tx.getAll(...itemRefs) : [];
+
+    const reviewedAt = attempt.completedAt || Timestamp.now();
+    let scheduled = 0;
+    answers.forEach((answer, index) => {
+      const previous = itemDocs[index].exists ? (itemDocs[index].data() as StoredReviewItem) : null;
+      if (!previous && answer.credit >= 1) return;
+
+      const schedule = scheduleNextReview(previous, answer.credit);
+      const item: StoredReviewItem = {
+        userId: attempt.userId,
+        quizId: answer.quizId,
+        questionId: answer.questionId,
+        quizTitle: previous?.quizTitle || (isReview ? '' : attempt.quizTitle || ''),
+        ...schedule,
+        dueAt: Timestamp.fromMillis(reviewedAt.toMillis() + schedule.intervalDays * DAY_MS),
+        lastReviewedAt: reviewedAt,
+        lastCredit: answer.credit,
+      };
+      tx.set(itemRefs[index], item);
+      scheduled++;
+    });
+
+    tx.update(attemptRef, { reviewScheduleUpdatedAt: FieldValue.serverTimestamp() });
+    if (scheduled > 0) {
+      functions.logger.info(`Scheduled ${scheduled} review question(s) for user ${attempt.userId} from attempt ${attemptRef.id}.`);
+    }
+  });
+});
@@ -0,0 +1,91 @@
+// functions/src/rooms.ts
+// Live multiplayer rooms: a host runs a quiz for everyone in the room, one question at a time.
+//
+// rooms/{code}                          the room, keyed by its join code; every signed-in player can listen to it
+// rooms/{code}/players/{userId}         one row per player with their running score (the live scoreboard)
+// rooms/{code}/answers/{questionId}_{userId}   answers as scored on arrival; never readable by clients
+//
+// A room moves lobby → question → reveal → question → ... → finished, each step triggered by the host
+// through advanceRoom. Players only ever see the current question without its answer key; answers are
+// scored by submitRoomAnswer and added to the scoreboard when the host reveals the question.
+import * as functions from 'firebase-functions';
+import { randomInt } from 'crypto';
+import { DocumentReference, Firestore, Timestamp } from 'firebase-admin/firestore';
+import { PlayerQuestion } from './types.js';
+
+export type RoomStatus = 'lobby' | 'question' | 'reveal' | 'finished';
+
+export interface StoredRoom {
+  code: string;
+  hostId: string;
+  hostName: string;
+  quizId: string;
+  quizTitle: string;
+  status: RoomStatus;
+  questionOrder: string[]; // Question ids in the order they are played, fixed when the room is created
+  currentQuestionIndex: number; // -1 in the lobby
+  currentQuestion: PlayerQuestion | null; // Answer-free, so players never need access to the quiz itself
+  secondsPerQuestion: number;
+  questionStartedAt: Timestamp | null;
+  questionEndsAt: Timestamp | null; // The shared countdown every client shows
+  answerCount: number; // Answers received for the current question
+  playerCount: number;
+  // Filled in when the host reveals the current question
+  reveal: { questionId: string; correctOption: string; explanation: string | null } | null;
+  createdAt: Timestamp;
+}
+
+export interface StoredRoomPlayer {
+  userId: string;
+  displayName: string;
+  score: number; // Sum of the answers' credit
+  points: number;
+  correctCount: number;
+  lastResult: { questionId: string; credit: number; points: number; answered: boolean } | null; // Set on every reveal
+  joinedAt: Timestamp;
+}
+
+export interface StoredRoomAnswer {
+  userId: string;
+  questionId: string;
+  selectedOption: string;
+  answeredAt: Timestamp;
+  credit: number;
+  points: number;
+}
+
+// Join codes leave out characters that are easy to mix up (0/O, 1/I/L)
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const ROOM_CODE_LENGTH = 6;
+
+export const DEFAULT_SECONDS_PER_QUESTION = 20;
+export const MIN_SECONDS_PER_QUESTION = 5;
+export const MAX_SECONDS_PER_QUESTION = 120;
+
+// Firestore's gRPC status for a create() on a document that already exists
+const ALREADY_EXISTS_CODE = 6;
+
+export function generateRoomCode(): string {
+  return Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)]).join('');
+}
+
+// Codes are typed by hand, so case and surrounding spaces are forgiven
+export function parseRoomCode(value: unknown): string {
+  const code = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  if (code.length !== ROOM_CODE_LENGTH || [...code].some(char => !ROOM_CODE_ALPHABET.includes(char))) {
+    throw new functions.https.HttpsError('invalid-argument', 'A valid room code is required.');
+  }
+  return code;
+}
+
+export function getRoomRef(db: Firestore, code: string): DocumentReference {
+  return db.collection('rooms').doc(code);
+}
+
+export function getRoomAnswerId(questionId: string, userId: string): string {
+  return `${questionId}_${userId}`;
+}
+
+export function isAlreadyExistsError(err: unknown): boolean {
+  return typeof err === 'object' && err !== null && (err as { code?: unknown }).code === ALREADY_EXISTS_CODE;
+}
@@ -0,0 +1,133 @@
+// functions/src/scoring.ts
+// Answer checking shared by checkAnswer (instant feedback) and submitQuiz (final score).
+import { StoredQuestion } from './types.js';
+
+// Letters of a list answer ("A,C" or "C,A,B,D"), in the given order
+export function parseLetterList(value: string): string[] {
+  return value.split(',').map(letter => letter.trim().toUpperCase()).filter(Boolean);
+}
+
+// Free text reduced for comparison: case, accents, punctuation and extra spaces are ignored
+export function normalizeTextAnswer(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// A typed number; accepts a leading "+" and thousands separators such as "1,966"
+export function parseNumericAnswer(value: string): number | null {
+  const cleaned = value.trim().replace(/(\d),(?=\d{3}\b)/g, '$1');
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(cleaned)) return null;
+  return Number(cleaned);
+}
+
+/**
+ * Credit between 0 and 1 for one answer. How answers arrive per question type:
+ * - multiple_choice: the full label ("A. Option Text"), compared by its letter
+ * - true_false: "True"/"False", compared directly
+ * - multi_select: the picked letters ("A,C"); each right pick earns a share, each wrong pick costs one
+ * - numeric: the typed number; full credit within the tolerance, half credit within twice the tolerance
+ * - ordering: the letters in the player's order ("C,A,B,D"); credit for each item in its correct place
+ * - fill_in: the typed text, matched against the answer and its accepted variants
+ * '' (unanswered) always scores 0.
+ */
+export function getAnswerCredit(question: StoredQuestion, selectedOption: string): number {
+  if (selectedOption === '') return 0;
+  const correctOption = question.correctAnswer.toString();
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return selectedOption.charAt(0) === correctOption ? 1 : 0;
+    case 'true_false':
+      return selectedOption === correctOption ? 1 : 0;
+    case 'multi_select': {
+      const correct = new Set(parseLetterList(correctOption));
+      const picked = new Set(parseLetterList(selectedOption));
+      if (correct.size === 0) return 0;
+      let hits = 0;
+      let misses = 0;
+      picked.forEach(letter => (correct.has(letter) ? hits++ : misses++));
+      return Math.max(0, (hits - misses) / correct.size);
+    }
+    case 'numeric': {
+      const answer = parseNumericAnswer(selectedOption);
+      const expected = parseNumericAnswer(correctOption);
+      if (answer === null || expected === null) return 0;
+      const tolerance = Math.max(0, question.tolerance || 0);
+      const difference = Math.abs(answer - expected);
+      if (difference <= tolerance) return 1;
+      return tolerance > 0 && difference <= tolerance * 2 ? 0.5 : 0;
+    }
+    case 'ordering': {
+      const correct = parseLetterList(correctOption);
+      const order = parseLetterList(selectedOption);
+      // Every item must be placed exactly once
+      if (order.length !== correct.length || new Set(order).size !== order.length) return 0;
+      const inPlace = order.filter((letter, index) => letter === correct[index]).length;
+      return correct.length > 0 ? inPlace / correct.length : 0;
+    }
+    case 'fill_in': {
+      const answer = normalizeTextAnswer(selectedOption);
+      const accepted = [correctOption, ...(question.acceptedAnswers || [])].map(normalizeTextAnswer);
+      return answer !== '' && accepted.includes(answer) ? 1 : 0;
+    }
+    default:
+      return 0;
+  }
+}
+
+// Only full credit counts as a correct answer (stats, feedback colours)
+export function isAnswerCorrect(question: StoredQuestion, selectedOption: string): boolean {
+  return getAnswerCredit(question, selectedOption) === 1;
+}
+
+/**
+ * The correct answer as the player sees it, e.g. "A. Uruguay", "True", "A. Pelé; C. Cruyff",
+ * "1966 (±1 goals)" or the items in their correct order.
+ */
+export function getCorrectOptionText(question: StoredQuestion): string {
+  const correctOption = question.correctAnswer.toString();
+  const options = Array.isArray(question.options) ? question.options : [];
+  const optionFor = (letter: string) => options.find(option => option.startsWith(`${letter}.`)) || letter;
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return options.length > 0 ? optionFor(correctOption) : correctOption;
+    case 'multi_select':
+      return parseLetterList(correctOption).map(optionFor).join('; ');
+    case 'ordering':
+      return parseLetterList(correctOption).map(optionFor).join(' → ');
+    case 'numeric': {
+      const unit = question.unit ? ` ${question.unit}` : '';
+      return question.tolerance ? `${correctOption}${unit} (±${question.tolerance})` : `${correctOption}${unit}`;
+    }
+    default:
+      return correctOption;
+  }
+}
+
+// Coarse result bucket stored on each attempt so history can be filtered by it.
+// Thresholds match the score colours used in the app (green from 70%, yellow from 40%).
+export type ScoreBand = 'high' | 'medium' | 'low';
+
+export function getScoreBand(score: number, totalQuestions: number): ScoreBand {
+  const percentage = totalQuestions > 0 ? (score / totalQuestions) * 100 : 0;
+  if (percentage >= 70) return 'high';
+  if (percentage >= 40) return 'medium';
+  return 'low';
+}
+
+// Points for a fully correct answer, plus up to MAX_SPEED_BONUS for answering quickly in timed quizzes
+export const BASE_POINTS = 100;
+export const MAX_SPEED_BONUS = 50;
+
+/**
+ * Points for one question, scaled by its credit (see getAnswerCredit). The speed bonus shrinks linearly from
+ * MAX_SPEED_BONUS (instant answer) to 0 (answer at the reference time). Without a reference time or a measured
+ * duration there is no bonus.
+ */
+export function calculatePoints(credit: number, durationSeconds: number | null, referenceSeconds: number | null): number {
+  if (credit <= 0) return 0;
+  if (!referenceSeconds || durationSeconds === null) return Math.round(BASE_POINTS * credit);
+
+  const remainingFraction = Math.max(0, 1 - durationSeconds / referenceSeconds);
+  return Math.round((BASE_POINTS + MAX_SPEED_BONUS * remainingFraction) * credit);
+}
@@ -0,0 +1,104 @@
+// functions/src/sessions.ts
+// Helpers shared by the callables that create and consume quiz sessions.
+import * as functions from 'firebase-functions';
+import { Timestamp } from 'firebase-admin/firestore';
+import { StoredQuizSession } from './types.js';
+
+// How long a session stays open for submission when the quiz has no time limit
+export const DEFAULT_SESSION_TTL_SECONDS = 2 * 60 * 60;
+
+// Allowance for network latency on top of any countdown, so a last-second answer still counts
+export const TIMER_GRACE_SECONDS = 5;
+
+/**
+ * Seconds a session stays open: the overall limit if there is one, otherwise the sum of the
+ * per-question limits, otherwise the default TTL. Timed sessions get the grace period on top.
+ */
+export function getSessionDurationSeconds(
+  questionCount: number,
+  timePerQuestionSeconds: number | null,
+  totalTimeLimitSeconds: number | null,
+): number {
+  if (totalTimeLimitSeconds) {
+    return totalTimeLimitSeconds + TIMER_GRACE_SECONDS;
+  }
+  if (timePerQuestionSeconds) {
+    return questionCount * (timePerQuestionSeconds + TIMER_GRACE_SECONDS);
+  }
+  return DEFAULT_SESSION_TTL_SECONDS;
+}
+
+/**
+ * Server-measured seconds spent on each question, keyed by question id.
+ * A question's clock starts when the previous question in the session order was answered
+ * (or when the session started) and stops at its own answer log entry.
+ * Questions without a log entry get null.
+ */
+export function getQuestionDurations(session: StoredQuizSession): Record<string, number | null> {
+  const durations: Record<string, number | null> = {};
+  let clockStart = session.startedAt;
+
+  for (const questionId of session.questionOrder) {
+    const entry = session.answerLog?.[questionId];
+    if (entry) {
+      durations[questionId] = Math.max(0, (entry.answeredAt.toMillis() - clockStart.toMillis()) / 1000);
+      clockStart = entry.answeredAt;
+    } else {
+      durations[questionId] = null;
+    }
+  }
+  return durations;
+}
+
+/**
+ * Exams with a per-question limit are played one question at a time, each answer locked in by lockExamAnswer,
+ * so their time per question is measured like in practice (see getQuestionDurations).
+ * They go forward only: a question whose countdown ran out cannot be reopened, so the back/forward navigation and
+ * the editable review of other exams do not apply to them. Practice is never timed.
+ */
+export function hasQuestionClock(session: StoredQuizSession): boolean {
+  return session.mode === 'exam' && !!session.timePerQuestionSeconds;
+}
+
+/**
+ * Other exam sessions let players move back and forth between questions, so time per question cannot be
+ * measured: every question is credited with an even share of the time the whole attempt took.
+ */
+export function getEvenDurations(questionOrder: string[], totalSeconds: number): Record<string, number> {
+  const share = questionOrder.length > 0 ? totalSeconds / questionOrder.length : 0;
+  return Object.fromEntries(questionOrder.map(questionId => [questionId, share]));
+}
+
+/**
+ * Rejects sessions that belong to someone else, were already submitted, or have expired.
+ * `now` is the server time the caller uses for every other calculation in the same request.
+ */
+export function assertSessionUsable(session: StoredQuizSession, userId: string, now: Timestamp): void {
+  if (session.userId !== userId) {
+    throw new functions.https.HttpsError('permission-denied', 'This quiz session belongs to another user.');
+  }
+  if (session.status !== 'active') {
+    throw new functions.https.HttpsError('failed-precondition', 'This quiz session has already been submitted.');
+  }
+  if (now.toMillis() > session.expiresAt.toMillis()) {
+    throw new functions.https.HttpsError('deadline-exceeded', 'This quiz session has expired. Please start the quiz again.');
+  }
+}
+
+/**
+ * Whether an attempt is the one submitQuiz recorded for this session: the session was submitted with that attempt,
+ * by the same player, on the same quiz. The attempt triggers use it so nothing but submitQuiz's output is counted.
+ */
+export function isSubmittedAttemptOf(
+  session: StoredQuizSession | undefined,
+  attemptId: string,
+  attempt: { userId: string; quizId: string },
+): boolean {
+  return !!session && session.status === 'submitted' && session.attemptId === attemptId
+    && session.userId === attempt.userId && session.quizId === attempt.quizId;
+}
+
+// Whole seconds elapsed between two server timestamps
+export function secondsBetween(start: Timestamp, end: Timestamp): number {
+  return Math.max(0, Math.round((end.toMillis() - start.toMillis()) / 1000));
+}
@@ -0,0 +1,66 @@
+// functions/src/spacedRepetition.ts
+// SM-2 scheduling for the review queue: every missed question comes back after a growing interval,
+// shorter for questions that keep being missed.
+
+export const INITIAL_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+
+// Days until a question is reviewed again after its first and second successful review
+const FIRST_INTERVAL_DAYS = 1;
+const SECOND_INTERVAL_DAYS = 6;
+
+export interface ReviewSchedule {
+  easeFactor: number; // How fast the interval grows; drops with every poor answer
+  intervalDays: number;
+  repetitions: number; // Successful reviews in a row
+  lapses: number; // Times the question was missed again after being scheduled
+}
+
+/**
+ * SM-2 answer quality (0-5) from the credit an answer earned: full credit is a correct answer with some effort (4),
+ * mostly correct partial answers pass with difficulty (3), anything less is a failed recall.
+ */
+export function getReviewQuality(credit: number): number {
+  if (credit >= 1) return 4;
+  if (credit >= 0.5) return 3;
+  if (credit > 0) return 2;
+  return 1;
+}
+
+/**
+ * The schedule after answering a question with the given credit. `previous` is null the first time
+ * a question is scheduled, i.e. when it was just missed in a quiz.
+ */
+export function scheduleNextReview(previous: ReviewSchedule | null, credit: number): ReviewSchedule {
+  const quality = getReviewQuality(credit);
+  const current = previous || { easeFactor: INITIAL_EASE_FACTOR, intervalDays: 0, repetitions: 0, lapses: 0 };
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    current.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02),
+  );
+
+  // A failed recall starts the question over: back tomorrow, then the usual 1, 6, ... days
+  if (quality < 3) {
+    return {
+      easeFactor: Math.round(easeFactor * 100) / 100,
+      intervalDays: FIRST_INTERVAL_DAYS,
+      repetitions: 0,
+      lapses: current.lapses + (previous ? 1 : 0),
+    };
+  }
+
+  const repetitions = current.repetitions + 1;
+  const intervalDays = repetitions === 1
+    ? FIRST_INTERVAL_DAYS
+    : repetitions === 2
+      ? SECOND_INTERVAL_DAYS
+      : Math.round(current.intervalDays * current.easeFactor);
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    lapses: current.lapses,
+  };
+}
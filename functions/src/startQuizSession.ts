@@ -0,0 +1,310 @@
+// functions/src/startQuizSession.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { assertChallengePlayable, StoredChallenge } from './challenges.js';
+import {
+  assertDailyChallengePlayable,
+  claimDailyChallengeEntry,
+  getDailyChallengeEntryRef,
+  getDailyChallengeRef,
+  isDailyChallengeQuiz,
+  toDateKey,
+} from './dailyChallenge.js';
+import { canPlayQuiz } from './quizAccess.js';
+import { createOptionOrder, shuffle } from './optionOrder.js';
+import { loadReviewQuiz, REVIEW_QUIZ_ID } from './reviewQueue.js';
+import { assertAssignmentPlayable, getAssignmentRef, getGroupRef, StoredAssignment, StoredGroup } from './groups.js';
+import { getSessionDurationSeconds } from './sessions.js';
+import { assertTeamMatchPlayable, findPlayerSide, getTeamMatchRef, StoredTeamMatch, TeamMatchSide } from './teams.js';
+import { assertNotOpenRoundQuiz, assertTournamentMatchPlayable, getTournamentRef, StoredTournament, StoredTournamentMatch } from './tournaments.js';
+import { QuizMode, StoredQuiz, StoredQuizSession } from './types.js';
+
+interface StartQuizSessionRequest {
+  quizId: string;
+  mode?: QuizMode; // Defaults to 'exam'
+  questionIds?: string[]; // Play only these questions (e.g. the ones missed in an earlier attempt); required for reviews
+  challengeId?: string; // Plays an accepted challenge: mode, order and time limits are the challenger's
+  // Plays the caller's open tournament match, always as an exam; both are given together
+  tournamentId?: string;
+  tournamentMatchId?: string;
+  teamMatchId?: string; // Plays the caller's run in a team match, always as an exam
+  // Plays an assignment of one of the caller's groups, always as an exam; both are given together
+  groupId?: string;
+  assignmentId?: string;
+}
+
+/**
+ * Callable Cloud Function that opens a quiz session.
+ * The start time is taken from the server clock and the question order is fixed here,
+ * so submitQuiz can derive the time spent without trusting anything the client reports.
+ * Quizzes with shuffling enabled get a fresh question and option order for every session.
+ * Practice sessions are untimed. Exam sessions get the quiz's per-question and overall limits: with a per-question limit,
+ * the exam is played one question at a time and each answer is locked in with lockExamAnswer, which times it.
+ * The quiz id "review" opens a review of questions from the player's review queue (see reviewQueue.ts),
+ * which is always played in practice mode. Today's Daily Challenge can only be started once, as an exam: the session
+ * claims the player's entry for the day (see dailyChallenge.ts).
+ * A challengeId replays the challenger's session for the recipient, once (see challenges.ts).
+ * A tournament match is played once per player, on the round's quiz (see tournaments.ts); so is a team match (see teams.ts).
+ * Until the round is over, the participants play a round's quiz through their match only.
+ * A group assignment can be started until it is due, up to its attempt limit (see groups.ts).
+ */
+export const startQuizSession = onCall({ region: 'us-central1' }, async (request: CallableRequest<StartQuizSessionRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const quizId = request.data?.quizId;
+  if (typeof quizId !== 'string' || quizId.trim() === '') {
+    throw new functions.https.HttpsError('invalid-argument', 'The `quizId` is required and must be a non-empty string.');
+  }
+  const isReview = quizId === REVIEW_QUIZ_ID;
+  const questionIds = request.data?.questionIds;
+  if (isReview && (!Array.isArray(questionIds) || questionIds.length === 0 || !questionIds.every(id => typeof id === 'string'))) {
+    throw new functions.https.HttpsError('invalid-argument', 'A review needs the `questionIds` to review.');
+  }
+  const challengeId = request.data?.challengeId;
+  if (challengeId !== undefined && (typeof challengeId !== 'string' || !challengeId || isReview || questionIds !== undefined)) {
+    throw new functions.https.HttpsError('invalid-argument', '`challengeId` must be a non-empty string and is played without `questionIds`.');
+  }
+
+  const { tournamentId, tournamentMatchId } = request.data || {};
+  const isTournamentMatch = tournamentId !== undefined || tournamentMatchId !== undefined;
+  if (isTournamentMatch && (typeof tournamentId !== 'string' || !tournamentId || typeof tournamentMatchId !== 'string' || !tournamentMatchId
+    || isReview || questionIds !== undefined || challengeId !== undefined)) {
+    throw new functions.https.HttpsError('invalid-argument', 'A tournament match needs both `tournamentId` and `tournamentMatchId`, and is played in full.');
+  }
+  const teamMatchId = request.data?.teamMatchId;
+  if (teamMatchId !== undefined && (typeof teamMatchId !== 'string' || !teamMatchId
+    || isReview || questionIds !== undefined || challengeId !== undefined || isTournamentMatch)) {
+    throw new functions.https.HttpsError('invalid-argument', '`teamMatchId` must be a non-empty string, and a team match is played in full.');
+  }
+  const { groupId, assignmentId } = request.data || {};
+  const isAssignment = groupId !== undefined || assignmentId !== undefined;
+  if (isAssignment && (typeof groupId !== 'string' || !groupId || typeof assignmentId !== 'string' || !assignmentId
+    || isReview || questionIds !== undefined || challengeId !== undefined || isTournamentMatch || teamMatchId !== undefined)) {
+    throw new functions.https.HttpsError('invalid-argument', 'An assignment needs both `groupId` and `assignmentId`, and is played in full.');
+  }
+
+  const db = getFirestore(getApp());
+  const tournamentRef = isTournamentMatch ? getTournamentRef(db, tournamentId as string) : null;
+  const matchRef = tournamentRef ? tournamentRef.collection('matches').doc(tournamentMatchId as string) : null;
+  if (tournamentRef && matchRef) {
+    const [tournamentDoc, matchDoc] = await db.getAll(tournamentRef, matchRef);
+    if (!tournamentDoc.exists || !matchDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Tournament match not found.');
+    }
+    assertTournamentMatchPlayable(tournamentDoc.data() as StoredTournament, matchDoc.data() as StoredTournamentMatch, userId, quizId);
+  }
+
+  const teamMatchRef = teamMatchId ? getTeamMatchRef(db, teamMatchId) : null;
+  if (teamMatchRef) {
+    const teamMatchDoc = await teamMatchRef.get();
+    if (!teamMatchDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Team match not found.');
+    }
+    assertTeamMatchPlayable(teamMatchDoc.data() as StoredTeamMatch, userId, quizId, Timestamp.now());
+  }
+
+  const groupRef = isAssignment ? getGroupRef(db, groupId as string) : null;
+  const assignmentRef = isAssignment ? getAssignmentRef(db, groupId as string, assignmentId as string) : null;
+  if (groupRef && assignmentRef) {
+    const [groupDoc, assignmentDoc] = await db.getAll(groupRef, assignmentRef);
+    if (!groupDoc.exists || !assignmentDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Assignment not found.');
+    }
+    assertAssignmentPlayable(groupDoc.data() as StoredGroup, assignmentDoc.data() as StoredAssignment, userId, quizId, Timestamp.now());
+  }
+
+  const challengeRef = challengeId ? db.collection('challenges').doc(challengeId) : null;
+  let challenge: StoredChallenge | null = null;
+  if (challengeRef) {
+    const challengeDoc = await challengeRef.get();
+    if (!challengeDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Challenge not found.');
+    }
+    challenge = challengeDoc.data() as StoredChallenge;
+    assertChallengePlayable(challenge, userId, quizId, Timestamp.now());
+  }
+
+  // A challenge is played in the mode the challenger played it in; tournament and team matches and assignments are always scored
+  const mode: QuizMode = isReview ? 'practice' : challenge ? challenge.mode
+    : isTournamentMatch || teamMatchRef || isAssignment ? 'exam' : request.data?.mode ?? 'exam';
+  if (mode !== 'practice' && mode !== 'exam') {
+    throw new functions.https.HttpsError('invalid-argument', '`mode` must be "practice" or "exam".');
+  }
+
+  let quizData: StoredQuiz;
+  if (isReview) {
+    // 3. Authorization Check: only questions from the player's own queue, in quizzes they can still play
+    quizData = await loadReviewQuiz(db, (...refs) => db.getAll(...refs), request.auth, questionIds as string[]);
+  } else {
+    const quizDoc = await db.collection('quizzes').doc(quizId).get();
+    if (!quizDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Quiz not found.');
+    }
+
+    // 3. Authorization Check
+    quizData = quizDoc.data() as StoredQuiz;
+    if (!canPlayQuiz(quizData, request.auth)) {
+      throw new functions.https.HttpsError('permission-denied', 'You do not have access to this quiz.');
+    }
+
+    // A tournament round's quiz is only played through the match until the round is over (see tournaments.ts)
+    if (!isTournamentMatch) {
+      await assertNotOpenRoundQuiz(db, userId, quizId);
+    }
+
+    // Today's Daily Challenge counts once per player (see dailyChallenge.ts)
+    if (quizData.dailyChallengeDate && quizData.dailyChallengeDate === toDateKey(new Date())) {
+      const [challengeDoc, entryDoc] = await db.getAll(
+        getDailyChallengeRef(db, quizData.dailyChallengeDate),
+        getDailyChallengeEntryRef(db, quizData.dailyChallengeDate, userId),
+      );
+      if (isDailyChallengeQuiz(challengeDoc, quizId)) {
+        assertDailyChallengePlayable(mode, questionIds !== undefined, entryDoc.exists);
+      }
+    }
+  }
+  if (!Array.isArray(quizData.questions) || quizData.questions.length === 0) {
+    throw new functions.https.HttpsError('failed-precondition', 'This quiz has no questions.');
+  }
+
+  // Optional subset of questions; they keep the order they have in the quiz
+  let questionOrder = quizData.questions.map(q => q.id);
+  if (questionIds !== undefined) {
+    if (!Array.isArray(questionIds) || questionIds.length === 0 || !questionIds.every(id => typeof id === 'string')) {
+      throw new functions.https.HttpsError('invalid-argument', '`questionIds` must be a non-empty array of question ids.');
+    }
+    const requested = new Set(questionIds);
+    questionOrder = questionOrder.filter(id => requested.has(id));
+    if (questionOrder.length !== requested.size) {
+      throw new functions.https.HttpsError('invalid-argument', 'Some of the requested questions are not part of this quiz.');
+    }
+  }
+
+  // The option orders are kept in the session: answers arrive in displayed letters and are mapped back when scored
+  let optionOrder: Record<string, string[]> = {};
+  let timePerQuestionSeconds: number | null;
+  let totalTimeLimitSeconds: number | null;
+  if (challenge) {
+    // The challenger's orders and limits, minus any question removed from the quiz since
+    const available = new Set(questionOrder);
+    questionOrder = challenge.questionOrder.filter(id => available.has(id));
+    optionOrder = Object.fromEntries(Object.entries(challenge.optionOrder || {}).filter(([id]) => available.has(id)));
+    timePerQuestionSeconds = challenge.timePerQuestionSeconds;
+    totalTimeLimitSeconds = challenge.totalTimeLimitSeconds;
+  } else {
+    if (quizData.shuffleQuestions) {
+      questionOrder = shuffle(questionOrder);
+    }
+    if (quizData.shuffleOptions) {
+      for (const question of quizData.questions) {
+        const order = questionOrder.includes(question.id) ? createOptionOrder(question) : null;
+        if (order) optionOrder[question.id] = order;
+      }
+    }
+
+    timePerQuestionSeconds = mode === 'exam' ? quizData.timePerQuestionSeconds || null : null;
+    totalTimeLimitSeconds = mode === 'exam' ? quizData.totalTimeLimitSeconds || null : null;
+  }
+  if (questionOrder.length === 0) {
+    throw new functions.https.HttpsError('failed-precondition', 'None of the challenge questions are left in this quiz.');
+  }
+
+  // Timed exams close shortly after their countdown runs out; untimed ones get the default TTL
+  const startedAt = Timestamp.now();
+  const durationSeconds = getSessionDurationSeconds(questionOrder.length, timePerQuestionSeconds, totalTimeLimitSeconds);
+  const expiresAt = Timestamp.fromMillis(startedAt.toMillis() + durationSeconds * 1000);
+
+  const sessionRef = db.collection('quizSessions').doc();
+  // Today's Daily Challenge: the day's entry is claimed in the same transaction as any other claim below,
+  // once the day's challenge document confirms the quiz is the one generated for it
+  const dailyChallengeDate = quizData.dailyChallengeDate && quizData.dailyChallengeDate === toDateKey(startedAt.toDate())
+    ? quizData.dailyChallengeDate
+    : null;
+  const hasQuestionSubset = questionIds !== undefined;
+  const session: StoredQuizSession = {
+    id: sessionRef.id,
+    userId,
+    quizId,
+    mode,
+    questionOrder,
+    optionOrder,
+    startedAt,
+    expiresAt,
+    status: 'active',
+    timePerQuestionSeconds,
+    totalTimeLimitSeconds,
+    answerLog: {},
+    ...(challengeId ? { challengeId } : {}),
+    ...(isTournamentMatch ? { tournamentId, tournamentMatchId } : {}),
+    ...(teamMatchId ? { teamMatchId } : {}),
+    ...(isAssignment ? { groupId, assignmentId } : {}),
+  };
+  if (challengeRef) {
+    // Claims the recipient's one go at the challenge together with opening the session
+    await db.runTransaction(async (tx) => {
+      const challengeDoc = await tx.get(challengeRef);
+      assertChallengePlayable(challengeDoc.data() as StoredChallenge, userId, quizId, startedAt);
+      if (dailyChallengeDate) await claimDailyChallengeEntry(tx, db, dailyChallengeDate, session, hasQuestionSubset);
+      tx.set(sessionRef, session);
+      tx.update(challengeRef, { recipientSessionId: sessionRef.id });
+    });
+  } else if (tournamentRef && matchRef) {
+    // Claims the player's one go at the match together with opening the session
+    await db.runTransaction(async (tx) => {
+      const [tournamentDoc, matchDoc] = await tx.getAll(tournamentRef, matchRef);
+      assertTournamentMatchPlayable(tournamentDoc.data() as StoredTournament, matchDoc.data() as StoredTournamentMatch, userId, quizId);
+      if (dailyChallengeDate) await claimDailyChallengeEntry(tx, db, dailyChallengeDate, session, hasQuestionSubset);
+      tx.set(sessionRef, session);
+      tx.update(matchRef, { [`sessionIds.${userId}`]: sessionRef.id });
+    });
+  } else if (teamMatchRef) {
+    // Claims the player's one go for their side together with opening the session
+    await db.runTransaction(async (tx) => {
+      const teamMatch = (await tx.get(teamMatchRef)).data() as StoredTeamMatch;
+      assertTeamMatchPlayable(teamMatch, userId, quizId, startedAt);
+      const side = findPlayerSide(teamMatch, userId) as TeamMatchSide;
+      if (dailyChallengeDate) await claimDailyChallengeEntry(tx, db, dailyChallengeDate, session, hasQuestionSubset);
+      tx.set(sessionRef, session);
+      tx.update(teamMatchRef, { [`sides.${side.teamId}.sessionIds.${userId}`]: sessionRef.id });
+    });
+  } else if (groupRef && assignmentRef) {
+    // Uses up one of the member's attempts together with opening the session
+    await db.runTransaction(async (tx) => {
+      const [groupDoc, assignmentDoc] = await tx.getAll(groupRef, assignmentRef);
+      const assignment = assignmentDoc.data() as StoredAssignment;
+      assertAssignmentPlayable(groupDoc.data() as StoredGroup, assignment, userId, quizId, startedAt);
+      if (dailyChallengeDate) await claimDailyChallengeEntry(tx, db, dailyChallengeDate, session, hasQuestionSubset);
+      tx.set(sessionRef, session);
+      tx.update(assignmentRef, { [`attemptsStarted.${userId}`]: (assignment.attemptsStarted[userId] || 0) + 1 });
+    });
+  } else if (dailyChallengeDate) {
+    // Claims the player's one entry for today's Daily Challenge together with opening the session
+    await db.runTransaction(async (tx) => {
+      await claimDailyChallengeEntry(tx, db, dailyChallengeDate, session, hasQuestionSubset);
+      tx.set(sessionRef, session);
+    });
+  } else {
+    await sessionRef.set(session);
+  }
+
+  functions.logger.info(`User ${userId} started ${mode} session ${sessionRef.id} for quiz ${quizId}.`);
+
+  return {
+    sessionId: sessionRef.id,
+    mode,
+    questionOrder: session.questionOrder,
+    optionOrder,
+    startedAt: startedAt.toMillis(),
+    expiresAt: expiresAt.toMillis(),
+    timePerQuestionSeconds,
+    totalTimeLimitSeconds,
+    answeredAt: {}, // Nothing is logged yet; read back from the session's answerLog when a run is resumed
+  };
+});
@@ -5,37 +5,30 @@ import { onCall } from 'firebase-functions/v2/https';
 // 🛑🛑🛑 IMPORTANT FIX FOR "admin.firestore is not a function" (if it occurs here) 🛑🛑🛑
 // Consistent modular imports for Firebase Admin SDK Services
 import { getApp } from 'firebase-admin/app'; // To get the already initialized app instance
-import { getFirestore, FieldValue } from 'firebase-admin/firestore'; // Import getFirestore and FieldValue specifically
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore'; // Import getFirestore and FieldValue specifically
 // We don't need getAuth here, so we won't import it unless it's used.
 // 🛑🛑🛑 END IMPORTANT FIX 🛑🛑🛑
+import { StoredChallenge, toChallengeResult } from './challenges.js';
+import { applyDayToStreak, DailyChallengeStreak, getDailyChallengeEntryRef, getDailyChallengeRef, isDailyChallengeQuiz, toDateKey } from './dailyChallenge.js';
+import { toStoredAnswer } from './optionOrder.js';
+import { canPlayQuiz } from './quizAccess.js';
+import { loadReviewQuiz, REVIEW_QUIZ_ID } from './reviewQueue.js';
+import { calculatePoints, getAnswerCredit, getScoreBand, ScoreBand } from './scoring.js';
+import { assertSessionUsable, getEvenDurations, getQuestionDurations, hasQuestionClock, secondsBetween, TIMER_GRACE_SECONDS } from './sessions.js';
+import { findPlayerSide, getTeamMatchRef, settleTeamMatch, StoredTeamMatch } from './teams.js';
+import { advanceTournament, getTournamentRef, readTournament, writeTournament } from './tournaments.js';
+import { QuizMode, StoredQuestion, StoredQuiz, StoredQuizSession } from './types.js';
+import { applyAttemptToStats, AttemptForStats, createEmptyStats, UserStats } from './userStats.js';
 
 // Define interfaces for clarity and type safety
 interface UserSelectedAnswerForFunction {
     questionId: string;
-    selectedOption: string; // e.g., 'A. Option Text' or 'True'/'False'
+    selectedOption: string; // e.g., 'A. Option Text', 'True'/'False' or 'A,C' (see scoring.ts); '' when left unanswered
 }
 
 interface QuizSubmissionData {
-    quizId: string;
+    sessionId: string; // Issued by startQuizSession; carries the server-side start time and question order
     userAnswers: UserSelectedAnswerForFunction[];
-    quizStartTime: number; // To calculate time spent (frontend timestamp)
-}
-
-// Structure for the questions stored in Firestore, including the correct answer
-interface StoredQuestion {
-    id: string;
-    text: string;
-    type: 'multiple_choice' | 'true_false';
-    options?: string[]; // e.g., ["A. Option 1", "B. Option 2", "C. Option 3", "D. Option 4"]
-    correctAnswer: string; // e.g., 'A', 'B', 'C', 'D' or 'True'/'False' (should be just the letter/boolean value)
-}
-
-// Structure for the quiz as stored in Firestore
-interface StoredQuiz {
-    id: string;
-    title: string;
-    questions: StoredQuestion[];
-    // ... other quiz properties like category, difficulty etc.
 }
 
 // Interface for what we want to store for a single quiz attempt in Firestore
@@ -43,15 +36,32 @@ interface QuizAttemptData {
     id: string; // Storing the document ID within the document for easier access
     userId: string;
     quizId: string;
-    score: number; // Only storing correct count for score
+    sessionId: string;
+    mode: QuizMode; // Practice attempts are kept in the history but left out of stats and leaderboards
+    // Denormalized from the quiz so history can be listed and filtered without reading every quiz
+    quizTitle: string;
+    category: string;
+    difficulty: StoredQuiz['difficulty'];
+    // Attempts at a group assignment only; the group lets its coach read the attempt (see groups.ts)
+    groupId?: string;
+    assignmentId?: string;
+    score: number; // Sum of the answers' credit: 1 per correct answer, a fraction for partly correct ones
+    points: number; // Credit-weighted points plus speed bonus, see scoring.ts
     totalQuestions: number;
+    scoreBand: ScoreBand;
     answers: { // Simplified to match frontend QuizAttempt['answers'] type
         questionId: string;
-        userAnswer: string; // The full string the user selected, e.g., "A. Option Text"
+        userAnswer: string; // The full string the user selected, e.g., "A. Option Text", in the stored option letters
         correctAnswer: string; // The actual correct option (e.g., 'A' or 'True')
-        isCorrect: boolean;
+        optionOrder?: string[]; // Shuffled options only: the stored letters in the order the player saw them
+        isCorrect: boolean; // Full credit only
+        credit: number; // 0 to 1; below 1 but above 0 for partly correct answers
+        timeSpentSeconds: number | null; // Server-measured; an even share of the attempt for exams without a per-question limit, null when not logged
+        points: number;
+        explanation?: string; // Copied from the question when it has one
+        source?: string;
     }[];
-    timeSpent: number;
+    timeSpent: number; // Seconds between session start and submission, both measured on the server
     completedAt: FieldValue; // Use FieldValue from modular import
 }
 
@@ -64,121 +74,293 @@ export const submitQuiz = onCall({ region: 'us-central1' }, async (event) => {
     // 🛑 END FIX 🛑
 
     const userId = event.auth?.uid;
-    if (!userId) {
+    if (!event.auth || !userId) {
         throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
     }
+    const auth = event.auth;
 
     const data: QuizSubmissionData = event.data as QuizSubmissionData;
-    const { quizId, userAnswers, quizStartTime } = data;
+    const { sessionId, userAnswers } = data || ({} as QuizSubmissionData);
 
-    if (!quizId || !Array.isArray(userAnswers) || userAnswers.length === 0 || !quizStartTime) {
-        throw new functions.https.HttpsError('invalid-argument', 'quizId, userAnswers (non-empty array), and quizStartTime are required.');
+    if (typeof sessionId !== 'string' || !sessionId || !Array.isArray(userAnswers) || userAnswers.length === 0) {
+        throw new functions.https.HttpsError('invalid-argument', 'sessionId and userAnswers (non-empty array) are required.');
     }
 
     try {
-        const quizDocRef = db.collection('quizzes').doc(quizId);
-        const quizDoc = await quizDocRef.get();
+        const sessionRef = db.collection('quizSessions').doc(sessionId);
+        const newAttemptRef = db.collection('quizAttempts').doc();
 
-        if (!quizDoc.exists) {
-            functions.logger.warn(`Quiz with ID ${quizId} not found for submission by user ${userId}.`);
-            throw new functions.https.HttpsError('not-found', "Quiz not found.");
-        }
+        // ⭐ The session is read, checked and closed in one transaction so it can never be submitted twice ⭐
+        const result = await db.runTransaction(async (tx) => {
+            const sessionDoc = await tx.get(sessionRef);
+            if (!sessionDoc.exists) {
+                throw new functions.https.HttpsError('not-found', "Quiz session not found.");
+            }
+            const session = sessionDoc.data() as StoredQuizSession;
 
-        const quizData = quizDoc.data() as StoredQuiz;
-        if (!quizData || !Array.isArray(quizData.questions) || quizData.questions.length === 0) {
-            functions.logger.error(`Quiz data for ID ${quizId} is malformed or missing questions for user ${userId}. Data: ${JSON.stringify(quizData)}`);
-            throw new functions.https.HttpsError('internal', "Quiz data is invalid on server. Cannot score.");
-        }
+            const submittedAt = Timestamp.now();
+            assertSessionUsable(session, userId, submittedAt);
 
-        const quizQuestions: StoredQuestion[] = quizData.questions;
-        const totalQuestions = quizQuestions.length;
+            const quizId = session.quizId;
+            let quizData: StoredQuiz;
+            if (quizId === REVIEW_QUIZ_ID) {
+                // Review questions come from several quizzes; the ones no longer playable are left out (see reviewQueue.ts)
+                quizData = await loadReviewQuiz(db, (...refs) => tx.getAll(...refs), auth, session.questionOrder);
+            } else {
+                const quizDoc = await tx.get(db.collection('quizzes').doc(quizId));
 
-        let correctCount = 0;
-        const attemptDetails: QuizAttemptData['answers'] = [];
+                if (!quizDoc.exists) {
+                    functions.logger.warn(`Quiz with ID ${quizId} not found for submission by user ${userId}.`);
+                    throw new functions.https.HttpsError('not-found', "Quiz not found.");
+                }
 
-        const correctAnswersMap = new Map<string, string>();
-        quizQuestions.forEach(q => {
-            // Ensure correctAnswer is consistently stored as just the letter/value (e.g., 'A', 'True')
-            correctAnswersMap.set(q.id, q.correctAnswer.toString());
-        });
+                quizData = quizDoc.data() as StoredQuiz;
+                if (!quizData || !Array.isArray(quizData.questions) || quizData.questions.length === 0) {
+                    functions.logger.error(`Quiz data for ID ${quizId} is malformed or missing questions for user ${userId}. Data: ${JSON.stringify(quizData)}`);
+                    throw new functions.https.HttpsError('internal', "Quiz data is invalid on server. Cannot score.");
+                }
 
-        for (const userAnswer of userAnswers) {
-            const questionId = userAnswer.questionId;
-            const selectedOption = userAnswer.selectedOption; // This will be "A. Option Text" or "True"/"False"
+                // Players may only submit quizzes they are allowed to play (same rule as the player view)
+                if (!canPlayQuiz(quizData, auth)) {
+                    throw new functions.https.HttpsError('permission-denied', "You do not have access to this quiz.");
+                }
+            }
 
-            const correctOption = correctAnswersMap.get(questionId); // This should be "A" or "True"/"False"
+            // Transactions need every read before the first write, so the stats are read up front.
+            // Practice attempts leave the stats alone.
+            const isPractice = session.mode === 'practice';
+            const statsRef = db.collection('userStats').doc(userId);
+            const statsDoc = isPractice ? null : await tx.get(statsRef);
 
-            if (correctOption !== undefined) {
-                let isCorrect: boolean;
+            // ⭐ An exam of today's Daily Challenge, started on its day, is the player's one scored entry for it ⭐
+            // startQuizSession claimed the entry for this session; it is scored here, once. Only the quiz the day's
+            // challenge document names counts, whatever dailyChallengeDate a quiz carries
+            const claimedDate = !isPractice && quizData.dailyChallengeDate === toDateKey(session.startedAt.toDate())
+                ? quizData.dailyChallengeDate
+                : null;
+            const challengeDoc = claimedDate ? await tx.get(getDailyChallengeRef(db, claimedDate)) : null;
+            const challengeDate = claimedDate && challengeDoc && isDailyChallengeQuiz(challengeDoc, quizId) ? claimedDate : null;
+            const challengeEntryRef = challengeDate ? getDailyChallengeEntryRef(db, challengeDate, userId) : null;
+            const challengeStreakRef = db.collection('dailyChallengeStreaks').doc(userId);
+            let challengeStreak: DailyChallengeStreak | null = null;
+            let displayName = '';
+            if (challengeEntryRef) {
+                const [entryDoc, streakDoc, userDoc] = await tx.getAll(challengeEntryRef, challengeStreakRef, db.collection('users').doc(userId));
+                if (entryDoc.get('sessionId') !== sessionId || entryDoc.get('attemptId')) {
+                    throw new functions.https.HttpsError('failed-precondition', "You have already played today's Daily Challenge.");
+                }
+                challengeStreak = streakDoc.exists ? (streakDoc.data() as DailyChallengeStreak) : null;
+                displayName = userDoc.get('displayName') || `Player ${userId.slice(0, 6)}`;
+            }
 
-                // ⭐ NEW LOGIC STARTS HERE ⭐
-                // We need to parse the user's selectedOption to get just the 'A', 'B', 'C', 'D', 'True', or 'False'
-                if (quizQuestions.find(q => q.id === questionId)?.type === 'multiple_choice') {
-                    // For multiple choice, assume format "A. Option Text" and extract 'A'
-                    const userSelectedLetter = selectedOption.charAt(0);
-                    isCorrect = userSelectedLetter === correctOption;
-                } else if (quizQuestions.find(q => q.id === questionId)?.type === 'true_false') {
-                    // For true/false, direct comparison should work if both are "True" or "False"
-                    isCorrect = selectedOption === correctOption;
+            // ⭐ A challenge session completes its head-to-head challenge (see challenges.ts) ⭐
+            const headToHeadRef = session.challengeId ? db.collection('challenges').doc(session.challengeId) : null;
+            let headToHead: StoredChallenge | null = null;
+            if (headToHeadRef) {
+                const headToHeadDoc = await tx.get(headToHeadRef);
+                const stored = headToHeadDoc.exists ? (headToHeadDoc.data() as StoredChallenge) : null;
+                if (stored && stored.status === 'accepted' && stored.recipientId === userId && stored.recipientSessionId === sessionId) {
+                    headToHead = stored;
                 } else {
-                    // Fallback for unknown types or malformed data - assume incorrect
-                    isCorrect = false;
-                    functions.logger.warn(`Unknown question type or malformed answer for question ID: ${questionId}`);
+                    functions.logger.warn(`Session ${sessionId} no longer matches challenge ${session.challengeId}; saving the attempt only.`);
+                }
+            }
+
+            // ⭐ A tournament session is the player's side of their match, unless the organizer settled it meanwhile ⭐
+            const tournamentRef = session.tournamentId ? getTournamentRef(db, session.tournamentId) : null;
+            const tournamentState = tournamentRef ? await readTournament(tx, tournamentRef) : null;
+            const tournamentMatch = tournamentState?.matches.find(m =>
+                m.id === session.tournamentMatchId && m.status === 'open' && m.sessionIds[userId] === sessionId && !m.results[userId]);
+            if (tournamentRef && !tournamentMatch) {
+                functions.logger.warn(`Session ${sessionId} no longer counts for match ${session.tournamentMatchId} of tournament ${session.tournamentId}; saving the attempt only.`);
+            }
+
+            // ⭐ A team match session is the player's run for their side, unless the match was settled meanwhile ⭐
+            const teamMatchRef = session.teamMatchId ? getTeamMatchRef(db, session.teamMatchId) : null;
+            const teamMatch = teamMatchRef ? ((await tx.get(teamMatchRef)).data() as StoredTeamMatch | undefined) : undefined;
+            const playerSide = teamMatch && teamMatch.status === 'active' ? findPlayerSide(teamMatch, userId) : null;
+            const teamSide = playerSide && playerSide.sessionIds[userId] === sessionId && !playerSide.results[userId] ? playerSide : null;
+            if (teamMatchRef && !teamSide) {
+                functions.logger.warn(`Session ${sessionId} no longer counts for team match ${session.teamMatchId}; saving the attempt only.`);
+            }
+
+            // Only the questions handed out by the session count towards the score
+            const sessionQuestionIds = new Set(session.questionOrder);
+            const quizQuestions: StoredQuestion[] = quizData.questions.filter(q => sessionQuestionIds.has(q.id));
+            const totalQuestions = quizQuestions.length;
+
+            // The submitted list holds each question's final answer: exams may change answers until they are
+            // submitted, and practice may retry a question after its feedback. Exams with a per-question limit
+            // are the exception: there the answer lockExamAnswer logged counts, and a question without one is unanswered.
+            const questionClock = hasQuestionClock(session);
+            const submittedAnswers = new Map(userAnswers.map(a => [a.questionId, a.selectedOption]));
+            for (const questionId of submittedAnswers.keys()) {
+                if (!sessionQuestionIds.has(questionId)) {
+                    functions.logger.warn(`User ${userId} submitted answer for unknown question ID: ${questionId} in quiz ${quizId}`);
+                }
+            }
+
+            // ⭐ Time spent comes from two server timestamps, never from the client ⭐
+            const timeSpentSeconds = secondsBetween(session.startedAt, submittedAt);
+            const durations: Record<string, number | null> = session.mode === 'exam' && !questionClock
+                ? getEvenDurations(session.questionOrder, timeSpentSeconds)
+                : getQuestionDurations(session);
+            const timePerQuestion = session.timePerQuestionSeconds;
+            // Speed bonus reference (timed exams only): the per-question limit, or an even share of the overall limit
+            const referenceSeconds = timePerQuestion
+                || (session.totalTimeLimitSeconds && totalQuestions > 0 ? session.totalTimeLimitSeconds / totalQuestions : null);
+
+            let correctCount = 0;
+            let score = 0;
+            let totalPoints = 0;
+            const attemptDetails: QuizAttemptData['answers'] = [];
+            const statsAnswers: AttemptForStats['answers'] = [];
+
+            for (const questionId of session.questionOrder) {
+                const question = quizQuestions.find(q => q.id === questionId);
+                if (!question) continue; // Removed from the quiz since the session started
+
+                const timeSpent = durations[questionId] ?? null;
+                let selectedOption = questionClock
+                    ? session.answerLog?.[questionId]?.selectedOption ?? ''
+                    : submittedAnswers.get(questionId) ?? '';
+
+                // Answers locked in after the per-question countdown (plus grace) count as unanswered
+                if (questionClock && timePerQuestion && timeSpent !== null && timeSpent > timePerQuestion + TIMER_GRACE_SECONDS) {
+                    selectedOption = '';
                 }
-                // ⭐ NEW LOGIC ENDS HERE ⭐
+
+                // Shuffled options were answered in the letters the player saw; map them back to the stored ones
+                const optionOrder = session.optionOrder?.[questionId];
+                selectedOption = toStoredAnswer(question, selectedOption, optionOrder);
+
+                const correctOption = question.correctAnswer.toString(); // This should be "A" or "True"/"False"
+                // Each question type has its own answer format and partial credit rules (see scoring.ts)
+                const credit = getAnswerCredit(question, selectedOption);
+                const isCorrect = credit === 1;
+                const points = calculatePoints(credit, timeSpent, referenceSeconds);
 
                 if (isCorrect) {
                     correctCount++;
                 }
+                score += credit;
+                totalPoints += points;
+                statsAnswers.push({ question, isCorrect });
                 attemptDetails.push({
                     questionId: questionId,
-                    userAnswer: selectedOption, // Keep the full string the user selected for review
+                    userAnswer: selectedOption, // Keep the full string the user selected for review ('' = unanswered)
                     correctAnswer: correctOption, // Keep the concise correct answer for review
-                    isCorrect: isCorrect
-                });
-            } else {
-                functions.logger.warn(`User ${userId} submitted answer for unknown question ID: ${questionId} in quiz ${quizId}`);
-                attemptDetails.push({
-                    questionId: questionId,
-                    userAnswer: selectedOption,
-                    correctAnswer: 'N/A (Question Not Found)',
-                    isCorrect: false,
+                    isCorrect: isCorrect,
+                    credit: Math.round(credit * 100) / 100,
+                    timeSpentSeconds: timeSpent === null ? null : Math.round(timeSpent * 10) / 10,
+                    points: points,
+                    // Only set when present: Firestore rejects undefined values
+                    ...(optionOrder ? { optionOrder } : {}),
+                    ...(question.explanation ? { explanation: question.explanation } : {}),
+                    ...(question.source ? { source: question.source } : {}),
                 });
             }
-        }
 
-        const incorrectCount = totalQuestions - correctCount;
-        const timeSpentSeconds = Math.round((Date.now() - quizStartTime) / 1000);
+            // Partial credit can leave long fractions; two decimals are plenty for display
+            score = Math.round(score * 100) / 100;
 
-        const newAttemptRef = db.collection('quizAttempts').doc();
+            const quizAttemptData: QuizAttemptData = {
+                id: newAttemptRef.id,
+                userId: userId,
+                quizId: quizId,
+                sessionId: sessionId,
+                mode: session.mode,
+                quizTitle: quizData.title || '',
+                category: quizData.category || '',
+                difficulty: quizData.difficulty || 'medium',
+                ...(session.groupId && session.assignmentId ? { groupId: session.groupId, assignmentId: session.assignmentId } : {}),
+                score: score,
+                points: totalPoints,
+                totalQuestions: totalQuestions,
+                scoreBand: getScoreBand(score, totalQuestions),
+                answers: attemptDetails,
+                timeSpent: timeSpentSeconds,
+                completedAt: FieldValue.serverTimestamp(), // 🛑 FIX: Use imported FieldValue 🛑
+            };
 
-        const quizAttemptData: QuizAttemptData = {
-            id: newAttemptRef.id,
-            userId: userId,
-            quizId: quizId,
-            score: correctCount,
-            totalQuestions: totalQuestions,
-            answers: attemptDetails,
-            timeSpent: timeSpentSeconds,
-            completedAt: FieldValue.serverTimestamp(), // 🛑 FIX: Use imported FieldValue 🛑
-        };
+            tx.set(newAttemptRef, quizAttemptData);
+
+            // ⭐ Keep userStats/{uid} in step with the attempt so the stats page never scans history ⭐
+            if (statsDoc) {
+                const previousStats = statsDoc.exists ? (statsDoc.data() as UserStats) : createEmptyStats(userId);
+                const updatedStats = applyAttemptToStats(previousStats, {
+                    quiz: quizData,
+                    answers: statsAnswers,
+                    timeSpentSeconds: timeSpentSeconds,
+                    completedAt: submittedAt.toDate(),
+                });
+                tx.set(statsRef, { ...updatedStats, updatedAt: FieldValue.serverTimestamp() });
+            }
+            if (challengeEntryRef && challengeDate) {
+                tx.update(challengeEntryRef, {
+                    displayName,
+                    points: totalPoints,
+                    score,
+                    totalQuestions,
+                    timeSpentSeconds,
+                    attemptId: newAttemptRef.id,
+                    completedAt: FieldValue.serverTimestamp(),
+                });
+                tx.set(challengeStreakRef, applyDayToStreak(challengeStreak, userId, challengeDate));
+            }
+            if (headToHeadRef && headToHead) {
+                tx.set(
+                    headToHeadRef.collection('results').doc(userId),
+                    toChallengeResult(quizAttemptData, userId, headToHead.recipientName || `Player ${userId.slice(0, 6)}`),
+                );
+                tx.update(headToHeadRef, {
+                    status: 'completed',
+                    recipientAttemptId: newAttemptRef.id,
+                    recipientScore: score,
+                    recipientPoints: totalPoints,
+                    completedAt: submittedAt,
+                });
+            }
+            if (tournamentRef && tournamentState && tournamentMatch) {
+                tournamentMatch.results[userId] = { attemptId: newAttemptRef.id, score, points: totalPoints, timeSpentSeconds };
+                const changedMatches = advanceTournament(tournamentState.tournament, tournamentState.matches, submittedAt);
+                writeTournament(tx, tournamentRef, tournamentState.tournament, [tournamentMatch, ...changedMatches.filter(m => m !== tournamentMatch)]);
+            }
+            if (teamMatchRef && teamMatch && teamSide) {
+                teamSide.results[userId] = { attemptId: newAttemptRef.id, score, points: totalPoints, timeSpentSeconds };
+                settleTeamMatch(teamMatch, submittedAt);
+                tx.set(teamMatchRef, teamMatch);
+            }
+            tx.update(sessionRef, { status: 'submitted', attemptId: newAttemptRef.id, submittedAt });
+
+            return { quizId, mode: session.mode, score, correctCount, totalPoints, totalQuestions, attemptDetails, timeSpentSeconds };
+        });
 
-        await newAttemptRef.set(quizAttemptData);
-        functions.logger.info(`User ${userId} completed quiz ${quizId}. Score: ${correctCount}/${totalQuestions}. Attempt ID: ${newAttemptRef.id}`);
+        const { quizId, mode, score, correctCount, totalPoints, totalQuestions, attemptDetails, timeSpentSeconds } = result;
+        const incorrectCount = Math.round((totalQuestions - score) * 100) / 100;
+        functions.logger.info(`User ${userId} completed quiz ${quizId} in ${mode} mode (session ${sessionId}). Score: ${score}/${totalQuestions} (${correctCount} fully correct, ${totalPoints} points). Attempt ID: ${newAttemptRef.id}`);
 
         return {
             message: "Quiz submitted successfully!",
+            mode: mode,
             score: {
-                correct: correctCount,
+                correct: score, // Includes partial credit
                 incorrect: incorrectCount,
                 total: totalQuestions
             },
+            points: totalPoints,
             attemptId: newAttemptRef.id,
             reviewDetails: attemptDetails.map(detail => ({
                 questionId: detail.questionId,
                 selectedOption: detail.userAnswer,
                 correctOption: detail.correctAnswer,
-                isCorrect: detail.isCorrect
+                isCorrect: detail.isCorrect,
+                credit: detail.credit,
+                timeSpentSeconds: detail.timeSpentSeconds,
+                points: detail.points,
+                optionOrder: detail.optionOrder ?? null,
+                explanation: detail.explanation ?? null,
+                source: detail.source ?? null
             })),
             timeSpentSeconds: timeSpentSeconds
         };
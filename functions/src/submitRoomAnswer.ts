@@ -0,0 +1,92 @@
+// functions/src/submitRoomAnswer.ts
+import * as functions from 'firebase-functions';
+import { onCall, CallableRequest } from 'firebase-functions/v2/https';
+import { getApp } from 'firebase-admin/app';
+import { FieldValue, getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { getRoomAnswerId, getRoomRef, isAlreadyExistsError, parseRoomCode, StoredRoom, StoredRoomAnswer } from './rooms.js';
+import { calculatePoints, getAnswerCredit } from './scoring.js';
+import { secondsBetween, TIMER_GRACE_SECONDS } from './sessions.js';
+import { StoredQuiz } from './types.js';
+
+interface SubmitRoomAnswerRequest {
+  code: string;
+  questionId: string; // Must be the room's current question
+  selectedOption: string; // Same encoding as checkAnswer (see scoring.ts)
+}
+
+/**
+ * Callable Cloud Function recording a player's answer to the room's current question.
+ * The answer is scored on arrival (points include the speed bonus, timed from when the host opened the question)
+ * but nothing is returned about correctness: results reach the scoreboard when the host reveals the question.
+ * Each player gets one answer per question.
+ */
+export const submitRoomAnswer = onCall({ region: 'us-central1' }, async (request: CallableRequest<SubmitRoomAnswerRequest>) => {
+  // 1. Authentication Check
+  if (!request.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'Authentication required. User not logged in.');
+  }
+  const userId = request.auth.uid;
+
+  // 2. Input Validation
+  const code = parseRoomCode(request.data?.code);
+  const { questionId, selectedOption } = request.data;
+  if (typeof questionId !== 'string' || !questionId || typeof selectedOption !== 'string') {
+    throw new functions.https.HttpsError('invalid-argument', 'questionId and selectedOption are required.');
+  }
+
+  const db = getFirestore(getApp());
+  const roomRef = getRoomRef(db, code);
+  const answerRef = roomRef.collection('answers').doc(getRoomAnswerId(questionId, userId));
+
+  // In a transaction with the room, so an answer either lands before the host reveals the question or not at all
+  try {
+    await db.runTransaction(async (tx) => {
+      const [roomDoc, playerDoc] = await tx.getAll(roomRef, roomRef.collection('players').doc(userId));
+      if (!roomDoc.exists) {
+        throw new functions.https.HttpsError('not-found', 'Room not found.');
+      }
+
+      // 3. Authorization Check: only players who joined the room
+      if (!playerDoc.exists) {
+        throw new functions.https.HttpsError('permission-denied', 'Join the room before answering.');
+      }
+
+      // 4. The question must still be open
+      const room = roomDoc.data() as StoredRoom;
+      if (room.status !== 'question' || room.currentQuestion?.id !== questionId || !room.questionStartedAt || !room.questionEndsAt) {
+        throw new functions.https.HttpsError('failed-precondition', 'This question is no longer open.');
+      }
+      const now = Timestamp.now();
+      if (now.toMillis() > room.questionEndsAt.toMillis() + TIMER_GRACE_SECONDS * 1000) {
+        throw new functions.https.HttpsError('deadline-exceeded', "Time's up for this question.");
+      }
+
+      // 5. Score the answer
+      const quizDoc = await tx.get(db.collection('quizzes').doc(room.quizId));
+      const question = ((quizDoc.data() as StoredQuiz | undefined)?.questions || []).find(q => q.id === questionId);
+      if (!question) {
+        throw new functions.https.HttpsError('not-found', 'Question not found.');
+      }
+      const credit = getAnswerCredit(question, selectedOption);
+      const answer: StoredRoomAnswer = {
+        userId,
+        questionId,
+        selectedOption,
+        answeredAt: now,
+        credit,
+        points: calculatePoints(credit, secondsBetween(room.questionStartedAt, now), room.secondsPerQuestion),
+      };
+
+      // 6. Record it once (create() fails on a second answer)
+      tx.create(answerRef, answer);
+      tx.update(roomRef, { answerCount: FieldValue.increment(1) });
+    });
+  } catch (err: unknown) {
+    if (isAlreadyExistsError(err)) {
+      throw new functions.https.HttpsError('already-exists', 'You have already answered this question.');
+    }
+    throw err;
+  }
+
+  return { received: true };
+});
@@ -0,0 +1,308 @@
+// functions/src/teams.ts
+// Teams and team-vs-team matches.
+//
+// teams/{teamId}          the team: captain, roster, invite code and record; readable by its members only
+// teamMatches/{matchId}   one team against another on one quiz; readable by the members of its teams only. While it
+//                         waits for an opponent, the captain shares its link, which another team's captain opens
+//                         through getTeamMatchInvite: team name, quiz and scoring, without the roster
+//
+// Players join a team through its invite link (/teams/join/{inviteCode}); the captain manages the roster.
+// A captain creates a match on a public quiz and sends the link to another team's captain, who accepts it for
+// their team. Each side's players are fixed at that point, and a side's result depends on the match's scoring:
+//   'sum'      every member plays once and their points are added up
+//   'average'  every member plays once; the side scores the mean of those who played
+//   'captain'  the team agrees on one answer per question and the captain plays them in; only that run counts
+// Players open their run with startQuizSession (one session each, always an exam) and submitQuiz records it.
+// The match is settled once everyone has played, or when it expires (closeExpiredTeamMatches), and
+// updateTeamStandings then adds it to both teams' records and the team leaderboards. A match no team accepted in
+// time is declined by closeExpiredTeamMatches, leaving respondedAt null.
+import * as functions from 'firebase-functions';
+import { randomBytes } from 'crypto';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, DocumentReference, FieldValue, Firestore, Timestamp } from 'firebase-admin/firestore';
+import { boardEntryRef, getIsoWeekKey, getTeamBoards, writeBoard } from './leaderboards.js';
+
+export const MAX_TEAM_MEMBERS = 20;
+export const MAX_TEAM_NAME_LENGTH = 40;
+// How long a match waits for an opponent, and how long both teams then have to play
+export const TEAM_MATCH_TTL_DAYS = 3;
+// Expired matches settled per scheduled run; the rest are picked up by the next one
+const EXPIRED_MATCH_BATCH = 100;
+
+export type TeamScoring = 'sum' | 'average' | 'captain';
+export const TEAM_SCORINGS: TeamScoring[] = ['sum', 'average', 'captain'];
+export type TeamMatchStatus = 'pending' | 'active' | 'declined' | 'completed';
+
+export interface TeamMember {
+  userId: string;
+  displayName: string;
+  joinedAt: Timestamp;
+}
+
+export interface TeamRecord {
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  points: number; // The team's match points, summed
+}
+
+export interface StoredTeam {
+  id: string;
+  name: string;
+  captainId: string;
+  members: TeamMember[]; // In the order they joined
+  memberIds: string[]; // Same players; lets the rules and the /teams page check membership
+  inviteCode: string;
+  record: TeamRecord; // Kept by updateTeamStandings
+  createdAt: Timestamp;
+}
+
+export interface TeamMatchResult {
+  attemptId: string;
+  score: number;
+  points: number;
+  timeSpentSeconds: number;
+}
+
+export interface TeamMatchSide {
+  teamId: string;
+  name: string;
+  captainId: string;
+  playerIds: string[]; // Who plays for the side: the roster when the match was set up, or just the captain
+  playerNames: Record<string, string>;
+  sessionIds: Record<string, string>; // Each player's one session
+  results: Record<string, TeamMatchResult>;
+  score: number; // The side's aggregate, set when the match is settled
+  points: number;
+}
+
+export interface StoredTeamMatch {
+  id: string;
+  quizId: string;
+  quizTitle: string;
+  scoring: TeamScoring;
+  status: TeamMatchStatus;
+  teamIds: string[]; // The challenging team first, then the opponent once it accepted
+  sides: Record<string, TeamMatchSide>; // By team id
+  memberIds: string[]; // Both teams' members when the match was set up; lets the rules and the /teams page find their matches
+  createdBy: string;
+  winnerTeamId: string | null; // Null for a draw
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+  respondedAt: Timestamp | null; // Stays null when closeExpiredTeamMatches declined the match
+  completedAt: Timestamp | null;
+  standingsUpdatedAt?: Timestamp; // Set by updateTeamStandings once the result is counted
+}
+
+// Invite codes are part of a link, never typed, so they can be long enough not to be guessed
+export function generateInviteCode(): string {
+  return randomBytes(12).toString('base64url');
+}
+
+export function createEmptyRecord(): TeamRecord {
+  return { played: 0, wins: 0, draws: 0, losses: 0, points: 0 };
+}
+
+export function getTeamRef(db: Firestore, teamId: string): DocumentReference {
+  return db.collection('teams').doc(teamId);
+}
+
+export function getTeamMatchRef(db: Firestore, matchId: string): DocumentReference {
+  return db.collection('teamMatches').doc(matchId);
+}
+
+export function assertTeamCaptain(team: StoredTeam, userId: string): void {
+  if (team.captainId !== userId) {
+    throw new functions.https.HttpsError('permission-denied', 'Only the team captain can do this.');
+  }
+}
+
+// A side's roster is fixed when the match is set up, so later roster changes leave running matches alone
+export function toMatchSide(team: StoredTeam, scoring: TeamScoring): TeamMatchSide {
+  const players = scoring === 'captain' ? team.members.filter(member => member.userId === team.captainId) : team.members;
+  return {
+    teamId: team.id,
+    name: team.name,
+    captainId: team.captainId,
+    playerIds: players.map(member => member.userId),
+    playerNames: Object.fromEntries(players.map(member => [member.userId, member.displayName])),
+    sessionIds: {},
+    results: {},
+    score: 0,
+    points: 0,
+  };
+}
+
+export function getTeamMatchExpiry(from: Timestamp): Timestamp {
+  return Timestamp.fromMillis(from.toMillis() + TEAM_MATCH_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export function isTeamMatchExpired(match: StoredTeamMatch, now: Timestamp): boolean {
+  return (match.status === 'pending' || match.status === 'active') && now.toMillis() > match.expiresAt.toMillis();
+}
+
+// Declined by closeExpiredTeamMatches rather than by a captain
+export function wasClosedUnanswered(match: StoredTeamMatch): boolean {
+  return match.status === 'declined' && !match.respondedAt;
+}
+
+// The side the player plays for, if any
+export function findPlayerSide(match: StoredTeamMatch, userId: string): TeamMatchSide | null {
+  return Object.values(match.sides).find(side => side.playerIds.includes(userId)) || null;
+}
+
+// Sums or averages the results that are in; a captain-played side has at most one
+function aggregateSide(side: TeamMatchSide, scoring: TeamScoring): { score: number; points: number } {
+  const results = Object.values(side.results);
+  const score = results.reduce((sum, result) => sum + result.score, 0);
+  const points = results.reduce((sum, result) => sum + result.points, 0);
+  if (scoring !== 'average' || results.length === 0) {
+    return { score: Math.round(score * 100) / 100, points };
+  }
+  return { score: Math.round((score / results.length) * 100) / 100, points: Math.round(points / results.length) };
+}
+
+/**
+ * Settles an active match in place once every player of both sides has played, or regardless when `force` is set
+ * (the match expired; players who never played add nothing). The side with more points wins; equal points are a draw.
+ * Returns whether the match was settled.
+ */
+export function settleTeamMatch(match: StoredTeamMatch, now: Timestamp, force = false): boolean {
+  if (match.status !== 'active') return false;
+  const sides = match.teamIds.map(teamId => match.sides[teamId]);
+  const everyoneIn = sides.every(side => side.playerIds.every(playerId => side.results[playerId]));
+  if (!everyoneIn && !force) return false;
+
+  for (const side of sides) {
+    Object.assign(side, aggregateSide(side, match.scoring));
+  }
+  const [home, away] = sides;
+  match.winnerTeamId = home.points === away.points ? null : home.points > away.points ? home.teamId : away.teamId;
+  match.status = 'completed';
+  match.completedAt = now;
+  return true;
+}
+
+/**
+ * Rejects a session for a team match the caller cannot play: the match must be under way on this quiz,
+ * the caller must be one of its players, and they must not have started before. Each player gets one go.
+ */
+export function assertTeamMatchPlayable(match: StoredTeamMatch, userId: string, quizId: string, now: Timestamp): void {
+  if (match.quizId !== quizId) {
+    throw new functions.https.HttpsError('invalid-argument', 'This match is played on a different quiz.');
+  }
+  const side = findPlayerSide(match, userId);
+  if (!side) {
+    throw new functions.https.HttpsError('permission-denied', match.scoring === 'captain'
+      ? 'Only the captains play in this match.'
+      : 'You are not playing in this match.');
+  }
+  if (match.status !== 'active') {
+    throw new functions.https.HttpsError('failed-precondition', 'This match is not under way.');
+  }
+  if (side.sessionIds[userId] || side.results[userId]) {
+    throw new functions.https.HttpsError('failed-precondition', 'You have already played this match.');
+  }
+  if (isTeamMatchExpired(match, now)) {
+    throw new functions.https.HttpsError('deadline-exceeded', 'This match has expired.');
+  }
+}
+
+/**
+ * Scheduled Cloud Function closing matches whose time ran out: those no team accepted are declined, and those
+ * with players still to play are settled.
+ * Each match is closed in its own transaction, so one that was accepted or completed meanwhile is left alone.
+ */
+export const closeExpiredTeamMatches = onSchedule({
+  schedule: 'every 60 minutes',
+  region: 'us-central1',
+}, async () => {
+  const db = getFirestore(getApp());
+  const now = Timestamp.now();
+  const unanswered = await db.collection('teamMatches')
+    .where('status', '==', 'pending')
+    .where('expiresAt', '<', now)
+    .limit(EXPIRED_MATCH_BATCH)
+    .get();
+
+  let declined = 0;
+  for (const doc of unanswered.docs) {
+    const closed = await db.runTransaction(async (tx) => {
+      const match = (await tx.get(doc.ref)).data() as StoredTeamMatch | undefined;
+      if (!match || match.status !== 'pending' || !isTeamMatchExpired(match, now)) return false;
+      tx.update(doc.ref, { status: 'declined' });
+      return true;
+    });
+    if (closed) declined++;
+  }
+
+  const expired = await db.collection('teamMatches')
+    .where('status', '==', 'active')
+    .where('expiresAt', '<', now)
+    .limit(EXPIRED_MATCH_BATCH)
+    .get();
+
+  let settled = 0;
+  for (const doc of expired.docs) {
+    const closed = await db.runTransaction(async (tx) => {
+      const match = (await tx.get(doc.ref)).data() as StoredTeamMatch | undefined;
+      if (!match || !settleTeamMatch(match, now, true)) return false;
+      tx.set(doc.ref, match);
+      return true;
+    });
+    if (closed) settled++;
+  }
+  functions.logger.info(`Declined ${declined} unanswered and settled ${settled} expired team matches.`);
+});
+
+/**
+ * Trigger counting a completed match towards both teams' records and the team leaderboards.
+ * Runs in a transaction and stamps the match, so a repeated event is never counted twice.
+ * Teams disbanded since the match was played are skipped.
+ */
+export const updateTeamStandings = onDocumentWritten({ document: 'teamMatches/{matchId}', region: 'us-central1' }, async (event) => {
+  const after = event.data?.after;
+  if (!after || !after.exists) return;
+  const snapshot = after.data() as StoredTeamMatch;
+  if (snapshot.status !== 'completed' || snapshot.standingsUpdatedAt) return;
+
+  const db = getFirestore(getApp());
+  const matchRef = after.ref;
+  await db.runTransaction(async (tx) => {
+    const match = (await tx.get(matchRef)).data() as StoredTeamMatch | undefined;
+    if (!match || match.status !== 'completed' || match.standingsUpdatedAt) return;
+
+    // All reads happen before any write, as Firestore transactions require
+    const teamDocs = await tx.getAll(...match.teamIds.map(teamId => getTeamRef(db, teamId)));
+    const boards = getTeamBoards(getIsoWeekKey((match.completedAt || Timestamp.now()).toDate()));
+    for (const board of boards) {
+      writeBoard(tx, db, board);
+    }
+
+    for (const teamDoc of teamDocs) {
+      if (!teamDoc.exists) continue;
+      const side = match.sides[teamDoc.id];
+      const outcome = match.winnerTeamId === null ? 'draws' : match.winnerTeamId === teamDoc.id ? 'wins' : 'losses';
+      tx.update(teamDoc.ref, {
+        'record.played': FieldValue.increment(1),
+        [`record.${outcome}`]: FieldValue.increment(1),
+        'record.points': FieldValue.increment(side.points),
+      });
+      for (const board of boards) {
+        tx.set(boardEntryRef(db, board.id, teamDoc.id), {
+          teamId: teamDoc.id,
+          displayName: teamDoc.get('name') || side.name,
+          points: FieldValue.increment(side.points),
+          matches: FieldValue.increment(1),
+          wins: FieldValue.increment(outcome === 'wins' ? 1 : 0),
+          updatedAt: FieldValue.serverTimestamp(),
+        }, { merge: true });
+      }
+    }
+
+    tx.update(matchRef, { standingsUpdatedAt: FieldValue.serverTimestamp() });
+  });
+});
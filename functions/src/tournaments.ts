@@ -0,0 +1,417 @@
+// functions/src/tournaments.ts
+// Tournaments for quiz leagues: single-elimination brackets and round-robin leagues played on quizzes.
+//
+// tournaments/{tournamentId}                    the tournament: participants in seed order, rounds and standings
+// tournaments/{tournamentId}/matches/{matchId}  one pairing in one round, with each side's result
+//
+// Every round is played on one quiz, picked by the organizer or generated when the round opens (prepareTournamentRound).
+// Generated quizzes are private to the tournament's members. Until its round is over, a round's quiz is only played
+// by the participants through their match, so nobody practises it first.
+// Players open their match with startQuizSession (one session each, always an exam) and submitQuiz records the result.
+// Once both sides are in, the match is settled on score with the time spent as tie-breaker; bracket winners move on,
+// and the next round opens when every match of the current one is settled.
+// The organizer can reseed until someone has started playing, and award walkovers for no-shows.
+import * as functions from 'firebase-functions';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { getApp } from 'firebase-admin/app';
+import { getFirestore, DocumentReference, FieldValue, Firestore, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { GeneratedQuestionType } from './providers/index.js';
+import { generateQuestions } from './quizGeneration.js';
+import { StoredQuestion, StoredQuiz } from './types.js';
+
+export const MIN_TOURNAMENT_PLAYERS = 2;
+export const MAX_TOURNAMENT_PLAYERS = 16;
+const TOURNAMENT_SECONDS_PER_QUESTION = 20;
+// createdBy of the generated round quizzes: no player owns them
+const TOURNAMENT_CREATOR = 'tournament';
+
+export type TournamentFormat = 'single_elimination' | 'round_robin';
+export type TournamentStatus = 'active' | 'completed';
+export type TournamentRoundStatus = 'pending' | 'open' | 'completed';
+export type TournamentMatchStatus = 'pending' | 'open' | 'completed';
+// 'played': settled on both results; 'bye': no opponent in the first bracket round; 'walkover': awarded by the organizer
+export type TournamentMatchResolution = 'played' | 'bye' | 'walkover';
+
+export interface TournamentParticipant {
+  userId: string;
+  displayName: string;
+  seed: number; // 1 is the top seed
+}
+
+// How a round's quiz is generated when the organizer did not pick one
+export interface TournamentRoundGeneration {
+  category: string;
+  difficulty: StoredQuiz['difficulty'];
+  numberOfQuestions: number;
+  quizType: GeneratedQuestionType;
+}
+
+export interface TournamentRound {
+  quizId: string | null; // Null until a generated round's quiz is ready
+  quizTitle: string | null;
+  generation: TournamentRoundGeneration | null;
+  generationError: string | null; // Set when generating the quiz failed, until the organizer retries
+  status: TournamentRoundStatus;
+}
+
+export interface TournamentStanding {
+  userId: string;
+  played: number; // Byes are not counted
+  wins: number;
+  draws: number;
+  losses: number;
+  score: number; // Summed over the matches played
+  timeSpentSeconds: number;
+}
+
+export interface StoredTournament {
+  id: string;
+  name: string;
+  organizerId: string;
+  organizerName: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  participants: TournamentParticipant[]; // In seed order
+  memberIds: string[]; // The participants and the organizer; lets the /tournaments page list both
+  rounds: TournamentRound[];
+  currentRound: number; // Index of the open round (the last one once completed)
+  standings: TournamentStanding[]; // Best first: wins (draws count half), then score, then time
+  winnerId: string | null;
+  createdAt: Timestamp;
+  completedAt: Timestamp | null;
+}
+
+export interface TournamentMatchResult {
+  attemptId: string;
+  score: number;
+  points: number;
+  timeSpentSeconds: number;
+}
+
+export interface StoredTournamentMatch {
+  id: string;
+  round: number;
+  slot: number; // Position within the round; in a bracket, slots 2k and 2k + 1 feed slot k of the next round
+  playerIds: (string | null)[]; // Two entries; null for a bye, or a bracket slot whose player is not known yet
+  sessionIds: Record<string, string>; // Each player's one session
+  results: Record<string, TournamentMatchResult>;
+  status: TournamentMatchStatus;
+  winnerId: string | null; // Null for a round-robin draw or a double no-show
+  resolution: TournamentMatchResolution | null;
+  completedAt: Timestamp | null;
+}
+
+export function getTournamentRef(db: Firestore, tournamentId: string): DocumentReference {
+  return db.collection('tournaments').doc(tournamentId);
+}
+
+// Reads a tournament with all of its matches (at most 120, in a round-robin of 16) inside a transaction
+export async function readTournament(
+  tx: Transaction,
+  tournamentRef: DocumentReference,
+): Promise<{ tournament: StoredTournament; matches: StoredTournamentMatch[] } | null> {
+  const [tournamentDoc, matchesSnapshot] = await Promise.all([tx.get(tournamentRef), tx.get(tournamentRef.collection('matches'))]);
+  if (!tournamentDoc.exists) return null;
+  return {
+    tournament: tournamentDoc.data() as StoredTournament,
+    matches: matchesSnapshot.docs.map(doc => doc.data() as StoredTournamentMatch),
+  };
+}
+
+// Writes the tournament back together with the matches that changed
+export function writeTournament(
+  tx: Transaction,
+  tournamentRef: DocumentReference,
+  tournament: StoredTournament,
+  matches: StoredTournamentMatch[],
+): void {
+  tx.set(tournamentRef, tournament);
+  for (const match of matches) {
+    tx.set(tournamentRef.collection('matches').doc(match.id), match);
+  }
+}
+
+// A bracket needs enough rounds to halve the field down to one; a round-robin pairs everyone once
+export function getRoundCount(format: TournamentFormat, playerCount: number): number {
+  if (format === 'single_elimination') {
+    return Math.ceil(Math.log2(playerCount));
+  }
+  return playerCount % 2 === 0 ? playerCount - 1 : playerCount;
+}
+
+export function getMatchId(round: number, slot: number): string {
+  return `r${round + 1}-m${slot + 1}`;
+}
+
+// Standard bracket order: the top two seeds can only meet in the final, and the byes go to the top seeds
+function getBracketSeedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const seedSum = order.length * 2 + 1;
+    order = order.flatMap(seed => [seed, seedSum - seed]);
+  }
+  return order;
+}
+
+/**
+ * Every match of a fresh tournament, with the first round open. A bracket gets all of its matches up front
+ * (later rounds fill in as winners move on); a round-robin is scheduled with the circle method.
+ */
+export function buildMatches(format: TournamentFormat, participants: TournamentParticipant[]): StoredTournamentMatch[] {
+  const createMatch = (round: number, slot: number, playerIds: (string | null)[]): StoredTournamentMatch => ({
+    id: getMatchId(round, slot),
+    round,
+    slot,
+    playerIds,
+    sessionIds: {},
+    results: {},
+    status: round === 0 ? 'open' : 'pending',
+    winnerId: null,
+    resolution: null,
+    completedAt: null,
+  });
+  const seeded = [...participants].sort((a, b) => a.seed - b.seed);
+  const roundCount = getRoundCount(format, seeded.length);
+  const matches: StoredTournamentMatch[] = [];
+
+  if (format === 'single_elimination') {
+    const size = 2 ** roundCount;
+    const order = getBracketSeedOrder(size);
+    const bySeed = new Map(seeded.map(p => [p.seed, p.userId]));
+    for (let round = 0; round < roundCount; round++) {
+      for (let slot = 0; slot < size / 2 ** (round + 1); slot++) {
+        matches.push(createMatch(round, slot, round === 0
+          ? [bySeed.get(order[slot * 2]) ?? null, bySeed.get(order[slot * 2 + 1]) ?? null]
+          : [null, null]));
+      }
+    }
+    return matches;
+  }
+
+  // The first player stays put while everyone else rotates one place per round; an odd field sits one player out
+  const ring: (string | null)[] = seeded.map(p => p.userId);
+  if (ring.length % 2 === 1) ring.push(null);
+  for (let round = 0; round < roundCount; round++) {
+    let slot = 0;
+    for (let i = 0; i < ring.length / 2; i++) {
+      const home = ring[i];
+      const away = ring[ring.length - 1 - i];
+      if (home && away) matches.push(createMatch(round, slot++, [home, away]));
+    }
+    ring.splice(1, 0, ring.pop() ?? null);
+  }
+  return matches;
+}
+
+// Negative when `a` is the better result, positive when `b` is, 0 when they are level on score and time
+function compareResults(a: TournamentMatchResult, b: TournamentMatchResult): number {
+  return (b.score - a.score) || (a.timeSpentSeconds - b.timeSpentSeconds);
+}
+
+export function computeStandings(participants: TournamentParticipant[], matches: StoredTournamentMatch[]): TournamentStanding[] {
+  const table = new Map<string, TournamentStanding>(participants.map(p => [
+    p.userId,
+    { userId: p.userId, played: 0, wins: 0, draws: 0, losses: 0, score: 0, timeSpentSeconds: 0 },
+  ]));
+  for (const match of matches) {
+    if (match.status !== 'completed' || match.resolution === 'bye') continue;
+    for (const playerId of match.playerIds) {
+      const row = playerId ? table.get(playerId) : undefined;
+      if (!playerId || !row) continue;
+      row.played++;
+      if (match.winnerId === playerId) {
+        row.wins++;
+      } else if (match.winnerId === null && match.resolution === 'played') {
+        row.draws++;
+      } else {
+        row.losses++;
+      }
+      const result = match.results[playerId];
+      if (result) {
+        row.score = Math.round((row.score + result.score) * 100) / 100;
+        row.timeSpentSeconds += result.timeSpentSeconds;
+      }
+    }
+  }
+  const seeds = new Map(participants.map(p => [p.userId, p.seed]));
+  return [...table.values()].sort((a, b) =>
+    (b.wins * 2 + b.draws) - (a.wins * 2 + a.draws)
+    || b.score - a.score
+    || a.timeSpentSeconds - b.timeSpentSeconds
+    || (seeds.get(a.userId) ?? 0) - (seeds.get(b.userId) ?? 0));
+}
+
+/**
+ * Settles every match of the current round that can be settled, moves bracket winners on, and opens the next round
+ * (or completes the tournament) once every match of the current one is settled. Works on the given objects in place
+ * and returns the matches it changed, for the caller to write together with the tournament.
+ * A level match goes to the higher seed in a bracket and is a draw in a round-robin.
+ */
+export function advanceTournament(tournament: StoredTournament, matches: StoredTournamentMatch[], now: Timestamp): StoredTournamentMatch[] {
+  const changed = new Set<StoredTournamentMatch>();
+  const isBracket = tournament.format === 'single_elimination';
+  const seeds = new Map(tournament.participants.map(p => [p.userId, p.seed]));
+  const settle = (match: StoredTournamentMatch, winnerId: string | null, resolution: TournamentMatchResolution) => {
+    Object.assign(match, { status: 'completed', winnerId, resolution, completedAt: now });
+    changed.add(match);
+  };
+
+  while (tournament.status === 'active') {
+    const round = tournament.currentRound;
+    const roundMatches = matches.filter(m => m.round === round);
+    for (const match of roundMatches) {
+      const [home, away] = match.playerIds;
+      if (match.status !== 'completed') {
+        if (!home || !away) {
+          settle(match, home || away, 'bye');
+        } else if (match.results[home] && match.results[away]) {
+          const comparison = compareResults(match.results[home], match.results[away]);
+          const higherSeed = (seeds.get(home) ?? 0) <= (seeds.get(away) ?? 0) ? home : away;
+          settle(match, comparison < 0 ? home : comparison > 0 ? away : isBracket ? higherSeed : null, 'played');
+        }
+      }
+      const next = isBracket && match.winnerId
+        ? matches.find(m => m.round === round + 1 && m.slot === Math.floor(match.slot / 2))
+        : undefined;
+      if (next && next.playerIds[match.slot % 2] !== match.winnerId) {
+        next.playerIds[match.slot % 2] = match.winnerId;
+        changed.add(next);
+      }
+    }
+    if (!roundMatches.every(m => m.status === 'completed')) break;
+
+    tournament.rounds[round].status = 'completed';
+    if (round + 1 < tournament.rounds.length) {
+      tournament.currentRound = round + 1;
+      tournament.rounds[round + 1].status = 'open';
+      for (const match of matches.filter(m => m.round === round + 1)) {
+        match.status = 'open';
+        changed.add(match);
+      }
+    } else {
+      const standings = computeStandings(tournament.participants, matches);
+      tournament.status = 'completed';
+      tournament.winnerId = isBracket ? roundMatches[0]?.winnerId ?? null : standings[0]?.userId ?? null;
+      tournament.completedAt = now;
+    }
+  }
+
+  tournament.standings = computeStandings(tournament.participants, matches);
+  return [...changed];
+}
+
+/**
+ * Rejects a session for a match the caller cannot play: it must be their match in the open round, on that round's
+ * quiz, and not started before. Each player gets one go.
+ */
+export function assertTournamentMatchPlayable(
+  tournament: StoredTournament,
+  match: StoredTournamentMatch,
+  userId: string,
+  quizId: string,
+): void {
+  if (!match.playerIds.includes(userId)) {
+    throw new functions.https.HttpsError('permission-denied', 'You are not playing in this match.');
+  }
+  if (tournament.status !== 'active' || match.status !== 'open' || match.round !== tournament.currentRound) {
+    throw new functions.https.HttpsError('failed-precondition', 'This match is not open.');
+  }
+  const roundQuizId = tournament.rounds[match.round]?.quizId;
+  if (!roundQuizId) {
+    throw new functions.https.HttpsError('failed-precondition', 'The quiz for this round is still being prepared.');
+  }
+  if (roundQuizId !== quizId) {
+    throw new functions.https.HttpsError('invalid-argument', 'This match is played on a different quiz.');
+  }
+  if (match.sessionIds[userId] || match.results[userId]) {
+    throw new functions.https.HttpsError('failed-precondition', 'You have already played this match.');
+  }
+}
+
+/**
+ * Rejects a session on the quiz of a round that is not over yet in one of the caller's tournaments, unless it is
+ * their match: the way today's Daily Challenge is only played as the day's entry, a round's quiz is only played
+ * through the match until the round is completed.
+ */
+export async function assertNotOpenRoundQuiz(db: Firestore, userId: string, quizId: string): Promise<void> {
+  const snapshot = await db.collection('tournaments').where('memberIds', 'array-contains', userId).get();
+  for (const tournamentDoc of snapshot.docs) {
+    const tournament = tournamentDoc.data() as StoredTournament;
+    if (tournament.status !== 'active' || !tournament.participants.some(participant => participant.userId === userId)) continue;
+    if (tournament.rounds.some(round => round.quizId === quizId && round.status !== 'completed')) {
+      throw new functions.https.HttpsError('failed-precondition',
+        `This quiz is a round of "${tournament.name}": play it through your match. It opens for practice once the round is over.`);
+    }
+  }
+}
+
+export function assertTournamentOrganizer(tournament: StoredTournament, userId: string): void {
+  if (tournament.organizerId !== userId) {
+    throw new functions.https.HttpsError('permission-denied', 'Only the organizer can manage this tournament.');
+  }
+}
+
+/**
+ * Trigger generating the quiz of a round that opens without one. The round is only updated if it still has no quiz,
+ * so a repeated run never attaches a second one; a failed generation is recorded on the round for the organizer.
+ */
+export const prepareTournamentRound = onDocumentWritten({ document: 'tournaments/{tournamentId}', region: 'us-central1', timeoutSeconds: 300 }, async (event) => {
+  const after = event.data?.after;
+  if (!after || !after.exists) return;
+
+  const tournament = after.data() as StoredTournament;
+  const roundIndex = tournament.currentRound;
+  const round = tournament.rounds[roundIndex];
+  if (tournament.status !== 'active' || !round || round.status !== 'open' || round.quizId || !round.generation || round.generationError) {
+    return;
+  }
+
+  const db = getFirestore(getApp());
+  const tournamentRef = after.ref;
+  const updateRound = (update: Partial<TournamentRound>, extraWrite?: (tx: Transaction) => void) =>
+    db.runTransaction(async (tx) => {
+      const current = (await tx.get(tournamentRef)).data() as StoredTournament | undefined;
+      const currentRound = current?.rounds[roundIndex];
+      if (!current || !currentRound || currentRound.quizId) return false; // Another run got there first
+      extraWrite?.(tx);
+      tx.update(tournamentRef, { rounds: current.rounds.map((r, index) => (index === roundIndex ? { ...r, ...update } : r)) });
+      return true;
+    });
+
+  let questions: StoredQuestion[];
+  try {
+    questions = await generateQuestions(db, { ...round.generation });
+  } catch (err: unknown) {
+    functions.logger.error(`Could not generate the quiz for round ${roundIndex + 1} of tournament ${tournament.id}:`, err);
+    await updateRound({ generationError: err instanceof Error ? err.message : 'Quiz generation failed.' });
+    return;
+  }
+
+  const quizRef = db.collection('quizzes').doc();
+  const title = `${tournament.name}: Round ${roundIndex + 1}`;
+  const { category, difficulty, quizType } = round.generation;
+  const attached = await updateRound({ quizId: quizRef.id, quizTitle: title, generationError: null }, (tx) => tx.set(quizRef, {
+    id: quizRef.id,
+    title,
+    category,
+    difficulty,
+    event: '',
+    team: '',
+    country: '',
+    questions,
+    createdAt: FieldValue.serverTimestamp(),
+    createdBy: TOURNAMENT_CREATOR,
+    visibility: 'private',
+    tournamentId: tournament.id,
+    tournamentMemberIds: tournament.memberIds,
+    status: 'active',
+    quizType,
+    timePerQuestionSeconds: TOURNAMENT_SECONDS_PER_QUESTION,
+    totalTimeLimitSeconds: null,
+    shuffleOptions: true,
+  }));
+
+  if (attached) {
+    functions.logger.info(`Generated quiz ${quizRef.id} for round ${roundIndex + 1} of tournament ${tournament.id}.`);
+  }
+});
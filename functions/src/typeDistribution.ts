@@ -0,0 +1,62 @@
+// functions/src/typeDistribution.ts
+// Mixed quizzes: how a requested share of each question type becomes a number of questions per type.
+import { QuestionType, TypeDistribution } from './types.js';
+
+/**
+ * Returns an error message when the distribution is unusable, or null when it is fine:
+ * known types only, whole percentages, and a total of exactly 100.
+ */
+export function validateTypeDistribution(distribution: unknown, allowedTypes: readonly QuestionType[]): string | null {
+  if (!distribution || typeof distribution !== 'object' || Array.isArray(distribution)) {
+    return 'A mixed quiz needs a typeDistribution, e.g. { "multiple_choice": 60, "true_false": 40 }.';
+  }
+  const entries = Object.entries(distribution as Record<string, unknown>);
+  for (const [type, share] of entries) {
+    if (!allowedTypes.includes(type as QuestionType)) {
+      return `Unknown question type "${type}" in typeDistribution.`;
+    }
+    if (typeof share !== 'number' || !Number.isInteger(share) || share < 0 || share > 100) {
+      return `The share of ${type} must be a whole percentage between 0 and 100.`;
+    }
+  }
+  const total = entries.reduce((sum, [, share]) => sum + (share as number), 0);
+  if (total !== 100) {
+    return `The typeDistribution percentages must add up to 100 (they add up to ${total}).`;
+  }
+  return null;
+}
+
+/**
+ * Splits numberOfQuestions across the types by their share (largest remainder method), so the counts
+ * always add up exactly. Types whose share rounds down to nothing are left out.
+ */
+export function allocateQuestionCounts(numberOfQuestions: number, distribution: TypeDistribution): { type: QuestionType; count: number }[] {
+  const shares = (Object.entries(distribution) as [QuestionType, number][]).filter(([, share]) => share > 0);
+  const allocations = shares.map(([type, share]) => {
+    const exact = (numberOfQuestions * share) / 100;
+    return { type, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let missing = numberOfQuestions - allocations.reduce((sum, allocation) => sum + allocation.count, 0);
+  [...allocations]
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach((allocation) => {
+      if (missing > 0) {
+        allocation.count++;
+        missing--;
+      }
+    });
+
+  return allocations.filter(allocation => allocation.count > 0).map(({ type, count }) => ({ type, count }));
+}
+
+/**
+ * Merges per-type question lists so each type is spread evenly through the quiz
+ * instead of being played as one block.
+ */
+export function interleaveByType<T>(groups: T[][]): T[] {
+  return groups
+    .flatMap(group => group.map((item, index) => ({ item, position: (index + 0.5) / group.length })))
+    .sort((a, b) => a.position - b.position)
+    .map(entry => entry.item);
+}
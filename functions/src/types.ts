@@ -0,0 +1,115 @@
+// functions/src/types.ts
+// Shapes of the Firestore documents shared by several Cloud Functions.
+import { Timestamp } from 'firebase-admin/firestore';
+
+// Every question format
+export type QuestionType = 'multiple_choice' | 'true_false' | 'multi_select' | 'numeric' | 'ordering' | 'fill_in';
+
+// A quiz is either all one question type or 'mixed', generated from a TypeDistribution
+export type QuizType = QuestionType | 'mixed';
+
+// Percentage of a mixed quiz per question type, e.g. { multiple_choice: 60, true_false: 40 }
+export type TypeDistribution = Partial<Record<QuestionType, number>>;
+
+// How a quiz is played: practice gives feedback after every answer and is left out of stats and leaderboards,
+// exam reveals nothing until the quiz is submitted
+export type QuizMode = 'practice' | 'exam';
+
+// A question as stored in quizzes/{quizId}.questions, including its answer key
+export interface StoredQuestion {
+  id: string;
+  text: string;
+  type: QuestionType;
+  options?: string[]; // e.g., ["A. Option 1", "B. Option 2", "C. Option 3", "D. Option 4"]; ordering lists its items shuffled
+  // e.g., 'A', 'B', 'C', 'D' or 'True'/'False' (should be just the letter/boolean value).
+  // multi_select: the correct letters ("A,C"); ordering: the letters in the correct order ("C,A,B,D");
+  // numeric: the number ("1966"); fill_in: the preferred answer ("Pelé")
+  correctAnswer: string;
+  tolerance?: number; // numeric: answers this far off still count as correct
+  unit?: string; // numeric: shown next to the input, e.g. "goals"
+  acceptedAnswers?: string[]; // fill_in: other spellings that count as correct
+  category?: string;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  explanation?: string; // Why the answer is right; revealed with the answer after submitting
+  source?: string; // Optional reference backing the answer
+}
+
+// A quiz as stored in quizzes/{quizId}
+export interface StoredQuiz {
+  id: string;
+  title: string;
+  category: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  questions: StoredQuestion[];
+  createdBy: string;
+  visibility: 'global' | 'private';
+  status?: 'active' | 'deleted';
+  quizType: QuizType;
+  typeDistribution?: TypeDistribution; // Mixed quizzes only: the shares they were generated with
+  team?: string;
+  event?: string;
+  country?: string;
+  timePerQuestionSeconds?: number | null; // Optional countdown per question
+  totalTimeLimitSeconds?: number | null; // Optional countdown for the whole quiz
+  shuffleQuestions?: boolean; // Every session plays the questions in a new random order
+  shuffleOptions?: boolean; // Every session shows the lettered options in a new random order
+  dailyChallengeDate?: string; // Daily Challenge quizzes only: the UTC day (YYYY-MM-DD) it is the challenge of
+  // Generated tournament round quizzes only: private to the tournament, playable by its members (see tournaments.ts)
+  tournamentId?: string;
+  tournamentMemberIds?: string[];
+}
+
+// A question as served to players through quizPlayerViews/{quizId}: the answer key and
+// everything that gives it away (explanation, source, accepted spellings) is stripped
+export type PlayerQuestion = Omit<StoredQuestion, 'correctAnswer' | 'explanation' | 'source' | 'acceptedAnswers'>;
+
+// A play-through of a quiz as stored in quizSessions/{sessionId}.
+// Created by startQuizSession and consumed exactly once by submitQuiz; all times come from the server clock.
+export interface StoredQuizSession {
+  id: string;
+  userId: string;
+  quizId: string;
+  mode: QuizMode;
+  questionOrder: string[]; // Question ids in the order they are played
+  // Shuffled questions only: the stored option letters in the order they are shown (see optionOrder.ts)
+  optionOrder?: Record<string, string[]>;
+  startedAt: Timestamp;
+  expiresAt: Timestamp;
+  status: 'active' | 'submitted';
+  attemptId?: string;
+  submittedAt?: Timestamp;
+  timePerQuestionSeconds: number | null; // Exam sessions only (practice is untimed); copied from the quiz
+  totalTimeLimitSeconds: number | null;
+  // First answer per question, stamped with server time: by checkAnswer in practice sessions and by lockExamAnswer in
+  // exams with a per-question limit (selectedOption is in the displayed option letters, '' when the question timed out)
+  answerLog: Record<string, SessionAnswerLogEntry>;
+  challengeId?: string; // Set when the session plays a head-to-head challenge (see challenges.ts)
+  // Set when the session plays a tournament match (see tournaments.ts)
+  tournamentId?: string;
+  tournamentMatchId?: string;
+  teamMatchId?: string; // Set when the session is a player's run in a team match (see teams.ts)
+  // Set when the session plays a group assignment (see groups.ts)
+  groupId?: string;
+  assignmentId?: string;
+}
+
+export interface SessionAnswerLogEntry {
+  selectedOption: string;
+  answeredAt: Timestamp;
+}
+
+// A missed question in a player's review queue, as stored in reviewItems/{userId}_{quizId}_{questionId}.
+// Written only by the updateReviewSchedule trigger (see reviewQueue.ts and spacedRepetition.ts).
+export interface StoredReviewItem {
+  userId: string;
+  quizId: string;
+  questionId: string; // The question's id within its quiz
+  quizTitle: string;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: Timestamp; // The question is part of every review from this moment on
+  lastReviewedAt: Timestamp;
+  lastCredit: number;
+}
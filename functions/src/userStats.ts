@@ -0,0 +1,138 @@
+// functions/src/userStats.ts
+// Per-player statistics kept in userStats/{uid}. submitQuiz folds every attempt in within its own
+// transaction, so the stats page reads a single document instead of scanning quizAttempts.
+import { StoredQuestion, StoredQuiz } from './types.js';
+
+// Correct answers out of questions answered, for one slice of the stats
+export interface AccuracyBucket {
+  label: string; // Display name, e.g. the category as written on the quiz
+  questions: number;
+  correct: number;
+}
+
+export interface DailyStats {
+  attempts: number;
+  questions: number;
+  correct: number;
+}
+
+export interface UserStats {
+  userId: string;
+  totals: {
+    attempts: number;
+    questions: number;
+    correct: number;
+    timeSpentSeconds: number;
+  };
+  // Map keys are slugs so they are safe as Firestore field names
+  byCategory: Record<string, AccuracyBucket>;
+  byDifficulty: Record<string, AccuracyBucket>;
+  byQuizType: Record<string, AccuracyBucket>;
+  byTopic: Record<string, AccuracyBucket & { kind: 'team' | 'event' | 'country' }>; // Keys like "team:real-madrid"
+  daily: Record<string, DailyStats>; // Keyed by UTC date (YYYY-MM-DD), trimmed to the last DAILY_HISTORY_DAYS days played
+  streak: {
+    current: number; // Consecutive UTC days with at least one attempt, ending on lastActiveDate
+    longest: number;
+    lastActiveDate: string | null;
+  };
+}
+
+// How many played days of history the accuracy-over-time chart keeps
+export const DAILY_HISTORY_DAYS = 90;
+
+// The parts of a scored attempt the stats need
+export interface AttemptForStats {
+  quiz: Pick<StoredQuiz, 'category' | 'difficulty' | 'quizType' | 'team' | 'event' | 'country'>;
+  answers: { question: StoredQuestion; isCorrect: boolean }[];
+  timeSpentSeconds: number;
+  completedAt: Date;
+}
+
+function toStatsKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'other';
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Whole days between two YYYY-MM-DD keys
+function daysBetween(fromKey: string, toKey: string): number {
+  return Math.round((Date.parse(`${toKey}T00:00:00Z`) - Date.parse(`${fromKey}T00:00:00Z`)) / 86400000);
+}
+
+function addToBucket<T extends AccuracyBucket>(buckets: Record<string, T>, key: string, bucket: Omit<T, 'questions' | 'correct'>, questions: number, correct: number): void {
+  const existing = buckets[key];
+  buckets[key] = {
+    ...bucket,
+    questions: (existing?.questions || 0) + questions,
+    correct: (existing?.correct || 0) + correct,
+  } as T;
+}
+
+export function createEmptyStats(userId: string): UserStats {
+  return {
+    userId,
+    totals: { attempts: 0, questions: 0, correct: 0, timeSpentSeconds: 0 },
+    byCategory: {},
+    byDifficulty: {},
+    byQuizType: {},
+    byTopic: {},
+    daily: {},
+    streak: { current: 0, longest: 0, lastActiveDate: null },
+  };
+}
+
+/**
+ * Returns new stats with one attempt folded in. Pure, so submitQuiz can compute it inside its transaction.
+ */
+export function applyAttemptToStats(previous: UserStats, attempt: AttemptForStats): UserStats {
+  const stats: UserStats = JSON.parse(JSON.stringify(previous));
+  const questions = attempt.answers.length;
+  const correct = attempt.answers.filter(answer => answer.isCorrect).length;
+
+  stats.totals.attempts += 1;
+  stats.totals.questions += questions;
+  stats.totals.correct += correct;
+  stats.totals.timeSpentSeconds += attempt.timeSpentSeconds;
+
+  const category = attempt.quiz.category || 'Uncategorized';
+  addToBucket(stats.byCategory, toStatsKey(category), { label: category }, questions, correct);
+  const difficulty = attempt.quiz.difficulty || 'medium';
+  addToBucket(stats.byDifficulty, difficulty, { label: difficulty }, questions, correct);
+
+  // Quiz type per question, so quizzes mixing question types are split correctly
+  for (const answer of attempt.answers) {
+    const type = answer.question.type || attempt.quiz.quizType;
+    addToBucket(stats.byQuizType, type, { label: type }, 1, answer.isCorrect ? 1 : 0);
+  }
+
+  for (const kind of ['team', 'event', 'country'] as const) {
+    const topic = attempt.quiz[kind];
+    if (topic && topic.trim()) {
+      addToBucket(stats.byTopic, `${kind}:${toStatsKey(topic)}`, { label: topic.trim(), kind }, questions, correct);
+    }
+  }
+
+  const dateKey = toDateKey(attempt.completedAt);
+  const day = stats.daily[dateKey] || { attempts: 0, questions: 0, correct: 0 };
+  stats.daily[dateKey] = { attempts: day.attempts + 1, questions: day.questions + questions, correct: day.correct + correct };
+  const keptDays = Object.keys(stats.daily).sort().slice(-DAILY_HISTORY_DAYS);
+  stats.daily = Object.fromEntries(keptDays.map(key => [key, stats.daily[key]]));
+
+  // Streak: same day keeps it, the next day extends it, any gap restarts it
+  const { lastActiveDate } = stats.streak;
+  if (!lastActiveDate) {
+    stats.streak.current = 1;
+  } else {
+    const gap = daysBetween(lastActiveDate, dateKey);
+    if (gap === 1) stats.streak.current += 1;
+    else if (gap > 1) stats.streak.current = 1;
+  }
+  if (!lastActiveDate || dateKey > lastActiveDate) {
+    stats.streak.lastActiveDate = dateKey;
+  }
+  stats.streak.longest = Math.max(stats.streak.longest, stats.streak.current);
+
+  return stats;
+}
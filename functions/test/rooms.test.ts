@@ -0,0 +1,253 @@
+// functions/test/rooms.test.ts
+// The live room state machine (see src/rooms.ts) run against the Firestore emulator: `npm test` starts it through
+// the firebase-tools devDependency. The emulator is a Java program, so a Java runtime (JDK 21 or later) must be on
+// the PATH; without one `firebase emulators:exec` stops with "Could not spawn `java -version`".
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import functionsTest from 'firebase-functions-test';
+import { deleteApp, getApp, initializeApp } from 'firebase-admin/app';
+import { Firestore, getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { CallableFunction, CallableRequest } from 'firebase-functions/v2/https';
+import { advanceRoom } from '../src/advanceRoom.js';
+import { createRoom } from '../src/createRoom.js';
+import { joinRoom } from '../src/joinRoom.js';
+import { getRoomRef, RoomStatus, StoredRoom, StoredRoomAnswer, StoredRoomPlayer } from '../src/rooms.js';
+import { submitRoomAnswer } from '../src/submitRoomAnswer.js';
+import { TIMER_GRACE_SECONDS } from '../src/sessions.js';
+import { StoredQuiz } from '../src/types.js';
+
+// A demo project never reaches production, even if the emulator is not running
+const PROJECT_ID = 'demo-sportsquiz';
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+if (!emulatorHost) {
+  throw new Error('The room tests need the Firestore emulator: run them with `npm test`.');
+}
+
+const HOST = 'host-user';
+const PLAYER = 'player-user';
+const OTHER_PLAYER = 'other-player-user';
+
+const QUIZ: StoredQuiz = {
+  id: 'room-quiz',
+  title: 'World Cup Finals',
+  category: 'Football',
+  difficulty: 'easy',
+  questions: [
+    {
+      id: 'q1',
+      text: 'Who won the first World Cup?',
+      type: 'multiple_choice',
+      options: ['A. Argentina', 'B. Uruguay', 'C. Brazil', 'D. Italy'],
+      correctAnswer: 'B',
+      explanation: 'Uruguay beat Argentina 4-2 in Montevideo in 1930.',
+    },
+    {
+      id: 'q2',
+      text: 'England won the World Cup in 1966.',
+      type: 'true_false',
+      options: ['True', 'False'],
+      correctAnswer: 'True',
+    },
+  ],
+  createdBy: HOST,
+  visibility: 'global',
+  status: 'active',
+  quizType: 'multiple_choice',
+};
+
+const testEnv = functionsTest({ projectId: PROJECT_ID });
+let db: Firestore;
+
+// Calls a callable as the given user, the way the client SDK would
+async function call<T, Return>(fn: CallableFunction<T, Return>, uid: string, data: T): Promise<Awaited<Return>> {
+  const request = { data, auth: { uid, token: {} }, rawRequest: {}, acceptsStreaming: false } as unknown as CallableRequest<T>;
+  return await testEnv.wrap(fn)(request);
+}
+
+async function getRoom(code: string): Promise<StoredRoom> {
+  return (await getRoomRef(db, code).get()).data() as StoredRoom;
+}
+
+async function getPlayer(code: string, userId: string): Promise<StoredRoomPlayer> {
+  return (await getRoomRef(db, code).collection('players').doc(userId).get()).data() as StoredRoomPlayer;
+}
+
+// A room for QUIZ with both players in the lobby
+async function openRoom(): Promise<string> {
+  const { code } = await call(createRoom, HOST, { quizId: QUIZ.id });
+  await call(joinRoom, PLAYER, { code });
+  await call(joinRoom, OTHER_PLAYER, { code });
+  return code;
+}
+
+async function advance(code: string, uid = HOST, from?: { fromStatus: RoomStatus; fromQuestionIndex: number }): Promise<RoomStatus> {
+  const { status } = await call(advanceRoom, uid, { code, ...from });
+  return status;
+}
+
+describe('live rooms', () => {
+  before(() => {
+    initializeApp({ projectId: PROJECT_ID });
+    db = getFirestore();
+  });
+
+  // Every test starts from an empty database with just the quiz
+  beforeEach(async () => {
+    await fetch(`http://${emulatorHost}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`, { method: 'DELETE' });
+    await db.collection('quizzes').doc(QUIZ.id).set(QUIZ);
+  });
+
+  // Closes the emulator connection so the test process can exit
+  after(async () => {
+    testEnv.cleanup();
+    await deleteApp(getApp());
+  });
+
+  it('runs a game from the lobby through every question to the end', async () => {
+    const code = await openRoom();
+    let room = await getRoom(code);
+    assert.equal(room.status, 'lobby');
+    assert.equal(room.hostId, HOST);
+    assert.equal(room.playerCount, 2);
+    assert.equal(room.currentQuestionIndex, -1);
+
+    // The first question opens without its answer key
+    assert.equal(await advance(code), 'question');
+    room = await getRoom(code);
+    assert.equal(room.currentQuestionIndex, 0);
+    assert.equal(room.currentQuestion?.id, 'q1');
+    assert.equal('correctAnswer' in (room.currentQuestion || {}), false);
+    assert.equal('explanation' in (room.currentQuestion || {}), false);
+    assert.ok(room.questionEndsAt);
+
+    // Answers are received but not scored on the scoreboard until the reveal
+    assert.deepEqual(await call(submitRoomAnswer, PLAYER, { code, questionId: 'q1', selectedOption: 'B' }), { received: true });
+    await call(submitRoomAnswer, OTHER_PLAYER, { code, questionId: 'q1', selectedOption: 'A' });
+    assert.equal((await getRoom(code)).answerCount, 2);
+    assert.equal((await getPlayer(code, PLAYER)).score, 0);
+
+    assert.equal(await advance(code), 'reveal');
+    room = await getRoom(code);
+    assert.deepEqual(room.reveal, { questionId: 'q1', correctOption: 'B. Uruguay', explanation: QUIZ.questions[0].explanation });
+    const player = await getPlayer(code, PLAYER);
+    assert.equal(player.score, 1);
+    assert.equal(player.correctCount, 1);
+    assert.ok(player.points > 0);
+    assert.deepEqual(player.lastResult, { questionId: 'q1', credit: 1, points: player.points, answered: true });
+    const otherPlayer = await getPlayer(code, OTHER_PLAYER);
+    assert.equal(otherPlayer.score, 0);
+    assert.deepEqual(otherPlayer.lastResult, { questionId: 'q1', credit: 0, points: 0, answered: true });
+
+    // Nobody answers the second question
+    assert.equal(await advance(code), 'question');
+    room = await getRoom(code);
+    assert.equal(room.currentQuestion?.id, 'q2');
+    assert.equal(room.answerCount, 0);
+    assert.equal(room.reveal, null);
+    assert.equal(await advance(code), 'reveal');
+    assert.deepEqual((await getPlayer(code, PLAYER)).lastResult, { questionId: 'q2', credit: 0, points: 0, answered: false });
+    assert.equal((await getPlayer(code, PLAYER)).score, 1);
+
+    // After the last question the game finishes and takes no one else
+    assert.equal(await advance(code), 'finished');
+    room = await getRoom(code);
+    assert.equal(room.currentQuestion, null);
+    assert.equal(room.currentQuestionIndex, QUIZ.questions.length);
+    await assert.rejects(advance(code), { code: 'failed-precondition' });
+    await assert.rejects(call(joinRoom, 'late-user', { code }), { code: 'failed-precondition' });
+  });
+
+  it('keeps a player who joins again on their score', async () => {
+    const code = await openRoom();
+    await advance(code);
+    await call(submitRoomAnswer, PLAYER, { code, questionId: 'q1', selectedOption: 'B' });
+    await advance(code);
+
+    await call(joinRoom, PLAYER, { code });
+    assert.equal((await getRoom(code)).playerCount, 2);
+    assert.equal((await getPlayer(code, PLAYER)).score, 1);
+  });
+
+  it('takes one answer per player per question', async () => {
+    const code = await openRoom();
+    await advance(code);
+
+    await call(submitRoomAnswer, PLAYER, { code, questionId: 'q1', selectedOption: 'A' });
+    await assert.rejects(
+      call(submitRoomAnswer, PLAYER, { code, questionId: 'q1', selectedOption: 'B' }),
+      { code: 'already-exists' },
+    );
+    assert.equal((await getRoom(code)).answerCount, 1);
+    const answers = await getRoomRef(db, code).collection('answers').where('userId', '==', PLAYER).get();
+    assert.equal(answers.size, 1);
+    assert.equal((answers.docs[0].data() as StoredRoomAnswer).selectedOption, 'A');
+
+    // The first answer is the one scored
+    await advance(code);
+    assert.equal((await getPlayer(code, PLAYER)).score, 0);
+  });
+
+  it('refuses answers once the question is revealed or its countdown ran out', async () => {
+    const code = await openRoom();
+    await advance(code);
+    await advance(code);
+
+    await assert.rejects(
+      call(submitRoomAnswer, PLAYER, { code, questionId: 'q1', selectedOption: 'B' }),
+      { code: 'failed-precondition' },
+    );
+    const answers = await getRoomRef(db, code).collection('answers').get();
+    assert.equal(answers.size, 0);
+    assert.equal((await getPlayer(code, PLAYER)).score, 0);
+
+    // The next question, with its countdown (and the grace period) over before the host reveals it
+    await advance(code);
+    const endedAt = Timestamp.fromMillis(Date.now() - (TIMER_GRACE_SECONDS + 1) * 1000);
+    await getRoomRef(db, code).update({ questionEndsAt: endedAt });
+    await assert.rejects(
+      call(submitRoomAnswer, PLAYER, { code, questionId: 'q2', selectedOption: 'True' }),
+      { code: 'deadline-exceeded' },
+    );
+    // Nor can an answer reach a question other than the open one
+    await assert.rejects(
+      call(submitRoomAnswer, OTHER_PLAYER, { code, questionId: 'q1', selectedOption: 'B' }),
+      { code: 'failed-precondition' },
+    );
+  });
+
+  it('refuses answers from users who did not join', async () => {
+    const code = await openRoom();
+    await advance(code);
+
+    await assert.rejects(
+      call(submitRoomAnswer, 'stranger', { code, questionId: 'q1', selectedOption: 'B' }),
+      { code: 'permission-denied' },
+    );
+    await assert.rejects(
+      call(submitRoomAnswer, HOST, { code, questionId: 'q1', selectedOption: 'B' }),
+      { code: 'permission-denied' },
+    );
+  });
+
+  it('lets only the host move the game on', async () => {
+    const code = await openRoom();
+
+    await assert.rejects(advance(code, PLAYER), { code: 'permission-denied' });
+    await assert.rejects(advance(code, 'stranger'), { code: 'permission-denied' });
+    const room = await getRoom(code);
+    assert.equal(room.status, 'lobby');
+    assert.equal(room.currentQuestionIndex, -1);
+  });
+
+  it('ignores a repeated or late advance from a step the room has left', async () => {
+    const code = await openRoom();
+
+    assert.equal(await advance(code, HOST, { fromStatus: 'lobby', fromQuestionIndex: -1 }), 'question');
+    // e.g. "Reveal now" racing the countdown: the second call from the same step changes nothing
+    assert.equal(await advance(code, HOST, { fromStatus: 'question', fromQuestionIndex: 0 }), 'reveal');
+    assert.equal(await advance(code, HOST, { fromStatus: 'question', fromQuestionIndex: 0 }), 'reveal');
+    const room = await getRoom(code);
+    assert.equal(room.status, 'reveal');
+    assert.equal(room.currentQuestionIndex, 0);
+  });
+});
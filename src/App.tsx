@@ -9,9 +9,29 @@ import SignupPage from './pages/SignupPage';
 import QuizzesPage from './pages/QuizzesPage';
 import QuizPage from './pages/QuizPage';
 import HistoryPage from './pages/HistoryPage';
+import AttemptDetailPage from './pages/AttemptDetailPage';
 import AdminPage from './pages/AdminPage';
 import GenerateQuizPage from './pages/GenerateQuizPage';
 import MyQuizzesPage from './pages/MyQuizzesPage';
+import QuizEditorPage from './pages/QuizEditorPage';
+import ImportQuizPage from './pages/ImportQuizPage';
+import LeaderboardPage from './pages/LeaderboardPage';
+import StatsPage from './pages/StatsPage';
+import ReviewPage from './pages/ReviewPage';
+import JoinRoomPage from './pages/JoinRoomPage';
+import PlayRoomPage from './pages/PlayRoomPage';
+import ChallengesPage from './pages/ChallengesPage';
+import ChallengeDetailPage from './pages/ChallengeDetailPage';
+import TournamentsPage from './pages/TournamentsPage';
+import CreateTournamentPage from './pages/CreateTournamentPage';
+import TournamentPage from './pages/TournamentPage';
+import TeamsPage from './pages/TeamsPage';
+import JoinTeamPage from './pages/JoinTeamPage';
+import TeamPage from './pages/TeamPage';
+import TeamMatchPage from './pages/TeamMatchPage';
+import GroupsPage from './pages/GroupsPage';
+import JoinGroupPage from './pages/JoinGroupPage';
+import GroupPage from './pages/GroupPage';
 import { useAuthStore } from './store/authStore';
 
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -114,6 +134,14 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="history/:attemptId"
+            element={
+              <ProtectedRoute>
+                <AttemptDetailPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="generate-quiz"
             element={
@@ -130,6 +158,166 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="quizzes/new"
+            element={
+              <ProtectedRoute>
+                <QuizEditorPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="quizzes/import"
+            element={
+              <ProtectedRoute>
+                <ImportQuizPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="quizzes/:id/edit"
+            element={
+              <ProtectedRoute>
+                <QuizEditorPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="review"
+            element={
+              <ProtectedRoute>
+                <ReviewPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="play"
+            element={
+              <ProtectedRoute>
+                <JoinRoomPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="play/:code"
+            element={
+              <ProtectedRoute>
+                <PlayRoomPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="challenges"
+            element={
+              <ProtectedRoute>
+                <ChallengesPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="challenges/:challengeId"
+            element={
+              <ProtectedRoute>
+                <ChallengeDetailPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="tournaments"
+            element={
+              <ProtectedRoute>
+                <TournamentsPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="tournaments/new"
+            element={
+              <ProtectedRoute>
+                <CreateTournamentPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="tournaments/:tournamentId"
+            element={
+              <ProtectedRoute>
+                <TournamentPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="teams"
+            element={
+              <ProtectedRoute>
+                <TeamsPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="teams/join/:inviteCode"
+            element={
+              <ProtectedRoute>
+                <JoinTeamPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="teams/:teamId"
+            element={
+              <ProtectedRoute>
+                <TeamPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="team-matches/:matchId"
+            element={
+              <ProtectedRoute>
+                <TeamMatchPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="groups"
+            element={
+              <ProtectedRoute>
+                <GroupsPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="groups/join/:inviteCode"
+            element={
+              <ProtectedRoute>
+                <JoinGroupPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="groups/:groupId"
+            element={
+              <ProtectedRoute>
+                <GroupPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="stats"
+            element={
+              <ProtectedRoute>
+                <StatsPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="leaderboard"
+            element={
+              <ProtectedRoute>
+                <LeaderboardPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="admin"
             element={
@@ -5,7 +5,8 @@ import Input from '../ui/Input';
 import Select from '../ui/Select';
 import { useQuizStore } from '../../store/quizStore';
 import { useAuthStore } from '../../store/authStore';
-import { QuizConfig, Quiz } from '../../types'; // Ensure QuizConfig type is imported and updated
+import { QuizConfig, Quiz, QuestionType, QuizType, TypeDistribution } from '../../types'; // Ensure QuizConfig type is imported and updated
+import { QUESTION_TYPE_LABELS, QUIZ_TYPE_LABELS } from '../../utils/quizHelpers';
 import toast from 'react-hot-toast';
 
 interface QuizFormState {
@@ -13,17 +14,50 @@ interface QuizFormState {
   category: string;
   difficulty: 'easy' | 'medium' | 'hard';
   numberOfQuestions: number;
-  quizType: 'multiple_choice' | 'true_false';
+  quizType: QuizType;
+  typeDistribution: Record<QuestionType, number>; // Percentages, only used when quizType is 'mixed'
   event: string;
   team: string;
   country: string;
+  timePerQuestionSeconds: string; // '' = no per-question timer
+  totalTimeLimitSeconds: string; // '' = no overall timer
 }
 
+// Select values are seconds; '' means untimed
+const TIME_PER_QUESTION_OPTIONS = ['10', '15', '20', '30', '60'];
+const TOTAL_TIME_LIMIT_OPTIONS = ['120', '300', '600', '900', '1800'];
+
+// Turns a time limit select value into the number sent to generateQuiz
+const toTimeLimit = (value: string): number | null => (value === '' ? null : parseInt(value, 10));
+
+const QUESTION_TYPES = Object.keys(QUESTION_TYPE_LABELS) as QuestionType[];
+
+// Starting split when "Mixed" is picked
+const DEFAULT_TYPE_DISTRIBUTION: Record<QuestionType, number> = {
+  multiple_choice: 60,
+  true_false: 40,
+  multi_select: 0,
+  numeric: 0,
+  ordering: 0,
+  fill_in: 0,
+};
+
+// Fills in every type so each percentage input has a value
+const toDistributionState = (distribution?: TypeDistribution | null): Record<QuestionType, number> =>
+  distribution
+    ? QUESTION_TYPES.reduce((state, type) => ({ ...state, [type]: distribution[type] || 0 }), { ...DEFAULT_TYPE_DISTRIBUTION })
+    : { ...DEFAULT_TYPE_DISTRIBUTION };
+
+// Only the types that are actually asked for are sent to generateQuiz
+const toTypeDistribution = (state: Record<QuestionType, number>): TypeDistribution =>
+  QUESTION_TYPES.reduce<TypeDistribution>((distribution, type) => (state[type] > 0 ? { ...distribution, [type]: state[type] } : distribution), {});
+
 interface QuizFormErrors {
   title?: string;
   category?: string;
   numberOfQuestions?: string;
   quizType?: string;
+  typeDistribution?: string;
   event?: string;
   team?: string;
   country?: string;
@@ -58,9 +92,12 @@ const QuizForm: React.FC<QuizFormProps> = ({
     difficulty: 'medium',
     numberOfQuestions: 5,
     quizType: 'multiple_choice',
+    typeDistribution: { ...DEFAULT_TYPE_DISTRIBUTION },
     event: '',
     team: '',
     country: '',
+    timePerQuestionSeconds: '',
+    totalTimeLimitSeconds: '',
   });
 
   const [errors, setErrors] = useState<QuizFormErrors>({});
@@ -78,6 +115,12 @@ const QuizForm: React.FC<QuizFormProps> = ({
     if (formState.numberOfQuestions < 1 || formState.numberOfQuestions > 20) {
       newErrors.numberOfQuestions = 'Number of questions must be between 1 and 20.';
     }
+    if (formState.quizType === 'mixed') {
+      const total = QUESTION_TYPES.reduce((sum, type) => sum + formState.typeDistribution[type], 0);
+      if (total !== 100) {
+        newErrors.typeDistribution = `The percentages must add up to 100 (currently ${total}).`;
+      }
+    }
 
     // Only update errors state if it has actually changed to prevent unnecessary re-renders
     if (JSON.stringify(newErrors) !== JSON.stringify(errors)) {
@@ -100,9 +143,12 @@ const QuizForm: React.FC<QuizFormProps> = ({
         difficulty: initialQuizConfig.difficulty || 'medium',
         numberOfQuestions: initialQuizConfig.numberOfQuestions || 5,
         quizType: initialQuizConfig.quizType || 'multiple_choice',
+        typeDistribution: toDistributionState(initialQuizConfig.typeDistribution),
         event: initialQuizConfig.event || '',
         team: initialQuizConfig.team || '',
         country: initialQuizConfig.country || '',
+        timePerQuestionSeconds: initialQuizConfig.timePerQuestionSeconds ? String(initialQuizConfig.timePerQuestionSeconds) : '',
+        totalTimeLimitSeconds: initialQuizConfig.totalTimeLimitSeconds ? String(initialQuizConfig.totalTimeLimitSeconds) : '',
       });
       // Errors will be cleared by the useEffect above once formState updates from initialConfig
     }
@@ -117,6 +163,11 @@ const QuizForm: React.FC<QuizFormProps> = ({
     // No need to clear specific error here, as the useEffect will handle full re-validation
   };
 
+  const handleDistributionChange = (type: QuestionType, value: string) => {
+    const share = Math.min(100, Math.max(0, parseInt(value, 10) || 0));
+    setFormState((prev) => ({ ...prev, typeDistribution: { ...prev.typeDistribution, [type]: share } }));
+  };
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     
@@ -143,6 +194,9 @@ const QuizForm: React.FC<QuizFormProps> = ({
       country: formState.country.trim() === '' ? null : formState.country.trim(), 
       visibility,
       quizType: formState.quizType,
+      typeDistribution: formState.quizType === 'mixed' ? toTypeDistribution(formState.typeDistribution) : null,
+      timePerQuestionSeconds: toTimeLimit(formState.timePerQuestionSeconds),
+      totalTimeLimitSeconds: toTimeLimit(formState.totalTimeLimitSeconds),
     };
 
     try {
@@ -156,9 +210,12 @@ const QuizForm: React.FC<QuizFormProps> = ({
             difficulty: 'medium',
             numberOfQuestions: 5,
             quizType: 'multiple_choice',
+            typeDistribution: { ...DEFAULT_TYPE_DISTRIBUTION },
             event: '',
             team: '',
             country: '',
+            timePerQuestionSeconds: '',
+            totalTimeLimitSeconds: '',
         });
         toast.success(`Successfully generated quiz "${generatedQuiz.title || formState.category}"!`);
       } else {
@@ -246,8 +303,59 @@ const QuizForm: React.FC<QuizFormProps> = ({
           onChange={handleChange}
           className="mt-1 block w-full"
         >
-          <option value="multiple_choice">Multiple Choice</option>
-          <option value="true_false">True/False</option>
+          {(Object.keys(QUIZ_TYPE_LABELS) as QuizType[]).map(type => (
+            <option key={type} value={type}>{QUIZ_TYPE_LABELS[type]}</option>
+          ))}
+        </Select>
+
+        {formState.quizType === 'mixed' && (
+          <fieldset className="p-3 border border-gray-200 rounded-md">
+            <legend className="px-1 text-sm font-medium text-gray-700">Share of each question type (%)</legend>
+            <div className="grid grid-cols-2 gap-3">
+              {QUESTION_TYPES.map(type => (
+                <Input
+                  key={type}
+                  label={QUESTION_TYPE_LABELS[type]}
+                  id={`typeDistribution-${type}`}
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="5"
+                  value={formState.typeDistribution[type]}
+                  onChange={(e) => handleDistributionChange(type, e.target.value)}
+                />
+              ))}
+            </div>
+            {errors.typeDistribution && <p className="mt-2 text-sm text-red-600">{errors.typeDistribution}</p>}
+          </fieldset>
+        )}
+
+        <Select
+          label="Time per Question"
+          id="timePerQuestionSeconds"
+          name="timePerQuestionSeconds"
+          value={formState.timePerQuestionSeconds}
+          onChange={handleChange}
+          className="mt-1 block w-full"
+        >
+          <option value="">No limit</option>
+          {TIME_PER_QUESTION_OPTIONS.map(seconds => (
+            <option key={seconds} value={seconds}>{seconds} seconds</option>
+          ))}
+        </Select>
+
+        <Select
+          label="Overall Time Limit"
+          id="totalTimeLimitSeconds"
+          name="totalTimeLimitSeconds"
+          value={formState.totalTimeLimitSeconds}
+          onChange={handleChange}
+          className="mt-1 block w-full"
+        >
+          <option value="">No limit</option>
+          {TOTAL_TIME_LIMIT_OPTIONS.map(seconds => (
+            <option key={seconds} value={seconds}>{parseInt(seconds, 10) / 60} minutes</option>
+          ))}
         </Select>
 
         <Input
@@ -0,0 +1,97 @@
+// src/components/challenge/ChallengeComparison.tsx
+import React from 'react';
+import { CheckCircle, Clock, MinusCircle, XCircle } from 'lucide-react';
+import { Challenge, ChallengeResult, PlayerQuizQuestion } from '../../types';
+import { applyOptionOrder, formatAnswer, toDisplayedAnswer } from '../../utils/quizHelpers';
+
+interface ChallengeComparisonProps {
+  challenge: Challenge;
+  results: ChallengeResult[];
+  questions: PlayerQuizQuestion[]; // From the quiz's player view; answers fall back to their raw form without them
+  userId: string;
+}
+
+type ChallengeAnswer = ChallengeResult['answers'][number];
+
+const formatSeconds = (seconds: number | null) => (seconds === null ? '–' : `${Math.round(seconds * 10) / 10}s`);
+
+// Both sides of a completed challenge, question by question: answer, result and time
+const ChallengeComparison: React.FC<ChallengeComparisonProps> = ({ challenge, results, questions, userId }) => {
+  const challengerResult = results.find(result => result.userId === challenge.challengerId);
+  const recipientResult = results.find(result => result.userId === challenge.recipientId);
+  const sides = [challengerResult, recipientResult];
+
+  // Both players saw the options in the challenge's order, so answers are shown in those letters
+  const getAnswerText = (questionId: string, answer: string): string => {
+    const question = questions.find(q => q.id === questionId);
+    if (!question || answer === '') return answer;
+    const optionOrder = challenge.optionOrder[questionId];
+    return formatAnswer(applyOptionOrder(question, optionOrder), toDisplayedAnswer(question, answer, optionOrder));
+  };
+
+  const renderAnswer = (answer: ChallengeAnswer | undefined) => {
+    if (!answer) return <span className="text-sm text-slate-400">Not played</span>;
+    const icon = answer.isCorrect
+      ? <CheckCircle className="h-4 w-4 mr-1 flex-shrink-0 text-green-500" />
+      : answer.credit
+      ? <MinusCircle className="h-4 w-4 mr-1 flex-shrink-0 text-yellow-500" />
+      : <XCircle className="h-4 w-4 mr-1 flex-shrink-0 text-red-500" />;
+    return (
+      <div className="text-sm">
+        <p className="flex items-start text-slate-700">
+          {icon}
+          <span>{answer.userAnswer === '' ? 'No answer' : getAnswerText(answer.questionId, answer.userAnswer)}</span>
+        </p>
+        <p className="flex items-center mt-1 text-xs text-slate-500">
+          <Clock className="h-3 w-3 mr-1" />
+          {formatSeconds(answer.timeSpentSeconds)} · {answer.points} pts
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-left">
+        <thead>
+          <tr className="border-b border-slate-200 text-sm text-slate-500">
+            <th className="py-2 pr-4 font-medium">Question</th>
+            {sides.map((side, index) => (
+              <th key={index} className={`py-2 pr-4 font-medium ${side?.userId === userId ? 'text-sky-700' : ''}`}>
+                {side?.displayName || (index === 0 ? challenge.challengerName : challenge.recipientName) || 'Player'}
+                {side && (
+                  <span className="block text-xs font-normal text-slate-500">
+                    {side.score}/{challenge.totalQuestions} · {side.points} pts · {formatSeconds(side.timeSpentSeconds)}
+                  </span>
+                )}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {challenge.questionOrder.map((questionId, index) => {
+            const question = questions.find(q => q.id === questionId);
+            const correctAnswer = sides.map(side => side?.answers.find(a => a.questionId === questionId)).find(Boolean)?.correctAnswer;
+            return (
+              <tr key={questionId} className="border-b border-slate-100 align-top">
+                <td className="py-3 pr-4 text-sm text-slate-700 max-w-xs">
+                  <span className="font-medium">{index + 1}.</span> {question ? question.text : 'Question no longer available.'}
+                  {correctAnswer !== undefined && (
+                    <span className="block mt-1 text-xs text-green-700">Answer: {getAnswerText(questionId, correctAnswer)}</span>
+                  )}
+                </td>
+                {sides.map((side, sideIndex) => (
+                  <td key={sideIndex} className="py-3 pr-4">
+                    {renderAnswer(side?.answers.find(a => a.questionId === questionId))}
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ChallengeComparison;
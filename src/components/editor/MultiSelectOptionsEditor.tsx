@@ -0,0 +1,90 @@
+// src/components/editor/MultiSelectOptionsEditor.tsx
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { QuizQuestion } from '../../types';
+import { parseLetterList } from '../../utils/quizHelpers';
+import { ITEM_LETTERS, MULTI_SELECT_OPTION_COUNT, formatOption, stripOptionLetter } from '../../utils/quizValidation';
+
+type MultiSelectQuestion = Extract<QuizQuestion, { type: 'multi_select' }>;
+
+interface MultiSelectOptionsEditorProps {
+  question: MultiSelectQuestion;
+  onChange: (question: MultiSelectQuestion) => void;
+}
+
+// Options of a "select all that apply" question, each with a tick for whether it is correct
+const MultiSelectOptionsEditor: React.FC<MultiSelectOptionsEditorProps> = ({ question, onChange }) => {
+  const correctLetters = parseLetterList(question.correctAnswer);
+  const texts = question.options.map(stripOptionLetter);
+
+  // Re-letters the options after one was added or removed; ticks follow their option
+  const update = (nextTexts: string[], correctIndexes: number[]) => {
+    onChange({
+      ...question,
+      options: nextTexts.map((text, index) => formatOption(ITEM_LETTERS[index], text)),
+      correctAnswer: correctIndexes.sort((a, b) => a - b).map(index => ITEM_LETTERS[index]).join(','),
+    });
+  };
+  const correctIndexes = () =>
+    texts.map((_, index) => index).filter(index => correctLetters.includes(ITEM_LETTERS[index]));
+
+  const toggleCorrect = (optionIndex: number) => {
+    const current = correctIndexes();
+    update(texts, current.includes(optionIndex) ? current.filter(index => index !== optionIndex) : [...current, optionIndex]);
+  };
+
+  const removeOption = (optionIndex: number) => {
+    update(
+      texts.filter((_, index) => index !== optionIndex),
+      correctIndexes().filter(index => index !== optionIndex).map(index => (index > optionIndex ? index - 1 : index))
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-slate-700">Options (tick every correct one)</p>
+      {texts.map((text, optionIndex) => {
+        const letter = ITEM_LETTERS[optionIndex];
+        return (
+          <div key={letter} className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={correctLetters.includes(letter)}
+              onChange={() => toggleCorrect(optionIndex)}
+              className="h-4 w-4 text-sky-600 rounded"
+              aria-label={`Option ${letter} is correct`}
+            />
+            <span className="w-5 font-semibold text-slate-600">{letter}.</span>
+            <input
+              type="text"
+              value={text}
+              onChange={(e) => update(texts.map((t, i) => (i === optionIndex ? e.target.value : t)), correctIndexes())}
+              className="flex-grow px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+              placeholder={`Option ${letter}`}
+            />
+            <button
+              type="button"
+              onClick={() => removeOption(optionIndex)}
+              disabled={texts.length <= MULTI_SELECT_OPTION_COUNT.min}
+              className="p-1 rounded text-slate-400 hover:text-red-500 disabled:opacity-30"
+              title="Remove option"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        );
+      })}
+      {texts.length < MULTI_SELECT_OPTION_COUNT.max && (
+        <button
+          type="button"
+          onClick={() => update([...texts, ''], correctIndexes())}
+          className="flex items-center text-sm text-sky-600 hover:text-sky-700"
+        >
+          <Plus className="h-4 w-4 mr-1" /> Add option
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MultiSelectOptionsEditor;
@@ -0,0 +1,82 @@
+// src/components/editor/OrderingItemsEditor.tsx
+import React from 'react';
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import { QuizQuestion } from '../../types';
+import { ORDERING_ITEM_COUNT, buildOrderingQuestion, getOrderingItems } from '../../utils/quizValidation';
+
+type OrderingQuestion = Extract<QuizQuestion, { type: 'ordering' }>;
+
+interface OrderingItemsEditorProps {
+  question: OrderingQuestion;
+  onChange: (question: OrderingQuestion) => void;
+}
+
+// Items of an ordering question, edited in their correct order; players get them shuffled
+const OrderingItemsEditor: React.FC<OrderingItemsEditorProps> = ({ question, onChange }) => {
+  const items = getOrderingItems(question);
+  const update = (nextItems: string[]) => onChange(buildOrderingQuestion(question, nextItems));
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    update(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-slate-700">Items in the correct order (players see them shuffled)</p>
+      {items.map((item, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <span className="w-5 font-semibold text-slate-600">{index + 1}.</span>
+          <input
+            type="text"
+            value={item}
+            onChange={(e) => update(items.map((t, i) => (i === index ? e.target.value : t)))}
+            className="flex-grow px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+            placeholder={`Item ${index + 1}`}
+          />
+          <button
+            type="button"
+            onClick={() => move(index, -1)}
+            disabled={index === 0}
+            className="p-1 rounded text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+            title="Move up"
+          >
+            <ArrowUp className="h-4 w-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => move(index, 1)}
+            disabled={index === items.length - 1}
+            className="p-1 rounded text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+            title="Move down"
+          >
+            <ArrowDown className="h-4 w-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => update(items.filter((_, i) => i !== index))}
+            disabled={items.length <= ORDERING_ITEM_COUNT.min}
+            className="p-1 rounded text-slate-400 hover:text-red-500 disabled:opacity-30"
+            title="Remove item"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+      {items.length < ORDERING_ITEM_COUNT.max && (
+        <button
+          type="button"
+          onClick={() => update([...items, ''])}
+          className="flex items-center text-sm text-sky-600 hover:text-sky-700"
+        >
+          <Plus className="h-4 w-4 mr-1" /> Add item
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default OrderingItemsEditor;
@@ -0,0 +1,228 @@
+// src/components/editor/QuestionEditor.tsx
+import React from 'react';
+import { ArrowDown, ArrowUp, Trash2, AlertCircle } from 'lucide-react';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import { QuizQuestion } from '../../types';
+import { QUESTION_TYPE_LABELS } from '../../utils/quizHelpers';
+import { OPTION_LETTERS, TRUE_FALSE_ANSWERS, convertQuestionType, formatOption, stripOptionLetter } from '../../utils/quizValidation';
+import MultiSelectOptionsEditor from './MultiSelectOptionsEditor';
+import OrderingItemsEditor from './OrderingItemsEditor';
+
+interface QuestionEditorProps {
+  question: QuizQuestion;
+  index: number;
+  total: number;
+  errors?: string[];
+  onChange: (question: QuizQuestion) => void;
+  onRemove: () => void;
+  onMove: (direction: -1 | 1) => void;
+}
+
+const QuestionEditor: React.FC<QuestionEditorProps> = ({
+  question,
+  index,
+  total,
+  errors = [],
+  onChange,
+  onRemove,
+  onMove,
+}) => {
+  const handleOptionChange = (optionIndex: number, value: string) => {
+    if (question.type !== 'multiple_choice') return;
+    const options = [...question.options];
+    options[optionIndex] = formatOption(OPTION_LETTERS[optionIndex], value);
+    onChange({ ...question, options });
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border p-4 ${errors.length > 0 ? 'border-red-300' : 'border-slate-200'}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-slate-800">Question {index + 1}</h3>
+        <div className="flex items-center space-x-1">
+          <button
+            type="button"
+            onClick={() => onMove(-1)}
+            disabled={index === 0}
+            className="p-1 rounded text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+            title="Move up"
+          >
+            <ArrowUp className="h-4 w-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => onMove(1)}
+            disabled={index === total - 1}
+            className="p-1 rounded text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+            title="Move down"
+          >
+            <ArrowDown className="h-4 w-4" />
+          </button>
+          <button
+            type="button"
+            onClick={onRemove}
+            className="p-1 rounded text-red-500 hover:bg-red-50"
+            title="Remove question"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <Input
+          label="Question"
+          id={`question-${question.id}-text`}
+          value={question.text}
+          onChange={(e) => onChange({ ...question, text: e.target.value })}
+          placeholder="e.g., Which country won the 2010 FIFA World Cup?"
+        />
+
+        <Select
+          label="Type"
+          id={`question-${question.id}-type`}
+          value={question.type}
+          onChange={(e) => onChange(convertQuestionType(question, e.target.value as QuizQuestion['type']))}
+        >
+          {(Object.keys(QUESTION_TYPE_LABELS) as QuizQuestion['type'][]).map(type => (
+            <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+          ))}
+        </Select>
+
+        {question.type === 'multiple_choice' ? (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-slate-700">Options (select the correct one)</p>
+            {question.options.map((option, optionIndex) => {
+              const letter = OPTION_LETTERS[optionIndex];
+              return (
+                <div key={letter} className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    name={`question-${question.id}-correct`}
+                    checked={question.correctAnswer === letter}
+                    onChange={() => onChange({ ...question, correctAnswer: letter })}
+                    className="h-4 w-4 text-sky-600"
+                    aria-label={`Option ${letter} is correct`}
+                  />
+                  <span className="w-5 font-semibold text-slate-600">{letter}.</span>
+                  <input
+                    type="text"
+                    value={stripOptionLetter(option)}
+                    onChange={(e) => handleOptionChange(optionIndex, e.target.value)}
+                    className="flex-grow px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+                    placeholder={`Option ${letter}`}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        ) : question.type === 'multi_select' ? (
+          <MultiSelectOptionsEditor question={question} onChange={onChange} />
+        ) : question.type === 'ordering' ? (
+          <OrderingItemsEditor question={question} onChange={onChange} />
+        ) : question.type === 'numeric' ? (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <Input
+              label="Correct answer"
+              id={`question-${question.id}-answer`}
+              inputMode="decimal"
+              value={question.correctAnswer}
+              onChange={(e) => onChange({ ...question, correctAnswer: e.target.value })}
+              placeholder="e.g., 1966"
+            />
+            <Input
+              label="Tolerance ± (Optional)"
+              id={`question-${question.id}-tolerance`}
+              type="number"
+              min={0}
+              step="any"
+              value={question.tolerance ?? ''}
+              onChange={(e) => {
+                const updated: typeof question = { ...question, tolerance: Number(e.target.value) };
+                if (e.target.value === '') delete updated.tolerance; // Firestore rejects undefined values
+                onChange(updated);
+              }}
+              placeholder="0"
+            />
+            <Input
+              label="Unit (Optional)"
+              id={`question-${question.id}-unit`}
+              value={question.unit || ''}
+              onChange={(e) => onChange({ ...question, unit: e.target.value })}
+              placeholder="e.g., goals"
+            />
+          </div>
+        ) : question.type === 'fill_in' ? (
+          <div className="space-y-3">
+            <Input
+              label="Correct answer"
+              id={`question-${question.id}-answer`}
+              value={question.correctAnswer}
+              onChange={(e) => onChange({ ...question, correctAnswer: e.target.value })}
+              placeholder="e.g., Pelé"
+            />
+            <Input
+              label="Other accepted answers (Optional, separated by |)"
+              id={`question-${question.id}-accepted`}
+              value={(question.acceptedAnswers || []).join('|')}
+              onChange={(e) => onChange({ ...question, acceptedAnswers: e.target.value.split('|') })}
+              placeholder="e.g., Pele|Edson Arantes do Nascimento"
+            />
+            <p className="text-xs text-slate-500">Case, accents and punctuation are ignored when answers are checked.</p>
+          </div>
+        ) : (
+          <div className="flex items-center space-x-6">
+            <p className="text-sm font-medium text-slate-700">Correct answer:</p>
+            {TRUE_FALSE_ANSWERS.map(answer => (
+              <label key={answer} className="flex items-center space-x-2 text-sm">
+                <input
+                  type="radio"
+                  name={`question-${question.id}-correct`}
+                  checked={question.correctAnswer === answer}
+                  onChange={() => onChange({ ...question, correctAnswer: answer })}
+                  className="h-4 w-4 text-sky-600"
+                />
+                <span>{answer}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor={`question-${question.id}-explanation`} className="block text-sm font-medium text-slate-700 mb-1">
+            Explanation (Optional)
+          </label>
+          <textarea
+            id={`question-${question.id}-explanation`}
+            value={question.explanation || ''}
+            onChange={(e) => onChange({ ...question, explanation: e.target.value })}
+            rows={2}
+            className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+            placeholder="Why is this the right answer? Shown to players when they review their answers."
+          />
+        </div>
+
+        <Input
+          label="Source (Optional)"
+          id={`question-${question.id}-source`}
+          value={question.source || ''}
+          onChange={(e) => onChange({ ...question, source: e.target.value })}
+          placeholder="e.g., https://www.fifa.com/..."
+        />
+
+        {errors.length > 0 && (
+          <ul className="text-sm text-red-600 space-y-1">
+            {errors.map(error => (
+              <li key={error} className="flex items-center">
+                <AlertCircle className="h-4 w-4 mr-1 flex-shrink-0" />
+                {error}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionEditor;
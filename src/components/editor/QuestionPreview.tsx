@@ -0,0 +1,118 @@
+// src/components/editor/QuestionPreview.tsx
+import React from 'react';
+import { CheckCircle, Loader2, Pencil, RefreshCw, Trash2 } from 'lucide-react';
+import { QuizQuestion } from '../../types';
+import { parseLetterList } from '../../utils/quizHelpers';
+import { ITEM_LETTERS, getOrderingItems } from '../../utils/quizValidation';
+
+interface QuestionPreviewProps {
+  question: QuizQuestion;
+  index: number;
+  onEdit: () => void;
+  onRemove?: () => void; // Omitted when the question cannot be removed (e.g. the last one)
+  onRegenerate: () => void;
+  isRegenerating?: boolean;
+  disabled?: boolean; // Another question is being regenerated
+}
+
+// Read-only view of a question with its answer key, for creators reviewing a quiz
+const QuestionPreview: React.FC<QuestionPreviewProps> = ({
+  question,
+  index,
+  onEdit,
+  onRemove,
+  onRegenerate,
+  isRegenerating = false,
+  disabled = false,
+}) => {
+  // Choice questions list every option and tick the correct ones; the other types list their answer key
+  let answers: string[];
+  let isCorrect: (answer: string, answerIndex: number) => boolean;
+  switch (question.type) {
+    case 'multiple_choice':
+      answers = question.options;
+      isCorrect = (_, answerIndex) => ITEM_LETTERS[answerIndex] === question.correctAnswer;
+      break;
+    case 'multi_select': {
+      const correctLetters = parseLetterList(question.correctAnswer);
+      answers = question.options;
+      isCorrect = (_, answerIndex) => correctLetters.includes(ITEM_LETTERS[answerIndex]);
+      break;
+    }
+    case 'ordering':
+      answers = getOrderingItems(question).map((item, itemIndex) => `${itemIndex + 1}. ${item}`);
+      isCorrect = () => true;
+      break;
+    case 'numeric':
+      answers = [`${question.correctAnswer}${question.unit ? ` ${question.unit}` : ''}${question.tolerance ? ` (±${question.tolerance})` : ''}`];
+      isCorrect = () => true;
+      break;
+    case 'fill_in':
+      answers = [question.correctAnswer, ...(question.acceptedAnswers || [])];
+      isCorrect = () => true;
+      break;
+    default:
+      answers = ['True', 'False'];
+      isCorrect = (answer) => answer === question.correctAnswer;
+  }
+
+  return (
+    <div className="border border-slate-200 rounded-lg p-4">
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <p className="font-medium text-slate-800">
+          {index + 1}. {question.text}
+        </p>
+        <div className="flex items-center space-x-1 flex-shrink-0">
+          <button
+            type="button"
+            onClick={onEdit}
+            disabled={disabled || isRegenerating}
+            className="p-1 rounded text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+            title="Edit question"
+          >
+            <Pencil className="h-4 w-4" />
+          </button>
+          <button
+            type="button"
+            onClick={onRegenerate}
+            disabled={disabled || isRegenerating}
+            className="p-1 rounded text-sky-600 hover:bg-sky-50 disabled:opacity-30"
+            title="Regenerate this question"
+          >
+            {isRegenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          </button>
+          {onRemove && (
+            <button
+              type="button"
+              onClick={onRemove}
+              disabled={disabled || isRegenerating}
+              className="p-1 rounded text-red-500 hover:bg-red-50 disabled:opacity-30"
+              title="Remove question"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      </div>
+      <ul className="space-y-1 text-sm">
+        {answers.map((answer, answerIndex) => (
+          <li
+            key={`${answerIndex}-${answer}`}
+            className={`flex items-center ${isCorrect(answer, answerIndex) ? 'text-green-700 font-medium' : 'text-slate-600'}`}
+          >
+            {isCorrect(answer, answerIndex) && <CheckCircle className="h-4 w-4 mr-1 flex-shrink-0" />}
+            <span>{answer}</span>
+          </li>
+        ))}
+      </ul>
+      {question.explanation && (
+        <p className="mt-2 text-sm text-slate-500 italic">{question.explanation}</p>
+      )}
+      {question.source && (
+        <p className="mt-1 text-xs text-slate-400 break-words">Source: {question.source}</p>
+      )}
+    </div>
+  );
+};
+
+export default QuestionPreview;
@@ -0,0 +1,61 @@
+// src/components/group/AssignmentGrid.tsx
+import React from 'react';
+import { Assignment, Group, QuizAttempt } from '../../types';
+import { ASSIGNMENT_STATUS_LABELS, ASSIGNMENT_STATUS_STYLES, getAssignmentProgress } from '../../utils/groups';
+
+interface AssignmentGridProps {
+  group: Group;
+  assignments: Assignment[];
+  attempts: QuizAttempt[]; // Every member's assignment attempts
+  selectedId: string | null;
+  onSelect: (assignmentId: string) => void; // Picks the assignment whose questions are broken down
+}
+
+// The coach's results: one row per member, one column per assignment. Each cell shows the member's best score,
+// the attempts they used and where they stand
+const AssignmentGrid: React.FC<AssignmentGridProps> = ({ group, assignments, attempts, selectedId, onSelect }) => (
+  <div className="overflow-x-auto">
+    <table className="min-w-full text-sm">
+      <thead>
+        <tr className="border-b border-slate-200">
+          <th className="py-2 pr-4 text-left font-medium text-slate-600">Member</th>
+          {assignments.map(assignment => (
+            <th key={assignment.id} className="px-2 py-2 text-left font-medium">
+              <button
+                onClick={() => onSelect(assignment.id)}
+                className={`text-left hover:underline ${assignment.id === selectedId ? 'text-sky-700' : 'text-slate-600'}`}
+              >
+                {assignment.quizTitle}
+                <span className="block text-xs font-normal text-slate-400">
+                  Due {assignment.dueAt.toDate().toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                </span>
+              </button>
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100">
+        {group.members.map(member => (
+          <tr key={member.userId}>
+            <td className="py-2 pr-4 font-medium text-slate-800 whitespace-nowrap">{member.displayName}</td>
+            {assignments.map(assignment => {
+              const progress = getAssignmentProgress(assignment, member.userId, attempts);
+              return (
+                <td key={assignment.id} className="px-2 py-2">
+                  <div className={`rounded px-2 py-1 ${ASSIGNMENT_STATUS_STYLES[progress.status]}`} title={ASSIGNMENT_STATUS_LABELS[progress.status]}>
+                    <p className="font-medium">
+                      {progress.best ? `${progress.best.score}/${progress.best.totalQuestions}` : ASSIGNMENT_STATUS_LABELS[progress.status]}
+                    </p>
+                    <p className="text-xs opacity-80">{progress.attemptsUsed}/{assignment.maxAttempts} attempts</p>
+                  </div>
+                </td>
+              );
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default AssignmentGrid;
@@ -0,0 +1,69 @@
+// src/components/group/AssignmentList.tsx
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Play, RotateCcw } from 'lucide-react';
+import Button from '../ui/Button';
+import { AssignedQuiz } from '../../store/groupStore';
+import { QuizAttempt } from '../../types';
+import { ASSIGNMENT_STATUS_LABELS, ASSIGNMENT_STATUS_STYLES, getAssignmentProgress } from '../../utils/groups';
+
+interface AssignmentListProps {
+  items: AssignedQuiz[];
+  attempts: QuizAttempt[]; // The member's own assignment attempts
+  userId: string;
+  showGroup?: boolean; // Name the group on each row, for lists spanning several groups
+}
+
+const formatDue = (millis: number): string =>
+  new Date(millis).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// A member's assignments with where they stand on each, and the button that starts their next attempt
+const AssignmentList: React.FC<AssignmentListProps> = ({ items, attempts, userId, showGroup = false }) => {
+  const navigate = useNavigate();
+
+  return (
+    <ul className="divide-y divide-slate-100">
+      {items.map(({ group, assignment }) => {
+        const progress = getAssignmentProgress(assignment, userId, attempts);
+        const canStart = !progress.isDue && progress.attemptsLeft > 0;
+        return (
+          <li key={assignment.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3">
+            <div>
+              <p className="font-medium text-slate-800">
+                {assignment.quizTitle}
+                {showGroup && <span className="font-normal text-slate-500"> · {group.name}</span>}
+              </p>
+              <p className="text-sm text-slate-500">
+                {progress.isDue ? 'Was due' : 'Due'} {formatDue(assignment.dueAt.toMillis())}
+                {' · '}{progress.attemptsUsed}/{assignment.maxAttempts} {assignment.maxAttempts === 1 ? 'attempt' : 'attempts'} used
+                {progress.best && ` · best ${progress.best.score}/${progress.best.totalQuestions}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${ASSIGNMENT_STATUS_STYLES[progress.status]}`}>
+                {ASSIGNMENT_STATUS_LABELS[progress.status]}
+              </span>
+              {progress.status === 'in_progress' && (
+                // Without the assignment in the state the quiz page offers to resume the saved run
+                <Button variant="outline" size="sm" onClick={() => navigate(`/quiz/${assignment.quizId}`)} leftIcon={<RotateCcw className="h-4 w-4" />}>
+                  Resume
+                </Button>
+              )}
+              {canStart && (
+                <Button
+                  size="sm"
+                  onClick={() => navigate(`/quiz/${assignment.quizId}`, { state: { assignment: { groupId: group.id, assignmentId: assignment.id } } })}
+                  leftIcon={<Play className="h-4 w-4" />}
+                >
+                  {progress.attemptsUsed === 0 ? 'Start' : 'Try again'}
+                </Button>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default AssignmentList;
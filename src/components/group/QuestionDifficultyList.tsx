@@ -0,0 +1,53 @@
+// src/components/group/QuestionDifficultyList.tsx
+import React, { useEffect, useState } from 'react';
+import { useGroupStore } from '../../store/groupStore';
+import { Assignment, QuizAttempt } from '../../types';
+import { getQuestionDifficulty } from '../../utils/groups';
+
+interface QuestionDifficultyListProps {
+  assignment: Assignment;
+  attempts: QuizAttempt[]; // Every member's assignment attempts
+}
+
+const barColor = (credit: number): string => (credit >= 0.7 ? 'bg-green-500' : credit >= 0.4 ? 'bg-yellow-500' : 'bg-red-500');
+
+// How the group did on each question of one assignment, hardest first, so the coach knows what to go over
+const QuestionDifficultyList: React.FC<QuestionDifficultyListProps> = ({ assignment, attempts }) => {
+  const { fetchQuestionTexts } = useGroupStore();
+  const [texts, setTexts] = useState<Record<string, string> | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setTexts(null);
+    fetchQuestionTexts(assignment.quizId).then(result => {
+      if (!cancelled) setTexts(result);
+    });
+    return () => { cancelled = true; };
+  }, [assignment.quizId, fetchQuestionTexts]);
+
+  const questions = getQuestionDifficulty(assignment.id, attempts);
+  if (questions.length === 0) {
+    return <p className="text-sm text-slate-500">No one has completed this assignment yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {questions.map(question => {
+        const percent = Math.round(question.averageCredit * 100);
+        return (
+          <li key={question.questionId}>
+            <div className="flex justify-between gap-4 text-sm">
+              <span className="text-slate-800">{texts ? texts[question.questionId] || 'Question no longer in the quiz' : 'Loading question...'}</span>
+              <span className="whitespace-nowrap text-slate-500">{percent}% correct · {question.answered} answered</span>
+            </div>
+            <div className="mt-1 h-2 rounded bg-slate-100">
+              <div className={`h-2 rounded ${barColor(question.averageCredit)}`} style={{ width: `${percent}%` }} />
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default QuestionDifficultyList;
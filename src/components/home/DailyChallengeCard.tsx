@@ -0,0 +1,126 @@
+// src/components/home/DailyChallengeCard.tsx
+import React, { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CalendarDays, CheckCircle, Flame, Loader2, Play, Trophy } from 'lucide-react';
+import Card, { CardContent, CardHeader } from '../ui/Card';
+import Button from '../ui/Button';
+import { useDailyChallengeStore } from '../../store/dailyChallengeStore';
+import { formatDateKey, getCurrentStreak } from '../../utils/dailyChallenge';
+
+interface DailyChallengeCardProps {
+  userId: string;
+}
+
+// Today's challenge with the player's streak and the day's leaderboard, plus the last few days to play again
+const DailyChallengeCard: React.FC<DailyChallengeCardProps> = ({ userId }) => {
+  const navigate = useNavigate();
+  const { today, entries, myEntry, startedToday, streak, archive, loading, error, fetchDailyChallenge } = useDailyChallengeStore();
+
+  useEffect(() => {
+    fetchDailyChallenge(userId);
+  }, [userId, fetchDailyChallenge]);
+
+  const currentStreak = getCurrentStreak(streak);
+
+  return (
+    <Card className="max-w-3xl mx-auto">
+      <CardHeader className="flex items-center justify-between">
+        <h2 className="flex items-center text-lg font-semibold text-slate-800">
+          <CalendarDays className="h-5 w-5 mr-2 text-sky-500" />
+          Daily Challenge
+        </h2>
+        <span className="flex items-center text-sm font-medium text-orange-600" title={streak ? `Longest streak: ${streak.longest}` : undefined}>
+          <Flame className="h-4 w-4 mr-1" />
+          {currentStreak} day streak
+        </span>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-sky-500" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <>
+            {today ? (
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+                <div>
+                  <p className="font-medium text-slate-800">{today.title}</p>
+                  <p className="text-sm text-slate-500">
+                    {today.numberOfQuestions} questions · one scored attempt, played as an exam
+                  </p>
+                </div>
+                {myEntry ? (
+                  <span className="flex items-center text-sm font-medium text-green-700">
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Played: {myEntry.score}/{myEntry.totalQuestions}, {myEntry.points} points
+                  </span>
+                ) : (
+                  // A started run can be resumed from the quiz page while its session is open
+                  <Button onClick={() => navigate(`/quiz/${today.quizId}`)} leftIcon={<Play className="h-4 w-4" />}>
+                    {startedToday ? "Continue Today's Challenge" : "Play Today's Challenge"}
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500 mb-6">Today's challenge is on its way. Check back in a few minutes.</p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <h3 className="flex items-center text-sm font-semibold text-slate-700 mb-2">
+                  <Trophy className="h-4 w-4 mr-1 text-yellow-500" />
+                  Today's Leaderboard
+                </h3>
+                {entries.length === 0 ? (
+                  <p className="text-sm text-slate-500">No one has played yet today.</p>
+                ) : (
+                  <ol className="space-y-1 text-sm">
+                    {entries.map((entry, index) => (
+                      <li
+                        key={entry.userId}
+                        className={`flex justify-between rounded px-2 py-1 ${entry.userId === userId ? 'bg-sky-50 font-medium' : ''}`}
+                      >
+                        <span className="text-slate-700">
+                          {index + 1}. {entry.displayName}
+                        </span>
+                        <span className="text-slate-500">{entry.points} pts</span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+
+              <div>
+                <h3 className="flex items-center text-sm font-semibold text-slate-700 mb-2">
+                  <CalendarDays className="h-4 w-4 mr-1 text-slate-500" />
+                  Past Challenges
+                </h3>
+                {archive.length === 0 ? (
+                  <p className="text-sm text-slate-500">No past challenges yet.</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {archive.map(challenge => (
+                      <li key={challenge.date}>
+                        <button
+                          onClick={() => navigate(`/quiz/${challenge.quizId}`)}
+                          className="flex w-full justify-between rounded px-2 py-1 text-left hover:bg-slate-50"
+                        >
+                          <span className="text-slate-700">{formatDateKey(challenge.date)}</span>
+                          <span className="text-slate-500">{challenge.category}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DailyChallengeCard;
@@ -59,6 +59,54 @@ const Header: React.FC = () => {
                 >
                   History
                 </Link>
+                <Link
+                  to="/review"
+                  className="inline-flex items-center px-1 pt-1 border-b-2 border-transparent text-sm font-medium text-slate-600 hover:text-slate-800 hover:border-slate-300"
+                >
+                  Review
+                </Link>
+                <Link
+                  to="/play"
+                  className="inline-flex items-center px-1 pt-1 border-b-2 border-transparent text-sm font-medium text-slate-600 hover:text-slate-800 hover:border-slate-300"
+                >
+                  Play Live
+                </Link>
+                <Link
+                  to="/challenges"
+                  className="inline-flex items-center px-1 pt-1 border-b-2 border-transparent text-sm font-medium text-slate-600 hover:text-slate-800 hover:border-slate-300"
+                >
+                  Challenges
+                </Link>
+                <Link
+                  to="/tournaments"
+                  className="inline-flex items-center px-1 pt-1 border-b-2 border-transparent text-sm font-medium text-slate-600 hover:text-slate-800 hover:border-slate-300"
+                >
+                  Tournaments
+                </Link>
+                <Link
+                  to="/teams"
+                  className="inline-flex items-center px-1 pt-1 border-b-2 border-transparent text-sm font-medium text-slate-600 hover:text-slate-800 hover:border-slate-300"
+                >
+                  Teams
+                </Link>
+                <Link
+                  to="/groups"
+                  className="inline-flex items-center px-1 pt-1 border-b-2 border-transparent text-sm font-medium text-slate-600 hover:text-slate-800 hover:border-slate-300"
+                >
+                  Groups
+                </Link>
+                <Link
+                  to="/stats"
+                  className="inline-flex items-center px-1 pt-1 border-b-2 border-transparent text-sm font-medium text-slate-600 hover:text-slate-800 hover:border-slate-300"
+                >
+                  Stats
+                </Link>
+                <Link
+                  to="/leaderboard"
+                  className="inline-flex items-center px-1 pt-1 border-b-2 border-transparent text-sm font-medium text-slate-600 hover:text-slate-800 hover:border-slate-300"
+                >
+                  Leaderboard
+                </Link>
                 {user.isAdmin && (
                   <Link
                     to="/admin"
@@ -174,6 +222,62 @@ const Header: React.FC = () => {
             >
               History
             </Link>
+            <Link
+              to="/review"
+              className="block px-3 py-2 rounded-md text-base font-medium text-slate-700 hover:text-slate-900 hover:bg-slate-50"
+              onClick={() => setIsMobileMenuOpen(false)}
+            >
+              Review
+            </Link>
+            <Link
+              to="/play"
+              className="block px-3 py-2 rounded-md text-base font-medium text-slate-700 hover:text-slate-900 hover:bg-slate-50"
+              onClick={() => setIsMobileMenuOpen(false)}
+            >
+              Play Live
+            </Link>
+            <Link
+              to="/challenges"
+              className="block px-3 py-2 rounded-md text-base font-medium text-slate-700 hover:text-slate-900 hover:bg-slate-50"
+              onClick={() => setIsMobileMenuOpen(false)}
+            >
+              Challenges
+            </Link>
+            <Link
+              to="/tournaments"
+              className="block px-3 py-2 rounded-md text-base font-medium text-slate-700 hover:text-slate-900 hover:bg-slate-50"
+              onClick={() => setIsMobileMenuOpen(false)}
+            >
+              Tournaments
+            </Link>
+            <Link
+              to="/teams"
+              className="block px-3 py-2 rounded-md text-base font-medium text-slate-700 hover:text-slate-900 hover:bg-slate-50"
+              onClick={() => setIsMobileMenuOpen(false)}
+            >
+              Teams
+            </Link>
+            <Link
+              to="/groups"
+              className="block px-3 py-2 rounded-md text-base font-medium text-slate-700 hover:text-slate-900 hover:bg-slate-50"
+              onClick={() => setIsMobileMenuOpen(false)}
+            >
+              Groups
+            </Link>
+            <Link
+              to="/stats"
+              className="block px-3 py-2 rounded-md text-base font-medium text-slate-700 hover:text-slate-900 hover:bg-slate-50"
+              onClick={() => setIsMobileMenuOpen(false)}
+            >
+              Stats
+            </Link>
+            <Link
+              to="/leaderboard"
+              className="block px-3 py-2 rounded-md text-base font-medium text-slate-700 hover:text-slate-900 hover:bg-slate-50"
+              onClick={() => setIsMobileMenuOpen(false)}
+            >
+              Leaderboard
+            </Link>
             {user.isAdmin && (
               <Link
                 to="/admin"
@@ -0,0 +1,92 @@
+// src/components/quiz/AnswerReview.tsx
+import React from 'react';
+import { Lightbulb } from 'lucide-react';
+import { PlayerQuizQuestion, QuizAttempt } from '../../types';
+import { applyOptionOrder, formatAnswer, toDisplayedAnswer } from '../../utils/quizHelpers';
+
+interface AnswerReviewProps {
+  answers: QuizAttempt['answers'];
+  questions: PlayerQuizQuestion[]; // Question texts and options; answer keys come from `answers`
+}
+
+// Sources are free text; only http(s) URLs become links
+const isWebLink = (value: string) => /^https?:\/\/\S+$/i.test(value);
+
+// Per-question review of an attempt, shared by QuizResult and the attempt detail page
+const AnswerReview: React.FC<AnswerReviewProps> = ({ answers, questions }) => {
+  // Answers are stored as sent (letters, numbers, typed text); show them the way the question presented them,
+  // including the option order the player saw when the quiz shuffles its options
+  const getAnswerText = (answerDetail: AnswerReviewProps['answers'][number], answer: string): string => {
+    const question = questions.find(q => q.id === answerDetail.questionId);
+    if (!question) return answer;
+    const { optionOrder } = answerDetail;
+    return formatAnswer(applyOptionOrder(question, optionOrder), toDisplayedAnswer(question, answer, optionOrder));
+  };
+
+  // Partly correct answers (multi-select, numeric, ordering) are neither correct nor wrong
+  const getResultLabel = (answerDetail: AnswerReviewProps['answers'][number]): string => {
+    if (answerDetail.isCorrect) return ' (Correct)';
+    if (answerDetail.credit) return ` (Partly correct, ${Math.round(answerDetail.credit * 100)}% credit)`;
+    return ' (Incorrect)';
+  };
+
+  const getQuestionText = (questionId: string): string => {
+    const question = questions.find(q => q.id === questionId);
+    return question ? question.text : 'Question text not available.';
+  };
+
+  return (
+    <div className="space-y-4">
+      {answers.map((answerDetail, index) => (
+        <div key={answerDetail.questionId || index} className="p-3 rounded-md bg-slate-50 border border-slate-200">
+          <p className="font-medium text-slate-800 mb-1">
+            Question {index + 1}:
+          </p>
+          <p className="text-base text-slate-700 mb-2">
+            {getQuestionText(answerDetail.questionId)}
+          </p>
+          <p className={`text-sm ${answerDetail.isCorrect ? 'text-green-600' : answerDetail.credit ? 'text-yellow-600' : 'text-red-600'}`}>
+            {answerDetail.userAnswer === ''
+              ? 'No answer'
+              : <>Your Answer: "{getAnswerText(answerDetail, answerDetail.userAnswer)}"{getResultLabel(answerDetail)}</>}
+          </p>
+          {!answerDetail.isCorrect && (
+            <p className="text-sm text-slate-700">
+              Correct Answer: "{getAnswerText(answerDetail, answerDetail.correctAnswer)}"
+            </p>
+          )}
+          {(answerDetail.explanation || answerDetail.source) && (
+            <div className="mt-2 p-2 rounded bg-white border border-slate-200 text-sm text-slate-700">
+              {answerDetail.explanation && (
+                <p className="flex items-start">
+                  <Lightbulb className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0 text-yellow-500" />
+                  <span>{answerDetail.explanation}</span>
+                </p>
+              )}
+              {answerDetail.source && (
+                <p className="text-xs text-slate-500 mt-1 break-words">
+                  Source:{' '}
+                  {isWebLink(answerDetail.source) ? (
+                    <a href={answerDetail.source} target="_blank" rel="noopener noreferrer" className="text-sky-600 hover:underline">
+                      {answerDetail.source}
+                    </a>
+                  ) : (
+                    answerDetail.source
+                  )}
+                </p>
+              )}
+            </div>
+          )}
+          {answerDetail.points !== undefined && (
+            <p className="text-xs text-slate-500 mt-1">
+              {answerDetail.points} points
+              {typeof answerDetail.timeSpentSeconds === 'number' && ` · answered in ${answerDetail.timeSpentSeconds}s`}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AnswerReview;
@@ -0,0 +1,156 @@
+// src/components/quiz/ExamQuestion.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCircle, Timer } from 'lucide-react';
+import { PlayerQuizQuestion } from '../../types';
+import Button from '../ui/Button';
+import { QUESTION_TYPE_LABELS, formatAnswer } from '../../utils/quizHelpers';
+import MultiSelectAnswer from './MultiSelectAnswer';
+import OrderingAnswer from './OrderingAnswer';
+import TypedAnswer from './TypedAnswer';
+
+interface ExamQuestionProps {
+  question: PlayerQuizQuestion;
+  savedAnswer?: string; // The answer given so far; can be changed until the exam is submitted (or the question is left)
+  onAnswer: (selectedOption: string) => void;
+  questionNumber: number;
+  totalQuestions: number;
+  timeLimitSeconds?: number | null; // Seconds on the per-question countdown (less when resumed); onTimeUp is called at 0
+  onTimeUp?: () => void;
+  locked?: boolean; // The answer is being locked in, so it can no longer be changed
+}
+
+// Exam mode: answers are only saved, never checked; the player moves between questions with the exam's navigation
+const ExamQuestion: React.FC<ExamQuestionProps> = ({
+  question,
+  savedAnswer,
+  onAnswer,
+  questionNumber,
+  totalQuestions,
+  timeLimitSeconds,
+  onTimeUp,
+  locked = false,
+}) => {
+  const isChoiceQuestion = question.type === 'multiple_choice' || question.type === 'true_false';
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const timeUpRef = useRef(false); // onTimeUp is called once per question
+  const timedOut = secondsLeft === 0;
+  const disabled = locked || timedOut;
+
+  // Per-question countdown, restarted for every question
+  useEffect(() => {
+    if (timeLimitSeconds === null || timeLimitSeconds === undefined) return;
+
+    const deadline = Date.now() + timeLimitSeconds * 1000;
+    setSecondsLeft(timeLimitSeconds);
+    const intervalId = setInterval(() => {
+      const remaining = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) clearInterval(intervalId);
+    }, 250);
+
+    return () => clearInterval(intervalId);
+  }, [question.id, timeLimitSeconds]);
+
+  // Time ran out: the parent locks in whatever was saved and moves on
+  useEffect(() => {
+    if (secondsLeft === 0 && !timeUpRef.current) {
+      timeUpRef.current = true;
+      onTimeUp?.();
+    }
+  }, [secondsLeft, onTimeUp]);
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-8 sm:px-6 lg:px-8 animate-fadeIn">
+      <div className="mb-6">
+        <div className="flex justify-between items-center mb-2">
+          <span className="text-sm font-medium text-slate-500">
+            Question {questionNumber} of {totalQuestions}
+          </span>
+          {secondsLeft !== null && !locked && (
+            <span className={`flex items-center text-sm font-semibold ${secondsLeft <= 5 ? 'text-red-600' : 'text-slate-600'}`}>
+              <Timer className="h-4 w-4 mr-1" />
+              {secondsLeft}s
+            </span>
+          )}
+          <span className="text-sm font-medium text-slate-500">
+            {QUESTION_TYPE_LABELS[question.type]}
+          </span>
+        </div>
+        <div className="w-full bg-slate-200 rounded-full h-2">
+          <div
+            className="bg-sky-500 h-2 rounded-full transition-all duration-500 ease-out"
+            style={{ width: `${(questionNumber / totalQuestions) * 100}%` }}
+          ></div>
+        </div>
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg p-6 mb-6">
+        <h2 className="text-xl font-semibold text-slate-800 mb-6">
+          {question.text}
+        </h2>
+
+        {timedOut && (
+          <p className="mb-4 text-sm font-medium text-red-600">Time's up! The answer saved so far is locked in.</p>
+        )}
+
+        <div className="space-y-3">
+          {question.type === 'multiple_choice' ? (
+            question.options.map((option) => (
+              <button
+                key={option}
+                onClick={() => onAnswer(option)}
+                disabled={disabled}
+                className={`w-full text-left p-3 rounded-md border transition-all duration-200 ease-in-out ${
+                  savedAnswer === option ? 'border-sky-500 bg-sky-50' : 'border-slate-300 bg-white hover:border-slate-500'
+                }`}
+              >
+                {option}
+              </button>
+            ))
+          ) : question.type === 'multi_select' ? (
+            <MultiSelectAnswer key={question.id} options={question.options} disabled={disabled} initialAnswer={savedAnswer} submitLabel="Save Answer" onSubmit={onAnswer} />
+          ) : question.type === 'ordering' ? (
+            <OrderingAnswer key={question.id} options={question.options} disabled={disabled} initialAnswer={savedAnswer} submitLabel="Save Order" onSubmit={onAnswer} />
+          ) : question.type === 'numeric' ? (
+            <TypedAnswer
+              key={question.id}
+              kind="numeric"
+              unit={question.unit}
+              tolerance={question.tolerance}
+              disabled={disabled}
+              initialAnswer={savedAnswer}
+              submitLabel="Save Answer"
+              onSubmit={onAnswer}
+            />
+          ) : question.type === 'fill_in' ? (
+            <TypedAnswer key={question.id} kind="text" disabled={disabled} initialAnswer={savedAnswer} submitLabel="Save Answer" onSubmit={onAnswer} />
+          ) : (
+            <div className="flex space-x-4">
+              {['True', 'False'].map((option) => (
+                <Button
+                  key={option}
+                  onClick={() => onAnswer(option)}
+                  disabled={disabled}
+                  variant={savedAnswer === option ? 'primary' : 'outline'}
+                  className="flex-1"
+                >
+                  {option}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Inputs with their own save button confirm what was saved; choice questions show it by the highlight */}
+        {!isChoiceQuestion && savedAnswer && (
+          <p className="flex items-center mt-4 text-sm text-green-700">
+            <CheckCircle className="h-4 w-4 mr-1" />
+            Saved: {formatAnswer(question, savedAnswer)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExamQuestion;
@@ -0,0 +1,69 @@
+// src/components/quiz/ExamReview.tsx
+import React from 'react';
+import { AlertCircle, Pencil, Send } from 'lucide-react';
+import { PlayerQuizQuestion } from '../../types';
+import Button from '../ui/Button';
+import { formatAnswer } from '../../utils/quizHelpers';
+
+interface ExamReviewProps {
+  questions: PlayerQuizQuestion[]; // In the order they were played
+  answers: Record<string, string>; // Saved answer per question id
+  onEdit?: (questionIndex: number) => void; // Left out when the answers were locked in question by question
+  onSubmit: () => void;
+  submitting: boolean;
+}
+
+// Last screen of an exam: every saved answer at a glance, with a way back to each question before submitting
+// (unless the exam locked each answer in as it went)
+const ExamReview: React.FC<ExamReviewProps> = ({ questions, answers, onEdit, onSubmit, submitting }) => {
+  const unansweredCount = questions.filter(question => !answers[question.id]).length;
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-8 sm:px-6 lg:px-8 animate-fadeIn">
+      <h3 className="text-xl font-semibold text-slate-800 mb-2">Review your answers</h3>
+      <p className="text-sm text-slate-600 mb-4">
+        {onEdit ? 'Answers can still be changed. ' : 'Each answer was locked in when you moved on. '}Nothing is marked until you submit.
+      </p>
+
+      {unansweredCount > 0 && (
+        <div className="flex items-start p-3 mb-4 rounded-md bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+          <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+          <span>
+            {onEdit
+              ? `${unansweredCount} question${unansweredCount === 1 ? ' is' : 's are'} not answered yet and will count as wrong.`
+              : `${unansweredCount} question${unansweredCount === 1 ? ' was' : 's were'} left unanswered and will count as wrong.`}
+          </span>
+        </div>
+      )}
+
+      <ol className="space-y-2 mb-6">
+        {questions.map((question, index) => {
+          const answer = answers[question.id];
+          return (
+            <li key={question.id} className="flex items-start justify-between gap-3 p-3 rounded-md bg-white border border-slate-200">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-800">
+                  {index + 1}. {question.text}
+                </p>
+                <p className={`text-sm mt-1 ${answer ? 'text-slate-600' : 'text-yellow-700'}`}>
+                  {answer ? formatAnswer(question, answer) : 'Not answered'}
+                </p>
+              </div>
+              {onEdit && (
+                <Button variant="ghost" size="sm" onClick={() => onEdit(index)} leftIcon={<Pencil className="h-4 w-4" />}>
+                  Change
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      <Button onClick={onSubmit} isLoading={submitting} disabled={submitting} leftIcon={<Send className="h-4 w-4" />} fullWidth>
+        Submit Exam
+      </Button>
+    </div>
+  );
+};
+
+export default ExamReview;
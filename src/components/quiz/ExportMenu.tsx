@@ -0,0 +1,77 @@
+// src/components/quiz/ExportMenu.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { EXPORT_FORMATS, ExportFormat } from '../../utils/quizExport';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  label?: string; // Without a label the trigger is a small round icon button (used on quiz cards)
+  disabled?: boolean;
+  align?: 'left' | 'right';
+}
+
+// Dropdown listing every export format
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, label, disabled = false, align = 'left' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleSelect = (e: React.MouseEvent, format: ExportFormat) => {
+    e.stopPropagation();
+    setIsOpen(false);
+    onExport(format);
+  };
+
+  return (
+    <div ref={menuRef} className="relative inline-block">
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen(open => !open);
+        }}
+        disabled={disabled}
+        className={label
+          ? 'inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 disabled:opacity-50'
+          : 'bg-sky-600 hover:bg-sky-700 text-white p-1 rounded-full shadow-md transition-colors duration-200 disabled:opacity-50'}
+        title="Export Quiz"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <Download className="h-4 w-4" />
+        {label && <span className="ml-2">{label}</span>}
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className={`absolute z-20 mt-1 w-52 bg-white rounded-md shadow-lg border border-slate-200 py-1 ${align === 'right' ? 'right-0' : 'left-0'}`}
+        >
+          {EXPORT_FORMATS.map(({ format, label: formatLabel }) => (
+            <button
+              key={format}
+              type="button"
+              role="menuitem"
+              onClick={(e) => handleSelect(e, format)}
+              className="block w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-100"
+            >
+              {formatLabel}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,51 @@
+// src/components/quiz/MultiSelectAnswer.tsx
+import React, { useState } from 'react';
+import { CheckSquare, Square } from 'lucide-react';
+import Button from '../ui/Button';
+import { parseLetterList } from '../../utils/quizHelpers';
+
+interface MultiSelectAnswerProps {
+  options: string[]; // Lettered options, e.g. "A. Spain"
+  disabled: boolean;
+  initialAnswer?: string; // A previously saved answer, e.g. when an exam goes back to the question
+  submitLabel?: string;
+  onSubmit: (answer: string) => void; // The picked letters, sorted and comma-separated, e.g. "A,C"
+}
+
+// "Select all that apply": options toggle on and off, the answer is sent with the submit button
+const MultiSelectAnswer: React.FC<MultiSelectAnswerProps> = ({ options, disabled, initialAnswer, submitLabel = 'Submit Answer', onSubmit }) => {
+  const [picked, setPicked] = useState<string[]>(() => parseLetterList(initialAnswer || ''));
+
+  const toggle = (letter: string) => {
+    setPicked(prev => (prev.includes(letter) ? prev.filter(l => l !== letter) : [...prev, letter]));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-slate-500">Select all that apply.</p>
+      {options.map(option => {
+        const letter = option.charAt(0);
+        const isPicked = picked.includes(letter);
+        return (
+          <button
+            key={option}
+            type="button"
+            onClick={() => toggle(letter)}
+            disabled={disabled}
+            className={`w-full flex items-center text-left p-3 rounded-md border transition-all duration-200 ease-in-out ${
+              isPicked ? 'border-sky-500 bg-sky-50' : 'border-slate-300 bg-white hover:border-slate-500'
+            } ${disabled ? 'opacity-75' : ''}`}
+          >
+            {isPicked ? <CheckSquare className="h-5 w-5 mr-3 text-sky-600" /> : <Square className="h-5 w-5 mr-3 text-slate-400" />}
+            <span>{option}</span>
+          </button>
+        );
+      })}
+      <Button onClick={() => onSubmit([...picked].sort().join(','))} disabled={disabled || picked.length === 0} fullWidth>
+        {submitLabel}
+      </Button>
+    </div>
+  );
+};
+
+export default MultiSelectAnswer;
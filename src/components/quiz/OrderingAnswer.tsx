@@ -0,0 +1,73 @@
+// src/components/quiz/OrderingAnswer.tsx
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import Button from '../ui/Button';
+import { parseLetterList } from '../../utils/quizHelpers';
+
+interface OrderingAnswerProps {
+  options: string[]; // Lettered items in the order they start in, e.g. "C. London"
+  disabled: boolean;
+  initialAnswer?: string; // A previously saved order, e.g. when an exam goes back to the question
+  submitLabel?: string;
+  onSubmit: (answer: string) => void; // The letters in the player's order, e.g. "C,A,D,B"
+}
+
+// The saved order when it still names every item exactly once, otherwise the starting order
+const getStartingItems = (options: string[], initialAnswer?: string): string[] => {
+  const items = parseLetterList(initialAnswer || '').map(letter => options.find(option => option.startsWith(`${letter}.`)));
+  return items.length === options.length && new Set(items).size === options.length && items.every(Boolean)
+    ? (items as string[])
+    : options;
+};
+
+// Items are moved up and down until the player is happy with the order
+const OrderingAnswer: React.FC<OrderingAnswerProps> = ({ options, disabled, initialAnswer, submitLabel = 'Submit Order', onSubmit }) => {
+  const [items, setItems] = useState<string[]>(() => getStartingItems(options, initialAnswer));
+
+  const move = (index: number, direction: -1 | 1) => {
+    setItems(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-slate-500">Use the arrows to put the items in order, first at the top.</p>
+      <ol className="space-y-2">
+        {items.map((item, index) => (
+          <li key={item} className="flex items-center p-3 rounded-md border border-slate-300 bg-white">
+            <span className="w-6 text-sm font-semibold text-slate-500">{index + 1}.</span>
+            <span className="flex-1">{item}</span>
+            <button
+              type="button"
+              onClick={() => move(index, -1)}
+              disabled={disabled || index === 0}
+              className="p-1 text-slate-500 hover:text-slate-800 disabled:opacity-30"
+              aria-label={`Move ${item} up`}
+            >
+              <ChevronUp className="h-5 w-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => move(index, 1)}
+              disabled={disabled || index === items.length - 1}
+              className="p-1 text-slate-500 hover:text-slate-800 disabled:opacity-30"
+              aria-label={`Move ${item} down`}
+            >
+              <ChevronDown className="h-5 w-5" />
+            </button>
+          </li>
+        ))}
+      </ol>
+      <Button onClick={() => onSubmit(items.map(item => item.charAt(0)).join(','))} disabled={disabled} fullWidth>
+        {submitLabel}
+      </Button>
+    </div>
+  );
+};
+
+export default OrderingAnswer;
@@ -3,21 +3,27 @@ import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Clock, BarChart, Trophy, Tent as Tennis, ShoppingBasket as Basketball,
-  Dumbbell, Car, Play, Download, Eye, EyeOff, Archive, ArchiveRestore, Loader2
+  Dumbbell, Car, Play, Eye, EyeOff, Archive, ArchiveRestore, Loader2, Pencil
 } from 'lucide-react';
 import Card, { CardContent, CardFooter } from '../ui/Card';
 import Button from '../ui/Button';
+import ExportMenu from './ExportMenu';
+import { ExportFormat } from '../../utils/quizExport';
+import { QUIZ_TYPE_LABELS } from '../../utils/quizHelpers';
 
-import { Quiz } from '../../types';
+import { PlayerQuiz } from '../../types';
 
 interface QuizCardProps {
-  quiz: Quiz;
+  quiz: PlayerQuiz; // Works for full quizzes too; the card never needs the answer key
   isAdmin?: boolean;
   onToggleVisibility?: (quizId: string, currentVisibility: 'global' | 'private') => Promise<void>;
-  onToggleStatus?: (quiz: Quiz) => Promise<void>; // Modified: Pass entire quiz object
-  onExport?: (quizId: string) => void;
+  onToggleStatus?: (quiz: PlayerQuiz) => Promise<void>; // Modified: Pass entire quiz object
+  onExport?: (quizId: string, format: ExportFormat) => void; // Only for full quizzes: exports include the answer key
+  onEdit?: (quizId: string) => void; // Shown to the quiz's creator to open the editor
   isSoftDeleted?: boolean; // NEW: Indicates if the quiz's status is 'deleted'
   updateLoading?: boolean; // NEW: To show loading state on specific buttons
+  isSelected?: boolean;
+  onToggleSelect?: (quizId: string) => void; // Shows a checkbox for picking quizzes for bulk actions
 }
 
 const QuizCard: React.FC<QuizCardProps> = ({
@@ -26,8 +32,11 @@ const QuizCard: React.FC<QuizCardProps> = ({
   onToggleVisibility,
   onToggleStatus,
   onExport,
+  onEdit,
   isSoftDeleted = false, // Default to false if not provided
   updateLoading = false, // Default to false if not provided
+  isSelected = false,
+  onToggleSelect,
 }) => {
   const navigate = useNavigate();
 
@@ -63,6 +72,17 @@ const QuizCard: React.FC<QuizCardProps> = ({
     }
   };
 
+  // Timed quizzes show their limit, untimed ones an estimate
+  const getTimeLabel = () => {
+    if (quiz.totalTimeLimitSeconds) {
+      return `${Math.ceil(quiz.totalTimeLimitSeconds / 60)} min limit`;
+    }
+    if (quiz.timePerQuestionSeconds) {
+      return `${quiz.timePerQuestionSeconds}s per question`;
+    }
+    return `~${Math.round(quiz.questions.length * 0.5)} min`;
+  };
+
   // Determine badge color for status
   const statusBadgeColor = isSoftDeleted ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700';
 
@@ -80,14 +100,28 @@ const QuizCard: React.FC<QuizCardProps> = ({
           </span>
         </div>
         <div className="absolute top-2 left-2 flex space-x-1">
-          {/* Conditional Export Button */}
+          {onToggleSelect && (
+            <label className="bg-white/90 p-1 rounded-full shadow-md flex items-center" onClick={(e) => e.stopPropagation()}>
+              <input
+                type="checkbox"
+                checked={isSelected}
+                onChange={() => onToggleSelect(quiz.id)}
+                className="h-4 w-4 text-sky-600"
+                aria-label={`Select ${quiz.title}`}
+              />
+            </label>
+          )}
+          {/* Conditional Export Menu */}
           {onExport && (
+            <ExportMenu onExport={(format) => onExport(quiz.id, format)} />
+          )}
+          {onEdit && (
             <button
-              onClick={(e) => handleButtonClick(e, () => onExport(quiz.id))}
+              onClick={(e) => handleButtonClick(e, () => onEdit(quiz.id))}
               className="bg-sky-600 hover:bg-sky-700 text-white p-1 rounded-full shadow-md transition-colors duration-200"
-              title="Export Quiz"
+              title="Edit Quiz"
             >
-              <Download className="h-4 w-4" />
+              <Pencil className="h-4 w-4" />
             </button>
           )}
         </div>
@@ -117,10 +151,14 @@ const QuizCard: React.FC<QuizCardProps> = ({
 
           <div className="flex items-center text-slate-600">
             <Clock className="h-4 w-4 mr-1" />
-            <span>~{Math.round(quiz.questions.length * 0.5)} min</span>
+            <span>{getTimeLabel()}</span>
           </div>
         </div>
 
+        <div className="text-sm text-slate-500 mb-2">
+            Type: <span className="font-medium text-slate-700">{QUIZ_TYPE_LABELS[quiz.quizType] || quiz.quizType}</span>
+        </div>
+
         {/* Display Visibility and Status */}
         <div className="text-sm text-slate-500 mb-2">
             Visibility: <span className="font-medium text-slate-700 capitalize">{quiz.visibility}</span>
@@ -2,7 +2,8 @@
 import React, { useState } from 'react';
 import { Filter, ChevronDown, X } from 'lucide-react';
 import Button from '../ui/Button';
-import { QuizFilter as QuizFilterType } from '../../types';
+import { QuizFilter as QuizFilterType, QuizType } from '../../types';
+import { QUIZ_TYPE_LABELS } from '../../utils/quizHelpers';
 
 interface QuizFilterProps {
   onFilterChange: (filter: QuizFilterType) => void;
@@ -28,6 +29,8 @@ const events = [
 
 const difficulties = ['All Difficulties', 'easy', 'medium', 'hard'];
 
+const quizTypes = Object.keys(QUIZ_TYPE_LABELS) as QuizType[];
+
 const QuizFilter: React.FC<QuizFilterProps> = ({ onFilterChange, hideVisibilityFilter, hideCreatedByFilter }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [filter, setFilter] = useState<QuizFilterType>({});
@@ -44,6 +47,8 @@ const QuizFilter: React.FC<QuizFilterProps> = ({ onFilterChange, hideVisibilityF
       // ⭐ Refined type handling for specific keys ⭐
       if (key === 'difficulty') {
         updatedFilter[key] = value as 'easy' | 'medium' | 'hard';
+      } else if (key === 'quizType') {
+        updatedFilter[key] = value as QuizType;
       } else if (key === 'visibility') {
         // This 'if' block would only be relevant if 'visibility' filter was exposed
         updatedFilter[key] = value as 'global' | 'private';
@@ -178,6 +183,24 @@ const QuizFilter: React.FC<QuizFilterProps> = ({ onFilterChange, hideVisibilityF
               </select>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                Question Type
+              </label>
+              <select
+                className="w-full rounded-md border border-slate-300 shadow-sm focus:border-sky-500 focus:ring-sky-500 sm:text-sm"
+                value={filter.quizType || 'All Types'}
+                onChange={(e) => handleFilterChange('quizType', e.target.value)}
+              >
+                <option value="All Types">All Types</option>
+                {quizTypes.map((type) => (
+                  <option key={type} value={type}>
+                    {QUIZ_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             {/* These filters are hidden by default for GenerateQuizPage based on props,
                 but included for future potential reuse in other contexts if desired. */}
             {!hideVisibilityFilter && (
@@ -1,30 +1,43 @@
 // src/components/quiz/QuizPlayer.tsx
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { AlertCircle } from 'lucide-react'; // Re-import for potential internal errors
+import toast from 'react-hot-toast';
+import { AlertCircle, ArrowLeft, ArrowRight, ClipboardList, Loader2, Timer } from 'lucide-react'; // Re-import for potential internal errors
 import QuizQuestion from './QuizQuestion'; // Relative import for component in same directory
 import QuizResult from './QuizResult'; // Relative import for component in same directory
+import ExamQuestion from './ExamQuestion';
+import ExamReview from './ExamReview';
 import Button from '../ui/Button'; // Relative import for UI component
 import { useQuizStore } from '../../store/quizStore'; // Relative import for store
 import { useAuthStore } from '../../store/authStore'; // Relative import for store
-import { Quiz, QuizAttempt, QuizQuestion as QuizQuestionType } from '../../types'; // Import QuizQuestion as QuizQuestionType to avoid naming conflict
-import { submitQuizCallable } from '../../firebase/functions'; // Import callable function
+import { useProgressStore } from '../../store/progressStore';
+import { PlayerQuiz, PlayerQuizQuestion, QuizAttempt, QuizMode, QuizSessionInfo, ResumableQuiz, QuizQuestion as QuizQuestionType } from '../../types'; // Import QuizQuestion as QuizQuestionType to avoid naming conflict
+import { submitQuizCallable, startQuizSessionCallable, lockExamAnswerCallable } from '../../firebase/functions'; // Import callable functions
+import { applyOptionOrder } from '../../utils/quizHelpers';
 import { Timestamp } from 'firebase/firestore'; // Import Timestamp
 
 // Define types for data exchanged with the backend (copied from QuizPage.tsx)
 interface BackendSubmitResponse {
   message: string;
+  mode: QuizMode;
   score: {
-    correct: number;
+    correct: number; // Includes partial credit, so it can be fractional
     incorrect: number;
     total: number;
   };
+  points: number; // Credit-weighted points plus speed bonus
   attemptId: string;
   reviewDetails: {
     questionId: string;
     selectedOption: string;
     correctOption: string; // This is 'A', 'B', 'True', 'False'
     isCorrect: boolean;
+    credit: number;
+    timeSpentSeconds: number | null;
+    points: number;
+    optionOrder: string[] | null;
+    explanation: string | null;
+    source: string | null;
   }[];
   timeSpentSeconds: number;
 }
@@ -35,63 +48,161 @@ interface UserSelectedAnswerForBackend {
 }
 
 interface QuizPlayerProps {
-  quizData: Quiz; // The full quiz object fetched from the store
+  quizData: PlayerQuiz; // The answer-free quiz object fetched from the store (a full Quiz works too)
+  mode: QuizMode; // Chosen on the quiz page before starting
+  questionIds?: string[]; // Play only these questions (retaking the ones missed in an earlier attempt)
+  resume?: ResumableQuiz | null; // A saved run to continue instead of opening a new session
+  challengeId?: string; // Play an accepted head-to-head challenge: its questions, orders and time limits
+  tournamentMatch?: { tournamentId: string; matchId: string }; // Play the user's match in a tournament round
+  teamMatchId?: string; // Play the user's run for their side in a team match
+  assignment?: { groupId: string; assignmentId: string }; // Play an attempt at one of the user's group assignments
 }
 
-const QuizPlayer: React.FC<QuizPlayerProps> = ({ quizData }) => {
+const QuizPlayer: React.FC<QuizPlayerProps> = ({ quizData, mode, questionIds, resume, challengeId, tournamentMatch, teamMatchId, assignment }) => {
   const navigate = useNavigate(); // Used for navigation after completion
   const { user } = useAuthStore(); // Get user for submission
-  // const { saveQuizAttempt } = useQuizStore(); // No longer needed directly here, as submitQuizCallable handles saving
+  const { saveProgress, clearProgress } = useProgressStore();
 
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [answers, setAnswers] = useState<UserSelectedAnswerForBackend[]>([]);
+  const [answers, setAnswers] = useState<UserSelectedAnswerForBackend[]>([]); // Practice: one per finished question
+  const [examAnswers, setExamAnswers] = useState<Record<string, string>>({}); // Exam: latest answer per question id
+  const [reviewingExam, setReviewingExam] = useState(false); // Exam: the review-and-submit screen is open
+  const [lockingAnswer, setLockingAnswer] = useState(false); // Exam with a per-question limit: lockExamAnswer is running
+  const [submitting, setSubmitting] = useState(false);
   const [quizCompleted, setQuizCompleted] = useState(false);
-  const [quizStartTime, setQuizStartTime] = useState(Date.now());
   const [quizAttempt, setQuizAttempt] = useState<QuizAttempt | null>(null);
   const [submitError, setSubmitError] = useState<string | null>(null); // State for submission error
+  const [session, setSession] = useState<QuizSessionInfo | null>(null);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [sessionRequest, setSessionRequest] = useState(0); // Bumped to open a fresh session (retake)
+  const [overallDeadline, setOverallDeadline] = useState<number | null>(null); // Local clock, timed quizzes only
+  const [overallSecondsLeft, setOverallSecondsLeft] = useState<number | null>(null);
+  // Exam with a per-question limit, resumed: what was left of the countdown of the question it resumed on
+  const [resumedQuestionClock, setResumedQuestionClock] = useState<{ questionId: string; secondsLeft: number } | null>(null);
+  const submittingRef = useRef(false); // Guards against the last answer and the overall timer both submitting
 
-  // Reset quiz state when quizData changes (e.g., if playing a new quiz)
+  // Reset quiz state and open a new server-side session when quizData changes (e.g., if playing a new quiz)
   useEffect(() => {
+    let cancelled = false;
     setCurrentQuestionIndex(0);
     setAnswers([]);
+    setExamAnswers({});
+    setReviewingExam(false);
+    setLockingAnswer(false);
+    setSubmitting(false);
     setQuizCompleted(false);
     setQuizAttempt(null);
-    setQuizStartTime(Date.now());
     setSubmitError(null);
-  }, [quizData]);
+    setSession(null);
+    setSessionError(null);
+    setOverallDeadline(null);
+    setOverallSecondsLeft(null);
+    setResumedQuestionClock(null);
+    submittingRef.current = false;
 
-  const handleAnswer = useCallback((selectedOption: string) => {
-    if (!quizData) return;
+    // ⭐ Resuming keeps the original session, so its start time and remaining time are unchanged ⭐
+    // (a retake always opens a new session)
+    if (resume && sessionRequest === 0) {
+      setSession(resume.session);
+      setCurrentQuestionIndex(resume.progress.currentQuestionIndex);
+      setAnswers(resume.progress.answers);
+      setExamAnswers(resume.progress.examAnswers);
+      if (resume.session.totalTimeLimitSeconds) {
+        setOverallDeadline(resume.session.startedAt + resume.session.totalTimeLimitSeconds * 1000);
+      }
+      // With a per-question limit the server's answer log says where the run is: the first question without a
+      // locked-in answer, whose countdown started when the previous answer was logged (or the session started)
+      const { questionOrder, answeredAt, timePerQuestionSeconds } = resume.session;
+      if (resume.session.mode === 'exam' && timePerQuestionSeconds) {
+        const nextIndex = questionOrder.findIndex(questionId => answeredAt[questionId] === undefined);
+        if (nextIndex === -1) {
+          setCurrentQuestionIndex(questionOrder.length - 1);
+          setReviewingExam(true);
+        } else {
+          const clockStart = nextIndex === 0 ? resume.session.startedAt : answeredAt[questionOrder[nextIndex - 1]];
+          setCurrentQuestionIndex(nextIndex);
+          setResumedQuestionClock({
+            questionId: questionOrder[nextIndex],
+            secondsLeft: Math.max(0, Math.ceil((clockStart + timePerQuestionSeconds * 1000 - Date.now()) / 1000)),
+          });
+        }
+      }
+      return;
+    }
 
-    const question = quizData.questions[currentQuestionIndex];
+    // A challenge, tournament match, team match or assignment attempt gets exactly one run; a retake afterwards is an ordinary session
+    const isFirstRun = sessionRequest === 0;
+    startQuizSessionCallable({
+      quizId: quizData.id,
+      mode,
+      questionIds,
+      challengeId: isFirstRun ? challengeId : undefined,
+      tournamentId: isFirstRun ? tournamentMatch?.tournamentId : undefined,
+      tournamentMatchId: isFirstRun ? tournamentMatch?.matchId : undefined,
+      teamMatchId: isFirstRun ? teamMatchId : undefined,
+      groupId: isFirstRun ? assignment?.groupId : undefined,
+      assignmentId: isFirstRun ? assignment?.assignmentId : undefined,
+    })
+      .then((result) => {
+        if (cancelled) return;
+        setSession(result.data);
+        // Only exams are timed. The overall countdown runs on the local clock from the moment the session is ready;
+        // the server enforces the same limit (plus a grace period) through the session expiry
+        if (result.data.totalTimeLimitSeconds) {
+          setOverallDeadline(Date.now() + result.data.totalTimeLimitSeconds * 1000);
+        }
+      })
+      .catch((err: unknown) => {
+        console.error('Error starting quiz session:', err);
+        if (!cancelled) setSessionError(err instanceof Error ? err.message : 'Failed to start the quiz.');
+      });
 
-    const updatedAnswers: UserSelectedAnswerForBackend[] = [...answers, {
-      questionId: question.id,
-      selectedOption: selectedOption,
-    }];
-    setAnswers(updatedAnswers);
+    return () => {
+      cancelled = true;
+    };
+  }, [quizData, mode, questionIds, resume, challengeId, tournamentMatch, teamMatchId, assignment, sessionRequest]);
 
-    if (currentQuestionIndex < quizData.questions.length - 1) {
-      setCurrentQuestionIndex(prevIndex => prevIndex + 1);
-    } else {
-      // Last question answered, complete the quiz
-      completeQuiz(updatedAnswers);
-    }
-  }, [answers, currentQuestionIndex, quizData]);
+  // Every step of the run is saved, so a reload or a dropped connection can resume it (see QuizPage)
+  useEffect(() => {
+    if (!session || !user || quizCompleted) return;
+    saveProgress({
+      userId: user.id,
+      quizId: quizData.id,
+      sessionId: session.sessionId,
+      mode: session.mode,
+      questionIds: questionIds || null,
+      currentQuestionIndex,
+      answers,
+      examAnswers,
+      updatedAt: Date.now(),
+    });
+  }, [session, user, quizCompleted, quizData.id, questionIds, currentQuestionIndex, answers, examAnswers, saveProgress]);
+
+  // Questions in the order fixed by the session, with their options in the session's order;
+  // answers are sent in the letters shown and mapped back by the server
+  const orderedQuestions = useMemo(() => {
+    if (!session) return [];
+    return session.questionOrder
+      .map(questionId => quizData.questions.find(q => q.id === questionId))
+      .filter((question): question is PlayerQuizQuestion => question !== undefined)
+      .map(question => applyOptionOrder(question, session.optionOrder?.[question.id]));
+  }, [session, quizData]);
 
   const completeQuiz = useCallback(async (finalAnswers: UserSelectedAnswerForBackend[]) => {
-    if (!quizData || !user) {
-      console.warn("Attempted to complete quiz without quizData or user data.");
+    if (!quizData || !user || !session) {
+      console.warn("Attempted to complete quiz without quizData, user or session data.");
       setSubmitError("Authentication or quiz data missing for submission.");
       return;
     }
+    if (submittingRef.current) return;
+    submittingRef.current = true;
 
+    setSubmitting(true);
     setSubmitError(null); // Clear previous errors
     try {
       const result = await submitQuizCallable({
-        quizId: quizData.id,
+        sessionId: session.sessionId,
         userAnswers: finalAnswers,
-        quizStartTime: quizStartTime,
       });
 
       const responseData = result.data as BackendSubmitResponse;
@@ -102,13 +213,21 @@ const QuizPlayer: React.FC<QuizPlayerProps> = ({ quizData }) => {
         id: responseData.attemptId,
         quizId: quizData.id,
         userId: user.id,
+        mode: responseData.mode,
         score: responseData.score.correct,
+        points: responseData.points,
         totalQuestions: responseData.score.total,
         answers: responseData.reviewDetails.map(detail => ({
           questionId: detail.questionId,
           userAnswer: detail.selectedOption,
           correctAnswer: detail.correctOption,
           isCorrect: detail.isCorrect,
+          credit: detail.credit,
+          timeSpentSeconds: detail.timeSpentSeconds,
+          points: detail.points,
+          ...(detail.optionOrder ? { optionOrder: detail.optionOrder } : {}),
+          ...(detail.explanation ? { explanation: detail.explanation } : {}),
+          ...(detail.source ? { source: detail.source } : {}),
         })),
         completedAt: Timestamp.now(), // Use client-side timestamp for consistency
         timeSpent: responseData.timeSpentSeconds,
@@ -116,27 +235,117 @@ const QuizPlayer: React.FC<QuizPlayerProps> = ({ quizData }) => {
 
       setQuizAttempt(newQuizAttempt);
       setQuizCompleted(true);
+      clearProgress(user.id, quizData.id);
     } catch (err: any) {
       const errorMessage = err.message || 'Failed to submit quiz. Please try again.';
       setSubmitError(errorMessage);
       console.error('Error submitting quiz:', err);
+    } finally {
+      setSubmitting(false);
     }
-  }, [quizData, user, quizStartTime]);
+  }, [quizData, user, session, clearProgress]);
+
+  // Exam answers in the order played; questions without a saved answer are sent as unanswered
+  const getExamSubmission = useCallback((): UserSelectedAnswerForBackend[] =>
+    orderedQuestions.map(question => ({ questionId: question.id, selectedOption: examAnswers[question.id] || '' })),
+  [orderedQuestions, examAnswers]);
+
+  const handleExamAnswer = useCallback((selectedOption: string) => {
+    const question = orderedQuestions[currentQuestionIndex];
+    if (!question) return;
+    setExamAnswers(prev => ({ ...prev, [question.id]: selectedOption }));
+  }, [orderedQuestions, currentQuestionIndex]);
+
+  const goToExamQuestion = useCallback((index: number) => {
+    setReviewingExam(false);
+    setCurrentQuestionIndex(index);
+  }, []);
+
+  // Exams with a per-question limit go forward only: leaving a question (or running out of time on it) locks in the
+  // answer saved so far, and the server times it. A failed lock keeps the player on the question to try again.
+  const lockExamAnswer = useCallback(async () => {
+    const question = orderedQuestions[currentQuestionIndex];
+    if (!session || !question || lockingAnswer) return;
+    const selectedOption = examAnswers[question.id] || '';
+
+    setLockingAnswer(true);
+    try {
+      await lockExamAnswerCallable({ sessionId: session.sessionId, questionId: question.id, selectedOption });
+      setExamAnswers(prev => ({ ...prev, [question.id]: selectedOption }));
+      if (currentQuestionIndex < orderedQuestions.length - 1) {
+        setCurrentQuestionIndex(prevIndex => prevIndex + 1);
+      } else {
+        setReviewingExam(true);
+      }
+    } catch (err: unknown) {
+      console.error('Error locking in the answer:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not save your answer. Please try again.');
+    } finally {
+      setLockingAnswer(false);
+    }
+  }, [session, orderedQuestions, currentQuestionIndex, examAnswers, lockingAnswer]);
+
+  const handleAnswer = useCallback((selectedOption: string) => {
+    const question = orderedQuestions[currentQuestionIndex];
+    if (!question) return;
+
+    const updatedAnswers: UserSelectedAnswerForBackend[] = [...answers, {
+      questionId: question.id,
+      selectedOption: selectedOption,
+    }];
+    setAnswers(updatedAnswers);
+
+    if (currentQuestionIndex < orderedQuestions.length - 1) {
+      setCurrentQuestionIndex(prevIndex => prevIndex + 1);
+    } else {
+      // Last question answered, complete the quiz
+      completeQuiz(updatedAnswers);
+    }
+  }, [answers, currentQuestionIndex, orderedQuestions, completeQuiz]);
+
+  // Overall countdown for quizzes with a total time limit
+  useEffect(() => {
+    if (!overallDeadline) return;
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((overallDeadline - Date.now()) / 1000));
+      setOverallSecondsLeft(remaining);
+      return remaining;
+    };
+    tick();
+    const intervalId = setInterval(() => {
+      if (tick() === 0) clearInterval(intervalId);
+    }, 500);
+
+    return () => clearInterval(intervalId);
+  }, [overallDeadline]);
+
+  // Time is up (exams only): submit what was answered; questions without an answer count as unanswered
+  useEffect(() => {
+    if (overallSecondsLeft !== 0 || quizCompleted) return;
+    completeQuiz(getExamSubmission());
+  }, [overallSecondsLeft, quizCompleted, getExamSubmission, completeQuiz]);
+
+  const formatCountdown = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  };
 
   const handleRetake = useCallback(() => {
-    setQuizCompleted(false);
-    setCurrentQuestionIndex(0);
-    setAnswers([]);
-    setQuizAttempt(null);
-    setQuizStartTime(Date.now()); // Reset timer for retake
-    setSubmitError(null);
+    // A retake is a new session, so the server restarts the clock
+    setSessionRequest(prev => prev + 1);
   }, []);
 
   const handleViewQuizzes = useCallback(() => {
     navigate('/quizzes');
   }, [navigate]);
 
-  const currentQuestion = quizData.questions[currentQuestionIndex];
+  const currentQuestion = orderedQuestions[currentQuestionIndex];
+  const hasQuestionClock = session?.mode === 'exam' && !!session.timePerQuestionSeconds;
+  const questionSecondsLeft = currentQuestion && resumedQuestionClock?.questionId === currentQuestion.id
+    ? resumedQuestionClock.secondsLeft
+    : session?.timePerQuestionSeconds ?? null;
 
   // Render logic for QuizPlayer
   if (quizCompleted && quizAttempt) {
@@ -147,6 +356,10 @@ const QuizPlayer: React.FC<QuizPlayerProps> = ({ quizData }) => {
         onRetake={handleRetake}
         onViewQuizzes={handleViewQuizzes}
         quizQuestions={quizData.questions} // Pass the full questions array for review
+        challengeId={sessionRequest === 0 ? challengeId : undefined}
+        tournamentId={sessionRequest === 0 ? tournamentMatch?.tournamentId : undefined}
+        teamMatchId={sessionRequest === 0 ? teamMatchId : undefined}
+        groupId={sessionRequest === 0 ? assignment?.groupId : undefined}
       />
     );
   }
@@ -168,15 +381,97 @@ const QuizPlayer: React.FC<QuizPlayerProps> = ({ quizData }) => {
     );
   }
 
+  if (sessionError) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-red-500">
+        <AlertCircle size={48} className="mb-4" />
+        <h2 className="text-xl font-semibold">Could Not Start Quiz</h2>
+        <p className="text-lg">{sessionError}</p>
+        <Button onClick={handleRetake} className="mt-4">
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  if (!session || !currentQuestion) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-sky-500" />
+        <p className="ml-3 text-lg text-slate-600">Preparing your quiz...</p>
+      </div>
+    );
+  }
+
   return (
     <div className="bg-white p-6 rounded-lg shadow-md max-w-2xl mx-auto">
       <h2 className="text-2xl font-bold text-center mb-6">{quizData.title}</h2>
-      <QuizQuestion
-        question={currentQuestion}
-        onAnswer={handleAnswer}
-        questionNumber={currentQuestionIndex + 1}
-        totalQuestions={quizData.questions.length}
-      />
+      {overallSecondsLeft !== null && (
+        <div className={`flex items-center justify-center mb-4 font-semibold ${overallSecondsLeft <= 30 ? 'text-red-600' : 'text-slate-600'}`}>
+          <Timer className="h-5 w-5 mr-2" />
+          <span>Time left: {formatCountdown(overallSecondsLeft)}</span>
+        </div>
+      )}
+      {session.mode === 'practice' ? (
+        <QuizQuestion
+          key={session.sessionId} // Fresh question state for every session (e.g. after a retake)
+          quizId={quizData.id}
+          sessionId={session.sessionId}
+          question={currentQuestion}
+          onAnswer={handleAnswer}
+          questionNumber={currentQuestionIndex + 1}
+          totalQuestions={orderedQuestions.length}
+        />
+      ) : reviewingExam ? (
+        <ExamReview
+          questions={orderedQuestions}
+          answers={examAnswers}
+          onEdit={hasQuestionClock ? undefined : goToExamQuestion}
+          onSubmit={() => completeQuiz(getExamSubmission())}
+          submitting={submitting}
+        />
+      ) : (
+        <>
+          <ExamQuestion
+            key={`${session.sessionId}-${currentQuestion.id}`}
+            question={currentQuestion}
+            savedAnswer={examAnswers[currentQuestion.id]}
+            onAnswer={handleExamAnswer}
+            questionNumber={currentQuestionIndex + 1}
+            totalQuestions={orderedQuestions.length}
+            timeLimitSeconds={hasQuestionClock ? questionSecondsLeft : null}
+            onTimeUp={hasQuestionClock ? lockExamAnswer : undefined}
+            locked={lockingAnswer}
+          />
+          <div className="flex justify-between gap-2">
+            <Button
+              variant="outline"
+              onClick={() => goToExamQuestion(currentQuestionIndex - 1)}
+              disabled={currentQuestionIndex === 0 || hasQuestionClock}
+              leftIcon={<ArrowLeft className="h-4 w-4" />}
+            >
+              Previous
+            </Button>
+            {currentQuestionIndex < orderedQuestions.length - 1 ? (
+              <Button
+                onClick={() => (hasQuestionClock ? lockExamAnswer() : goToExamQuestion(currentQuestionIndex + 1))}
+                isLoading={lockingAnswer}
+                rightIcon={<ArrowRight className="h-4 w-4" />}
+              >
+                Next
+              </Button>
+            ) : (
+              <Button
+                onClick={() => (hasQuestionClock ? lockExamAnswer() : setReviewingExam(true))}
+                isLoading={lockingAnswer}
+                leftIcon={<ClipboardList className="h-4 w-4" />}
+              >
+                Review Answers
+              </Button>
+            )}
+          </div>
+        </>
+      )}
     </div>
   );
 };
@@ -1,51 +1,107 @@
 // src/components/quiz/QuizQuestion.tsx
-import React, { useState } from 'react';
-import { CheckCircle, XCircle } from 'lucide-react';
-import { QuizQuestion as QuizQuestionType } from '../../types'; // Ensure correct import
+import React, { useState, useCallback } from 'react';
+import { AlertCircle, ArrowRight, CheckCircle, Eye, Lightbulb, RotateCcw, XCircle } from 'lucide-react';
+import { PlayerQuizQuestion } from '../../types'; // Answer-free question from the player view
 import Button from '../ui/Button'; // Assuming Button is a common UI component
+import { checkAnswerCallable } from '../../firebase/functions';
+import { QUESTION_TYPE_LABELS } from '../../utils/quizHelpers';
+import MultiSelectAnswer from './MultiSelectAnswer';
+import OrderingAnswer from './OrderingAnswer';
+import TypedAnswer from './TypedAnswer';
+
+interface AnswerFeedback {
+  isCorrect: boolean;
+  credit?: number; // 0 to 1; between the two for partly correct answers
+  correctOption: string | null; // Full option text as displayed, e.g. "A. Uruguay"; null until right or revealed
+  explanation?: string | null;
+  source?: string | null;
+}
 
 interface QuizQuestionProps {
-  question: QuizQuestionType;
+  quizId: string;
+  sessionId: string; // The practice session checkAnswer answers for; it also logs the answer time
+  question: PlayerQuizQuestion;
   onAnswer: (selectedOption: string) => void;
   questionNumber: number;
   totalQuestions: number;
 }
 
+// Practice mode: every answer is checked straight away. A wrong one can be tried again as often as the player likes;
+// the correct answer and explanation only show once they get it right or ask for it
 const QuizQuestion: React.FC<QuizQuestionProps> = ({
+  quizId,
+  sessionId,
   question,
   onAnswer,
   questionNumber,
   totalQuestions,
 }) => {
   const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
-  const [showFeedback, setShowFeedback] = useState(false);
-
-  const handleAnswerSelect = (answer: string) => {
-    // Prevent re-selection if feedback is already showing
-    if (showFeedback) return;
-
-    setSelectedAnswer(answer); // Store the user's selected answer
-    setShowFeedback(true);     // Trigger feedback display
-
-    // After a delay, call the onAnswer prop to move to the next question
-    // and reset the internal state for the next question.
-    setTimeout(() => {
-      onAnswer(answer); // This tells the parent (QuizPlayer) that an answer was submitted
-      setSelectedAnswer(null); // Reset for the next question
-      setShowFeedback(false);  // Reset for the next question
-    }, 1500); // Display feedback for 1.5 seconds
+  const [feedback, setFeedback] = useState<AnswerFeedback | null>(null);
+  const [tries, setTries] = useState(0); // Bumped by "Try Again" so the answer inputs start over
+  const [revealing, setRevealing] = useState(false); // "Show Answer" is waiting for checkAnswer
+  const showFeedback = feedback !== null;
+  const answerLocked = selectedAnswer !== null; // An answer was picked (feedback may still be loading)
+  // Multiple choice and true/false colour the picked option; the other types show a feedback panel instead
+  const isChoiceQuestion = question.type === 'multiple_choice' || question.type === 'true_false';
+  const isLastQuestion = questionNumber === totalQuestions;
+
+  const handleAnswerSelect = useCallback(async (answer: string) => {
+    // Prevent re-selection while an answer is being checked or its feedback is shown
+    if (answerLocked) return;
+    setSelectedAnswer(answer);
+
+    // ⭐ The answer key lives on the server: ask checkAnswer whether this pick was right ⭐
+    try {
+      const result = await checkAnswerCallable({ quizId, questionId: question.id, selectedOption: answer, sessionId });
+      setFeedback(result.data); // Stays up until the player tries again or moves on
+    } catch (err) {
+      // Feedback is a nicety; the answer is still scored by submitQuiz
+      console.error('Error checking answer:', err);
+      onAnswer(answer);
+      setSelectedAnswer(null);
+    }
+  }, [answerLocked, quizId, question.id, sessionId, onAnswer]);
+
+  // Gives up on the question: the same answer is checked again, this time with the correct option named
+  const handleShowAnswer = async () => {
+    if (selectedAnswer === null) return;
+    setRevealing(true);
+    try {
+      const result = await checkAnswerCallable({ quizId, questionId: question.id, selectedOption: selectedAnswer, sessionId, reveal: true });
+      setFeedback(result.data);
+    } catch (err) {
+      console.error('Error revealing the answer:', err);
+    } finally {
+      setRevealing(false);
+    }
+  };
+
+  const handleTryAgain = () => {
+    setSelectedAnswer(null);
+    setFeedback(null);
+    setTries(prev => prev + 1);
+  };
+
+  // The answer the player moves on with is the one that counts
+  const handleNext = () => {
+    if (selectedAnswer === null) return;
+    onAnswer(selectedAnswer);
+    setSelectedAnswer(null);
+    setFeedback(null);
+    setTries(0);
   };
 
   // Determines if the given option is the correct answer
   const isCorrectAnswer = (option: string) => {
     // Only show correct styling if feedback is active AND this option is the correct answer
-    return showFeedback && option === question.correctAnswer;
+    return showFeedback && option === feedback.correctOption;
   };
 
   // Determines if the given option is the selected answer AND it's incorrect
   const isIncorrectAnswer = (option: string) => {
     // Only show incorrect styling if feedback is active AND this option was selected AND it's not the correct answer
-    return showFeedback && selectedAnswer === option && option !== question.correctAnswer;
+    return showFeedback && selectedAnswer === option && !feedback.isCorrect;
   };
 
   return (
@@ -56,7 +112,7 @@ const QuizQuestion: React.FC<QuizQuestionProps> = ({
             Question {questionNumber} of {totalQuestions}
           </span>
           <span className="text-sm font-medium text-slate-500">
-            {question.type === 'multiple_choice' ? 'Multiple Choice' : 'True or False'}
+            {QUESTION_TYPE_LABELS[question.type]}
           </span>
         </div>
         <div className="w-full bg-slate-200 rounded-full h-2">
@@ -79,8 +135,8 @@ const QuizQuestion: React.FC<QuizQuestionProps> = ({
               <button
                 key={index}
                 onClick={() => handleAnswerSelect(option)}
-                // Disable button once an answer is selected and feedback is showing
-                disabled={showFeedback}
+                // Disable button once an answer is selected
+                disabled={answerLocked}
                 className={`w-full text-left p-3 rounded-md border transition-all duration-200 ease-in-out
                   ${selectedAnswer === option && !showFeedback // Style for selected but no feedback yet
                     ? 'border-slate-500 bg-slate-50'
@@ -98,15 +154,30 @@ const QuizQuestion: React.FC<QuizQuestionProps> = ({
               >
                 <div className="flex items-center justify-between">
                   <span>{option}</span>
-                  {showFeedback && option === question.correctAnswer && ( // Show check for correct answer
+                  {isCorrectAnswer(option) && ( // Show check for correct answer
                     <CheckCircle className="h-5 w-5 text-green-500" />
                   )}
-                  {showFeedback && selectedAnswer === option && option !== question.correctAnswer && ( // Show X for incorrect selected answer
+                  {isIncorrectAnswer(option) && ( // Show X for incorrect selected answer
                     <XCircle className="h-5 w-5 text-red-500" />
                   )}
                 </div>
               </button>
             ))
+          ) : question.type === 'multi_select' ? (
+            <MultiSelectAnswer key={`${question.id}-${tries}`} options={question.options} disabled={answerLocked} onSubmit={handleAnswerSelect} />
+          ) : question.type === 'ordering' ? (
+            <OrderingAnswer key={`${question.id}-${tries}`} options={question.options} disabled={answerLocked} onSubmit={handleAnswerSelect} />
+          ) : question.type === 'numeric' ? (
+            <TypedAnswer
+              key={`${question.id}-${tries}`}
+              kind="numeric"
+              unit={question.unit}
+              tolerance={question.tolerance}
+              disabled={answerLocked}
+              onSubmit={handleAnswerSelect}
+            />
+          ) : question.type === 'fill_in' ? (
+            <TypedAnswer key={`${question.id}-${tries}`} kind="text" disabled={answerLocked} onSubmit={handleAnswerSelect} />
           ) : (
             // Handles true/false questions
             <div className="flex space-x-4">
@@ -114,7 +185,7 @@ const QuizQuestion: React.FC<QuizQuestionProps> = ({
                 <Button
                   key={index}
                   onClick={() => handleAnswerSelect(option)}
-                  disabled={showFeedback} // Disable button once an answer is selected and feedback is showing
+                  disabled={answerLocked} // Disable button once an answer is selected
                   // Conditional variant/className to ensure feedback colors take precedence
                   variant={
                     showFeedback && !isCorrectAnswer(option) && !isIncorrectAnswer(option)
@@ -136,10 +207,10 @@ const QuizQuestion: React.FC<QuizQuestionProps> = ({
                 >
                   <div className="flex items-center justify-center">
                     <span>{option}</span>
-                    {showFeedback && option === question.correctAnswer && ( // Show check for correct answer
+                    {isCorrectAnswer(option) && ( // Show check for correct answer
                       <CheckCircle className="h-5 w-5 ml-2" />
                     )}
-                    {showFeedback && selectedAnswer === option && option !== question.correctAnswer && ( // Show X for incorrect selected answer
+                    {isIncorrectAnswer(option) && ( // Show X for incorrect selected answer
                       <XCircle className="h-5 w-5 ml-2" />
                     )}
                   </div>
@@ -148,6 +219,59 @@ const QuizQuestion: React.FC<QuizQuestionProps> = ({
             </div>
           )}
         </div>
+
+        {showFeedback && !isChoiceQuestion && (
+          <div
+            className={`mt-4 p-3 rounded-md border text-sm ${
+              feedback.isCorrect
+                ? 'bg-green-50 border-green-300 text-green-800'
+                : feedback.credit
+                ? 'bg-yellow-50 border-yellow-300 text-yellow-800'
+                : 'bg-red-50 border-red-300 text-red-800'
+            }`}
+          >
+            <p className="flex items-center font-semibold">
+              {feedback.isCorrect ? (
+                <><CheckCircle className="h-5 w-5 mr-2" /> Correct!</>
+              ) : feedback.credit ? (
+                <><AlertCircle className="h-5 w-5 mr-2" /> Partly correct ({Math.round(feedback.credit * 100)}% credit)</>
+              ) : (
+                <><XCircle className="h-5 w-5 mr-2" /> Incorrect</>
+              )}
+            </p>
+            {!feedback.isCorrect && feedback.correctOption && <p className="mt-1">Correct answer: {feedback.correctOption}</p>}
+          </div>
+        )}
+
+        {showFeedback && (feedback.explanation || feedback.source) && (
+          <div className="mt-4 p-3 rounded-md bg-slate-50 border border-slate-200 text-sm text-slate-700">
+            {feedback.explanation && (
+              <p className="flex items-start">
+                <Lightbulb className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0 text-yellow-500" />
+                <span>{feedback.explanation}</span>
+              </p>
+            )}
+            {feedback.source && <p className="text-xs text-slate-500 mt-1 break-words">Source: {feedback.source}</p>}
+          </div>
+        )}
+
+        {showFeedback && (
+          <div className="flex flex-col sm:flex-row gap-2 mt-6">
+            {!feedback.isCorrect && feedback.correctOption === null && (
+              <>
+                <Button variant="outline" onClick={handleTryAgain} disabled={revealing} leftIcon={<RotateCcw className="h-4 w-4" />} fullWidth>
+                  Try Again
+                </Button>
+                <Button variant="outline" onClick={handleShowAnswer} isLoading={revealing} leftIcon={<Eye className="h-4 w-4" />} fullWidth>
+                  Show Answer
+                </Button>
+              </>
+            )}
+            <Button onClick={handleNext} rightIcon={<ArrowRight className="h-4 w-4" />} fullWidth>
+              {isLastQuestion ? 'Finish Quiz' : 'Next Question'}
+            </Button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,17 +1,25 @@
 // src/components/quiz/QuizResult.tsx
-import React from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Trophy, Clock, BadgeCheck, BarChart4 } from 'lucide-react';
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Trophy, Clock, BadgeCheck, BarChart4, Zap, Swords, Copy, Shield, ClipboardList } from 'lucide-react';
 import Button from '../ui/Button';
-import { QuizAttempt, QuizQuestion, QuizConfig } from '../../types'; // Import QuizConfig
+import AnswerReview from './AnswerReview';
+import { QuizAttempt, PlayerQuizQuestion, QuizConfig } from '../../types'; // Import QuizConfig
 import toast from 'react-hot-toast'; // ⭐ FIXED: Imported toast
+import { useChallengeStore } from '../../store/challengeStore';
+import { getChallengeLink } from '../../utils/challenges';
+import { REVIEW_QUIZ_ID } from '../../utils/review';
 
 interface QuizResultProps {
   quizAttempt: QuizAttempt;
   quizTitle: string;
   onRetake: () => void;
   onViewQuizzes: () => void;
-  quizQuestions: QuizQuestion[]; // Array of original quiz questions
+  quizQuestions: PlayerQuizQuestion[]; // Array of original quiz questions (answer keys come from quizAttempt)
+  challengeId?: string; // Set when this attempt answered a head-to-head challenge
+  tournamentId?: string; // Set when this attempt was a tournament match
+  teamMatchId?: string; // Set when this attempt was a run in a team match
+  groupId?: string; // Set when this attempt was at a group assignment
 }
 
 const QuizResult: React.FC<QuizResultProps> = ({
@@ -20,8 +28,15 @@ const QuizResult: React.FC<QuizResultProps> = ({
   onRetake,
   onViewQuizzes,
   quizQuestions,
+  challengeId,
+  tournamentId,
+  teamMatchId,
+  groupId,
 }) => {
   const navigate = useNavigate();
+  const { createChallenge } = useChallengeStore();
+  const [sentChallengeId, setSentChallengeId] = useState<string | null>(null);
+  const [creatingChallenge, setCreatingChallenge] = useState(false);
 
   const percentage = Math.round((quizAttempt.score / quizAttempt.totalQuestions) * 100);
 
@@ -51,29 +66,6 @@ const QuizResult: React.FC<QuizResultProps> = ({
     return `${minutes}m ${remainingSeconds}s`;
   };
 
-  const getFullCorrectAnswerText = (questionId: string, correctOptionValue: string): string => {
-    const question = quizQuestions.find(q => q.id === questionId);
-    if (!question) {
-      return correctOptionValue;
-    }
-
-    if (question.type === 'multiple_choice' && question.options) {
-      const foundOption = question.options.find(option =>
-        option.startsWith(`${correctOptionValue}.`)
-      );
-      return foundOption || correctOptionValue;
-    } else if (question.type === 'true_false') {
-      return correctOptionValue;
-    }
-    return correctOptionValue;
-  };
-
-  const getQuestionText = (questionId: string): string => {
-    const question = quizQuestions.find(q => q.id === questionId);
-    // ⭐ FIXED: 'text' property is now correctly on QuizQuestion in types.ts
-    return question ? question.text : 'Question text not found.';
-  };
-
   const handleGenerateSimilarQuiz = () => {
     let initialQuizConfig: QuizConfig | undefined;
 
@@ -106,6 +98,32 @@ const QuizResult: React.FC<QuizResultProps> = ({
     navigate('/generate-quiz', { state: { initialQuizConfig } });
   };
 
+  // Review sessions mix questions from many quizzes, so there is nothing to replay for a friend
+  const canChallenge = !challengeId && !tournamentId && !teamMatchId && !groupId && quizAttempt.quizId !== REVIEW_QUIZ_ID;
+
+  const handleCreateChallenge = async () => {
+    setCreatingChallenge(true);
+    try {
+      const newChallengeId = await createChallenge(quizAttempt.id);
+      setSentChallengeId(newChallengeId);
+      await handleCopyChallengeLink(newChallengeId);
+    } catch (err: unknown) {
+      console.error('Error creating a challenge:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not create the challenge.');
+    } finally {
+      setCreatingChallenge(false);
+    }
+  };
+
+  const handleCopyChallengeLink = async (id: string) => {
+    try {
+      await navigator.clipboard.writeText(getChallengeLink(id));
+      toast.success('Challenge link copied. Send it to a friend!');
+    } catch {
+      toast.error('Could not copy the link; copy it from the box below.');
+    }
+  };
+
   return (
     <div className="max-w-2xl mx-auto px-4 py-8 sm:px-6 lg:px-8 animate-fadeIn">
       <div className="bg-white shadow-lg rounded-lg overflow-hidden">
@@ -155,6 +173,15 @@ const QuizResult: React.FC<QuizResultProps> = ({
             <p className="text-slate-500 mt-1">
               You scored {quizAttempt.score} out of {quizAttempt.totalQuestions}
             </p>
+            {quizAttempt.mode === 'practice' && (
+              <p className="text-sm text-slate-500 mt-1">Practice run: not counted in your stats or on leaderboards.</p>
+            )}
+            {quizAttempt.points !== undefined && (
+              <p className="flex items-center text-indigo-600 font-semibold mt-1">
+                <Zap className="h-4 w-4 mr-1" />
+                {quizAttempt.points} points
+              </p>
+            )}
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
@@ -178,7 +205,7 @@ const QuizResult: React.FC<QuizResultProps> = ({
               <BarChart4 className="h-6 w-6 text-red-500 mr-3" />
               <div>
                 <p className="text-sm text-slate-500">Incorrect Answers</p>
-                <p className="font-semibold">{quizAttempt.totalQuestions - quizAttempt.score}</p>
+                <p className="font-semibold">{Math.round((quizAttempt.totalQuestions - quizAttempt.score) * 100) / 100}</p>
               </div>
             </div>
           </div>
@@ -186,26 +213,73 @@ const QuizResult: React.FC<QuizResultProps> = ({
           {quizAttempt.answers && quizAttempt.answers.length > 0 && (
             <div className="mt-8 text-left border-t pt-4 border-slate-200">
               <h3 className="text-xl font-semibold mb-4">Review Your Answers:</h3>
-              <div className="space-y-4">
-                {quizAttempt.answers.map((answerDetail, index) => (
-                  <div key={answerDetail.questionId || index} className="p-3 rounded-md bg-slate-50 border border-slate-200">
-                    <p className="font-medium text-slate-800 mb-1">
-                      Question {index + 1}:
-                    </p>
-                    <p className="text-base text-slate-700 mb-2">
-                        {getQuestionText(answerDetail.questionId)}
-                    </p>
-                    <p className={`text-sm ${answerDetail.isCorrect ? 'text-green-600' : 'text-red-600'}`}>
-                      Your Answer: "{answerDetail.userAnswer}" {answerDetail.isCorrect ? ' (Correct)' : ' (Incorrect)'}
-                    </p>
-                    {!answerDetail.isCorrect && (
-                      <p className="text-sm text-slate-700">
-                        Correct Answer: "{getFullCorrectAnswerText(answerDetail.questionId, answerDetail.correctAnswer)}"
-                      </p>
-                    )}
+              <AnswerReview answers={quizAttempt.answers} questions={quizQuestions} />
+            </div>
+          )}
+
+          {challengeId && (
+            <div className="mt-8 p-4 bg-sky-50 rounded-lg text-center">
+              <p className="text-slate-700">Challenge complete! See how you compare, question by question.</p>
+              <Link to={`/challenges/${challengeId}`} className="inline-flex items-center mt-2 font-medium text-sky-600 hover:underline">
+                <Swords className="h-4 w-4 mr-1" />
+                See the comparison
+              </Link>
+            </div>
+          )}
+
+          {tournamentId && (
+            <div className="mt-8 p-4 bg-sky-50 rounded-lg text-center">
+              <p className="text-slate-700">Match played! The bracket moves on once your opponent has played too.</p>
+              <Link to={`/tournaments/${tournamentId}`} className="inline-flex items-center mt-2 font-medium text-sky-600 hover:underline">
+                <Trophy className="h-4 w-4 mr-1" />
+                Back to the tournament
+              </Link>
+            </div>
+          )}
+
+          {teamMatchId && (
+            <div className="mt-8 p-4 bg-sky-50 rounded-lg text-center">
+              <p className="text-slate-700">Your run counts for your team! The match is settled once everyone has played.</p>
+              <Link to={`/team-matches/${teamMatchId}`} className="inline-flex items-center mt-2 font-medium text-sky-600 hover:underline">
+                <Shield className="h-4 w-4 mr-1" />
+                Back to the team match
+              </Link>
+            </div>
+          )}
+
+          {groupId && (
+            <div className="mt-8 p-4 bg-sky-50 rounded-lg text-center">
+              <p className="text-slate-700">Your attempt has been handed in. Your coach can see how you did.</p>
+              <Link to={`/groups/${groupId}`} className="inline-flex items-center mt-2 font-medium text-sky-600 hover:underline">
+                <ClipboardList className="h-4 w-4 mr-1" />
+                Back to your assignments
+              </Link>
+            </div>
+          )}
+
+          {canChallenge && (
+            <div className="mt-8 p-4 bg-slate-50 rounded-lg">
+              {sentChallengeId ? (
+                <>
+                  <p className="text-sm text-slate-600 mb-2">Share this link. Your friend plays the same questions in the same order.</p>
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                    <code className="flex-1 truncate rounded bg-white px-3 py-2 text-sm text-slate-700">{getChallengeLink(sentChallengeId)}</code>
+                    <Button variant="outline" onClick={() => handleCopyChallengeLink(sentChallengeId)} leftIcon={<Copy className="h-4 w-4" />}>
+                      Copy link
+                    </Button>
                   </div>
-                ))}
-              </div>
+                  <Link to={`/challenges/${sentChallengeId}`} className="inline-block mt-2 text-sm text-sky-600 hover:underline">
+                    View the challenge
+                  </Link>
+                </>
+              ) : (
+                <div className="text-center">
+                  <Button variant="outline" onClick={handleCreateChallenge} isLoading={creatingChallenge} leftIcon={<Swords className="h-4 w-4" />}>
+                    Challenge a friend
+                  </Button>
+                  <p className="mt-2 text-xs text-slate-500">Send a link to this exact quiz and compare your answers once they have played.</p>
+                </div>
+              )}
             </div>
           )}
 
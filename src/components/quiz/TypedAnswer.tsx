@@ -0,0 +1,54 @@
+// src/components/quiz/TypedAnswer.tsx
+import React, { useState } from 'react';
+import Button from '../ui/Button';
+
+interface TypedAnswerProps {
+  kind: 'numeric' | 'text';
+  unit?: string; // Numeric questions: shown after the input, e.g. "goals"
+  tolerance?: number; // Numeric questions: told to the player so they know how close they must be
+  disabled: boolean;
+  initialAnswer?: string; // A previously saved answer, e.g. when an exam goes back to the question
+  submitLabel?: string;
+  onSubmit: (answer: string) => void;
+}
+
+// Free input for numeric and fill-in questions; the typed answer is checked on the server
+const TypedAnswer: React.FC<TypedAnswerProps> = ({ kind, unit, tolerance, disabled, initialAnswer, submitLabel = 'Submit Answer', onSubmit }) => {
+  const [value, setValue] = useState(initialAnswer || '');
+  const answer = value.trim();
+  // The server also accepts thousands separators, so only the characters are checked here
+  const isNumberLike = /^[+-]?[\d.,]+$/.test(answer);
+  const canSubmit = answer !== '' && (kind === 'text' || isNumberLike);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSubmit && !disabled) onSubmit(answer);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          inputMode={kind === 'numeric' ? 'decimal' : 'text'}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          disabled={disabled}
+          autoFocus
+          autoComplete="off"
+          placeholder={kind === 'numeric' ? 'Enter a number' : 'Type your answer'}
+          className="flex-1 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-sky-500 focus:border-sky-500"
+        />
+        {unit && <span className="text-slate-600">{unit}</span>}
+      </div>
+      {kind === 'numeric' && tolerance ? (
+        <p className="text-sm text-slate-500">Answers within ±{tolerance} count as correct.</p>
+      ) : null}
+      <Button type="submit" disabled={disabled || !canSubmit} fullWidth>
+        {submitLabel}
+      </Button>
+    </form>
+  );
+};
+
+export default TypedAnswer;
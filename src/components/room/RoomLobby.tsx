@@ -0,0 +1,84 @@
+// src/components/room/RoomLobby.tsx
+import React from 'react';
+import { Copy, Loader2, Play, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Card, { CardContent, CardHeader } from '../ui/Card';
+import Button from '../ui/Button';
+import { Room, RoomPlayer } from '../../types';
+
+interface RoomLobbyProps {
+  room: Room;
+  players: RoomPlayer[];
+  isHost: boolean;
+  advancing: boolean;
+  onStart: () => void;
+}
+
+// Waiting room: the join code to share and who is in; the host starts the game when everyone is there
+const RoomLobby: React.FC<RoomLobbyProps> = ({ room, players, isHost, advancing, onStart }) => {
+  const joinLink = `${window.location.origin}/play/${room.code}`;
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(joinLink);
+      toast.success('Join link copied.');
+    } catch {
+      toast.error('Could not copy the link. Share the code instead.');
+    }
+  };
+
+  return (
+    <Card className="max-w-2xl mx-auto">
+      <CardHeader>
+        <h2 className="text-xl font-bold text-slate-800">{room.quizTitle}</h2>
+        <p className="text-sm text-slate-500">
+          Hosted by {room.hostName} · {room.questionOrder.length} questions · {room.secondsPerQuestion} seconds each
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="text-center mb-6">
+          <p className="text-sm text-slate-500">Players join at {window.location.host}/play with the code</p>
+          <p className="text-4xl font-mono font-extrabold tracking-widest text-sky-600 my-2">{room.code}</p>
+          <Button variant="outline" size="sm" onClick={handleCopyLink} leftIcon={<Copy className="h-4 w-4" />}>
+            Copy join link
+          </Button>
+        </div>
+
+        <h3 className="flex items-center text-sm font-semibold text-slate-700 mb-2">
+          <Users className="h-4 w-4 mr-1 text-slate-500" />
+          Players ({players.length})
+        </h3>
+        {players.length === 0 ? (
+          <p className="text-sm text-slate-500 mb-6">Nobody has joined yet.</p>
+        ) : (
+          <ul className="flex flex-wrap gap-2 mb-6">
+            {players.map(player => (
+              <li key={player.userId} className="rounded-full bg-sky-50 px-3 py-1 text-sm text-sky-800">
+                {player.displayName}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {isHost ? (
+          <Button
+            onClick={onStart}
+            disabled={players.length === 0}
+            isLoading={advancing}
+            leftIcon={<Play className="h-4 w-4" />}
+            fullWidth
+          >
+            Start Game
+          </Button>
+        ) : (
+          <p className="flex items-center justify-center text-sm text-slate-600">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin text-sky-500" />
+            Waiting for {room.hostName} to start the game...
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RoomLobby;
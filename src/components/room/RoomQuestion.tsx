@@ -0,0 +1,167 @@
+// src/components/room/RoomQuestion.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCircle, Eye, Timer } from 'lucide-react';
+import Button from '../ui/Button';
+import MultiSelectAnswer from '../quiz/MultiSelectAnswer';
+import OrderingAnswer from '../quiz/OrderingAnswer';
+import TypedAnswer from '../quiz/TypedAnswer';
+import { PlayerQuizQuestion, Room } from '../../types';
+import { QUESTION_TYPE_LABELS } from '../../utils/quizHelpers';
+
+// Wait after the countdown before the host's screen reveals the answer (the server accepts answers a little longer)
+const AUTO_REVEAL_DELAY_MS = 2000;
+
+interface RoomQuestionProps {
+  room: Room;
+  question: PlayerQuizQuestion;
+  isHost: boolean;
+  selectedAnswer: string | null; // The player's answer once sent (players only)
+  advancing: boolean;
+  onAnswer: (selectedOption: string) => void;
+  onReveal: () => void; // Host only; also called by the host's screen when the countdown runs out
+}
+
+// The open question of a live room: players answer once against the shared countdown, the host watches answers come in
+const RoomQuestion: React.FC<RoomQuestionProps> = ({ room, question, isHost, selectedAnswer, advancing, onAnswer, onReveal }) => {
+  const endsAt = room.questionEndsAt?.toMillis() ?? 0;
+  const [secondsLeft, setSecondsLeft] = useState(() => Math.max(0, Math.ceil((endsAt - Date.now()) / 1000)));
+  const revealRequested = useRef<number | null>(null); // The question index the host's timer already revealed
+  const timeUp = secondsLeft === 0;
+  const locked = selectedAnswer !== null || timeUp;
+
+  useEffect(() => {
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((endsAt - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      return remaining;
+    };
+    tick();
+    const intervalId = setInterval(() => {
+      if (tick() === 0) clearInterval(intervalId);
+    }, 250);
+
+    return () => clearInterval(intervalId);
+  }, [endsAt]);
+
+  // The host's screen closes the question shortly after time is up, so answers still on their way are counted
+  // (once per question; the server ignores a repeat anyway)
+  useEffect(() => {
+    if (!isHost || !timeUp || revealRequested.current === room.currentQuestionIndex) return;
+    const timeoutId = setTimeout(() => {
+      revealRequested.current = room.currentQuestionIndex;
+      onReveal();
+    }, AUTO_REVEAL_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [isHost, timeUp, room.currentQuestionIndex, onReveal]);
+
+  const questionNumber = room.currentQuestionIndex + 1;
+  const totalQuestions = room.questionOrder.length;
+
+  return (
+    <div className="max-w-2xl mx-auto animate-fadeIn">
+      <div className="mb-6">
+        <div className="flex justify-between items-center mb-2">
+          <span className="text-sm font-medium text-slate-500">
+            Question {questionNumber} of {totalQuestions} · {QUESTION_TYPE_LABELS[question.type]}
+          </span>
+          <span className={`flex items-center text-sm font-semibold ${secondsLeft <= 5 ? 'text-red-600' : 'text-slate-700'}`}>
+            <Timer className="h-4 w-4 mr-1" />
+            {secondsLeft}s
+          </span>
+        </div>
+        <div className="w-full bg-slate-200 rounded-full h-2">
+          <div
+            className="bg-sky-500 h-2 rounded-full transition-all duration-300 ease-linear"
+            style={{ width: `${(secondsLeft / room.secondsPerQuestion) * 100}%` }}
+          ></div>
+        </div>
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg p-6 mb-6">
+        <h2 className="text-xl font-semibold text-slate-800 mb-6">{question.text}</h2>
+
+        {isHost ? (
+          <>
+            {(question.type === 'multiple_choice' || question.type === 'multi_select' || question.type === 'ordering') && (
+              <ul className="space-y-2 mb-6">
+                {question.options.map(option => (
+                  <li key={option} className="p-3 rounded-md border border-slate-200 text-slate-700">{option}</li>
+                ))}
+              </ul>
+            )}
+            <p className="text-center text-slate-600 mb-4">
+              {room.answerCount} of {room.playerCount} players have answered
+            </p>
+            <Button
+              onClick={onReveal}
+              isLoading={advancing}
+              leftIcon={<Eye className="h-4 w-4" />}
+              fullWidth
+            >
+              Reveal now
+            </Button>
+          </>
+        ) : (
+          <>
+            <div className="space-y-3">
+              {question.type === 'multiple_choice' ? (
+                question.options.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => onAnswer(option)}
+                    disabled={locked}
+                    className={`w-full text-left p-3 rounded-md border transition-all duration-200 ease-in-out ${
+                      selectedAnswer === option ? 'border-sky-500 bg-sky-50' : 'border-slate-300 bg-white hover:border-slate-500'
+                    } ${locked && selectedAnswer !== option ? 'opacity-60' : ''}`}
+                  >
+                    {option}
+                  </button>
+                ))
+              ) : question.type === 'multi_select' ? (
+                <MultiSelectAnswer key={question.id} options={question.options} disabled={locked} onSubmit={onAnswer} />
+              ) : question.type === 'ordering' ? (
+                <OrderingAnswer key={question.id} options={question.options} disabled={locked} onSubmit={onAnswer} />
+              ) : question.type === 'numeric' ? (
+                <TypedAnswer
+                  key={question.id}
+                  kind="numeric"
+                  unit={question.unit}
+                  tolerance={question.tolerance}
+                  disabled={locked}
+                  onSubmit={onAnswer}
+                />
+              ) : question.type === 'fill_in' ? (
+                <TypedAnswer key={question.id} kind="text" disabled={locked} onSubmit={onAnswer} />
+              ) : (
+                <div className="flex space-x-4">
+                  {['True', 'False'].map(option => (
+                    <Button
+                      key={option}
+                      onClick={() => onAnswer(option)}
+                      disabled={locked}
+                      variant={selectedAnswer === option ? 'primary' : 'secondary'}
+                      className="flex-1"
+                    >
+                      {option}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {selectedAnswer !== null ? (
+              <p className="flex items-center justify-center mt-6 text-sm text-green-700">
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Answer locked in. Waiting for the reveal...
+              </p>
+            ) : timeUp && (
+              <p className="mt-6 text-center text-sm text-red-600">Time's up! Waiting for the reveal...</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoomQuestion;
@@ -0,0 +1,107 @@
+// src/components/room/RoomScoreboard.tsx
+import React from 'react';
+import { AlertCircle, ArrowRight, CheckCircle, Flag, Lightbulb, Trophy, XCircle } from 'lucide-react';
+import Card, { CardContent, CardHeader } from '../ui/Card';
+import Button from '../ui/Button';
+import { Room, RoomPlayer } from '../../types';
+
+interface RoomScoreboardProps {
+  room: Room;
+  players: RoomPlayer[]; // Best first
+  userId: string;
+  isHost: boolean;
+  advancing: boolean;
+  onNext: () => void; // Host only
+}
+
+// Between questions: the answer, how the player did on it and the standings. Once the room finishes, the final standings
+const RoomScoreboard: React.FC<RoomScoreboardProps> = ({ room, players, userId, isHost, advancing, onNext }) => {
+  const isFinished = room.status === 'finished';
+  const isLastQuestion = room.currentQuestionIndex >= room.questionOrder.length - 1;
+  const me = players.find(player => player.userId === userId);
+  const lastResult = me?.lastResult && me.lastResult.questionId === room.reveal?.questionId ? me.lastResult : null;
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      {!isFinished && room.reveal && (
+        <Card>
+          <CardContent>
+            <p className="text-sm text-slate-500 mb-1">
+              Question {room.currentQuestionIndex + 1} of {room.questionOrder.length}: {room.currentQuestion?.text}
+            </p>
+            <p className="text-lg font-semibold text-slate-800">Answer: {room.reveal.correctOption}</p>
+            {room.reveal.explanation && (
+              <p className="flex items-start mt-2 text-sm text-slate-700">
+                <Lightbulb className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0 text-yellow-500" />
+                <span>{room.reveal.explanation}</span>
+              </p>
+            )}
+            {lastResult && (
+              <p
+                className={`flex items-center mt-4 font-medium ${
+                  lastResult.credit === 1 ? 'text-green-700' : lastResult.credit > 0 ? 'text-yellow-700' : 'text-red-700'
+                }`}
+              >
+                {lastResult.credit === 1 ? (
+                  <><CheckCircle className="h-5 w-5 mr-2" /> Correct! +{lastResult.points} points</>
+                ) : lastResult.credit > 0 ? (
+                  <><AlertCircle className="h-5 w-5 mr-2" /> Partly correct. +{lastResult.points} points</>
+                ) : (
+                  <><XCircle className="h-5 w-5 mr-2" /> {lastResult.answered ? 'Not this time.' : 'No answer in time.'}</>
+                )}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <h2 className="flex items-center text-lg font-semibold text-slate-800">
+            <Trophy className="h-5 w-5 mr-2 text-yellow-500" />
+            {isFinished ? 'Final Standings' : 'Scoreboard'}
+          </h2>
+        </CardHeader>
+        <CardContent>
+          {players.length === 0 ? (
+            <p className="text-sm text-slate-500">No players in this room.</p>
+          ) : (
+            <ol className="space-y-1">
+              {players.map((player, index) => (
+                <li
+                  key={player.userId}
+                  className={`flex justify-between rounded px-3 py-2 ${player.userId === userId ? 'bg-sky-50 font-medium' : ''}`}
+                >
+                  <span className="text-slate-700">
+                    {index + 1}. {player.displayName}
+                  </span>
+                  <span className="text-slate-500">
+                    {player.correctCount} correct · {player.points} pts
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {isHost && !isFinished && (
+            <Button
+              onClick={onNext}
+              isLoading={advancing}
+              leftIcon={isLastQuestion ? <Flag className="h-4 w-4" /> : undefined}
+              rightIcon={isLastQuestion ? undefined : <ArrowRight className="h-4 w-4" />}
+              className="mt-6"
+              fullWidth
+            >
+              {isLastQuestion ? 'Finish Game' : 'Next Question'}
+            </Button>
+          )}
+          {!isHost && !isFinished && (
+            <p className="mt-6 text-center text-sm text-slate-600">Waiting for {room.hostName} to continue...</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RoomScoreboard;
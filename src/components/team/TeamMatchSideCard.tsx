@@ -0,0 +1,56 @@
+// src/components/team/TeamMatchSideCard.tsx
+import React from 'react';
+import { Crown, Trophy } from 'lucide-react';
+import { TeamMatch, TeamMatchSide } from '../../types';
+
+interface TeamMatchSideCardProps {
+  match: TeamMatch;
+  side: TeamMatchSide;
+  userId: string;
+}
+
+// One team's players in a match, with each run's result as it comes in and the team's total once settled
+const TeamMatchSideCard: React.FC<TeamMatchSideCardProps> = ({ match, side, userId }) => {
+  const isCompleted = match.status === 'completed';
+  const isWinner = isCompleted && match.winnerTeamId === side.teamId;
+
+  const renderStatus = (playerId: string) => {
+    const result = side.results[playerId];
+    if (result) return <span className="font-medium text-slate-800">{result.points} pts · {result.score} correct</span>;
+    if (isCompleted) return <span className="text-slate-400">Did not play</span>;
+    return <span className="text-slate-500">{side.sessionIds[playerId] ? 'Playing...' : 'Not played yet'}</span>;
+  };
+
+  return (
+    <div className={`rounded-lg border p-4 ${isWinner ? 'border-yellow-400 bg-yellow-50' : 'border-slate-200'}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-slate-800">{side.name}</h3>
+        {isWinner && (
+          <span className="flex items-center text-sm font-medium text-yellow-700">
+            <Trophy className="h-4 w-4 mr-1" />
+            Winner
+          </span>
+        )}
+      </div>
+      <ul className="space-y-1 text-sm">
+        {side.playerIds.map(playerId => (
+          <li key={playerId} className={`flex justify-between rounded px-2 py-1 ${playerId === userId ? 'bg-sky-50' : ''}`}>
+            <span className="flex items-center text-slate-700">
+              {side.playerNames[playerId] || `Player ${playerId.slice(0, 6)}`}
+              {playerId === side.captainId && <Crown className="h-3 w-3 ml-1 text-yellow-500" />}
+            </span>
+            {renderStatus(playerId)}
+          </li>
+        ))}
+      </ul>
+      {isCompleted && (
+        <p className="mt-3 border-t border-slate-100 pt-2 text-sm text-slate-600">
+          Team score: <span className="font-bold text-slate-800">{side.points} pts</span>
+          {match.scoring === 'average' ? ' (average)' : ''}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TeamMatchSideCard;
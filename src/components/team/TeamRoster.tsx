@@ -0,0 +1,73 @@
+// src/components/team/TeamRoster.tsx
+import React, { useState } from 'react';
+import { Crown, UserMinus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../ui/Button';
+import { useTeamStore } from '../../store/teamStore';
+import { Team } from '../../types';
+
+interface TeamRosterProps {
+  team: Team;
+  userId: string;
+}
+
+// The team's members; the captain can hand over the captaincy or remove a member from here
+const TeamRoster: React.FC<TeamRosterProps> = ({ team, userId }) => {
+  const { removeMember, makeCaptain } = useTeamStore();
+  const [busy, setBusy] = useState<string | null>(null); // Which action is running
+  const isCaptain = team.captainId === userId;
+
+  const run = async (key: string, action: () => Promise<void>, success: string) => {
+    setBusy(key);
+    try {
+      await action();
+      toast.success(success);
+    } catch (err: unknown) {
+      console.error('Team captain action failed:', err);
+      toast.error(err instanceof Error ? err.message : 'Something went wrong.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <ul className="divide-y divide-slate-100">
+      {team.members.map(member => (
+        <li key={member.userId} className="flex items-center justify-between py-2">
+          <span className={`flex items-center ${member.userId === userId ? 'font-medium text-sky-700' : 'text-slate-800'}`}>
+            {member.displayName}{member.userId === userId && ' (You)'}
+            {member.userId === team.captainId && <Crown className="h-4 w-4 ml-2 text-yellow-500" aria-label="Captain" />}
+          </span>
+          {isCaptain && member.userId !== userId && (
+            <div className="flex gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => run(`captain-${member.userId}`, () => makeCaptain(team.id, member.userId), `${member.displayName} is now captain.`)}
+                isLoading={busy === `captain-${member.userId}`}
+                disabled={busy !== null}
+              >
+                Make captain
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  if (!window.confirm(`Remove ${member.displayName} from ${team.name}?`)) return;
+                  run(`remove-${member.userId}`, () => removeMember(team.id, member.userId), `${member.displayName} was removed.`);
+                }}
+                isLoading={busy === `remove-${member.userId}`}
+                disabled={busy !== null}
+                leftIcon={<UserMinus className="h-4 w-4" />}
+              >
+                Remove
+              </Button>
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default TeamRoster;
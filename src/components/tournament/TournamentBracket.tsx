@@ -0,0 +1,44 @@
+// src/components/tournament/TournamentBracket.tsx
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { Tournament, TournamentMatch } from '../../types';
+import { getRoundName } from '../../utils/tournaments';
+import TournamentMatchCard from './TournamentMatchCard';
+
+interface TournamentBracketProps {
+  tournament: Tournament;
+  matches: TournamentMatch[];
+  userId: string;
+}
+
+// Every round side by side: a bracket narrows towards the final, a round-robin lists each round's pairings
+const TournamentBracket: React.FC<TournamentBracketProps> = ({ tournament, matches, userId }) => (
+  <div className="overflow-x-auto">
+    <div className="flex gap-4 min-w-max pb-2">
+      {tournament.rounds.map((round, index) => {
+        const roundMatches = matches.filter(match => match.round === index);
+        return (
+          <div key={index} className="w-56 flex flex-col">
+            <div className="mb-2">
+              <h3 className={`text-sm font-semibold ${round.status === 'open' ? 'text-sky-700' : 'text-slate-700'}`}>
+                {getRoundName(tournament, index)}
+              </h3>
+              <p className="flex items-center text-xs text-slate-500 truncate">
+                {round.quizTitle || (round.generation ? `Generated: ${round.generation.category}` : 'Quiz to be chosen')}
+                {round.status === 'open' && !round.quizId && !round.generationError && <Loader2 className="h-3 w-3 ml-1 animate-spin" />}
+              </p>
+            </div>
+            {/* Bracket rounds spread out so each match sits between the two it follows on from */}
+            <div className={`flex flex-col flex-1 gap-3 ${tournament.format === 'single_elimination' ? 'justify-around' : ''}`}>
+              {roundMatches.map(match => (
+                <TournamentMatchCard key={match.id} tournament={tournament} match={match} userId={userId} />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default TournamentBracket;
@@ -0,0 +1,50 @@
+// src/components/tournament/TournamentMatchCard.tsx
+import React from 'react';
+import { Trophy } from 'lucide-react';
+import { Tournament, TournamentMatch } from '../../types';
+import { getPlayerName } from '../../utils/tournaments';
+
+interface TournamentMatchCardProps {
+  tournament: Tournament;
+  match: TournamentMatch;
+  userId: string;
+}
+
+// One pairing: both players with their result, the winner highlighted, your side in blue
+const TournamentMatchCard: React.FC<TournamentMatchCardProps> = ({ tournament, match, userId }) => {
+  const seeds = new Map(tournament.participants.map(p => [p.userId, p.seed]));
+  const isDraw = match.status === 'completed' && match.resolution === 'played' && match.winnerId === null;
+  const note = isDraw ? 'Draw' : match.resolution === 'bye' ? 'Bye' : match.resolution === 'walkover' ? 'Walkover' : null;
+
+  return (
+    <div className={`rounded-md border bg-white text-sm ${match.status === 'open' ? 'border-sky-300' : 'border-slate-200'}`}>
+      {match.playerIds.map((playerId, index) => {
+        const result = playerId ? match.results[playerId] : undefined;
+        const isWinner = !!playerId && match.winnerId === playerId;
+        const hasStarted = !!playerId && !!match.sessionIds[playerId];
+        return (
+          <div
+            key={index}
+            className={`flex items-center justify-between px-3 py-2 ${index === 0 ? 'border-b border-slate-100' : ''} ${isWinner ? 'font-semibold' : ''}`}
+          >
+            <span className={`flex items-center truncate ${playerId === userId ? 'text-sky-700' : 'text-slate-700'}`}>
+              {isWinner && <Trophy className="h-3 w-3 mr-1 flex-shrink-0 text-yellow-500" />}
+              {playerId && <span className="mr-1 text-xs text-slate-400">{seeds.get(playerId)}</span>}
+              {playerId ? getPlayerName(tournament, playerId) : match.resolution === 'bye' ? '—' : 'TBD'}
+            </span>
+            <span className="ml-2 flex-shrink-0 text-xs text-slate-500">
+              {result
+                ? `${result.score} · ${Math.round(result.timeSpentSeconds)}s`
+                : match.status === 'open' && hasStarted
+                ? 'Playing'
+                : ''}
+            </span>
+          </div>
+        );
+      })}
+      {note && <p className="px-3 pb-1 text-xs text-slate-400">{note}</p>}
+    </div>
+  );
+};
+
+export default TournamentMatchCard;
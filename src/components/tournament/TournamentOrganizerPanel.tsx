@@ -0,0 +1,154 @@
+// src/components/tournament/TournamentOrganizerPanel.tsx
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../ui/Button';
+import { useTournamentStore } from '../../store/tournamentStore';
+import { Tournament, TournamentMatch } from '../../types';
+import { canReseed, getPlayerName } from '../../utils/tournaments';
+
+interface TournamentOrganizerPanelProps {
+  tournament: Tournament;
+  matches: TournamentMatch[];
+}
+
+// The organizer's tools: retry a failed quiz generation, reseed before play starts, and settle no-shows
+const TournamentOrganizerPanel: React.FC<TournamentOrganizerPanelProps> = ({ tournament, matches }) => {
+  const { reseedTournament, resolveMatch, retryRound } = useTournamentStore();
+  const [seedOrder, setSeedOrder] = useState<string[]>(tournament.participants.map(p => p.userId));
+  const [busy, setBusy] = useState<string | null>(null); // Which action is running
+
+  // Start over from the stored seeding whenever it changes
+  const storedOrder = tournament.participants.map(p => p.userId).join(',');
+  useEffect(() => {
+    setSeedOrder(storedOrder.split(','));
+  }, [storedOrder]);
+
+  const run = async (key: string, action: () => Promise<void>, success: string) => {
+    setBusy(key);
+    try {
+      await action();
+      toast.success(success);
+    } catch (err: unknown) {
+      console.error('Tournament organizer action failed:', err);
+      toast.error(err instanceof Error ? err.message : 'Something went wrong.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const moveSeed = (index: number, offset: number) => {
+    const next = [...seedOrder];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setSeedOrder(next);
+  };
+
+  const currentRound = tournament.rounds[tournament.currentRound];
+  const openMatches = matches.filter(match => match.round === tournament.currentRound && match.status === 'open');
+  const reseedable = canReseed(tournament, matches);
+  const seedingChanged = seedOrder.join(',') !== storedOrder;
+
+  if (tournament.status !== 'active') return null;
+
+  return (
+    <div className="space-y-6">
+      {currentRound?.generationError && (
+        <div>
+          <h3 className="text-sm font-semibold text-slate-800 mb-1">Round quiz</h3>
+          <p className="text-sm text-red-600 mb-2">Generating this round's quiz failed: {currentRound.generationError}</p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => run('retry', retryRound, 'Generating the quiz again.')}
+            isLoading={busy === 'retry'}
+            leftIcon={<RefreshCw className="h-4 w-4" />}
+          >
+            Try again
+          </Button>
+        </div>
+      )}
+
+      {reseedable && (
+        <div>
+          <h3 className="text-sm font-semibold text-slate-800 mb-1">Seeding</h3>
+          <p className="text-xs text-slate-500 mb-2">Can be changed until the first match is started.</p>
+          <ol className="space-y-1 mb-2">
+            {seedOrder.map((playerId, index) => (
+              <li key={playerId} className="flex items-center justify-between rounded bg-slate-50 px-3 py-1 text-sm">
+                <span>
+                  <span className="mr-2 text-slate-400">{index + 1}</span>
+                  {getPlayerName(tournament, playerId)}
+                </span>
+                <span className="flex">
+                  <button type="button" onClick={() => moveSeed(index, -1)} disabled={index === 0} className="p-1 text-slate-500 disabled:opacity-30" aria-label="Move up">
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveSeed(index, 1)}
+                    disabled={index === seedOrder.length - 1}
+                    className="p-1 text-slate-500 disabled:opacity-30"
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ol>
+          <Button
+            size="sm"
+            onClick={() => run('reseed', () => reseedTournament(seedOrder), 'Seeding saved.')}
+            disabled={!seedingChanged}
+            isLoading={busy === 'reseed'}
+          >
+            Save seeding
+          </Button>
+        </div>
+      )}
+
+      {openMatches.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-slate-800 mb-1">No-shows</h3>
+          <p className="text-xs text-slate-500 mb-2">Award a walkover when a player cannot play their match.</p>
+          <ul className="space-y-2">
+            {openMatches.map(match => (
+              <li key={match.id} className="rounded bg-slate-50 px-3 py-2 text-sm">
+                <p className="mb-2 text-slate-700">
+                  {getPlayerName(tournament, match.playerIds[0])} vs {getPlayerName(tournament, match.playerIds[1])}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {match.playerIds.map(playerId => playerId && (
+                    <Button
+                      key={playerId}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => run(`${match.id}-${playerId}`, () => resolveMatch(match.id, playerId), 'Walkover awarded.')}
+                      isLoading={busy === `${match.id}-${playerId}`}
+                      disabled={busy !== null}
+                    >
+                      Walkover to {getPlayerName(tournament, playerId)}
+                    </Button>
+                  ))}
+                  {tournament.format === 'round_robin' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => run(`${match.id}-none`, () => resolveMatch(match.id, null), 'Match settled as a double no-show.')}
+                      isLoading={busy === `${match.id}-none`}
+                      disabled={busy !== null}
+                    >
+                      Neither played
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TournamentOrganizerPanel;
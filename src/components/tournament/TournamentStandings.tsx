@@ -0,0 +1,45 @@
+// src/components/tournament/TournamentStandings.tsx
+import React from 'react';
+import { Tournament } from '../../types';
+import { getPlayerName } from '../../utils/tournaments';
+
+interface TournamentStandingsProps {
+  tournament: Tournament;
+  userId: string;
+}
+
+// The league table kept by the server: wins (draws count half), then total score, then total time
+const TournamentStandings: React.FC<TournamentStandingsProps> = ({ tournament, userId }) => (
+  <div className="overflow-x-auto">
+    <table className="min-w-full text-left text-sm">
+      <thead>
+        <tr className="border-b border-slate-200 text-slate-500">
+          <th className="py-2 pr-4 font-medium">#</th>
+          <th className="py-2 pr-4 font-medium">Player</th>
+          <th className="py-2 pr-4 font-medium">P</th>
+          <th className="py-2 pr-4 font-medium">W</th>
+          <th className="py-2 pr-4 font-medium">D</th>
+          <th className="py-2 pr-4 font-medium">L</th>
+          <th className="py-2 pr-4 font-medium">Score</th>
+          <th className="py-2 pr-4 font-medium">Time</th>
+        </tr>
+      </thead>
+      <tbody>
+        {tournament.standings.map((row, index) => (
+          <tr key={row.userId} className={`border-b border-slate-100 ${row.userId === userId ? 'bg-sky-50' : ''}`}>
+            <td className="py-2 pr-4 text-slate-500">{index + 1}</td>
+            <td className="py-2 pr-4 font-medium text-slate-800">{getPlayerName(tournament, row.userId)}</td>
+            <td className="py-2 pr-4">{row.played}</td>
+            <td className="py-2 pr-4">{row.wins}</td>
+            <td className="py-2 pr-4">{row.draws}</td>
+            <td className="py-2 pr-4">{row.losses}</td>
+            <td className="py-2 pr-4">{row.score}</td>
+            <td className="py-2 pr-4">{Math.round(row.timeSpentSeconds)}s</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default TournamentStandings;
@@ -3,6 +3,7 @@
 import { getFunctions, httpsCallable } from 'firebase/functions';
 // CORRECTED: Import 'app' as a default import because config.ts uses 'export default app;'
 import app from './config';
+import { ChallengeStatus, QuizMode, QuizQuestion, QuizSessionInfo, RoomStatus, TeamMatchInvite, TeamMatchStatus, TeamScoring, TournamentFormat, TournamentRoundGeneration } from '../types';
 
 // Initialize the Firebase Functions SDK.
 // IMPORTANT: Replace 'us-central1' with your function's actual region.
@@ -12,7 +13,29 @@ const functions = getFunctions(app, 'us-central1');
 // Expose your callable Cloud Functions
 export const generateQuizCallable = httpsCallable(functions, 'generateQuiz');
 // Assuming submitQuizCallable is already defined or will be soon
-export const submitQuizCallable = httpsCallable(functions, 'submitQuiz');
+export const submitQuizCallable = httpsCallable<
+  { sessionId: string; userAnswers: { questionId: string; selectedOption: string }[] },
+  unknown // Response shape is described where it is consumed (QuizPlayer)
+>(functions, 'submitQuiz');
+
+// ⭐ Opens a server-timed quiz session; submitQuiz only accepts answers for an open session ⭐
+export const startQuizSessionCallable = httpsCallable<
+  // questionIds plays a subset, e.g. retaking missed questions; challengeId plays an accepted challenge;
+  // tournamentId and tournamentMatchId play the caller's open tournament match; teamMatchId their run in a team match;
+  // groupId and assignmentId one of their group assignments
+  {
+    quizId: string;
+    mode: QuizMode;
+    questionIds?: string[];
+    challengeId?: string;
+    tournamentId?: string;
+    tournamentMatchId?: string;
+    teamMatchId?: string;
+    groupId?: string;
+    assignmentId?: string;
+  },
+  QuizSessionInfo
+>(functions, 'startQuizSession');
 
 // ⭐ NEW: Export the deleteQuiz callable function ⭐
 export const deleteQuizCallable = httpsCallable<
@@ -20,4 +43,122 @@ export const deleteQuizCallable = httpsCallable<
   { success: boolean; message: string } // Response data type
 >(functions, 'deleteQuiz');
 
+// ⭐ Per-question feedback in practice mode: the client never holds the answer key ⭐
+export const checkAnswerCallable = httpsCallable<
+  // sessionId is the player's practice session; reveal gives up on the question
+  { quizId: string; questionId: string; selectedOption: string; sessionId: string; reveal?: boolean },
+  // correctOption is the full option text, e.g. "A. Uruguay"; credit is below 1 for partly correct answers.
+  // Only questions of an open practice session are answered. After a wrong answer correctOption, explanation and
+  // source stay null until the player asks for them with reveal.
+  { isCorrect: boolean; credit: number; correctOption: string | null; explanation: string | null; source: string | null }
+>(functions, 'checkAnswer');
+
+// Locks in one answer of an exam with a per-question limit, in order; the server times it and reveals nothing
+export const lockExamAnswerCallable = httpsCallable<
+  { sessionId: string; questionId: string; selectedOption: string }, // '' when the question timed out
+  { success: boolean }
+>(functions, 'lockExamAnswer');
+
+// ⭐ Asks the question provider for one replacement question; nothing is saved until the quiz is ⭐
+export const regenerateQuestionCallable = httpsCallable<
+  { quizId: string; questionId: string; questionType?: QuizQuestion['type']; avoidQuestions?: string[] },
+  { question: QuizQuestion }
+>(functions, 'regenerateQuestion');
+
+// ⭐ Head-to-head challenges: sent from one of your attempts, answered by whoever opens the link ⭐
+export const createChallengeCallable = httpsCallable<{ attemptId: string }, { challengeId: string }>(functions, 'createChallenge');
+
+export const respondToChallengeCallable = httpsCallable<
+  { challengeId: string; accept: boolean },
+  { status: ChallengeStatus }
+>(functions, 'respondToChallenge');
+
+// ⭐ Live rooms: the host creates and runs the room, players join with its code (see functions/src/rooms.ts) ⭐
+export const createRoomCallable = httpsCallable<
+  { quizId: string; secondsPerQuestion?: number },
+  { code: string }
+>(functions, 'createRoom');
+
+export const joinRoomCallable = httpsCallable<{ code: string }, { code: string }>(functions, 'joinRoom');
+
+// Answers are scored on the server; the result only shows on the scoreboard once the host reveals the question
+export const submitRoomAnswerCallable = httpsCallable<
+  { code: string; questionId: string; selectedOption: string },
+  { received: boolean }
+>(functions, 'submitRoomAnswer');
+
+// fromStatus/fromQuestionIndex name the step the host is moving on from, so a late or repeated call is ignored
+export const advanceRoomCallable = httpsCallable<
+  { code: string; fromStatus?: RoomStatus; fromQuestionIndex?: number },
+  { status: RoomStatus }
+>(functions, 'advanceRoom');
+
+// ⭐ Tournaments: set up by an organizer, who can also reseed them and settle no-shows (see functions/src/tournaments.ts) ⭐
+export const createTournamentCallable = httpsCallable<
+  {
+    name: string;
+    format: TournamentFormat;
+    participantEmails: string[]; // In seed order
+    rounds: { quizId?: string; generation?: TournamentRoundGeneration }[];
+  },
+  { tournamentId: string }
+>(functions, 'createTournament');
+
+export const reseedTournamentCallable = httpsCallable<
+  { tournamentId: string; userIds: string[] },
+  { success: boolean }
+>(functions, 'reseedTournament');
+
+// winnerId null (round-robin only) settles a match neither player turned up for
+export const resolveTournamentMatchCallable = httpsCallable<
+  { tournamentId: string; matchId: string; winnerId: string | null },
+  { success: boolean }
+>(functions, 'resolveTournamentMatch');
+
+export const retryTournamentRoundCallable = httpsCallable<{ tournamentId: string }, { success: boolean }>(functions, 'retryTournamentRound');
+
+// ⭐ Teams: joined through invite links and managed by their captain; captains set up team matches (see functions/src/teams.ts) ⭐
+export const createTeamCallable = httpsCallable<{ name: string }, { teamId: string }>(functions, 'createTeam');
+
+export const joinTeamCallable = httpsCallable<{ inviteCode: string }, { teamId: string }>(functions, 'joinTeam');
+
+// disbanded is true when the last member left
+export const leaveTeamCallable = httpsCallable<{ teamId: string }, { disbanded: boolean }>(functions, 'leaveTeam');
+
+export const manageTeamCallable = httpsCallable<
+  { teamId: string; action: 'remove_member' | 'make_captain' | 'reset_invite'; userId?: string },
+  { success: boolean }
+>(functions, 'manageTeam');
+
+export const createTeamMatchCallable = httpsCallable<
+  { teamId: string; quizId: string; scoring: TeamScoring },
+  { matchId: string }
+>(functions, 'createTeamMatch');
+
+// Only members of a match's teams can read it; another team's captain opens the link through this
+export const getTeamMatchInviteCallable = httpsCallable<{ matchId: string }, TeamMatchInvite>(functions, 'getTeamMatchInvite');
+
+export const respondToTeamMatchCallable = httpsCallable<
+  { matchId: string; teamId: string; accept: boolean },
+  { status: TeamMatchStatus }
+>(functions, 'respondToTeamMatch');
+
+export const createGroupCallable = httpsCallable<{ name: string }, { groupId: string }>(functions, 'createGroup');
+
+export const joinGroupCallable = httpsCallable<{ inviteCode: string }, { groupId: string }>(functions, 'joinGroup');
+
+export const leaveGroupCallable = httpsCallable<{ groupId: string }, { success: boolean }>(functions, 'leaveGroup');
+
+// Coach only; userId is the member to remove
+export const manageGroupCallable = httpsCallable<
+  { groupId: string; action: 'remove_member' | 'reset_invite'; userId?: string },
+  { success: boolean }
+>(functions, 'manageGroup');
+
+// dueAt in milliseconds since the epoch
+export const createAssignmentCallable = httpsCallable<
+  { groupId: string; quizId: string; dueAt: number; maxAttempts: number },
+  { assignmentId: string }
+>(functions, 'createAssignment');
+
 // You can add more callable functions here as your app grows
\ No newline at end of file
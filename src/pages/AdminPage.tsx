@@ -7,7 +7,10 @@ import { useQuizStore } from '../store/quizStore';
 import QuizCard from '../components/quiz/QuizCard';
 import Alert from '../components/ui/Alert';
 import Button from '../components/ui/Button';
-import { Quiz } from '../types';
+import ExportMenu from '../components/quiz/ExportMenu';
+import { PlayerQuiz } from '../types';
+import { hasAnswerKey } from '../utils/quizHelpers';
+import { ExportFormat, downloadExportFile, exportQuizzes } from '../utils/quizExport';
 
 const AdminPage: React.FC = () => {
   const navigate = useNavigate();
@@ -16,6 +19,7 @@ const AdminPage: React.FC = () => {
 
   const [updateLoading, setUpdateLoading] = useState<string | null>(null);
   const [showDeleted, setShowDeleted] = useState<boolean>(false);
+  const [selectedQuizIds, setSelectedQuizIds] = useState<string[]>([]);
 
   useEffect(() => {
     if (isInitialized) {
@@ -29,6 +33,11 @@ const AdminPage: React.FC = () => {
     }
   }, [isInitialized, user, navigate, fetchQuizzes, showDeleted]);
 
+  // Drop selections of quizzes that are no longer listed (e.g. after hiding deleted ones)
+  useEffect(() => {
+    setSelectedQuizIds(prev => prev.filter(id => quizzes.some(quiz => quiz.id === id)));
+  }, [quizzes]);
+
   if (isInitialized && (!user || !user.isAdmin)) return null;
   if (!isInitialized) return (
     <div className="flex justify-center items-center h-screen">
@@ -51,7 +60,7 @@ const AdminPage: React.FC = () => {
     }
   };
 
-  const handleToggleQuizStatus = async (quiz: Quiz) => {
+  const handleToggleQuizStatus = async (quiz: PlayerQuiz) => {
     const newStatus = quiz.status === 'deleted' ? 'active' : 'deleted';
     const action = newStatus === 'active' ? 'restore' : 'mark as deleted';
 
@@ -73,6 +82,26 @@ const AdminPage: React.FC = () => {
     }
   };
 
+  const handleToggleSelect = (quizId: string) => {
+    setSelectedQuizIds(prev => (prev.includes(quizId) ? prev.filter(id => id !== quizId) : [...prev, quizId]));
+  };
+
+  const allSelected = quizzes.length > 0 && selectedQuizIds.length === quizzes.length;
+
+  const handleToggleSelectAll = () => {
+    setSelectedQuizIds(allSelected ? [] : quizzes.map(quiz => quiz.id));
+  };
+
+  // Admins list full quiz documents, so every quiz here carries its answer key
+  const handleExport = (quizIds: string[], format: ExportFormat) => {
+    const quizzesToExport = quizzes.filter(quiz => quizIds.includes(quiz.id)).filter(hasAnswerKey);
+    if (quizzesToExport.length === 0) {
+      alert('Select at least one quiz to export.');
+      return;
+    }
+    downloadExportFile(exportQuizzes(quizzesToExport, format));
+  };
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="mb-8 flex items-center">
@@ -89,7 +118,24 @@ const AdminPage: React.FC = () => {
           public or private, and manage their status (active/deleted).
         </p>
 
-        <div className="mb-6 flex justify-end">
+        <div className="mb-6 flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-3">
+            <label className="flex items-center text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={handleToggleSelectAll}
+                disabled={quizzes.length === 0}
+                className="h-4 w-4 text-sky-600 mr-2"
+              />
+              Select all
+            </label>
+            <ExportMenu
+              label={`Export selected (${selectedQuizIds.length})`}
+              disabled={selectedQuizIds.length === 0}
+              onExport={(format) => handleExport(selectedQuizIds, format)}
+            />
+          </div>
           <Button
             onClick={() => setShowDeleted(!showDeleted)}
             variant="ghost"
@@ -137,6 +183,9 @@ const AdminPage: React.FC = () => {
                 onToggleStatus={handleToggleQuizStatus} // Pass the handler directly
                 isSoftDeleted={quiz.status === 'deleted'}
                 updateLoading={updateLoading === quiz.id}
+                onExport={(quizId, format) => handleExport([quizId], format)}
+                isSelected={selectedQuizIds.includes(quiz.id)}
+                onToggleSelect={handleToggleSelect}
               />
             ))}
           </div>
@@ -0,0 +1,177 @@
+// src/pages/AttemptDetailPage.tsx
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { AlertCircle, ArrowLeft, BadgeCheck, Calendar, Clock, Loader2, RotateCcw, Zap } from 'lucide-react';
+import Button from '../components/ui/Button';
+import AnswerReview from '../components/quiz/AnswerReview';
+import { useQuizStore } from '../store/quizStore';
+import { useReviewStore } from '../store/reviewStore';
+import { REVIEW_QUIZ_ID } from '../utils/review';
+
+const AttemptDetailPage: React.FC = () => {
+  const { attemptId } = useParams<{ attemptId: string }>();
+  const navigate = useNavigate();
+  const { currentAttempt, currentQuiz, error, fetchAttemptById, fetchQuizById } = useQuizStore();
+  const { reviewQuiz, fetchReviewQuiz } = useReviewStore();
+  const [loaded, setLoaded] = useState(false);
+
+  // Load the attempt first, then its quiz for the question texts and options
+  // (a review gathers its questions from the quizzes they came from)
+  useEffect(() => {
+    if (!attemptId) return;
+    let cancelled = false;
+    setLoaded(false);
+
+    (async () => {
+      const attempt = await fetchAttemptById(attemptId);
+      if (attempt && !cancelled) {
+        if (attempt.quizId === REVIEW_QUIZ_ID) {
+          await fetchReviewQuiz(attempt.userId, attempt.answers.map(answer => answer.questionId));
+        } else {
+          await fetchQuizById(attempt.quizId);
+        }
+      }
+      if (!cancelled) setLoaded(true);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attemptId, fetchAttemptById, fetchQuizById, fetchReviewQuiz]);
+
+  if (!loaded) {
+    return (
+      <div className="flex justify-center items-center min-h-[calc(100vh-128px)]">
+        <Loader2 className="h-12 w-12 animate-spin text-sky-500" />
+        <p className="ml-3 text-lg text-slate-600">Loading attempt...</p>
+      </div>
+    );
+  }
+
+  if (!currentAttempt) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[calc(100vh-128px)] text-slate-600 p-4">
+        <AlertCircle size={48} className="mb-4" />
+        <h2 className="text-xl font-semibold">Attempt Not Found</h2>
+        <p className="text-lg text-center">{error || 'This attempt does not exist or belongs to another player.'}</p>
+        <Button onClick={() => navigate('/history')} className="mt-4">
+          Back to History
+        </Button>
+      </div>
+    );
+  }
+
+  // The quiz may since have been deleted or made private; the review then shows answers without question texts
+  const isReview = currentAttempt.quizId === REVIEW_QUIZ_ID;
+  const quiz = isReview ? reviewQuiz : currentQuiz && currentQuiz.id === currentAttempt.quizId ? currentQuiz : null;
+  const quizQuestionIds = new Set(quiz?.questions.map(q => q.id) || []);
+  const missedQuestionIds = currentAttempt.answers
+    .filter(answer => !answer.isCorrect && quizQuestionIds.has(answer.questionId))
+    .map(answer => answer.questionId);
+
+  const title = currentAttempt.quizTitle || quiz?.title || `Quiz #${currentAttempt.quizId.slice(-6)}`;
+  const percentage = Math.round((currentAttempt.score / currentAttempt.totalQuestions) * 100);
+  const completedDate = currentAttempt.completedAt.toDate().toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+  const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return `${minutes}m ${remainingSeconds}s`;
+  };
+
+  const handleRetakeMissed = () => {
+    navigate(`/quiz/${currentAttempt.quizId}`, { state: { questionIds: missedQuestionIds } });
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <button
+        onClick={() => navigate('/history')}
+        className="flex items-center text-sm text-slate-500 hover:text-slate-700 mb-4"
+      >
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to History
+      </button>
+
+      <div className="bg-white shadow-lg rounded-lg overflow-hidden">
+        <div className="bg-gradient-to-r from-sky-500 to-indigo-500 py-6 px-6 text-white">
+          <h1 className="text-2xl font-semibold">{title}</h1>
+          {currentAttempt.mode === 'practice' && (
+            <p className="text-sm opacity-90">Practice run: not counted in stats or on leaderboards</p>
+          )}
+          {currentAttempt.category && (
+            <p className="opacity-90">
+              {currentAttempt.category}
+              {currentAttempt.difficulty && ` · ${currentAttempt.difficulty.charAt(0).toUpperCase() + currentAttempt.difficulty.slice(1)}`}
+            </p>
+          )}
+        </div>
+
+        <div className="p-6">
+          <div className="flex flex-wrap gap-6 text-sm text-slate-600 mb-6">
+            <span className="flex items-center">
+              <Calendar className="h-4 w-4 mr-1" />
+              {completedDate}
+            </span>
+            <span className="flex items-center">
+              <Clock className="h-4 w-4 mr-1" />
+              {formatTime(currentAttempt.timeSpent)}
+            </span>
+            <span className="flex items-center">
+              <BadgeCheck className="h-4 w-4 mr-1" />
+              {currentAttempt.score}/{currentAttempt.totalQuestions} correct ({percentage}%)
+            </span>
+            {currentAttempt.points !== undefined && (
+              <span className="flex items-center">
+                <Zap className="h-4 w-4 mr-1" />
+                {currentAttempt.points} points
+              </span>
+            )}
+          </div>
+
+          {!quiz && (
+            <div className="p-3 mb-4 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-md text-sm">
+              This quiz is no longer available, so question texts and options cannot be shown.
+            </div>
+          )}
+
+          <AnswerReview answers={currentAttempt.answers} questions={quiz?.questions || []} />
+
+          {isReview ? (
+            <div className="mt-8">
+              <Button variant="primary" onClick={() => navigate('/review')} fullWidth>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Go to Today's Review
+              </Button>
+            </div>
+          ) : (
+            <div className="flex flex-col sm:flex-row gap-2 mt-8">
+              <Button
+                variant="primary"
+                onClick={handleRetakeMissed}
+                disabled={missedQuestionIds.length === 0}
+                fullWidth
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                {missedQuestionIds.length > 0
+                  ? `Retake the ${missedQuestionIds.length} I missed`
+                  : quiz ? 'Nothing to retake' : 'Quiz unavailable'}
+              </Button>
+              {quiz && (
+                <Button variant="outline" onClick={() => navigate(`/quiz/${quiz.id}`)} fullWidth>
+                  Retake Full Quiz
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttemptDetailPage;
@@ -0,0 +1,194 @@
+// src/pages/ChallengeDetailPage.tsx
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { AlertCircle, Check, Copy, Loader2, Play, Swords, Trophy, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../components/ui/Button';
+import Card, { CardContent, CardHeader } from '../components/ui/Card';
+import ChallengeComparison from '../components/challenge/ChallengeComparison';
+import { useAuthStore } from '../store/authStore';
+import { useChallengeStore } from '../store/challengeStore';
+import { CHALLENGE_STATE_LABELS, getChallengeLink, getChallengeState } from '../utils/challenges';
+
+// One challenge at /challenges/{id}: the page the link opens. The recipient accepts or declines and plays from here;
+// once both sides have played it shows the comparison
+const ChallengeDetailPage: React.FC = () => {
+  const { challengeId } = useParams<{ challengeId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const userId = user?.id;
+  const { currentChallenge: challenge, results, questions, loading, error, fetchChallenge, respondToChallenge } = useChallengeStore();
+  const [responding, setResponding] = useState<'accept' | 'decline' | null>(null);
+
+  useEffect(() => {
+    if (challengeId && userId) {
+      fetchChallenge(challengeId, userId);
+    }
+  }, [challengeId, userId, fetchChallenge]);
+
+  const handleRespond = async (accept: boolean) => {
+    if (!challengeId || !userId) return;
+    setResponding(accept ? 'accept' : 'decline');
+    try {
+      await respondToChallenge(challengeId, userId, accept);
+    } catch (err: unknown) {
+      console.error('Error responding to the challenge:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not respond to the challenge.');
+    } finally {
+      setResponding(null);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!challengeId) return;
+    try {
+      await navigator.clipboard.writeText(getChallengeLink(challengeId));
+      toast.success('Challenge link copied.');
+    } catch {
+      toast.error('Could not copy the link.');
+    }
+  };
+
+  if (loading || (!challenge && !error)) {
+    return (
+      <div className="flex justify-center items-center min-h-[calc(100vh-128px)]">
+        <Loader2 className="h-12 w-12 animate-spin text-sky-500" />
+        <p className="ml-3 text-lg text-slate-600">Loading challenge...</p>
+      </div>
+    );
+  }
+
+  if (error || !challenge || !userId) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[calc(100vh-128px)] text-red-500 p-4">
+        <AlertCircle size={48} className="mb-4" />
+        <h2 className="text-xl font-semibold">Error Loading Challenge</h2>
+        <p className="text-lg text-center">{error}</p>
+        <Button onClick={() => navigate('/challenges')} className="mt-4">
+          Back to Challenges
+        </Button>
+      </div>
+    );
+  }
+
+  const state = getChallengeState(challenge);
+  const isChallenger = challenge.challengerId === userId;
+  const isRecipient = challenge.recipientId === userId;
+  const opponentName = isChallenger ? challenge.recipientName || 'your friend' : challenge.challengerName;
+  // Someone else opening the link after it was taken only gets the headline
+  const isTakenByOther = !isChallenger && !isRecipient && state !== 'pending';
+
+  const renderOutcome = () => {
+    if (challenge.recipientScore === null || challenge.recipientPoints === null) return null;
+    const difference = challenge.challengerPoints - challenge.recipientPoints;
+    const winnerName = difference > 0 ? challenge.challengerName : challenge.recipientName;
+    const youWon = (difference > 0 && isChallenger) || (difference < 0 && isRecipient);
+    return (
+      <p className="flex items-center justify-center text-lg font-semibold text-slate-800">
+        <Trophy className="h-5 w-5 mr-2 text-yellow-500" />
+        {difference === 0 ? "It's a draw!" : youWon ? `You won by ${Math.abs(difference)} points!` : `${winnerName} won by ${Math.abs(difference)} points.`}
+      </p>
+    );
+  };
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <Card className="max-w-3xl mx-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h1 className="flex items-center text-xl font-bold text-slate-800">
+              <Swords className="h-5 w-5 mr-2 text-sky-500" />
+              {isChallenger ? 'Your challenge' : `${challenge.challengerName} challenged you`}
+            </h1>
+            <span className="text-sm text-slate-500">{CHALLENGE_STATE_LABELS[state]}</span>
+          </div>
+          <p className="text-sm text-slate-500 mt-1">
+            {challenge.quizTitle} · {challenge.totalQuestions} questions · {challenge.mode === 'exam' ? 'exam' : 'practice'} mode
+            {challenge.totalTimeLimitSeconds ? ` · ${Math.round(challenge.totalTimeLimitSeconds / 60)} min time limit` : ''}
+          </p>
+        </CardHeader>
+        <CardContent>
+          <p className="text-slate-700 mb-4">
+            {challenge.challengerName} scored {challenge.challengerScore}/{challenge.totalQuestions} ({challenge.challengerPoints} points).
+            {state === 'pending' || state === 'accepted'
+              ? ` Open until ${challenge.expiresAt.toDate().toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}.`
+              : ''}
+          </p>
+
+          {state === 'pending' && isChallenger && (
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+              <code className="flex-1 truncate rounded bg-slate-50 px-3 py-2 text-sm text-slate-700">{getChallengeLink(challenge.id)}</code>
+              <Button variant="outline" onClick={handleCopyLink} leftIcon={<Copy className="h-4 w-4" />}>
+                Copy link
+              </Button>
+            </div>
+          )}
+          {state === 'pending' && !isChallenger && (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button
+                variant="outline"
+                onClick={() => handleRespond(false)}
+                isLoading={responding === 'decline'}
+                disabled={responding !== null}
+                leftIcon={<X className="h-4 w-4" />}
+                fullWidth
+              >
+                Decline
+              </Button>
+              <Button
+                onClick={() => handleRespond(true)}
+                isLoading={responding === 'accept'}
+                disabled={responding !== null}
+                leftIcon={<Check className="h-4 w-4" />}
+                fullWidth
+              >
+                Accept Challenge
+              </Button>
+            </div>
+          )}
+          {state === 'accepted' && isRecipient && (
+            challenge.recipientSessionId ? (
+              <Button onClick={() => navigate(`/quiz/${challenge.quizId}`)} leftIcon={<Play className="h-4 w-4" />} fullWidth>
+                Continue Your Run
+              </Button>
+            ) : (
+              <Button
+                onClick={() => navigate(`/quiz/${challenge.quizId}`, { state: { challenge: { id: challenge.id, mode: challenge.mode } } })}
+                leftIcon={<Play className="h-4 w-4" />}
+                fullWidth
+              >
+                Play Now (one attempt)
+              </Button>
+            )
+          )}
+          {state === 'accepted' && isChallenger && (
+            <p className="text-sm text-slate-600">{opponentName} accepted and has until the deadline to play.</p>
+          )}
+          {isTakenByOther && <p className="text-sm text-slate-600">This challenge has already been taken by someone else.</p>}
+          {state === 'declined' && !isTakenByOther && (
+            <p className="text-sm text-slate-600">{isRecipient ? 'You declined this challenge.' : `${opponentName} declined this challenge.`}</p>
+          )}
+          {state === 'expired' && !isTakenByOther && <p className="text-sm text-slate-600">This challenge expired before it was played.</p>}
+          {state === 'completed' && !isTakenByOther && renderOutcome()}
+        </CardContent>
+      </Card>
+
+      {state === 'completed' && (isChallenger || isRecipient) && (
+        <Card className="max-w-5xl mx-auto">
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-slate-800">Side by Side</h2>
+          </CardHeader>
+          <CardContent>
+            <ChallengeComparison challenge={challenge} results={results} questions={questions} userId={userId} />
+          </CardContent>
+        </Card>
+      )}
+
+      <p className="text-center text-sm">
+        <Link to="/challenges" className="text-sky-600 hover:underline">All your challenges</Link>
+      </p>
+    </div>
+  );
+};
+
+export default ChallengeDetailPage;
@@ -0,0 +1,110 @@
+// src/pages/ChallengesPage.tsx
+import React, { useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, ChevronRight, Loader2, Swords } from 'lucide-react';
+import Card, { CardContent, CardHeader } from '../components/ui/Card';
+import { useAuthStore } from '../store/authStore';
+import { useChallengeStore } from '../store/challengeStore';
+import { Challenge } from '../types';
+import { CHALLENGE_STATE_LABELS, ChallengeState, getChallengeState } from '../utils/challenges';
+
+const STATE_STYLES: Record<ChallengeState, string> = {
+  pending: 'bg-yellow-50 text-yellow-700',
+  accepted: 'bg-sky-50 text-sky-700',
+  declined: 'bg-slate-100 text-slate-600',
+  completed: 'bg-green-50 text-green-700',
+  expired: 'bg-slate-100 text-slate-500',
+};
+
+// Every challenge the user sent or took, split into the ones still in play and the finished ones
+const ChallengesPage: React.FC = () => {
+  const { user } = useAuthStore();
+  const userId = user?.id;
+  const { challenges, loading, error, fetchChallenges } = useChallengeStore();
+
+  useEffect(() => {
+    if (userId) {
+      fetchChallenges(userId);
+    }
+  }, [userId, fetchChallenges]);
+
+  const [open, closed] = useMemo(() => {
+    const isOpen = (challenge: Challenge) => ['pending', 'accepted'].includes(getChallengeState(challenge));
+    return [challenges.filter(isOpen), challenges.filter(challenge => !isOpen(challenge))];
+  }, [challenges]);
+
+  const renderChallenge = (challenge: Challenge) => {
+    const state = getChallengeState(challenge);
+    const isChallenger = challenge.challengerId === userId;
+    const opponent = isChallenger ? challenge.recipientName || 'Not taken yet' : challenge.challengerName;
+    const myPoints = isChallenger ? challenge.challengerPoints : challenge.recipientPoints;
+    const theirPoints = isChallenger ? challenge.recipientPoints : challenge.challengerPoints;
+    return (
+      <li key={challenge.id}>
+        <Link to={`/challenges/${challenge.id}`} className="flex items-center justify-between rounded-md px-3 py-3 hover:bg-slate-50">
+          <div>
+            <p className="font-medium text-slate-800">{challenge.quizTitle}</p>
+            <p className="text-sm text-slate-500">
+              {isChallenger ? 'Sent' : 'From'}: {opponent} · {challenge.createdAt.toDate().toLocaleDateString()}
+              {state === 'completed' && myPoints !== null && theirPoints !== null && ` · ${myPoints} vs ${theirPoints} points`}
+            </p>
+          </div>
+          <div className="flex items-center">
+            <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATE_STYLES[state]}`}>{CHALLENGE_STATE_LABELS[state]}</span>
+            <ChevronRight className="h-4 w-4 ml-2 text-slate-400" />
+          </div>
+        </Link>
+      </li>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[calc(100vh-128px)]">
+        <Loader2 className="h-12 w-12 animate-spin text-sky-500" />
+        <p className="ml-3 text-lg text-slate-600">Loading your challenges...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <div className="max-w-3xl mx-auto">
+        <h1 className="flex items-center text-2xl font-bold text-slate-800">
+          <Swords className="h-6 w-6 mr-2 text-sky-500" />
+          Challenges
+        </h1>
+        <p className="text-slate-600 mt-1">
+          Finish a quiz and choose "Challenge a friend" to send it. Your friend plays the same questions in the same order.
+        </p>
+      </div>
+
+      {error && (
+        <p className="flex items-center max-w-3xl mx-auto text-red-600">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </p>
+      )}
+
+      {[
+        { title: 'In Play', items: open, empty: 'No open challenges.' },
+        { title: 'Finished', items: closed, empty: 'No finished challenges yet.' },
+      ].map(section => (
+        <Card key={section.title} className="max-w-3xl mx-auto">
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-slate-800">{section.title}</h2>
+          </CardHeader>
+          <CardContent>
+            {section.items.length === 0 ? (
+              <p className="text-sm text-slate-500">{section.empty}</p>
+            ) : (
+              <ul className="divide-y divide-slate-100">{section.items.map(renderChallenge)}</ul>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default ChallengesPage;
@@ -0,0 +1,223 @@
+// src/pages/CreateTournamentPage.tsx
+import React, { FormEvent, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Trophy } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../components/ui/Button';
+import Card, { CardContent, CardHeader } from '../components/ui/Card';
+import Input from '../components/ui/Input';
+import Select from '../components/ui/Select';
+import { useQuizStore } from '../store/quizStore';
+import { NewTournament, useTournamentStore } from '../store/tournamentStore';
+import { QuestionType, TournamentFormat, TournamentRoundGeneration } from '../types';
+import { QUESTION_TYPE_LABELS } from '../utils/quizHelpers';
+import { getRoundCount, MAX_TOURNAMENT_PLAYERS, MIN_TOURNAMENT_PLAYERS, TOURNAMENT_FORMAT_LABELS } from '../utils/tournaments';
+
+// Each round is played on a public quiz picked here, or on one generated when the round opens
+interface RoundDraft {
+  source: 'quiz' | 'generate';
+  quizId: string;
+  generation: TournamentRoundGeneration;
+}
+
+const DEFAULT_ROUND: RoundDraft = {
+  source: 'generate',
+  quizId: '',
+  generation: { category: '', difficulty: 'medium', numberOfQuestions: 10, quizType: 'multiple_choice' },
+};
+
+// One address per line (commas work too); the order is the seeding
+const parseEmails = (text: string): string[] => text.split(/[\n,]/).map(email => email.trim()).filter(Boolean);
+
+const CreateTournamentPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { quizzes, fetchQuizzes } = useQuizStore();
+  const { createTournament } = useTournamentStore();
+  const [name, setName] = useState('');
+  const [format, setFormat] = useState<TournamentFormat>('single_elimination');
+  const [emailsText, setEmailsText] = useState('');
+  const [roundDrafts, setRoundDrafts] = useState<RoundDraft[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Public quizzes to pick from; every participant must be able to open the round's quiz
+  useEffect(() => {
+    fetchQuizzes({ visibility: 'global', status: 'active' });
+  }, [fetchQuizzes]);
+
+  const emails = parseEmails(emailsText);
+  const roundCount = getRoundCount(format, emails.length);
+  const rounds = Array.from({ length: roundCount }, (_, index) => roundDrafts[index] || DEFAULT_ROUND);
+
+  const updateRound = (index: number, update: Partial<RoundDraft>) => {
+    setRoundDrafts(Array.from({ length: Math.max(roundDrafts.length, roundCount) }, (_, i) => {
+      const draft = roundDrafts[i] || DEFAULT_ROUND;
+      return i === index ? { ...draft, ...update } : draft;
+    }));
+  };
+  const updateGeneration = (index: number, update: Partial<TournamentRoundGeneration>) =>
+    updateRound(index, { generation: { ...rounds[index].generation, ...update } });
+
+  const validate = (): string | null => {
+    if (!name.trim()) return 'Give the tournament a name.';
+    if (emails.length < MIN_TOURNAMENT_PLAYERS || emails.length > MAX_TOURNAMENT_PLAYERS) {
+      return `Enter between ${MIN_TOURNAMENT_PLAYERS} and ${MAX_TOURNAMENT_PLAYERS} participant emails.`;
+    }
+    if (new Set(emails.map(email => email.toLowerCase())).size !== emails.length) return 'Each participant can only be entered once.';
+    const incomplete = rounds.findIndex(round =>
+      round.source === 'quiz' ? !round.quizId : !round.generation.category.trim() || round.generation.numberOfQuestions < 1 || round.generation.numberOfQuestions > 20);
+    if (incomplete !== -1) return `Round ${incomplete + 1} needs a quiz, or a category and 1 to 20 questions to generate.`;
+    return null;
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const validationError = validate();
+    setFormError(validationError);
+    if (validationError) return;
+
+    const tournament: NewTournament = {
+      name: name.trim(),
+      format,
+      participantEmails: emails,
+      rounds: rounds.map(round => (round.source === 'quiz' ? { quizId: round.quizId } : { generation: round.generation })),
+    };
+    setSubmitting(true);
+    try {
+      const tournamentId = await createTournament(tournament);
+      toast.success('Tournament created. The first round is open!');
+      navigate(`/tournaments/${tournamentId}`);
+    } catch (err: unknown) {
+      console.error('Error creating the tournament:', err);
+      setFormError(err instanceof Error ? err.message : 'Could not create the tournament.');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4">
+      <Card className="max-w-3xl mx-auto">
+        <CardHeader>
+          <h1 className="flex items-center text-xl font-bold text-slate-800">
+            <Trophy className="h-5 w-5 mr-2 text-yellow-500" />
+            New Tournament
+          </h1>
+          <p className="text-sm text-slate-500 mt-1">
+            Matches are settled on score, with the quicker player winning a tie. The first round opens as soon as you create it.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <Input label="Name" id="tournament-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Office League: Spring" fullWidth />
+
+            <Select label="Format" id="tournament-format" value={format} onChange={(e) => setFormat(e.target.value as TournamentFormat)} fullWidth>
+              {(Object.keys(TOURNAMENT_FORMAT_LABELS) as TournamentFormat[]).map(option => (
+                <option key={option} value={option}>{TOURNAMENT_FORMAT_LABELS[option]}</option>
+              ))}
+            </Select>
+
+            <div>
+              <label htmlFor="tournament-participants" className="block text-sm font-medium text-slate-700 mb-1">
+                Participants ({emails.length}/{MAX_TOURNAMENT_PLAYERS})
+              </label>
+              <textarea
+                id="tournament-participants"
+                value={emailsText}
+                onChange={(e) => setEmailsText(e.target.value)}
+                rows={6}
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+                placeholder={'One email per line, top seed first\nalex@example.com\nsam@example.com'}
+              />
+              <p className="mt-1 text-xs text-slate-500">Everyone needs an account. You can change the seeding until the first match is started.</p>
+            </div>
+
+            {roundCount > 0 && (
+              <fieldset className="space-y-4">
+                <legend className="text-sm font-medium text-slate-700 mb-2">Rounds ({roundCount})</legend>
+                {rounds.map((round, index) => (
+                  <div key={index} className="rounded-md border border-slate-200 p-3 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-semibold text-slate-800">Round {index + 1}</span>
+                      <Select
+                        id={`round-${index}-source`}
+                        value={round.source}
+                        onChange={(e) => updateRound(index, { source: e.target.value as RoundDraft['source'] })}
+                      >
+                        <option value="generate">Generate a quiz</option>
+                        <option value="quiz">Pick a quiz</option>
+                      </Select>
+                    </div>
+                    {round.source === 'quiz' ? (
+                      <Select id={`round-${index}-quiz`} value={round.quizId} onChange={(e) => updateRound(index, { quizId: e.target.value })} fullWidth>
+                        <option value="">Choose a public quiz</option>
+                        {quizzes.map(quiz => (
+                          <option key={quiz.id} value={quiz.id}>{quiz.title}</option>
+                        ))}
+                      </Select>
+                    ) : (
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <Input
+                          label="Category"
+                          id={`round-${index}-category`}
+                          value={round.generation.category}
+                          onChange={(e) => updateGeneration(index, { category: e.target.value })}
+                          placeholder="e.g., Football"
+                          fullWidth
+                        />
+                        <Input
+                          label="Questions (1-20)"
+                          id={`round-${index}-questions`}
+                          type="number"
+                          min="1"
+                          max="20"
+                          value={round.generation.numberOfQuestions}
+                          onChange={(e) => updateGeneration(index, { numberOfQuestions: parseInt(e.target.value, 10) || 0 })}
+                          fullWidth
+                        />
+                        <Select
+                          label="Difficulty"
+                          id={`round-${index}-difficulty`}
+                          value={round.generation.difficulty}
+                          onChange={(e) => updateGeneration(index, { difficulty: e.target.value as TournamentRoundGeneration['difficulty'] })}
+                          fullWidth
+                        >
+                          <option value="easy">Easy</option>
+                          <option value="medium">Medium</option>
+                          <option value="hard">Hard</option>
+                        </Select>
+                        <Select
+                          label="Question Type"
+                          id={`round-${index}-type`}
+                          value={round.generation.quizType}
+                          onChange={(e) => updateGeneration(index, { quizType: e.target.value as QuestionType })}
+                          fullWidth
+                        >
+                          {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+                            <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+                          ))}
+                        </Select>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </fieldset>
+            )}
+
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => navigate('/tournaments')} fullWidth>
+                Cancel
+              </Button>
+              <Button type="submit" isLoading={submitting} fullWidth>
+                Create Tournament
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CreateTournamentPage;
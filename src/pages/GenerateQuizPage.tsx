@@ -3,9 +3,12 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { AlertCircle, Loader2 } from 'lucide-react';
 import QuizForm from '../components/admin/QuizForm';
-import QuizPlayer from '../components/quiz/QuizPlayer';
-import { Quiz, QuizConfig } from '../types';
+import QuestionEditor from '../components/editor/QuestionEditor';
+import QuestionPreview from '../components/editor/QuestionPreview';
+import { Quiz, QuizConfig, QuizQuestion } from '../types';
 import { useQuizStore } from '../store/quizStore';
+import { regenerateQuestionCallable } from '../firebase/functions';
+import { cleanQuestion, hasValidationErrors, validateQuestion, validateQuiz } from '../utils/quizValidation';
 import toast from 'react-hot-toast';
 
 const GenerateQuizPage: React.FC = () => {
@@ -14,6 +17,10 @@ const GenerateQuizPage: React.FC = () => {
   const [generatedQuiz, setGeneratedQuiz] = useState<Quiz | null>(null);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [generationError, setGenerationError] = useState<string | null>(null);
+  // Per-question review of the preview; changes stay local until the quiz is saved
+  const [editingQuestionId, setEditingQuestionId] = useState<string | null>(null);
+  const [regeneratingQuestionId, setRegeneratingQuestionId] = useState<string | null>(null);
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
 
   const saveQuiz = useQuizStore((state) => state.saveQuiz);
   const { generateQuiz } = useQuizStore();
@@ -56,6 +63,8 @@ const GenerateQuizPage: React.FC = () => {
     setGeneratedQuiz(quiz);
     setIsGenerating(false);
     setGenerationError(null);
+    setEditingQuestionId(null);
+    setHasUnsavedChanges(false);
   };
 
   const handleGenerationStart = () => {
@@ -70,6 +79,62 @@ const GenerateQuizPage: React.FC = () => {
     setGeneratedQuiz(null);
   };
 
+  const updateQuestions = (update: (questions: QuizQuestion[]) => QuizQuestion[]) => {
+    setGeneratedQuiz(prev => (prev ? { ...prev, questions: update(prev.questions) } : prev));
+    setHasUnsavedChanges(true);
+  };
+
+  const handleQuestionChange = (index: number, question: QuizQuestion) => {
+    updateQuestions(questions => questions.map((q, i) => (i === index ? question : q)));
+  };
+
+  const handleRemoveQuestion = (index: number) => {
+    updateQuestions(questions => questions.filter((_, i) => i !== index));
+    setEditingQuestionId(null);
+  };
+
+  const handleMoveQuestion = (index: number, direction: -1 | 1) => {
+    updateQuestions(questions => {
+      const target = index + direction;
+      if (target < 0 || target >= questions.length) return questions;
+      const next = [...questions];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleRegenerateQuestion = async (question: QuizQuestion) => {
+    if (!generatedQuiz) return;
+    setRegeneratingQuestionId(question.id);
+    try {
+      const result = await regenerateQuestionCallable({
+        quizId: generatedQuiz.id,
+        questionId: question.id,
+        questionType: question.type,
+        avoidQuestions: generatedQuiz.questions.map(q => q.text),
+      });
+      const replacement = result.data.question;
+      updateQuestions(questions => questions.map(q => (q.id === question.id ? replacement : q)));
+      toast.success('Question regenerated.');
+    } catch (err: unknown) {
+      console.error('Error regenerating question:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to regenerate question.');
+    } finally {
+      setRegeneratingQuestionId(null);
+    }
+  };
+
+  // Saves the reviewed quiz; returns false when it is not ready to be saved
+  const persistGeneratedQuiz = async (quiz: Quiz): Promise<boolean> => {
+    if (hasValidationErrors(validateQuiz(quiz))) {
+      toast.error('Please fix the questions with problems before saving.');
+      return false;
+    }
+    await saveQuiz({ ...quiz, questions: quiz.questions.map(cleanQuestion) });
+    setHasUnsavedChanges(false);
+    return true;
+  };
+
   const handleSaveGeneratedQuiz = async () => {
     if (!generatedQuiz) {
       toast.error('No quiz to save. Please generate one first.');
@@ -77,7 +142,7 @@ const GenerateQuizPage: React.FC = () => {
     }
 
     try {
-      await saveQuiz(generatedQuiz);
+      if (!(await persistGeneratedQuiz(generatedQuiz))) return;
       toast.success('Generated quiz saved successfully!');
       setGeneratedQuiz(null); // Clear the preview after saving
       navigate('/my-quizzes'); // Navigate to my quizzes after saving
@@ -87,12 +152,22 @@ const GenerateQuizPage: React.FC = () => {
     }
   };
 
-  const handlePlayGeneratedQuiz = () => {
-    if (generatedQuiz) {
-      navigate(`/quiz/${generatedQuiz.id}`);
-    } else {
+  const handlePlayGeneratedQuiz = async () => {
+    if (!generatedQuiz) {
       toast.error('No quiz to play. Please generate one first.');
+      return;
     }
+    // The quiz is played from Firestore, so edits made in the preview are saved first
+    if (hasUnsavedChanges) {
+      try {
+        if (!(await persistGeneratedQuiz(generatedQuiz))) return;
+      } catch (saveError: unknown) {
+        console.error('Error saving generated quiz:', saveError);
+        toast.error(saveError instanceof Error ? saveError.message : 'Failed to save generated quiz.');
+        return;
+      }
+    }
+    navigate(`/quiz/${generatedQuiz.id}`);
   };
 
   return (
@@ -137,7 +212,45 @@ const GenerateQuizPage: React.FC = () => {
 
             {generatedQuiz && !isGenerating && !generationError && (
               <>
-                <QuizPlayer quizData={generatedQuiz} />
+                <div className="space-y-3">
+                  <p className="text-sm text-slate-500">
+                    Review the questions below. Edit, remove or regenerate any that are not right before saving.
+                  </p>
+                  {generatedQuiz.questions.map((question, index) =>
+                    editingQuestionId === question.id ? (
+                      <div key={question.id}>
+                        <QuestionEditor
+                          question={question}
+                          index={index}
+                          total={generatedQuiz.questions.length}
+                          errors={validateQuestion(question)}
+                          onChange={(updated) => handleQuestionChange(index, updated)}
+                          onRemove={() => handleRemoveQuestion(index)}
+                          onMove={(direction) => handleMoveQuestion(index, direction)}
+                        />
+                        <div className="flex justify-end mt-2">
+                          <button
+                            onClick={() => setEditingQuestionId(null)}
+                            className="px-4 py-1 text-sm bg-slate-200 text-slate-800 font-medium rounded-md hover:bg-slate-300"
+                          >
+                            Done
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <QuestionPreview
+                        key={question.id}
+                        question={question}
+                        index={index}
+                        onEdit={() => setEditingQuestionId(question.id)}
+                        onRemove={generatedQuiz.questions.length > 1 ? () => handleRemoveQuestion(index) : undefined}
+                        onRegenerate={() => handleRegenerateQuestion(question)}
+                        isRegenerating={regeneratingQuestionId === question.id}
+                        disabled={regeneratingQuestionId !== null}
+                      />
+                    )
+                  )}
+                </div>
                 <div className="mt-6 flex flex-col sm:flex-row gap-4 justify-end">
                   <button
                     onClick={handlePlayGeneratedQuiz}
@@ -0,0 +1,329 @@
+// src/pages/GroupPage.tsx
+import React, { FormEvent, useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { AlertCircle, ClipboardList, Copy, Loader2, LogOut, Plus, RefreshCw, UserMinus, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../components/ui/Button';
+import Card, { CardContent, CardHeader } from '../components/ui/Card';
+import Input from '../components/ui/Input';
+import Select from '../components/ui/Select';
+import AssignmentGrid from '../components/group/AssignmentGrid';
+import AssignmentList from '../components/group/AssignmentList';
+import QuestionDifficultyList from '../components/group/QuestionDifficultyList';
+import { useAuthStore } from '../store/authStore';
+import { useGroupStore } from '../store/groupStore';
+import { useQuizStore } from '../store/quizStore';
+import { getGroupInviteLink, MAX_ASSIGNMENT_ATTEMPTS, MAX_GROUP_MEMBERS } from '../utils/groups';
+
+// The value a datetime-local input takes for a time: local, to the minute
+const toDateTimeInput = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+};
+
+// New assignments are due a week out unless the coach picks another time
+const DEFAULT_DUE_DAYS = 7;
+
+// One group at /groups/{id}. The coach manages the roster and assignments and follows the results;
+// a member sees what the group has been assigned
+const GroupPage: React.FC = () => {
+  const { groupId } = useParams<{ groupId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const userId = user?.id;
+  const {
+    group, assignments, attempts, loading, error,
+    watchGroup, watchAssignments, fetchAttempts, leaveGroup, removeMember, resetInvite, createAssignment,
+  } = useGroupStore();
+  const { quizzes, fetchQuizzes } = useQuizStore();
+  const [quizId, setQuizId] = useState('');
+  const [dueAt, setDueAt] = useState(() => toDateTimeInput(new Date(Date.now() + DEFAULT_DUE_DAYS * 24 * 60 * 60 * 1000)));
+  const [maxAttempts, setMaxAttempts] = useState(1);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null); // Which action is running
+
+  useEffect(() => {
+    if (!groupId || !userId) return;
+    return watchGroup(groupId);
+  }, [groupId, userId, watchGroup]);
+
+  const isCoach = !!group && group.coachId === userId;
+  const loadedGroupId = group?.id;
+
+  // Subscribed once the group has loaded, since only the coach and members may read the assignments
+  useEffect(() => {
+    if (!loadedGroupId) return;
+    return watchAssignments(loadedGroupId);
+  }, [loadedGroupId, watchAssignments]);
+
+  // The coach sees every member's attempts, a member only their own
+  useEffect(() => {
+    if (loadedGroupId && userId) {
+      fetchAttempts(loadedGroupId, isCoach ? null : userId);
+    }
+  }, [loadedGroupId, userId, isCoach, fetchAttempts]);
+
+  // Assignments are played on public quizzes, so every member can open them
+  useEffect(() => {
+    if (isCoach) {
+      fetchQuizzes({ visibility: 'global', status: 'active' });
+    }
+  }, [isCoach, fetchQuizzes]);
+
+  // The question breakdown follows the most recent assignment until the coach picks another
+  useEffect(() => {
+    if (!selectedId && assignments.length > 0) setSelectedId(assignments[assignments.length - 1].id);
+  }, [selectedId, assignments]);
+
+  const run = async (key: string, action: () => Promise<void>, success: string) => {
+    setBusy(key);
+    try {
+      await action();
+      toast.success(success);
+    } catch (err: unknown) {
+      console.error('Group action failed:', err);
+      toast.error(err instanceof Error ? err.message : 'Something went wrong.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCopyInvite = async () => {
+    if (!group) return;
+    try {
+      await navigator.clipboard.writeText(getGroupInviteLink(group.inviteCode));
+      toast.success('Invite link copied. Send it to your players!');
+    } catch {
+      toast.error('Could not copy the link.');
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!group || !window.confirm(`Leave ${group.name}? Your coach keeps the results you already have.`)) return;
+    setBusy('leave');
+    try {
+      await leaveGroup(group.id);
+      toast.success(`You left ${group.name}.`);
+      navigate('/groups');
+    } catch (err: unknown) {
+      console.error('Error leaving the group:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not leave the group.');
+      setBusy(null);
+    }
+  };
+
+  const handleCreateAssignment = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!group || !quizId) return;
+    const dueMillis = new Date(dueAt).getTime();
+    if (!Number.isFinite(dueMillis) || dueMillis <= Date.now()) {
+      toast.error('Pick a due date in the future.');
+      return;
+    }
+    await run('assign', async () => {
+      await createAssignment(group.id, quizId, dueMillis, maxAttempts);
+      setQuizId('');
+    }, 'Quiz assigned to the group.');
+  };
+
+  if (loading || (!group && !error)) {
+    return (
+      <div className="flex justify-center items-center min-h-[calc(100vh-128px)]">
+        <Loader2 className="h-12 w-12 animate-spin text-sky-500" />
+        <p className="ml-3 text-lg text-slate-600">Loading group...</p>
+      </div>
+    );
+  }
+
+  if (error || !group || !userId) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[calc(100vh-128px)] text-red-500 p-4">
+        <AlertCircle size={48} className="mb-4" />
+        <h2 className="text-xl font-semibold">Error Loading Group</h2>
+        <p className="text-lg text-center">{error}</p>
+        <Button onClick={() => navigate('/groups')} className="mt-4">
+          Back to Groups
+        </Button>
+      </div>
+    );
+  }
+
+  const selectedAssignment = assignments.find(assignment => assignment.id === selectedId) || null;
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <Card className="max-w-5xl mx-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h1 className="flex items-center text-xl font-bold text-slate-800">
+              <Users className="h-5 w-5 mr-2 text-sky-500" />
+              {group.name}
+            </h1>
+            {!isCoach && (
+              <Button variant="ghost" size="sm" onClick={handleLeave} isLoading={busy === 'leave'} leftIcon={<LogOut className="h-4 w-4" />}>
+                Leave
+              </Button>
+            )}
+          </div>
+          <p className="text-sm text-slate-500 mt-1">
+            {isCoach ? 'You coach this group' : `Coached by ${group.coachName}`} · {group.members.length}/{MAX_GROUP_MEMBERS} members
+          </p>
+        </CardHeader>
+        {isCoach && (
+          <CardContent>
+            {group.members.length === 0 ? (
+              <p className="text-sm text-slate-500">No members yet. Send your players the invite link below.</p>
+            ) : (
+              <ul className="divide-y divide-slate-100">
+                {group.members.map(member => (
+                  <li key={member.userId} className="flex items-center justify-between py-2">
+                    <span className="text-slate-800">{member.displayName}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        if (!window.confirm(`Remove ${member.displayName} from ${group.name}?`)) return;
+                        run(`remove-${member.userId}`, () => removeMember(group.id, member.userId), `${member.displayName} was removed.`);
+                      }}
+                      isLoading={busy === `remove-${member.userId}`}
+                      disabled={busy !== null}
+                      leftIcon={<UserMinus className="h-4 w-4" />}
+                    >
+                      Remove
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      {isCoach ? (
+        <>
+          <Card className="max-w-5xl mx-auto">
+            <CardHeader>
+              <h2 className="text-lg font-semibold text-slate-800">Invite Players</h2>
+              <p className="text-sm text-slate-500 mt-1">Anyone with this link can join the group.</p>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <code className="flex-1 truncate rounded bg-slate-50 px-3 py-2 text-sm text-slate-700">{getGroupInviteLink(group.inviteCode)}</code>
+                <Button variant="outline" onClick={handleCopyInvite} leftIcon={<Copy className="h-4 w-4" />}>
+                  Copy link
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => {
+                    if (!window.confirm('Create a new invite link? The current one will stop working.')) return;
+                    run('invite', () => resetInvite(group.id), 'New invite link ready.');
+                  }}
+                  isLoading={busy === 'invite'}
+                  leftIcon={<RefreshCw className="h-4 w-4" />}
+                >
+                  New link
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="max-w-5xl mx-auto">
+            <CardHeader>
+              <h2 className="text-lg font-semibold text-slate-800">Assign a Quiz</h2>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCreateAssignment} className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+                <Select label="Quiz" id="assignment-quiz" value={quizId} onChange={(e) => setQuizId(e.target.value)} fullWidth>
+                  <option value="">Choose a public quiz</option>
+                  {quizzes.map(quiz => (
+                    <option key={quiz.id} value={quiz.id}>{quiz.title}</option>
+                  ))}
+                </Select>
+                <Input
+                  label="Due"
+                  id="assignment-due"
+                  type="datetime-local"
+                  value={dueAt}
+                  onChange={(e) => setDueAt(e.target.value)}
+                  fullWidth
+                />
+                <Input
+                  label={`Attempts (1-${MAX_ASSIGNMENT_ATTEMPTS})`}
+                  id="assignment-attempts"
+                  type="number"
+                  min="1"
+                  max={MAX_ASSIGNMENT_ATTEMPTS}
+                  value={maxAttempts}
+                  onChange={(e) => setMaxAttempts(parseInt(e.target.value, 10) || 1)}
+                  fullWidth
+                />
+                <div className="sm:col-span-3">
+                  <Button type="submit" isLoading={busy === 'assign'} disabled={!quizId} leftIcon={<Plus className="h-4 w-4" />} fullWidth>
+                    Assign
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card className="max-w-5xl mx-auto">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <h2 className="flex items-center text-lg font-semibold text-slate-800">
+                  <ClipboardList className="h-5 w-5 mr-2 text-sky-500" />
+                  Results
+                </h2>
+                <Button variant="ghost" size="sm" onClick={() => fetchAttempts(group.id, null)} leftIcon={<RefreshCw className="h-4 w-4" />}>
+                  Refresh
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {assignments.length === 0 || group.members.length === 0 ? (
+                <p className="text-sm text-slate-500">Results show up here once the group has members and assignments.</p>
+              ) : (
+                <AssignmentGrid group={group} assignments={assignments} attempts={attempts} selectedId={selectedId} onSelect={setSelectedId} />
+              )}
+            </CardContent>
+          </Card>
+
+          {selectedAssignment && (
+            <Card className="max-w-5xl mx-auto">
+              <CardHeader>
+                <h2 className="text-lg font-semibold text-slate-800">Question Difficulty: {selectedAssignment.quizTitle}</h2>
+                <p className="text-sm text-slate-500 mt-1">
+                  Share of each question the members got right on their first attempt, hardest first.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <QuestionDifficultyList assignment={selectedAssignment} attempts={attempts} />
+              </CardContent>
+            </Card>
+          )}
+        </>
+      ) : (
+        <Card className="max-w-5xl mx-auto">
+          <CardHeader>
+            <h2 className="flex items-center text-lg font-semibold text-slate-800">
+              <ClipboardList className="h-5 w-5 mr-2 text-sky-500" />
+              Assigned
+            </h2>
+          </CardHeader>
+          <CardContent>
+            {assignments.length === 0 ? (
+              <p className="text-sm text-slate-500">Your coach has not assigned anything yet.</p>
+            ) : (
+              <AssignmentList items={assignments.map(assignment => ({ group, assignment }))} attempts={attempts} userId={userId} />
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <p className="text-center text-sm">
+        <Link to="/groups" className="text-sky-600 hover:underline">All your groups</Link>
+      </p>
+    </div>
+  );
+};
+
+export default GroupPage;
@@ -0,0 +1,159 @@
+// src/pages/GroupsPage.tsx
+import React, { FormEvent, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { AlertCircle, ChevronRight, ClipboardList, Loader2, Plus, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../components/ui/Button';
+import Card, { CardContent, CardHeader } from '../components/ui/Card';
+import Input from '../components/ui/Input';
+import AssignmentList from '../components/group/AssignmentList';
+import { useAuthStore } from '../store/authStore';
+import { useGroupStore } from '../store/groupStore';
+import { Group } from '../types';
+import { MAX_GROUP_NAME_LENGTH } from '../utils/groups';
+
+// The user's Assigned list, the groups they coach and the groups they are in
+const GroupsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const userId = user?.id;
+  const { coachedGroups, memberGroups, assigned, assignedAttempts, loading, error, fetchGroups, createGroup } = useGroupStore();
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (userId) {
+      fetchGroups(userId);
+    }
+  }, [userId, fetchGroups]);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setCreating(true);
+    try {
+      const groupId = await createGroup(name.trim());
+      toast.success('Group created. Share the invite link with your players!');
+      navigate(`/groups/${groupId}`);
+    } catch (err: unknown) {
+      console.error('Error creating a group:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not create the group.');
+      setCreating(false);
+    }
+  };
+
+  const renderGroup = (group: Group) => (
+    <li key={group.id}>
+      <Link to={`/groups/${group.id}`} className="flex items-center justify-between rounded-md px-3 py-3 hover:bg-slate-50">
+        <div>
+          <p className="font-medium text-slate-800">{group.name}</p>
+          <p className="text-sm text-slate-500">
+            {group.coachId === userId ? `${group.members.length} ${group.members.length === 1 ? 'member' : 'members'}` : `Coached by ${group.coachName}`}
+          </p>
+        </div>
+        <ChevronRight className="h-4 w-4 text-slate-400" />
+      </Link>
+    </li>
+  );
+
+  if (loading || !userId) {
+    return (
+      <div className="flex justify-center items-center min-h-[calc(100vh-128px)]">
+        <Loader2 className="h-12 w-12 animate-spin text-sky-500" />
+        <p className="ml-3 text-lg text-slate-600">Loading your groups...</p>
+      </div>
+    );
+  }
+
+  // Open assignments soonest due first, then the ones past their due date, latest first
+  const now = Date.now();
+  const openAssigned = assigned.filter(item => item.assignment.dueAt.toMillis() >= now);
+  const pastAssigned = assigned.filter(item => item.assignment.dueAt.toMillis() < now).reverse();
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <div className="max-w-3xl mx-auto">
+        <h1 className="flex items-center text-2xl font-bold text-slate-800">
+          <Users className="h-6 w-6 mr-2 text-sky-500" />
+          Groups
+        </h1>
+        <p className="text-slate-600 mt-1">Coaches set their groups quizzes to drill; members find them under Assigned.</p>
+      </div>
+
+      {error && (
+        <p className="flex items-center max-w-3xl mx-auto text-red-600">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </p>
+      )}
+
+      {memberGroups.length > 0 && (
+        <Card className="max-w-3xl mx-auto">
+          <CardHeader>
+            <h2 className="flex items-center text-lg font-semibold text-slate-800">
+              <ClipboardList className="h-5 w-5 mr-2 text-sky-500" />
+              Assigned
+            </h2>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {openAssigned.length === 0 ? (
+              <p className="text-sm text-slate-500">Nothing due right now.</p>
+            ) : (
+              <AssignmentList items={openAssigned} attempts={assignedAttempts} userId={userId} showGroup />
+            )}
+            {pastAssigned.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold text-slate-600">Past due</h3>
+                <AssignmentList items={pastAssigned} attempts={assignedAttempts} userId={userId} showGroup />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="max-w-3xl mx-auto">
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-slate-800">Groups You Coach</h2>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {coachedGroups.length === 0 ? (
+            <p className="text-sm text-slate-500">Start a group to assign quizzes to your players and follow their results.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100">{coachedGroups.map(renderGroup)}</ul>
+          )}
+          <form onSubmit={handleCreate} className="flex flex-col sm:flex-row sm:items-end gap-2">
+            <div className="flex-1">
+              <Input
+                label="New group"
+                id="group-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={MAX_GROUP_NAME_LENGTH}
+                placeholder="e.g., Under-12s"
+                fullWidth
+              />
+            </div>
+            <Button type="submit" isLoading={creating} disabled={!name.trim()} leftIcon={<Plus className="h-4 w-4" />}>
+              Create Group
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="max-w-3xl mx-auto">
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-slate-800">Your Groups</h2>
+        </CardHeader>
+        <CardContent>
+          {memberGroups.length === 0 ? (
+            <p className="text-sm text-slate-500">You are not in a group yet. Ask your coach for their group's invite link.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100">{memberGroups.map(renderGroup)}</ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default GroupsPage;
@@ -1,18 +1,33 @@
 // pages/HistoryPage.tsx
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Calendar, Clock, BarChart4, Trophy } from 'lucide-react';
+import { Calendar, Clock, BarChart4, Trophy, Tag, Loader2 } from 'lucide-react';
 import Card, { CardContent } from '../components/ui/Card';
+import Button from '../components/ui/Button';
+import Input from '../components/ui/Input';
+import Select from '../components/ui/Select';
 import { useQuizStore } from '../store/quizStore';
 import { useAuthStore } from '../store/authStore';
+import { AttemptFilter } from '../types';
 // No need to import Timestamp here if your useQuizStore correctly returns Timestamp objects
 // import { Timestamp } from 'firebase/firestore'; // You won't need this if the type is correct in quizStore and types/index.ts
 
 const HistoryPage: React.FC = () => {
   const navigate = useNavigate();
-  const { quizAttempts, quizzes, loading, fetchUserAttempts } = useQuizStore();
+  const {
+    quizAttempts,
+    quizzes,
+    loading,
+    hasMoreAttempts,
+    loadingMoreAttempts,
+    fetchUserAttempts,
+    fetchMoreUserAttempts,
+  } = useQuizStore();
   const { user, isInitialized } = useAuthStore();
+  const [filter, setFilter] = useState<AttemptFilter>({});
+  const [categoryInput, setCategoryInput] = useState(''); // Applied on blur/Enter, not on every keystroke
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -21,12 +36,54 @@ const HistoryPage: React.FC = () => {
     }
   }, [isInitialized, user, navigate]);
 
-  // Fetch user attempts
+  // Fetch the first page of attempts whenever the filters change
   useEffect(() => {
     if (user) {
-      fetchUserAttempts(user.id);
+      fetchUserAttempts(user.id, filter);
     }
-  }, [user, fetchUserAttempts]);
+  }, [user, filter, fetchUserAttempts]);
+
+  // ⭐ Infinite scroll: load the next page when the sentinel below the list becomes visible ⭐
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !user || !hasMoreAttempts) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        fetchMoreUserAttempts(user.id);
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [user, hasMoreAttempts, quizAttempts.length, fetchMoreUserAttempts]);
+
+  const updateFilter = (changes: Partial<AttemptFilter>) => {
+    setFilter(prev => {
+      const next = { ...prev, ...changes };
+      // Drop cleared fields so the store query only filters on what is set
+      (Object.keys(next) as (keyof AttemptFilter)[]).forEach(key => {
+        if (!next[key]) delete next[key];
+      });
+      return next;
+    });
+  };
+
+  const applyCategory = () => {
+    const category = categoryInput.trim();
+    if (category !== (filter.category || '')) {
+      updateFilter({ category: category || undefined });
+    }
+  };
+
+  const clearFilters = () => {
+    setCategoryInput('');
+    setFilter({});
+  };
+
+  const hasFilters = Object.keys(filter).length > 0;
+
+  // Categories of the attempts loaded so far, offered as suggestions
+  const knownCategories = Array.from(new Set(quizAttempts.map(a => a.category).filter((c): c is string => !!c)));
 
   // Format date
   const formatDate = (timestamp: any) => { // 'any' for robustness, but should be Timestamp now
@@ -49,10 +106,11 @@ const HistoryPage: React.FC = () => {
     return `${minutes}m ${remainingSeconds}s`;
   };
 
-  // 🔍 Helper to find quiz title from quiz ID
-  const getQuizTitle = (quizId: string) => {
-    const quiz = quizzes.find((q) => q.id === quizId);
-    return quiz ? quiz.title : `Quiz #${quizId.slice(-6)}`;
+  // 🔍 Attempts carry the quiz title; older ones fall back to whatever quizzes are loaded
+  const getQuizTitle = (attempt: { quizId: string; quizTitle?: string }) => {
+    if (attempt.quizTitle) return attempt.quizTitle;
+    const quiz = quizzes.find((q) => q.id === attempt.quizId);
+    return quiz ? quiz.title : `Quiz #${attempt.quizId.slice(-6)}`;
   };
 
   return (
@@ -64,6 +122,69 @@ const HistoryPage: React.FC = () => {
         </p>
       </div>
 
+      <div className="bg-white rounded-lg shadow-sm p-4 mb-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+        <div>
+          <Input
+            label="Category"
+            id="historyCategory"
+            list="historyCategories"
+            value={categoryInput}
+            onChange={(e) => setCategoryInput(e.target.value)}
+            onBlur={applyCategory}
+            onKeyDown={(e) => { if (e.key === 'Enter') applyCategory(); }}
+            placeholder="e.g., Football"
+          />
+          <datalist id="historyCategories">
+            {knownCategories.map(category => <option key={category} value={category} />)}
+          </datalist>
+        </div>
+        <Select
+          label="Difficulty"
+          id="historyDifficulty"
+          value={filter.difficulty || ''}
+          onChange={(e) => updateFilter({ difficulty: (e.target.value || undefined) as AttemptFilter['difficulty'] })}
+        >
+          <option value="">All</option>
+          <option value="easy">Easy</option>
+          <option value="medium">Medium</option>
+          <option value="hard">Hard</option>
+        </Select>
+        <Select
+          label="Score"
+          id="historyScoreBand"
+          value={filter.scoreBand || ''}
+          onChange={(e) => updateFilter({ scoreBand: (e.target.value || undefined) as AttemptFilter['scoreBand'] })}
+        >
+          <option value="">All</option>
+          <option value="high">70% and above</option>
+          <option value="medium">40% – 69%</option>
+          <option value="low">Below 40%</option>
+        </Select>
+        <Input
+          label="From"
+          id="historyFromDate"
+          type="date"
+          value={filter.fromDate || ''}
+          max={filter.toDate}
+          onChange={(e) => updateFilter({ fromDate: e.target.value })}
+        />
+        <Input
+          label="To"
+          id="historyToDate"
+          type="date"
+          value={filter.toDate || ''}
+          min={filter.fromDate}
+          onChange={(e) => updateFilter({ toDate: e.target.value })}
+        />
+        {hasFilters && (
+          <div className="sm:col-span-2 lg:col-span-5 flex justify-end">
+            <Button variant="outline" size="sm" onClick={clearFilters}>
+              Clear filters
+            </Button>
+          </div>
+        )}
+      </div>
+
       {loading ? (
         <div className="flex justify-center items-center h-64">
           <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-sky-500"></div>
@@ -71,9 +192,13 @@ const HistoryPage: React.FC = () => {
       ) : quizAttempts.length === 0 ? (
         <div className="text-center py-12 bg-white rounded-lg shadow-sm">
           <Trophy className="h-12 w-12 mx-auto text-slate-400" />
-          <h3 className="text-lg font-medium text-slate-900 mt-4 mb-2">No quiz history yet</h3>
+          <h3 className="text-lg font-medium text-slate-900 mt-4 mb-2">
+            {hasFilters ? 'No attempts match these filters' : 'No quiz history yet'}
+          </h3>
           <p className="text-slate-500 max-w-md mx-auto">
-            You haven't completed any quizzes yet. Start taking quizzes to build your history.
+            {hasFilters
+              ? 'Try widening the date range or clearing some filters.'
+              : "You haven't completed any quizzes yet. Start taking quizzes to build your history."}
           </p>
           <div className="mt-6">
             <button
@@ -93,12 +218,17 @@ const HistoryPage: React.FC = () => {
             else if (percentage >= 40) scoreColor = 'text-yellow-500';
 
             return (
-              <Card key={attempt.id} className="overflow-hidden">
+              <Card key={attempt.id} className="overflow-hidden" onClick={() => navigate(`/history/${attempt.id}`)}>
                 <CardContent className="p-0">
                   <div className="grid grid-cols-1 md:grid-cols-6 divide-y md:divide-y-0 md:divide-x divide-slate-200">
                     <div className="col-span-4 p-6">
                       <h3 className="font-semibold text-lg text-slate-800 mb-2">
-                        {getQuizTitle(attempt.quizId)}
+                        {getQuizTitle(attempt)}
+                        {attempt.mode === 'practice' && (
+                          <span className="ml-2 align-middle text-xs font-medium px-2 py-0.5 rounded-full bg-green-100 text-green-800">
+                            Practice
+                          </span>
+                        )}
                       </h3>
 
                       <div className="flex flex-wrap gap-y-2 text-sm text-slate-500">
@@ -111,10 +241,19 @@ const HistoryPage: React.FC = () => {
                           <Clock className="h-4 w-4 mr-1" />
                           <span>{formatTime(attempt.timeSpent)}</span>
                         </div>
-                        <div className="flex items-center">
+                        <div className="flex items-center mr-6">
                           <BarChart4 className="h-4 w-4 mr-1" />
                           <span>{attempt.totalQuestions} questions</span>
                         </div>
+                        {attempt.category && (
+                          <div className="flex items-center">
+                            <Tag className="h-4 w-4 mr-1" />
+                            <span>
+                              {attempt.category}
+                              {attempt.difficulty && ` · ${attempt.difficulty.charAt(0).toUpperCase() + attempt.difficulty.slice(1)}`}
+                            </span>
+                          </div>
+                        )}
                       </div>
                     </div>
 
@@ -132,6 +271,19 @@ const HistoryPage: React.FC = () => {
               </Card>
             );
           })}
+
+          {/* Sentinel for infinite scroll, with a button in case the observer never fires */}
+          <div ref={loadMoreRef} className="flex justify-center py-4">
+            {loadingMoreAttempts ? (
+              <Loader2 className="h-6 w-6 animate-spin text-sky-500" />
+            ) : hasMoreAttempts ? (
+              <Button variant="outline" onClick={() => user && fetchMoreUserAttempts(user.id)}>
+                Load more
+              </Button>
+            ) : (
+              <span className="text-sm text-slate-400">You've reached the end of your history.</span>
+            )}
+          </div>
         </div>
       )}
     </div>
@@ -2,8 +2,12 @@ import React from 'react';
 import { Link } from 'react-router-dom';
 import { Trophy, CheckCircle, Filter, Users, Clock } from 'lucide-react';
 import Button from '../components/ui/Button';
+import DailyChallengeCard from '../components/home/DailyChallengeCard';
+import { useAuthStore } from '../store/authStore';
 
 const HomePage: React.FC = () => {
+  const { user } = useAuthStore();
+
   return (
     <div className="bg-white">
       {/* Hero Section */}
@@ -48,6 +52,13 @@ const HomePage: React.FC = () => {
         </div>
       </div>
 
+      {/* Daily Challenge (signed-in players only) */}
+      {user && (
+        <div className="py-10 px-4 sm:px-6 lg:px-8 bg-slate-50">
+          <DailyChallengeCard userId={user.id} />
+        </div>
+      )}
+
       {/* Features Section */}
       <div className="py-12 bg-white">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
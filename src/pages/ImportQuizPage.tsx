@@ -0,0 +1,232 @@
+// src/pages/ImportQuizPage.tsx
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { collection, doc } from 'firebase/firestore';
+import { AlertCircle, CheckCircle, FileUp, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Alert from '../components/ui/Alert';
+import Button from '../components/ui/Button';
+import { db } from '../firebase/config';
+import { useAuthStore } from '../store/authStore';
+import { useQuizStore } from '../store/quizStore';
+import { Quiz } from '../types';
+import { ImportResult, isQuizImportable, parseQuizImport } from '../utils/quizImport';
+import { getQuizType } from '../utils/quizHelpers';
+
+// Auto-generated Firestore id, the same kind generateQuiz gives its questions
+const newQuestionId = () => doc(collection(db, 'quizzes')).id;
+
+const CSV_EXAMPLE = `quiz_title,text,type,option_a,option_b,option_c,option_d,answer,category,difficulty,tolerance
+World Cup Finals,Who won the 2010 World Cup?,multiple_choice,Spain,Netherlands,Germany,Uruguay,A,Football,medium,
+World Cup Finals,The 1930 final was played in Uruguay.,true_false,,,,,True,Football,easy,
+World Cup Finals,Which of these have won the World Cup?,multi_select,Spain,Netherlands,Uruguay,Portugal,"A,C",Football,medium,
+World Cup Finals,Order these winners by first title.,ordering,Brazil,Uruguay,France,England,"B,A,D,C",Football,hard,
+World Cup Finals,In which year did England win?,numeric,,,,,1966,Football,easy,0
+World Cup Finals,Who scored in the 1958 and 1970 finals?,fill_in,,,,,Pelé|Pele,Football,medium,`;
+
+const JSON_EXAMPLE = `{
+  "title": "World Cup Finals",
+  "category": "Football",
+  "difficulty": "medium",
+  "questions": [
+    { "text": "Who won the 2010 World Cup?", "type": "multiple_choice",
+      "options": ["Spain", "Netherlands", "Germany", "Uruguay"], "correctAnswer": "A" },
+    { "text": "The 1930 final was played in Uruguay.", "type": "true_false", "correctAnswer": "True" },
+    { "text": "In which year did England win?", "type": "numeric", "correctAnswer": "1966", "tolerance": 0 },
+    { "text": "Who scored in the 1958 and 1970 finals?", "type": "fill_in",
+      "correctAnswer": "Pelé", "acceptedAnswers": ["Pele"] }
+  ]
+}`;
+
+const ImportQuizPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const { saveQuiz } = useQuizStore();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Picking the same file again should re-run the report
+    if (!file) return;
+
+    setFileName(file.name);
+    try {
+      const content = await file.text();
+      setResult(parseQuizImport(file.name, content, newQuestionId));
+    } catch (err: unknown) {
+      setResult({ quizzes: [], quizErrors: [], rows: [], fileErrors: [err instanceof Error ? err.message : 'Could not read the file.'] });
+    }
+  };
+
+  const importableIndexes = result
+    ? result.quizzes.map((_, index) => index).filter(index => isQuizImportable(result, index))
+    : [];
+  const rowsWithErrors = result ? result.rows.filter(row => row.errors.length > 0).length : 0;
+
+  const handleImport = async () => {
+    if (!result || !user || importableIndexes.length === 0) return;
+
+    setImporting(true);
+    let imported = 0;
+    try {
+      for (const index of importableIndexes) {
+        const quiz = result.quizzes[index];
+        const quizToSave: Quiz = {
+          ...quiz,
+          id: '',
+          createdAt: Date.now(),
+          createdBy: user.id,
+          visibility: 'private',
+          status: 'active',
+          quizType: getQuizType(quiz.questions),
+        };
+        await saveQuiz(quizToSave);
+        imported += 1;
+      }
+      toast.success(`Imported ${imported} quiz${imported === 1 ? '' : 'zes'}.`);
+      navigate('/my-quizzes');
+    } catch (err: unknown) {
+      console.error('Error importing quizzes:', err);
+      toast.error(`Imported ${imported} of ${importableIndexes.length} quizzes. ${err instanceof Error ? err.message : 'Failed to save quiz.'}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-3xl font-bold text-slate-800 mb-2">Import Quizzes</h1>
+      <p className="text-slate-600 mb-6">
+        Upload a JSON or CSV file. Every question is checked first; nothing is saved until you confirm.
+      </p>
+
+      <div className="bg-white p-6 rounded-lg shadow-md mb-6">
+        <label className="flex flex-col items-center justify-center border-2 border-dashed border-slate-300 rounded-lg p-8 cursor-pointer hover:border-sky-400">
+          <FileUp className="h-10 w-10 text-slate-400 mb-2" />
+          <span className="text-slate-700 font-medium">{fileName || 'Choose a .json or .csv file'}</span>
+          <input type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFileChange} className="hidden" />
+        </label>
+
+        <details className="mt-4 text-sm text-slate-600">
+          <summary className="cursor-pointer font-medium text-slate-700">File formats</summary>
+          <p className="mt-2">
+            <strong>CSV</strong>: one row per question. Rows with the same <code>quiz_title</code> form one quiz, which takes
+            its category and difficulty from its first row. <code>answer</code> is A–D (or the option text) for multiple
+            choice and True or False for true/false. Select-all answers list every correct letter, ordering answers list
+            the letters in the correct order, numeric answers are a number (with an optional <code>tolerance</code> and{' '}
+            <code>unit</code>) and fill-in answers list accepted spellings separated by <code>|</code>.
+          </p>
+          <pre className="mt-2 p-3 bg-slate-50 rounded overflow-x-auto text-xs">{CSV_EXAMPLE}</pre>
+          <p className="mt-2">
+            <strong>JSON</strong>: a quiz object, or an array of them.
+          </p>
+          <pre className="mt-2 p-3 bg-slate-50 rounded overflow-x-auto text-xs">{JSON_EXAMPLE}</pre>
+        </details>
+      </div>
+
+      {result && result.fileErrors.length > 0 && (
+        <div className="space-y-2 mb-6">
+          {result.fileErrors.map(error => (
+            <Alert key={error} type="error" message={error} />
+          ))}
+        </div>
+      )}
+
+      {result && result.fileErrors.length === 0 && (
+        <>
+          <div className="bg-white p-6 rounded-lg shadow-md mb-6">
+            <h2 className="text-lg font-semibold text-slate-800 mb-3">Quizzes</h2>
+            <ul className="divide-y divide-slate-100">
+              {result.quizzes.map((quiz, index) => {
+                const questionRows = result.rows.filter(row => row.quizIndex === index);
+                const importable = isQuizImportable(result, index);
+                return (
+                  <li key={index} className="py-2 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-slate-800">
+                        {quiz.title || '(untitled)'}
+                        <span className="ml-2 font-normal text-slate-500">
+                          {quiz.category || 'No category'} · {questionRows.length} questions
+                        </span>
+                      </span>
+                      {importable ? (
+                        <span className="flex items-center text-green-700">
+                          <CheckCircle className="h-4 w-4 mr-1" /> Ready
+                        </span>
+                      ) : (
+                        <span className="flex items-center text-red-600">
+                          <AlertCircle className="h-4 w-4 mr-1" /> Will be skipped
+                        </span>
+                      )}
+                    </div>
+                    {result.quizErrors[index].map(error => (
+                      <p key={error} className="text-red-600 mt-1">{error}</p>
+                    ))}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          <div className="bg-white p-6 rounded-lg shadow-md mb-6">
+            <h2 className="text-lg font-semibold text-slate-800 mb-3">
+              Validation Report
+              <span className="ml-2 text-sm font-normal text-slate-500">
+                {result.rows.length - rowsWithErrors} of {result.rows.length} questions valid
+              </span>
+            </h2>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 border-b border-slate-200">
+                    <th className="py-2 pr-4 font-medium">Location</th>
+                    <th className="py-2 pr-4 font-medium">Question</th>
+                    <th className="py-2 font-medium">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.map(row => (
+                    <tr key={row.location} className="border-b border-slate-100 align-top">
+                      <td className="py-2 pr-4 whitespace-nowrap text-slate-500">{row.location}</td>
+                      <td className="py-2 pr-4 text-slate-800">{row.text || <span className="italic text-slate-400">(empty)</span>}</td>
+                      <td className="py-2">
+                        {row.errors.length === 0 ? (
+                          <span className="text-green-700">OK</span>
+                        ) : (
+                          <ul className="text-red-600 space-y-1">
+                            {row.errors.map(error => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={() => navigate('/my-quizzes')}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleImport}
+              isLoading={importing}
+              disabled={importing || importableIndexes.length === 0}
+              leftIcon={<Upload className="h-4 w-4" />}
+            >
+              Import {importableIndexes.length} Quiz{importableIndexes.length === 1 ? '' : 'zes'}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImportQuizPage;
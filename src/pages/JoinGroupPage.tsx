@@ -0,0 +1,59 @@
+// src/pages/JoinGroupPage.tsx
+import React, { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { UserPlus, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../components/ui/Button';
+import Card, { CardContent, CardHeader } from '../components/ui/Card';
+import { useGroupStore } from '../store/groupStore';
+
+// The page a group's invite link opens. The group itself is only readable by its coach and members, so joining comes first
+const JoinGroupPage: React.FC = () => {
+  const { inviteCode } = useParams<{ inviteCode: string }>();
+  const navigate = useNavigate();
+  const { joinGroup } = useGroupStore();
+  const [joining, setJoining] = useState(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
+
+  const handleJoin = async () => {
+    if (!inviteCode) return;
+    setJoining(true);
+    setJoinError(null);
+    try {
+      const groupId = await joinGroup(inviteCode);
+      toast.success('You joined the group!');
+      navigate(`/groups/${groupId}`, { replace: true });
+    } catch (err: unknown) {
+      console.error('Error joining the group:', err);
+      setJoinError(err instanceof Error ? err.message : 'Could not join the group.');
+      setJoining(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4">
+      <Card className="max-w-md mx-auto mt-8">
+        <CardHeader>
+          <h1 className="flex items-center text-xl font-bold text-slate-800">
+            <Users className="h-5 w-5 mr-2 text-sky-500" />
+            Join a Group
+          </h1>
+          <p className="text-sm text-slate-500">
+            Your coach has invited you to their group. They assign the quizzes you find under Assigned and can see how you did on them.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {joinError && <p className="text-sm text-red-600">{joinError}</p>}
+          <Button onClick={handleJoin} isLoading={joining} leftIcon={<UserPlus className="h-4 w-4" />} fullWidth>
+            Join Group
+          </Button>
+          <p className="text-center text-sm">
+            <Link to="/groups" className="text-sky-600 hover:underline">Not now</Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default JoinGroupPage;
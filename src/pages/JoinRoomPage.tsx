@@ -0,0 +1,56 @@
+// src/pages/JoinRoomPage.tsx
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Radio } from 'lucide-react';
+import Card, { CardContent, CardHeader } from '../components/ui/Card';
+import Button from '../components/ui/Button';
+import Input from '../components/ui/Input';
+import { ROOM_CODE_LENGTH } from '../utils/rooms';
+
+// Entry point for players: type the code the host shares to get into the live room
+const JoinRoomPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [code, setCode] = useState('');
+  const normalizedCode = code.trim().toUpperCase();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (normalizedCode.length === ROOM_CODE_LENGTH) navigate(`/play/${normalizedCode}`);
+  };
+
+  return (
+    <div className="container mx-auto p-4">
+      <Card className="max-w-md mx-auto mt-8">
+        <CardHeader>
+          <h1 className="flex items-center text-xl font-bold text-slate-800">
+            <Radio className="h-5 w-5 mr-2 text-sky-500" />
+            Join a Live Game
+          </h1>
+          <p className="text-sm text-slate-500">
+            Enter the code from the host's screen. To host a game yourself, open a quiz and choose "Host a live room".
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+              label="Room code"
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              maxLength={ROOM_CODE_LENGTH}
+              placeholder="e.g. K7MQ2D"
+              autoFocus
+              autoComplete="off"
+              className="font-mono uppercase tracking-widest"
+              fullWidth
+            />
+            <Button type="submit" disabled={normalizedCode.length !== ROOM_CODE_LENGTH} fullWidth>
+              Join Game
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default JoinRoomPage;
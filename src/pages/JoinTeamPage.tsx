@@ -0,0 +1,59 @@
+// src/pages/JoinTeamPage.tsx
+import React, { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Shield, UserPlus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../components/ui/Button';
+import Card, { CardContent, CardHeader } from '../components/ui/Card';
+import { useTeamStore } from '../store/teamStore';
+
+// The page a team's invite link opens. The team itself is only readable by members, so joining comes first
+const JoinTeamPage: React.FC = () => {
+  const { inviteCode } = useParams<{ inviteCode: string }>();
+  const navigate = useNavigate();
+  const { joinTeam } = useTeamStore();
+  const [joining, setJoining] = useState(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
+
+  const handleJoin = async () => {
+    if (!inviteCode) return;
+    setJoining(true);
+    setJoinError(null);
+    try {
+      const teamId = await joinTeam(inviteCode);
+      toast.success('Welcome to the team!');
+      navigate(`/teams/${teamId}`, { replace: true });
+    } catch (err: unknown) {
+      console.error('Error joining the team:', err);
+      setJoinError(err instanceof Error ? err.message : 'Could not join the team.');
+      setJoining(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4">
+      <Card className="max-w-md mx-auto mt-8">
+        <CardHeader>
+          <h1 className="flex items-center text-xl font-bold text-slate-800">
+            <Shield className="h-5 w-5 mr-2 text-sky-500" />
+            Join a Team
+          </h1>
+          <p className="text-sm text-slate-500">
+            You have been invited to join a team. Members play team matches together and share a spot on the team leaderboard.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {joinError && <p className="text-sm text-red-600">{joinError}</p>}
+          <Button onClick={handleJoin} isLoading={joining} leftIcon={<UserPlus className="h-4 w-4" />} fullWidth>
+            Join Team
+          </Button>
+          <p className="text-center text-sm">
+            <Link to="/teams" className="text-sky-600 hover:underline">Not now</Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default JoinTeamPage;
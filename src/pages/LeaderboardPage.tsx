@@ -0,0 +1,214 @@
+// src/pages/LeaderboardPage.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { Trophy, Medal, Loader2, AlertCircle } from 'lucide-react';
+import Card, { CardContent } from '../components/ui/Card';
+import Select from '../components/ui/Select';
+import { useAuthStore } from '../store/authStore';
+import { useLeaderboardStore } from '../store/leaderboardStore';
+import { LeaderboardEntry } from '../types';
+import {
+  LeaderboardScope,
+  LeaderboardTimeWindow,
+  getCategoryBoardId,
+  getGlobalBoardId,
+  getQuizBoardId,
+  getTeamBoardId,
+} from '../utils/leaderboard';
+
+const SCOPE_TABS: { value: LeaderboardScope; label: string }[] = [
+  { value: 'global', label: 'Overall' },
+  { value: 'category', label: 'By Category' },
+  { value: 'quiz', label: 'By Quiz' },
+  { value: 'team', label: 'Teams' },
+];
+
+const WINDOW_TABS: { value: LeaderboardTimeWindow; label: string }[] = [
+  { value: 'weekly', label: 'This Week' },
+  { value: 'all_time', label: 'All Time' },
+];
+
+const tabClass = (active: boolean) =>
+  `px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+    active ? 'bg-sky-600 text-white shadow-sm' : 'bg-white text-slate-600 hover:bg-slate-100'
+  }`;
+
+const LeaderboardPage: React.FC = () => {
+  const { user } = useAuthStore();
+  const {
+    entries,
+    currentUserEntry,
+    currentUserRank,
+    categoryBoards,
+    quizBoards,
+    loading,
+    error,
+    fetchBoardLists,
+    fetchLeaderboard,
+  } = useLeaderboardStore();
+
+  const [scope, setScope] = useState<LeaderboardScope>('global');
+  const [timeWindow, setTimeWindow] = useState<LeaderboardTimeWindow>('weekly');
+  const [category, setCategory] = useState('');
+  const [quizId, setQuizId] = useState('');
+
+  useEffect(() => {
+    fetchBoardLists();
+  }, [fetchBoardLists]);
+
+  // Default the pickers to the first board once the lists are loaded
+  useEffect(() => {
+    if (!category && categoryBoards.length > 0) setCategory(categoryBoards[0].category || categoryBoards[0].title);
+  }, [category, categoryBoards]);
+  useEffect(() => {
+    if (!quizId && quizBoards.length > 0) setQuizId(quizBoards[0].quizId || '');
+  }, [quizId, quizBoards]);
+
+  const boardId = useMemo(() => {
+    if (scope === 'global') return getGlobalBoardId(timeWindow);
+    if (scope === 'category') return category ? getCategoryBoardId(category, timeWindow) : null;
+    if (scope === 'team') return getTeamBoardId(timeWindow);
+    return quizId ? getQuizBoardId(quizId) : null;
+  }, [scope, timeWindow, category, quizId]);
+
+  useEffect(() => {
+    if (boardId) {
+      // Team boards have a row per team, so there is no row of the user's own to look up
+      fetchLeaderboard(boardId, scope === 'team' ? undefined : user?.id);
+    }
+  }, [boardId, scope, user, fetchLeaderboard]);
+
+  // Players with equal points share a rank, matching how the current user's rank is counted
+  const getRank = (index: number) => {
+    const firstWithSamePoints = entries.findIndex(entry => entry.points === entries[index].points);
+    return firstWithSamePoints + 1;
+  };
+
+  const currentUserListed = user ? entries.some(entry => entry.userId === user.id) : false;
+
+  const renderDetail = (entry: LeaderboardEntry) => {
+    if (scope === 'team') {
+      return `${entry.matches ?? 0} ${entry.matches === 1 ? 'match' : 'matches'}, ${entry.wins ?? 0} won`;
+    }
+    if (scope === 'quiz' && entry.totalQuestions) {
+      return `${entry.score ?? 0}/${entry.totalQuestions} correct`;
+    }
+    if (entry.attempts) {
+      return `${entry.attempts} ${entry.attempts === 1 ? 'quiz' : 'quizzes'}`;
+    }
+    return '';
+  };
+
+  const renderRow = (entry: LeaderboardEntry, rank: number) => {
+    const isCurrentUser = !!entry.userId && entry.userId === user?.id;
+    return (
+      <div
+        key={entry.userId || entry.teamId}
+        className={`flex items-center px-6 py-3 ${isCurrentUser ? 'bg-sky-50 border-l-4 border-sky-500' : ''}`}
+      >
+        <div className="w-12 font-semibold text-slate-700 flex items-center">
+          {rank <= 3 ? <Medal className={`h-5 w-5 ${['text-yellow-500', 'text-slate-400', 'text-amber-700'][rank - 1]}`} /> : rank}
+        </div>
+        <div className="flex-grow">
+          <p className={`font-medium ${isCurrentUser ? 'text-sky-700' : 'text-slate-800'}`}>
+            {entry.displayName}{isCurrentUser && ' (You)'}
+          </p>
+          <p className="text-xs text-slate-500">{renderDetail(entry)}</p>
+        </div>
+        <div className="font-bold text-slate-800">{entry.points} pts</div>
+      </div>
+    );
+  };
+
+  const noBoardSelected = !boardId;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-800 flex items-center">
+          <Trophy className="h-8 w-8 text-sky-500 mr-3" />
+          Leaderboard
+        </h1>
+        <p className="text-slate-600 mt-2">
+          See how your points compare with other players on public quizzes
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {SCOPE_TABS.map(tab => (
+          <button key={tab.value} className={tabClass(scope === tab.value)} onClick={() => setScope(tab.value)}>
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        {scope !== 'quiz' && (
+          <div className="flex gap-2">
+            {WINDOW_TABS.map(tab => (
+              <button key={tab.value} className={tabClass(timeWindow === tab.value)} onClick={() => setTimeWindow(tab.value)}>
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        )}
+        {scope === 'category' && categoryBoards.length > 0 && (
+          <Select
+            label="Category"
+            id="leaderboardCategory"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+          >
+            {categoryBoards.map(board => (
+              <option key={board.id} value={board.category || board.title}>{board.title}</option>
+            ))}
+          </Select>
+        )}
+        {scope === 'quiz' && quizBoards.length > 0 && (
+          <Select
+            label="Quiz"
+            id="leaderboardQuiz"
+            value={quizId}
+            onChange={(e) => setQuizId(e.target.value)}
+          >
+            {quizBoards.map(board => (
+              <option key={board.id} value={board.quizId}>{board.title}</option>
+            ))}
+          </Select>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex justify-center items-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-sky-500" />
+            </div>
+          ) : error ? (
+            <div className="flex items-center justify-center py-12 text-red-500">
+              <AlertCircle className="h-5 w-5 mr-2" />
+              <span>{error}</span>
+            </div>
+          ) : noBoardSelected || entries.length === 0 ? (
+            <div className="text-center py-12 text-slate-500">
+              {scope === 'team'
+                ? 'No team matches played yet. Challenge another team from your team page!'
+                : 'No ranked attempts yet. Play a public quiz to get on the board!'}
+            </div>
+          ) : (
+            <div className="divide-y divide-slate-100">
+              {entries.map((entry, index) => renderRow(entry, getRank(index)))}
+              {!currentUserListed && currentUserEntry && currentUserRank !== null && (
+                <>
+                  <div className="px-6 py-1 text-center text-slate-400">⋯</div>
+                  {renderRow(currentUserEntry, currentUserRank)}
+                </>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LeaderboardPage;
@@ -3,10 +3,13 @@ import React, { useEffect } from 'react';
 import { useQuizStore } from '../store/quizStore';
 import { useAuthStore } from '../store/authStore';
 import { useNavigate } from 'react-router-dom';
-import { BookOpenText, Loader2, Frown } from 'lucide-react'; 
+import { BookOpenText, Loader2, Frown, Plus, Upload } from 'lucide-react'; 
 import QuizCard from '../components/quiz/QuizCard';
 import Alert from '../components/ui/Alert';
+import Button from '../components/ui/Button';
 import toast from 'react-hot-toast'; 
+import { hasAnswerKey } from '../utils/quizHelpers';
+import { ExportFormat, downloadExportFile, exportQuizzes } from '../utils/quizExport';
 
 const MyQuizzesPage: React.FC = () => {
   const navigate = useNavigate();
@@ -25,44 +28,18 @@ const MyQuizzesPage: React.FC = () => {
     fetchQuizzes({ createdBy: user.id, visibility: 'private', status: 'active' });
   }, [user, isInitialized, fetchQuizzes, navigate]);
 
-  const handleExportQuiz = (quizId: string) => {
+  const handleExportQuiz = (quizId: string, format: ExportFormat) => {
     const quizToExport = quizzes.find(q => q.id === quizId);
     if (!quizToExport) {
       toast.error('Quiz not found for export.');
       return;
     }
+    if (!hasAnswerKey(quizToExport)) {
+      toast.error('This quiz can only be exported by its creator.');
+      return;
+    }
 
-    let exportContent = `--- Quiz: ${quizToExport.title} ---\n`;
-    exportContent += `Category: ${quizToExport.category}\n`;
-    exportContent += `Difficulty: ${quizToExport.difficulty}\n`;
-    if (quizToExport.team) exportContent += `Team: ${quizToExport.team}\n`;
-    if (quizToExport.country) exportContent += `Country: ${quizToExport.country}\n`;
-    exportContent += `\n`;
-
-    quizToExport.questions.forEach((question, qIndex) => {
-      // ⭐ FIX: Changed from question.questionText to question.text ⭐
-      exportContent += `Question ${qIndex + 1}: ${question.text}\n`; 
-      if (question.type === 'multiple_choice') {
-        const correctOptionIndex = question.options.indexOf(question.correctAnswer); // ⭐ FIX: Get index from correctAnswer ⭐
-        question.options.forEach((option, oIndex) => {
-          exportContent += `  ${String.fromCharCode(65 + oIndex)}. ${option}\n`;
-        });
-        const correctOptionText = question.correctAnswer; // correctAnswer is already the text value
-        exportContent += `  Correct Answer: ${String.fromCharCode(65 + correctOptionIndex)}. ${correctOptionText}\n\n`;
-      } else if (question.type === 'true_false') {
-        exportContent += `  Correct Answer: ${question.correctAnswer}\n\n`;
-      }
-    });
-
-    const blob = new Blob([exportContent], { type: 'text/plain;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${quizToExport.title.replace(/[^a-z0-9]/gi, '_')}_quiz.txt`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadExportFile(exportQuizzes([quizToExport], format));
     toast.success(`Quiz "${quizToExport.title}" exported successfully!`);
   };
 
@@ -81,9 +58,17 @@ const MyQuizzesPage: React.FC = () => {
         <BookOpenText className="inline-block h-10 w-10 text-sky-500 mr-3 align-middle" />
         My Private Quizzes
       </h1>
-      <p className="text-center text-slate-600 mb-8 max-w-2xl mx-auto">
+      <p className="text-center text-slate-600 mb-4 max-w-2xl mx-auto">
         Here are the quizzes you've personally generated. These quizzes are private and only visible to you.
       </p>
+      <div className="flex justify-center gap-2 mb-8">
+        <Button onClick={() => navigate('/quizzes/new')} leftIcon={<Plus className="h-4 w-4" />}>
+          New Quiz
+        </Button>
+        <Button variant="outline" onClick={() => navigate('/quizzes/import')} leftIcon={<Upload className="h-4 w-4" />}>
+          Import
+        </Button>
+      </div>
 
       {loading && (
         <div className="flex justify-center items-center py-10">
@@ -100,7 +85,7 @@ const MyQuizzesPage: React.FC = () => {
         <div className="text-center py-10 text-slate-500">
           <Frown className="h-12 w-12 mx-auto mb-4 text-slate-400" />
           <p className="text-xl font-semibold mb-2">No private quizzes generated yet.</p>
-          <p className="text-md">Go to "Generate Quiz" to create your first one!</p>
+          <p className="text-md">Go to "Generate Quiz" or write one yourself with "New Quiz"!</p>
         </div>
       )}
 
@@ -110,7 +95,8 @@ const MyQuizzesPage: React.FC = () => {
             <QuizCard
               key={quiz.id}
               quiz={quiz}
-              onExport={() => handleExportQuiz(quiz.id)}
+              onExport={handleExportQuiz}
+              onEdit={(quizId) => navigate(`/quizzes/${quizId}/edit`)}
             />
           ))}
         </div>
@@ -0,0 +1,134 @@
+// src/pages/PlayRoomPage.tsx
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { FirebaseError } from 'firebase/app';
+import Button from '../components/ui/Button';
+import RoomLobby from '../components/room/RoomLobby';
+import RoomQuestion from '../components/room/RoomQuestion';
+import RoomScoreboard from '../components/room/RoomScoreboard';
+import { useAuthStore } from '../store/authStore';
+import { useRoomStore } from '../store/roomStore';
+
+// A live room at /play/{code}: players are joined on arrival, the host gets the controls.
+// Everything on screen follows the room document, so every player sees the same step at the same time.
+const PlayRoomPage: React.FC = () => {
+  const { code: codeParam } = useParams<{ code: string }>();
+  const code = (codeParam || '').toUpperCase();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const userId = user?.id;
+  const { room, players, loading, error, watchRoom, joinRoom, submitAnswer, advanceRoom } = useRoomStore();
+  const [joinError, setJoinError] = useState<string | null>(null);
+  const [answers, setAnswers] = useState<Record<string, string>>({}); // The answer sent per question id
+  const [advancing, setAdvancing] = useState(false);
+  const joinRequested = useRef<string | null>(null); // The room the player was already joined to
+  const isHost = !!room && room.hostId === userId;
+
+  useEffect(() => {
+    if (!code) return;
+    setAnswers({});
+    return watchRoom(code);
+  }, [code, watchRoom]);
+
+  // Players join (or rejoin after a reload) as soon as the room is found
+  useEffect(() => {
+    if (!room || room.code !== code || !userId || room.hostId === userId || joinRequested.current === code) return;
+    joinRequested.current = code;
+    setJoinError(null);
+    joinRoom(code).catch((err: unknown) => {
+      console.error('Error joining the room:', err);
+      setJoinError(err instanceof Error ? err.message : 'Could not join the room.');
+    });
+  }, [room, code, userId, joinRoom]);
+
+  const handleAnswer = useCallback(async (questionId: string, selectedOption: string) => {
+    if (answers[questionId] !== undefined) return;
+    setAnswers(prev => ({ ...prev, [questionId]: selectedOption }));
+    try {
+      await submitAnswer(questionId, selectedOption);
+    } catch (err: unknown) {
+      // A second answer (e.g. after a reload) is refused; the first one still counts
+      if (err instanceof FirebaseError && err.code === 'functions/already-exists') return;
+      console.error('Error submitting the answer:', err);
+      toast.error(err instanceof Error ? err.message : 'Your answer could not be sent.');
+      setAnswers(prev => {
+        const next = { ...prev };
+        delete next[questionId];
+        return next;
+      });
+    }
+  }, [answers, submitAnswer]);
+
+  const handleAdvance = useCallback(async () => {
+    setAdvancing(true);
+    try {
+      await advanceRoom();
+    } catch (err: unknown) {
+      console.error('Error advancing the room:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not move the game on.');
+    } finally {
+      setAdvancing(false);
+    }
+  }, [advanceRoom]);
+
+  if (loading || (!room && !error)) {
+    return (
+      <div className="flex justify-center items-center min-h-[calc(100vh-128px)]">
+        <Loader2 className="h-12 w-12 animate-spin text-sky-500" />
+        <p className="ml-3 text-lg text-slate-600">Connecting to room {code}...</p>
+      </div>
+    );
+  }
+
+  if (error || joinError || !room || !userId) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[calc(100vh-128px)] text-red-500 p-4">
+        <AlertCircle size={48} className="mb-4" />
+        <h2 className="text-xl font-semibold">Could Not Open Room {code}</h2>
+        <p className="text-lg text-center">{joinError || error}</p>
+        <Button onClick={() => navigate('/play')} className="mt-4">
+          Enter Another Code
+        </Button>
+      </div>
+    );
+  }
+
+  const question = room.currentQuestion;
+
+  return (
+    <div className="container mx-auto p-4">
+      {room.status === 'lobby' ? (
+        <RoomLobby room={room} players={players} isHost={isHost} advancing={advancing} onStart={handleAdvance} />
+      ) : room.status === 'question' && question ? (
+        <RoomQuestion
+          key={question.id}
+          room={room}
+          question={question}
+          isHost={isHost}
+          selectedAnswer={answers[question.id] ?? null}
+          advancing={advancing}
+          onAnswer={selectedOption => handleAnswer(question.id, selectedOption)}
+          onReveal={handleAdvance}
+        />
+      ) : (
+        <>
+          <RoomScoreboard room={room} players={players} userId={userId} isHost={isHost} advancing={advancing} onNext={handleAdvance} />
+          {room.status === 'finished' && (
+            <div className="max-w-2xl mx-auto mt-6 flex flex-col sm:flex-row gap-2">
+              <Button variant="outline" onClick={() => navigate('/quizzes')} fullWidth>
+                Browse Quizzes
+              </Button>
+              <Button onClick={() => navigate(`/quiz/${room.quizId}`)} fullWidth>
+                Play This Quiz Solo
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PlayRoomPage;
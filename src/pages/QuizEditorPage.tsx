@@ -0,0 +1,299 @@
+// src/pages/QuizEditorPage.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { collection, doc } from 'firebase/firestore';
+import { AlertCircle, Loader2, Plus, Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../components/ui/Button';
+import Input from '../components/ui/Input';
+import Select from '../components/ui/Select';
+import QuestionEditor from '../components/editor/QuestionEditor';
+import { db } from '../firebase/config';
+import { useAuthStore } from '../store/authStore';
+import { useQuizStore } from '../store/quizStore';
+import { Quiz, QuizQuestion } from '../types';
+import { QUESTION_TYPE_LABELS, getQuizType } from '../utils/quizHelpers';
+import { cleanQuestion, convertQuestionType, hasValidationErrors, validateQuiz } from '../utils/quizValidation';
+
+// Quiz-level fields edited in the form; questions are edited separately
+interface QuizDetails {
+  title: string;
+  category: string;
+  difficulty: Quiz['difficulty'];
+  team: string;
+  event: string;
+  country: string;
+  visibility: Quiz['visibility'];
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+}
+
+const EMPTY_DETAILS: QuizDetails = {
+  title: '',
+  category: '',
+  difficulty: 'medium',
+  team: '',
+  event: '',
+  country: '',
+  visibility: 'private',
+  shuffleQuestions: false,
+  shuffleOptions: false,
+};
+
+// Auto-generated Firestore id, the same kind generateQuiz gives its questions
+const newQuestionId = () => doc(collection(db, 'quizzes')).id;
+
+// An empty question of the given type, starting from the type's defaults (see convertQuestionType)
+const createQuestion = (type: QuizQuestion['type']): QuizQuestion =>
+  convertQuestionType({ id: newQuestionId(), text: '', type: 'true_false', correctAnswer: 'True' }, type);
+
+const QuizEditorPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const { saveQuiz, fetchQuizForEdit } = useQuizStore();
+  const isEditing = Boolean(id);
+
+  const [existingQuiz, setExistingQuiz] = useState<Quiz | null>(null);
+  const [details, setDetails] = useState<QuizDetails>(EMPTY_DETAILS);
+  const [questions, setQuestions] = useState<QuizQuestion[]>(() => [createQuestion('multiple_choice')]);
+  const [newQuestionType, setNewQuestionType] = useState<QuizQuestion['type']>('multiple_choice');
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loadingQuiz, setLoadingQuiz] = useState(isEditing);
+  const [saving, setSaving] = useState(false);
+  const [showErrors, setShowErrors] = useState(false); // Only flag problems after the first save attempt
+
+  useEffect(() => {
+    if (!id) return;
+    let cancelled = false;
+    setLoadingQuiz(true);
+
+    fetchQuizForEdit(id).then((quiz) => {
+      if (cancelled) return;
+      if (!quiz) {
+        setLoadError('This quiz could not be loaded. Only its creator can edit it.');
+      } else if (quiz.status === 'deleted') {
+        setLoadError('Deleted quizzes cannot be edited.');
+      } else {
+        setExistingQuiz(quiz);
+        setDetails({
+          title: quiz.title || '',
+          category: quiz.category || '',
+          difficulty: quiz.difficulty || 'medium',
+          team: quiz.team || '',
+          event: quiz.event || '',
+          country: quiz.country || '',
+          visibility: quiz.visibility || 'private',
+          shuffleQuestions: Boolean(quiz.shuffleQuestions),
+          shuffleOptions: Boolean(quiz.shuffleOptions),
+        });
+        setQuestions(quiz.questions || []);
+      }
+      setLoadingQuiz(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, fetchQuizForEdit]);
+
+  const validation = useMemo(
+    () => validateQuiz({ title: details.title, category: details.category, questions }),
+    [details.title, details.category, questions]
+  );
+
+  const handleDetailsChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setDetails(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleShuffleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, checked } = e.target;
+    setDetails(prev => ({ ...prev, [name]: checked }));
+  };
+
+  const updateQuestion = (index: number, question: QuizQuestion) => {
+    setQuestions(prev => prev.map((q, i) => (i === index ? question : q)));
+  };
+
+  const removeQuestion = (index: number) => {
+    setQuestions(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    setQuestions(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setShowErrors(true);
+    if (hasValidationErrors(validation)) {
+      toast.error('Please fix the highlighted problems before saving.');
+      return;
+    }
+
+    const cleanedQuestions = questions.map(cleanQuestion);
+
+    const quizToSave: Quiz = {
+      ...(existingQuiz || {
+        id: '',
+        createdAt: Date.now(),
+        createdBy: user?.id || '',
+        status: 'active' as const,
+      }),
+      title: details.title.trim(),
+      category: details.category.trim(),
+      difficulty: details.difficulty,
+      team: details.team.trim(),
+      event: details.event.trim(),
+      country: details.country.trim(),
+      // Only admins may publish; creators keep the visibility the quiz already has (see firestore.rules)
+      visibility: user?.isAdmin ? details.visibility : existingQuiz?.visibility || 'private',
+      // Applied by startQuizSession, so every attempt gets its own order
+      shuffleQuestions: details.shuffleQuestions,
+      shuffleOptions: details.shuffleOptions,
+      quizType: getQuizType(cleanedQuestions),
+      questions: cleanedQuestions,
+    };
+
+    setSaving(true);
+    try {
+      await saveQuiz(quizToSave);
+      toast.success(isEditing ? 'Quiz updated!' : 'Quiz created!');
+      navigate('/my-quizzes');
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save quiz.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loadingQuiz) {
+    return (
+      <div className="flex justify-center items-center min-h-[calc(100vh-128px)]">
+        <Loader2 className="h-12 w-12 animate-spin text-sky-500" />
+        <p className="ml-3 text-lg text-slate-600">Loading quiz...</p>
+      </div>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[calc(100vh-128px)] text-red-500 p-4">
+        <AlertCircle size={48} className="mb-4" />
+        <h2 className="text-xl font-semibold">Cannot Edit Quiz</h2>
+        <p className="text-lg text-center">{loadError}</p>
+        <Button onClick={() => navigate('/my-quizzes')} className="mt-4">
+          Back to My Quizzes
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-3xl font-bold text-slate-800 mb-6">{isEditing ? 'Edit Quiz' : 'Create a Quiz'}</h1>
+
+      {showErrors && validation.quiz.length > 0 && (
+        <div className="p-3 mb-4 bg-red-50 border border-red-200 text-red-800 rounded-md">
+          {validation.quiz.map(error => (
+            <p key={error} className="flex items-center text-sm">
+              <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+              {error}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-lg shadow-md space-y-4 mb-6">
+        <Input label="Title *" id="title" name="title" value={details.title} onChange={handleDetailsChange} placeholder="e.g., Premier League Legends" />
+        <Input label="Category *" id="category" name="category" value={details.category} onChange={handleDetailsChange} placeholder="e.g., Football" />
+        <Select label="Difficulty" id="difficulty" name="difficulty" value={details.difficulty} onChange={handleDetailsChange}>
+          <option value="easy">Easy</option>
+          <option value="medium">Medium</option>
+          <option value="hard">Hard</option>
+        </Select>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <Input label="Team (Optional)" id="team" name="team" value={details.team} onChange={handleDetailsChange} />
+          <Input label="Event (Optional)" id="event" name="event" value={details.event} onChange={handleDetailsChange} />
+          <Input label="Country (Optional)" id="country" name="country" value={details.country} onChange={handleDetailsChange} />
+        </div>
+        {user?.isAdmin && (
+          <Select label="Visibility" id="visibility" name="visibility" value={details.visibility} onChange={handleDetailsChange}>
+            <option value="private">Private</option>
+            <option value="global">Global</option>
+          </Select>
+        )}
+        <div className="flex flex-wrap gap-6">
+          <label className="flex items-center text-sm text-slate-700">
+            <input
+              type="checkbox"
+              name="shuffleQuestions"
+              checked={details.shuffleQuestions}
+              onChange={handleShuffleChange}
+              className="h-4 w-4 text-sky-600 mr-2"
+            />
+            Shuffle question order for every attempt
+          </label>
+          <label className="flex items-center text-sm text-slate-700">
+            <input
+              type="checkbox"
+              name="shuffleOptions"
+              checked={details.shuffleOptions}
+              onChange={handleShuffleChange}
+              className="h-4 w-4 text-sky-600 mr-2"
+            />
+            Shuffle answer options for every attempt
+          </label>
+        </div>
+      </div>
+
+      <div className="space-y-4 mb-6">
+        {questions.map((question, index) => (
+          <QuestionEditor
+            key={question.id}
+            question={question}
+            index={index}
+            total={questions.length}
+            errors={showErrors ? validation.questions[question.id] : undefined}
+            onChange={(updated) => updateQuestion(index, updated)}
+            onRemove={() => removeQuestion(index)}
+            onMove={(direction) => moveQuestion(index, direction)}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-2 mb-8">
+        <Select
+          label="New question type"
+          id="newQuestionType"
+          value={newQuestionType}
+          onChange={(e) => setNewQuestionType(e.target.value as QuizQuestion['type'])}
+        >
+          {(Object.keys(QUESTION_TYPE_LABELS) as QuizQuestion['type'][]).map(type => (
+            <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+          ))}
+        </Select>
+        <Button variant="outline" onClick={() => setQuestions(prev => [...prev, createQuestion(newQuestionType)])} leftIcon={<Plus className="h-4 w-4" />}>
+          Add Question
+        </Button>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" onClick={() => navigate('/my-quizzes')}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} isLoading={saving} disabled={saving} leftIcon={<Save className="h-4 w-4" />}>
+          {isEditing ? 'Save Changes' : 'Create Quiz'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default QuizEditorPage;
@@ -1,24 +1,111 @@
 // src/pages/QuizPage.tsx
-import React, { useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { AlertCircle, Loader2 } from 'lucide-react'; // ⭐ NEW: Import Loader2
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { AlertCircle, BookOpen, GraduationCap, History, Loader2, Radio } from 'lucide-react'; // ⭐ NEW: Import Loader2
+import toast from 'react-hot-toast';
 import Button from '../components/ui/Button';
 import { useQuizStore } from '../store/quizStore';
 import { useAuthStore } from '../store/authStore';
+import { useProgressStore } from '../store/progressStore';
+import { useRoomStore } from '../store/roomStore';
 import QuizPlayer from '../components/quiz/QuizPlayer'; 
+import { QuizMode, ResumableQuiz } from '../types';
+import { getTodayKey } from '../utils/dailyChallenge';
+
+// Shown before a quiz starts; the mode cannot change once the session is open
+const MODE_CHOICES: { mode: QuizMode; title: string; description: string; icon: React.ReactNode }[] = [
+  {
+    mode: 'practice',
+    title: 'Practice',
+    description: 'See right away whether each answer is correct and try again until you get it, or reveal the answer and its explanation. Not counted in your stats or on leaderboards.',
+    icon: <BookOpen className="h-6 w-6 text-green-500" />,
+  },
+  {
+    mode: 'exam',
+    title: 'Exam',
+    description: 'No feedback until the end. Move back and forth, change answers, then review and submit. Counts towards stats and leaderboards.',
+    icon: <GraduationCap className="h-6 w-6 text-indigo-500" />,
+  },
+];
+
+// Exams of quizzes with a per-question limit are played one question at a time against its countdown
+const TIMED_EXAM_DESCRIPTION = 'No feedback until the end. Each question has its own countdown and is locked in when you move on; review, then submit. Counts towards stats and leaderboards.';
 
 const QuizPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Set by the attempt detail page when retaking only the missed questions
+  const requestedQuestionIds = (location.state as { questionIds?: string[] } | null)?.questionIds;
+  // Set by the challenge page when the recipient plays an accepted challenge. It is taken once and dropped from the
+  // history entry, so a reload offers to resume the run instead of opening the challenge a second time
+  const [challengeRun] = useState(() => (location.state as { challenge?: { id: string; mode: QuizMode } } | null)?.challenge || null);
+  // Set the same way by the tournament page when a player starts their match
+  const [tournamentRun] = useState(() =>
+    (location.state as { tournamentMatch?: { tournamentId: string; matchId: string } } | null)?.tournamentMatch || null);
+  // ...and by the team match page when a player starts their run for their side
+  const [teamMatchRun] = useState(() => (location.state as { teamMatch?: { id: string } } | null)?.teamMatch || null);
+  // ...and by a group's Assigned list when a member starts an attempt at an assignment
+  const [assignmentRun] = useState(() =>
+    (location.state as { assignment?: { groupId: string; assignmentId: string } } | null)?.assignment || null);
   const { currentQuiz, loading, error, fetchQuizById } = useQuizStore();
   const { user, isInitialized } = useAuthStore();
+  const [mode, setMode] = useState<QuizMode | null>(null);
+  // A challenge's mode was fixed by the challenger; tournament and team matches and assignments are always exams
+  const playMode = mode ?? challengeRun?.mode ?? (tournamentRun || teamMatchRun || assignmentRun ? 'exam' : null);
+  const { resumable, checking, loadProgress, clearProgress } = useProgressStore();
+  // Snapshot of the run being resumed; the store's copy is cleared once the run is submitted
+  const [resumedRun, setResumedRun] = useState<ResumableQuiz | null>(null);
+  // A resumed run keeps the questions it was started with
+  const questionIds = resumedRun ? resumedRun.progress.questionIds || undefined : requestedQuestionIds;
+  const userId = user?.id;
+  const { createRoom } = useRoomStore();
+  const [creatingRoom, setCreatingRoom] = useState(false);
 
   useEffect(() => {
     if (id) {
       fetchQuizById(id);
     }
+    setMode(null); // Every quiz starts with the choice of mode
+    setResumedRun(null);
   }, [id, fetchQuizById]);
 
+  // Looks for an unfinished run of this quiz (saved on this device or on the server)
+  useEffect(() => {
+    if (id && userId) {
+      loadProgress(userId, id);
+    }
+  }, [id, userId, loadProgress]);
+
+  useEffect(() => {
+    if (challengeRun || tournamentRun || teamMatchRun || assignmentRun) {
+      navigate(location.pathname, { replace: true, state: null });
+    }
+  }, [challengeRun, tournamentRun, teamMatchRun, assignmentRun, location.pathname, navigate]);
+
+  const handleResume = () => {
+    if (!resumable) return;
+    setResumedRun(resumable);
+    setMode(resumable.progress.mode);
+  };
+
+  const handleStartOver = () => {
+    if (userId && id) clearProgress(userId, id);
+  };
+
+  const handleHostRoom = async () => {
+    if (!id) return;
+    setCreatingRoom(true);
+    try {
+      const code = await createRoom(id);
+      navigate(`/play/${code}`);
+    } catch (err: unknown) {
+      console.error('Error creating a room:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not open a live room.');
+      setCreatingRoom(false);
+    }
+  };
+
   useEffect(() => {
     if (isInitialized && !user) {
       navigate('/login');
@@ -26,7 +113,7 @@ const QuizPage: React.FC = () => {
   }, [isInitialized, user, navigate]);
 
   // ⭐ MODIFIED: Enhanced loading state with a spinner
-  if (loading) {
+  if (loading || (checking && !playMode)) {
     return (
       <div className="flex justify-center items-center min-h-[calc(100vh-128px)]"> {/* Adjusted min-height for better centering with header/footer */}
         <Loader2 className="h-12 w-12 animate-spin text-sky-500" />
@@ -61,9 +148,88 @@ const QuizPage: React.FC = () => {
     );
   }
 
+  // Today's Daily Challenge is one scored exam; it opens for practice once the day is over
+  const isTodaysChallenge = currentQuiz.dailyChallengeDate === getTodayKey();
+  const modeChoices = isTodaysChallenge ? MODE_CHOICES.filter(choice => choice.mode === 'exam') : MODE_CHOICES;
+
   return (
     <div className="container mx-auto p-4">
-      <QuizPlayer quizData={currentQuiz} />
+      {questionIds && (
+        <p className="max-w-2xl mx-auto mb-4 text-center text-sm text-slate-600">
+          Retaking the {questionIds.length} question{questionIds.length === 1 ? '' : 's'} you missed last time.
+        </p>
+      )}
+      {playMode ? (
+        <QuizPlayer
+          quizData={currentQuiz}
+          mode={playMode}
+          questionIds={questionIds}
+          resume={resumedRun}
+          challengeId={mode ? undefined : challengeRun?.id}
+          tournamentMatch={mode ? undefined : tournamentRun ?? undefined}
+          teamMatchId={mode ? undefined : teamMatchRun?.id}
+          assignment={mode ? undefined : assignmentRun ?? undefined}
+        />
+      ) : resumable && resumable.progress.quizId === currentQuiz.id ? (
+        <div className="bg-white p-6 rounded-lg shadow-md max-w-2xl mx-auto text-center">
+          <History className="h-10 w-10 mx-auto mb-3 text-sky-500" />
+          <h2 className="text-2xl font-bold mb-2">{currentQuiz.title}</h2>
+          <p className="text-slate-600 mb-1">
+            You have an unfinished {resumable.progress.mode} run, started at{' '}
+            {new Date(resumable.session.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.
+          </p>
+          <p className="text-sm text-slate-500 mb-6">
+            {resumable.progress.mode === 'exam'
+              ? `${Object.keys(resumable.progress.examAnswers).length} of ${resumable.session.questionOrder.length} questions answered`
+              : `${resumable.progress.answers.length} of ${resumable.session.questionOrder.length} questions done`}
+            {resumable.session.totalTimeLimitSeconds
+              ? ` · the timer kept running and ends at ${new Date(resumable.session.startedAt + resumable.session.totalTimeLimitSeconds * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+              : ''}
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" onClick={handleStartOver} fullWidth>
+              Start Over
+            </Button>
+            <Button onClick={handleResume} fullWidth>
+              Resume where you left off
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white p-6 rounded-lg shadow-md max-w-2xl mx-auto">
+          <h2 className="text-2xl font-bold text-center mb-2">{currentQuiz.title}</h2>
+          <p className="text-center text-slate-600 mb-6">
+            {isTodaysChallenge
+              ? "This is today's Daily Challenge: you get one scored attempt, so make it count."
+              : 'How do you want to play?'}
+          </p>
+          <div className={`grid grid-cols-1 gap-4 ${modeChoices.length > 1 ? 'sm:grid-cols-2' : ''}`}>
+            {modeChoices.map(choice => (
+              <button
+                key={choice.mode}
+                onClick={() => setMode(choice.mode)}
+                className="text-left p-4 rounded-lg border border-slate-300 hover:border-sky-500 hover:bg-sky-50 transition-colors"
+              >
+                <span className="flex items-center font-semibold text-slate-800 mb-2">
+                  {choice.icon}
+                  <span className="ml-2">{choice.title}</span>
+                </span>
+                <span className="block text-sm text-slate-600">
+                  {choice.mode === 'exam' && currentQuiz.timePerQuestionSeconds ? TIMED_EXAM_DESCRIPTION : choice.description}
+                </span>
+              </button>
+            ))}
+          </div>
+          {!isTodaysChallenge && (
+            <div className="mt-6 pt-4 border-t border-slate-100 text-center">
+              <Button variant="outline" onClick={handleHostRoom} isLoading={creatingRoom} leftIcon={<Radio className="h-4 w-4" />}>
+                Host a live room
+              </Button>
+              <p className="mt-2 text-xs text-slate-500">Play this quiz together: everyone answers the same question against the clock.</p>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
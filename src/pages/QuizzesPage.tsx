@@ -5,7 +5,7 @@ import QuizCard from '../components/quiz/QuizCard';
 import QuizFilter from '../components/quiz/QuizFilter';
 import Alert from '../components/ui/Alert';
 import { useQuizStore } from '../store/quizStore';
-import { QuizFilter as QuizFilterType, Quiz } from '../types';
+import { QuizFilter as QuizFilterType, PlayerQuiz } from '../types';
 import { useAuthStore } from '../store/authStore';
 import toast from 'react-hot-toast'; // ⭐ NEW: Import toast
 
@@ -26,7 +26,7 @@ const QuizzesPage: React.FC = () => {
     fetchQuizzes({ ...newFilter, visibility: 'global', status: 'active' });
   };
 
-  const handleToggleQuizStatus = async (quiz: Quiz) => {
+  const handleToggleQuizStatus = async (quiz: PlayerQuiz) => {
     if (!isAdmin) {
       // ⭐ MODIFIED: Use toast instead of alert
       toast.error("You don't have permission to perform this action.");
@@ -55,48 +55,6 @@ const QuizzesPage: React.FC = () => {
     }
   };
 
-  const handleExportQuiz = (quizId: string) => {
-    const quizToExport = quizzes.find(q => q.id === quizId);
-    if (!quizToExport) {
-      // ⭐ MODIFIED: Use toast instead of alert
-      toast.error('Quiz not found for export.');
-      return;
-    }
-
-    let exportContent = `--- Quiz: ${quizToExport.title} ---\n`;
-    exportContent += `Category: ${quizToExport.category}\n`;
-    exportContent += `Difficulty: ${quizToExport.difficulty}\n`;
-    if (quizToExport.team) exportContent += `Team: ${quizToExport.team}\n`;
-    if (quizToExport.country) exportContent += `Country: ${quizToExport.country}\n`;
-    exportContent += `\n`;
-
-    quizToExport.questions.forEach((question, qIndex) => {
-      exportContent += `Question ${qIndex + 1}: ${question.questionText}\n`;
-
-      if (question.type === 'multiple_choice') {
-        question.options.forEach((option, oIndex) => {
-          exportContent += `  ${String.fromCharCode(65 + oIndex)}. ${option}\n`;
-        });
-        const correctOptionText = question.options[question.correctOptionIndex];
-        exportContent += `  Correct Answer: ${String.fromCharCode(65 + question.correctOptionIndex)}. ${correctOptionText}\n\n`;
-      } else if (question.type === 'true_false') {
-        exportContent += `  Correct Answer: ${question.correctAnswer}\n\n`;
-      }
-    });
-
-    const blob = new Blob([exportContent], { type: 'text/plain;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${quizToExport.title.replace(/[^a-z0-9]/gi, '_')}_quiz.txt`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-    // ⭐ NEW: Use toast for success message after export
-    toast.success(`Quiz "${quizToExport.title}" exported successfully!`);
-  };
-
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="mb-8 flex flex-col sm:flex-row sm:justify-between sm:items-center">
@@ -145,7 +103,6 @@ const QuizzesPage: React.FC = () => {
               quiz={quiz}
               isAdmin={isAdmin}
               onToggleStatus={isAdmin ? handleToggleQuizStatus : undefined}
-              onExport={handleExportQuiz}
               isSoftDeleted={quiz.status === 'deleted'}
               updateLoading={updateLoading === quiz.id}
             />
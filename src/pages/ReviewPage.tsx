@@ -0,0 +1,146 @@
+// src/pages/ReviewPage.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertCircle, CheckCircle, History, Loader2, Repeat } from 'lucide-react';
+import Button from '../components/ui/Button';
+import QuizPlayer from '../components/quiz/QuizPlayer';
+import { useAuthStore } from '../store/authStore';
+import { useProgressStore } from '../store/progressStore';
+import { useReviewStore } from '../store/reviewStore';
+import { ResumableQuiz } from '../types';
+import { REVIEW_QUIZ_ID } from '../utils/review';
+
+// The daily review: questions missed in earlier quizzes come back on a spaced-repetition schedule,
+// played in practice mode so every answer gets its feedback and explanation
+const ReviewPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const userId = user?.id;
+  const { dueItems, reviewQuiz, loading, error, fetchDueReview, fetchReviewQuiz } = useReviewStore();
+  const { resumable, checking, loadProgress, clearProgress } = useProgressStore();
+  const [started, setStarted] = useState(false);
+  const [resuming, setResuming] = useState(false);
+  // Snapshot of the review being resumed; the store's copy is cleared once it is submitted
+  const [resumedRun, setResumedRun] = useState<ResumableQuiz | null>(null);
+
+  useEffect(() => {
+    if (userId) {
+      fetchDueReview(userId);
+      loadProgress(userId, REVIEW_QUIZ_ID);
+    }
+  }, [userId, fetchDueReview, loadProgress]);
+
+  // A resumed review keeps the questions it was started with, even if more have become due since
+  const questionIds = useMemo(
+    () => resumedRun?.progress.questionIds || reviewQuiz?.questions.map(q => q.id) || [],
+    [resumedRun, reviewQuiz],
+  );
+
+  // How many of the due questions come from each quiz
+  const dueByQuiz = useMemo(() => {
+    const counts = new Map<string, number>();
+    dueItems.forEach(item => counts.set(item.quizTitle || 'Untitled quiz', (counts.get(item.quizTitle || 'Untitled quiz') || 0) + 1));
+    return [...counts.entries()];
+  }, [dueItems]);
+
+  const handleResume = async () => {
+    if (!userId || !resumable) return;
+    setResuming(true);
+    await fetchReviewQuiz(userId, resumable.progress.questionIds || []);
+    setResumedRun(resumable);
+    setStarted(true);
+    setResuming(false);
+  };
+
+  const handleStartOver = () => {
+    if (userId) clearProgress(userId, REVIEW_QUIZ_ID);
+  };
+
+  if (loading || (checking && !started)) {
+    return (
+      <div className="flex justify-center items-center min-h-[calc(100vh-128px)]">
+        <Loader2 className="h-12 w-12 animate-spin text-sky-500" />
+        <p className="ml-3 text-lg text-slate-600">Loading your review...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[calc(100vh-128px)] text-red-500 p-4">
+        <AlertCircle size={48} className="mb-4" />
+        <h2 className="text-xl font-semibold">Error Loading Review</h2>
+        <p className="text-lg text-center">{error}</p>
+        <Button onClick={() => userId && fetchDueReview(userId)} className="mt-4">
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  if (started && reviewQuiz) {
+    return (
+      <div className="container mx-auto p-4">
+        <QuizPlayer quizData={reviewQuiz} mode="practice" questionIds={questionIds} resume={resumedRun} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4">
+      {resumable && resumable.progress.quizId === REVIEW_QUIZ_ID ? (
+        <div className="bg-white p-6 rounded-lg shadow-md max-w-2xl mx-auto text-center">
+          <History className="h-10 w-10 mx-auto mb-3 text-sky-500" />
+          <h2 className="text-2xl font-bold mb-2">Unfinished Review</h2>
+          <p className="text-slate-600 mb-6">
+            You started a review at{' '}
+            {new Date(resumable.session.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} and finished{' '}
+            {resumable.progress.answers.length} of {resumable.session.questionOrder.length} questions.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" onClick={handleStartOver} disabled={resuming} fullWidth>
+              Start Over
+            </Button>
+            <Button onClick={handleResume} isLoading={resuming} disabled={resuming} fullWidth>
+              Resume where you left off
+            </Button>
+          </div>
+        </div>
+      ) : !reviewQuiz || reviewQuiz.questions.length === 0 ? (
+        <div className="bg-white p-6 rounded-lg shadow-md max-w-2xl mx-auto text-center">
+          <CheckCircle className="h-10 w-10 mx-auto mb-3 text-green-500" />
+          <h2 className="text-2xl font-bold mb-2">All caught up</h2>
+          <p className="text-slate-600 mb-6">
+            Nothing is due for review today. Questions you miss in quizzes are added here and come back
+            on a schedule that spaces them out as you get them right.
+          </p>
+          <Button onClick={() => navigate('/quizzes')}>Browse Quizzes</Button>
+        </div>
+      ) : (
+        <div className="bg-white p-6 rounded-lg shadow-md max-w-2xl mx-auto">
+          <div className="text-center mb-6">
+            <Repeat className="h-10 w-10 mx-auto mb-3 text-sky-500" />
+            <h2 className="text-2xl font-bold mb-2">Daily Review</h2>
+            <p className="text-slate-600">
+              {reviewQuiz.questions.length} question{reviewQuiz.questions.length === 1 ? ' is' : 's are'} due.
+              Questions you get right come back after longer and longer breaks; the ones you miss come back tomorrow.
+            </p>
+          </div>
+          <ul className="divide-y divide-slate-100 mb-6 text-sm">
+            {dueByQuiz.map(([quizTitle, count]) => (
+              <li key={quizTitle} className="flex justify-between py-2 text-slate-700">
+                <span>{quizTitle}</span>
+                <span className="text-slate-500">{count} question{count === 1 ? '' : 's'}</span>
+              </li>
+            ))}
+          </ul>
+          <Button onClick={() => setStarted(true)} leftIcon={<Repeat className="h-4 w-4" />} fullWidth>
+            Start Review
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewPage;
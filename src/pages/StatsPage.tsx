@@ -0,0 +1,234 @@
+// src/pages/StatsPage.tsx
+import React, { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BarChart4, Clock, Flame, Loader2, Target, TrendingDown, Trophy, AlertCircle } from 'lucide-react';
+import Card, { CardContent, CardHeader } from '../components/ui/Card';
+import { useAuthStore } from '../store/authStore';
+import { useStatsStore } from '../store/statsStore';
+import { AccuracyBucket, QuestionType } from '../types';
+import { QUESTION_TYPE_LABELS } from '../utils/quizHelpers';
+
+// Days shown in the accuracy-over-time chart
+const CHART_DAYS = 30;
+// Topics need this many answered questions before they can be called weak
+const MIN_TOPIC_QUESTIONS = 3;
+
+const accuracyOf = (bucket: { questions: number; correct: number }) =>
+  bucket.questions > 0 ? Math.round((bucket.correct / bucket.questions) * 100) : 0;
+
+const barColor = (accuracy: number) =>
+  accuracy >= 70 ? 'bg-green-500' : accuracy >= 40 ? 'bg-yellow-500' : 'bg-red-500';
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// UTC date key of `daysAgo` days before today, matching how the server keys days
+const utcDateKey = (daysAgo: number) => {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - daysAgo);
+  return date.toISOString().slice(0, 10);
+};
+
+const AccuracyBars: React.FC<{ buckets: Record<string, AccuracyBucket>; formatLabel?: (label: string) => string }> = ({
+  buckets,
+  formatLabel = (label) => label,
+}) => {
+  const rows = Object.values(buckets).sort((a, b) => b.questions - a.questions);
+  if (rows.length === 0) {
+    return <p className="text-sm text-slate-500">No data yet.</p>;
+  }
+  return (
+    <div className="space-y-3">
+      {rows.map(bucket => {
+        const accuracy = accuracyOf(bucket);
+        return (
+          <div key={bucket.label}>
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-slate-700">{formatLabel(bucket.label)}</span>
+              <span className="text-slate-500">{accuracy}% · {bucket.questions} questions</span>
+            </div>
+            <div className="w-full bg-slate-200 rounded-full h-2">
+              <div className={`${barColor(accuracy)} h-2 rounded-full`} style={{ width: `${accuracy}%` }}></div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const StatsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const { stats, loading, error, fetchUserStats } = useStatsStore();
+
+  useEffect(() => {
+    if (user) {
+      fetchUserStats(user.id);
+    }
+  }, [user, fetchUserStats]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-10 w-10 animate-spin text-sky-500" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center py-12 text-red-500">
+        <AlertCircle className="h-5 w-5 mr-2" />
+        <span>{error}</span>
+      </div>
+    );
+  }
+
+  if (!stats || stats.totals.attempts === 0) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-12 text-center">
+        <BarChart4 className="h-12 w-12 mx-auto text-slate-400" />
+        <h1 className="text-2xl font-bold text-slate-800 mt-4 mb-2">No statistics yet</h1>
+        <p className="text-slate-500 mb-6">Finish a quiz and your progress will show up here.</p>
+        <button
+          onClick={() => navigate('/quizzes')}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-sky-600 hover:bg-sky-700"
+        >
+          Browse Quizzes
+        </button>
+      </div>
+    );
+  }
+
+  const overallAccuracy = accuracyOf(stats.totals);
+  const averageSecondsPerQuestion = stats.totals.questions > 0
+    ? Math.round((stats.totals.timeSpentSeconds / stats.totals.questions) * 10) / 10
+    : 0;
+
+  // The stored streak ends on the last day played; it only still counts if that was today or yesterday
+  const { lastActiveDate } = stats.streak;
+  const currentStreak = lastActiveDate && lastActiveDate >= utcDateKey(1) ? stats.streak.current : 0;
+
+  const chartDays = Array.from({ length: CHART_DAYS }, (_, index) => utcDateKey(CHART_DAYS - 1 - index));
+
+  const weakestTopics = Object.values(stats.byTopic)
+    .filter(topic => topic.questions >= MIN_TOPIC_QUESTIONS)
+    .sort((a, b) => accuracyOf(a) - accuracyOf(b))
+    .slice(0, 5);
+
+  const summaryCards = [
+    { label: 'Quizzes Played', value: stats.totals.attempts, icon: <Trophy className="h-6 w-6 text-sky-500" /> },
+    { label: 'Accuracy', value: `${overallAccuracy}%`, icon: <Target className="h-6 w-6 text-green-500" /> },
+    { label: 'Avg. Time / Question', value: `${averageSecondsPerQuestion}s`, icon: <Clock className="h-6 w-6 text-slate-500" /> },
+    { label: 'Current Streak', value: `${currentStreak} day${currentStreak === 1 ? '' : 's'}`, icon: <Flame className="h-6 w-6 text-orange-500" /> },
+    { label: 'Longest Streak', value: `${stats.streak.longest} day${stats.streak.longest === 1 ? '' : 's'}`, icon: <Flame className="h-6 w-6 text-red-500" /> },
+  ];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-800">My Statistics</h1>
+        <p className="text-slate-600 mt-2">Your progress across every quiz you have played</p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+        {summaryCards.map(card => (
+          <div key={card.label} className="flex items-center p-4 bg-white rounded-lg shadow-sm">
+            <div className="mr-3">{card.icon}</div>
+            <div>
+              <p className="text-sm text-slate-500">{card.label}</p>
+              <p className="font-semibold text-lg">{card.value}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-slate-800">Accuracy Over the Last {CHART_DAYS} Days</h2>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end h-40 gap-1">
+            {chartDays.map(dateKey => {
+              const day = stats.daily[dateKey];
+              const accuracy = day ? accuracyOf(day) : 0;
+              return (
+                <div
+                  key={dateKey}
+                  className="flex-1 flex flex-col justify-end h-full"
+                  title={day ? `${dateKey}: ${accuracy}% over ${day.questions} questions` : `${dateKey}: no quizzes`}
+                >
+                  <div
+                    className={`${day ? barColor(accuracy) : 'bg-slate-100'} rounded-t`}
+                    style={{ height: day ? `${Math.max(accuracy, 4)}%` : '4%' }}
+                  ></div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex justify-between text-xs text-slate-400 mt-2">
+            <span>{chartDays[0]}</span>
+            <span>Today (UTC)</span>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-slate-800">By Category</h2>
+          </CardHeader>
+          <CardContent>
+            <AccuracyBars buckets={stats.byCategory} />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-slate-800">By Difficulty</h2>
+          </CardHeader>
+          <CardContent>
+            <AccuracyBars buckets={stats.byDifficulty} formatLabel={capitalize} />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-slate-800">By Question Type</h2>
+          </CardHeader>
+          <CardContent>
+            <AccuracyBars buckets={stats.byQuizType} formatLabel={(label) => QUESTION_TYPE_LABELS[label as QuestionType] || label} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-slate-800 flex items-center">
+            <TrendingDown className="h-5 w-5 text-red-500 mr-2" />
+            Weakest Topics
+          </h2>
+        </CardHeader>
+        <CardContent>
+          {weakestTopics.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              Play a few more quizzes about specific teams, events or countries to see where you can improve.
+            </p>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {weakestTopics.map(topic => (
+                <li key={`${topic.kind}:${topic.label}`} className="flex justify-between py-2 text-sm">
+                  <span className="text-slate-700">
+                    <span className="text-xs uppercase text-slate-400 mr-2">{topic.kind}</span>
+                    {topic.label}
+                  </span>
+                  <span className="text-slate-500">{accuracyOf(topic)}% · {topic.questions} questions</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StatsPage;
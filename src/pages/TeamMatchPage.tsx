@@ -0,0 +1,280 @@
+// src/pages/TeamMatchPage.tsx
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { AlertCircle, Check, Copy, Loader2, Play, Shield, Trophy, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../components/ui/Button';
+import Card, { CardContent, CardHeader } from '../components/ui/Card';
+import Select from '../components/ui/Select';
+import TeamMatchSideCard from '../components/team/TeamMatchSideCard';
+import { useAuthStore } from '../store/authStore';
+import { useTeamStore } from '../store/teamStore';
+import {
+  findPlayerSide,
+  getMatchSides,
+  getTeamMatchLink,
+  getTeamMatchState,
+  TEAM_MATCH_STATE_LABELS,
+  TEAM_SCORING_DESCRIPTIONS,
+  TEAM_SCORING_LABELS,
+} from '../utils/teams';
+
+// One team match at /team-matches/{id}: the page the match link opens. Another team's captain accepts it here from
+// the match's invite, which leaves out the roster; players start their run from here, and both sides' results come in live
+const TeamMatchPage: React.FC = () => {
+  const { matchId } = useParams<{ matchId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const userId = user?.id;
+  const { teams, teamMatch: match, teamMatchInvite: invite, loading, error, fetchTeams, watchTeamMatch, respondToTeamMatch } = useTeamStore();
+  const [teamId, setTeamId] = useState('');
+  const [responding, setResponding] = useState<'accept' | 'decline' | null>(null);
+  const [watchRequest, setWatchRequest] = useState(0); // Bumped to listen again once the user's team is in the match
+
+  useEffect(() => {
+    if (!matchId || !userId) return;
+    return watchTeamMatch(matchId);
+  }, [matchId, userId, watchTeamMatch, watchRequest]);
+
+  // The teams the user could accept the match for
+  useEffect(() => {
+    if (userId) {
+      fetchTeams(userId);
+    }
+  }, [userId, fetchTeams]);
+
+  const captainedTeams = teams.filter(team => team.captainId === userId && !match?.teamIds.includes(team.id) && team.id !== invite?.teamId);
+  useEffect(() => {
+    if (!teamId && captainedTeams.length > 0) setTeamId(captainedTeams[0].id);
+  }, [teamId, captainedTeams]);
+
+  const handleRespond = async (accept: boolean) => {
+    if (!matchId || !teamId) return;
+    setResponding(accept ? 'accept' : 'decline');
+    try {
+      await respondToTeamMatch(matchId, teamId, accept);
+      if (accept) {
+        setWatchRequest(request => request + 1);
+      } else {
+        toast.success('Match declined.');
+        navigate('/teams');
+      }
+    } catch (err: unknown) {
+      console.error('Error responding to the team match:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not respond to the match.');
+    } finally {
+      setResponding(null);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!matchId) return;
+    try {
+      await navigator.clipboard.writeText(getTeamMatchLink(matchId));
+      toast.success("Match link copied. Send it to the other team's captain!");
+    } catch {
+      toast.error('Could not copy the link.');
+    }
+  };
+
+  const renderAcceptControls = () => {
+    if (captainedTeams.length === 0) {
+      return (
+        <p className="text-sm text-slate-600">
+          Only a team captain can accept this match. <Link to="/teams" className="text-sky-600 hover:underline">Set up a team</Link> to take it on.
+        </p>
+      );
+    }
+    return (
+      <div className="space-y-3">
+        {captainedTeams.length > 1 && (
+          <Select label="Play with" id="team-match-team" value={teamId} onChange={(e) => setTeamId(e.target.value)} fullWidth>
+            {captainedTeams.map(team => (
+              <option key={team.id} value={team.id}>{team.name}</option>
+            ))}
+          </Select>
+        )}
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleRespond(false)}
+            isLoading={responding === 'decline'}
+            disabled={responding !== null}
+            leftIcon={<X className="h-4 w-4" />}
+            fullWidth
+          >
+            Decline
+          </Button>
+          <Button
+            onClick={() => handleRespond(true)}
+            isLoading={responding === 'accept'}
+            disabled={responding !== null}
+            leftIcon={<Check className="h-4 w-4" />}
+            fullWidth
+          >
+            Accept for {captainedTeams.find(team => team.id === teamId)?.name || 'your team'}
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  if (loading || (!match && !invite && !error)) {
+    return (
+      <div className="flex justify-center items-center min-h-[calc(100vh-128px)]">
+        <Loader2 className="h-12 w-12 animate-spin text-sky-500" />
+        <p className="ml-3 text-lg text-slate-600">Loading team match...</p>
+      </div>
+    );
+  }
+
+  if (error || !userId || (!match && !invite)) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[calc(100vh-128px)] text-red-500 p-4">
+        <AlertCircle size={48} className="mb-4" />
+        <h2 className="text-xl font-semibold">Error Loading Team Match</h2>
+        <p className="text-lg text-center">{error}</p>
+        <Button onClick={() => navigate('/teams')} className="mt-4">
+          Back to Teams
+        </Button>
+      </div>
+    );
+  }
+
+  // Anyone else who opens the link sees the invite: the challenging team, the quiz and the scoring
+  if (!match) {
+    if (!invite) return null;
+    const inviteState = invite.isExpired ? 'expired' : invite.status;
+    return (
+      <div className="container mx-auto p-4 space-y-6">
+        <Card className="max-w-3xl mx-auto">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <h1 className="flex items-center text-xl font-bold text-slate-800">
+                <Shield className="h-5 w-5 mr-2 text-sky-500" />
+                {invite.teamName} vs ?
+              </h1>
+              <span className="text-sm text-slate-500">{TEAM_MATCH_STATE_LABELS[inviteState]}</span>
+            </div>
+            <p className="text-sm text-slate-500 mt-1">
+              {invite.quizTitle} · {TEAM_SCORING_LABELS[invite.scoring]}
+              {inviteState === 'pending'
+                ? ` · Open until ${new Date(invite.expiresAt).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}`
+                : ''}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-slate-600">{TEAM_SCORING_DESCRIPTIONS[invite.scoring]}</p>
+            {inviteState === 'pending' && renderAcceptControls()}
+            {(inviteState === 'active' || inviteState === 'completed') && (
+              <p className="text-sm text-slate-600">Another team has already taken this match on.</p>
+            )}
+            {inviteState === 'declined' && <p className="text-sm text-slate-600">This match was declined.</p>}
+            {inviteState === 'expired' && <p className="text-sm text-slate-600">No team took this match on in time.</p>}
+          </CardContent>
+        </Card>
+
+        <p className="text-center text-sm">
+          <Link to="/teams" className="text-sky-600 hover:underline">All your teams</Link>
+        </p>
+      </div>
+    );
+  }
+
+  const state = getTeamMatchState(match);
+  const sides = getMatchSides(match);
+  const [home, away] = sides;
+  // Until a team accepts, the members are the challenging team's
+  const isHomeMember = match.memberIds.includes(userId);
+  const mySide = findPlayerSide(match, userId);
+
+  const renderMyRun = () => {
+    if (state !== 'active') return null;
+    if (!mySide) {
+      return match.scoring === 'captain' && isHomeMember
+        ? <p className="text-sm text-slate-600">Agree on your answers together: your captain plays them in for the team.</p>
+        : null;
+    }
+    if (mySide.results[userId]) {
+      return <p className="text-sm text-slate-600">Your run is in. The match is settled once everyone has played.</p>;
+    }
+    const hasStarted = !!mySide.sessionIds[userId];
+    return (
+      <Button
+        onClick={() => navigate(`/quiz/${match.quizId}`, hasStarted ? undefined : { state: { teamMatch: { id: match.id } } })}
+        leftIcon={<Play className="h-4 w-4" />}
+        fullWidth
+      >
+        {hasStarted ? 'Continue Your Run' : `Play for ${mySide.name} (one attempt)`}
+      </Button>
+    );
+  };
+
+  // Until a team accepts, only the challenging team's members can read the match: they share its link
+  const renderResponse = () => {
+    if (state !== 'pending' || !isHomeMember) return null;
+    return (
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <code className="flex-1 truncate rounded bg-slate-50 px-3 py-2 text-sm text-slate-700">{getTeamMatchLink(match.id)}</code>
+        <Button variant="outline" onClick={handleCopyLink} leftIcon={<Copy className="h-4 w-4" />}>
+          Copy link
+        </Button>
+      </div>
+    );
+  };
+
+  const renderOutcome = () => {
+    if (state !== 'completed' || !away) return null;
+    const winner = sides.find(side => side.teamId === match.winnerTeamId);
+    return (
+      <p className="flex items-center justify-center text-lg font-semibold text-slate-800">
+        <Trophy className="h-5 w-5 mr-2 text-yellow-500" />
+        {!winner ? "It's a draw!" : winner === mySide ? `${winner.name} won. Well played!` : `${winner.name} won the match.`}
+      </p>
+    );
+  };
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <Card className="max-w-3xl mx-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h1 className="flex items-center text-xl font-bold text-slate-800">
+              <Shield className="h-5 w-5 mr-2 text-sky-500" />
+              {home.name} vs {away ? away.name : '?'}
+            </h1>
+            <span className="text-sm text-slate-500">{TEAM_MATCH_STATE_LABELS[state]}</span>
+          </div>
+          <p className="text-sm text-slate-500 mt-1">
+            {match.quizTitle} · {TEAM_SCORING_LABELS[match.scoring]}
+            {state === 'pending' || state === 'active'
+              ? ` · Open until ${match.expiresAt.toDate().toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}`
+              : ''}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-slate-600">{TEAM_SCORING_DESCRIPTIONS[match.scoring]}</p>
+          {renderResponse()}
+          {renderMyRun()}
+          {state === 'declined' && <p className="text-sm text-slate-600">This match was declined.</p>}
+          {state === 'expired' && <p className="text-sm text-slate-600">No team took this match on in time.</p>}
+          {renderOutcome()}
+        </CardContent>
+      </Card>
+
+      {away && (
+        <div className="max-w-3xl mx-auto grid grid-cols-1 md:grid-cols-2 gap-4">
+          {sides.map(side => (
+            <TeamMatchSideCard key={side.teamId} match={match} side={side} userId={userId} />
+          ))}
+        </div>
+      )}
+
+      <p className="text-center text-sm">
+        <Link to="/teams" className="text-sky-600 hover:underline">All your teams</Link>
+      </p>
+    </div>
+  );
+};
+
+export default TeamMatchPage;
@@ -0,0 +1,201 @@
+// src/pages/TeamPage.tsx
+import React, { FormEvent, useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { AlertCircle, Copy, Loader2, LogOut, RefreshCw, Shield, Swords } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../components/ui/Button';
+import Card, { CardContent, CardHeader } from '../components/ui/Card';
+import Select from '../components/ui/Select';
+import TeamRoster from '../components/team/TeamRoster';
+import { useAuthStore } from '../store/authStore';
+import { useQuizStore } from '../store/quizStore';
+import { useTeamStore } from '../store/teamStore';
+import { TeamScoring } from '../types';
+import { getTeamInviteLink, MAX_TEAM_MEMBERS, TEAM_SCORING_DESCRIPTIONS, TEAM_SCORING_LABELS } from '../utils/teams';
+
+// One team at /teams/{id}, for its members: the roster, the invite link, and the captain's tools
+const TeamPage: React.FC = () => {
+  const { teamId } = useParams<{ teamId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const userId = user?.id;
+  const { team, loading, error, watchTeam, leaveTeam, resetInvite, createTeamMatch } = useTeamStore();
+  const { quizzes, fetchQuizzes } = useQuizStore();
+  const [quizId, setQuizId] = useState('');
+  const [scoring, setScoring] = useState<TeamScoring>('sum');
+  const [busy, setBusy] = useState<'leave' | 'invite' | 'match' | null>(null);
+
+  useEffect(() => {
+    if (!teamId || !userId) return;
+    return watchTeam(teamId);
+  }, [teamId, userId, watchTeam]);
+
+  const isCaptain = !!team && team.captainId === userId;
+
+  // Team matches are played on public quizzes, so both teams can open them
+  useEffect(() => {
+    if (isCaptain) {
+      fetchQuizzes({ visibility: 'global', status: 'active' });
+    }
+  }, [isCaptain, fetchQuizzes]);
+
+  const handleCopyInvite = async () => {
+    if (!team) return;
+    try {
+      await navigator.clipboard.writeText(getTeamInviteLink(team.inviteCode));
+      toast.success('Invite link copied. Send it to your teammates!');
+    } catch {
+      toast.error('Could not copy the link.');
+    }
+  };
+
+  const handleResetInvite = async () => {
+    if (!team || !window.confirm('Create a new invite link? The current one will stop working.')) return;
+    setBusy('invite');
+    try {
+      await resetInvite(team.id);
+      toast.success('New invite link ready.');
+    } catch (err: unknown) {
+      console.error('Error resetting the invite link:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not create a new link.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!team) return;
+    const lastMember = team.members.length === 1;
+    if (!window.confirm(lastMember ? `You are the last member. Leaving disbands ${team.name}. Continue?` : `Leave ${team.name}?`)) return;
+    setBusy('leave');
+    try {
+      await leaveTeam(team.id);
+      toast.success(lastMember ? 'Team disbanded.' : `You left ${team.name}.`);
+      navigate('/teams');
+    } catch (err: unknown) {
+      console.error('Error leaving the team:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not leave the team.');
+      setBusy(null);
+    }
+  };
+
+  const handleCreateMatch = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!team || !quizId) return;
+    setBusy('match');
+    try {
+      const matchId = await createTeamMatch(team.id, quizId, scoring);
+      toast.success("Match created. Send the link to the other team's captain.");
+      navigate(`/team-matches/${matchId}`);
+    } catch (err: unknown) {
+      console.error('Error creating the team match:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not create the match.');
+      setBusy(null);
+    }
+  };
+
+  if (loading || (!team && !error)) {
+    return (
+      <div className="flex justify-center items-center min-h-[calc(100vh-128px)]">
+        <Loader2 className="h-12 w-12 animate-spin text-sky-500" />
+        <p className="ml-3 text-lg text-slate-600">Loading team...</p>
+      </div>
+    );
+  }
+
+  if (error || !team || !userId) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[calc(100vh-128px)] text-red-500 p-4">
+        <AlertCircle size={48} className="mb-4" />
+        <h2 className="text-xl font-semibold">Error Loading Team</h2>
+        <p className="text-lg text-center">{error}</p>
+        <Button onClick={() => navigate('/teams')} className="mt-4">
+          Back to Teams
+        </Button>
+      </div>
+    );
+  }
+
+  const { record } = team;
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <Card className="max-w-3xl mx-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h1 className="flex items-center text-xl font-bold text-slate-800">
+              <Shield className="h-5 w-5 mr-2 text-sky-500" />
+              {team.name}
+            </h1>
+            <Button variant="ghost" size="sm" onClick={handleLeave} isLoading={busy === 'leave'} leftIcon={<LogOut className="h-4 w-4" />}>
+              Leave
+            </Button>
+          </div>
+          <p className="text-sm text-slate-500 mt-1">
+            {record.played} {record.played === 1 ? 'match' : 'matches'} · {record.wins} won · {record.draws} drawn · {record.losses} lost · {record.points} points
+          </p>
+        </CardHeader>
+        <CardContent>
+          <h2 className="text-sm font-semibold text-slate-800 mb-1">Members ({team.members.length}/{MAX_TEAM_MEMBERS})</h2>
+          <TeamRoster team={team} userId={userId} />
+        </CardContent>
+      </Card>
+
+      <Card className="max-w-3xl mx-auto">
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-slate-800">Invite Teammates</h2>
+          <p className="text-sm text-slate-500 mt-1">Anyone with this link can join the team.</p>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <code className="flex-1 truncate rounded bg-slate-50 px-3 py-2 text-sm text-slate-700">{getTeamInviteLink(team.inviteCode)}</code>
+            <Button variant="outline" onClick={handleCopyInvite} leftIcon={<Copy className="h-4 w-4" />}>
+              Copy link
+            </Button>
+            {isCaptain && (
+              <Button variant="ghost" onClick={handleResetInvite} isLoading={busy === 'invite'} leftIcon={<RefreshCw className="h-4 w-4" />}>
+                New link
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {isCaptain && (
+        <Card className="max-w-3xl mx-auto">
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-slate-800">Challenge Another Team</h2>
+            <p className="text-sm text-slate-500 mt-1">You get a link to send to the other team's captain. The members on the team now are the ones who play.</p>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreateMatch} className="space-y-4">
+              <Select label="Quiz" id="team-match-quiz" value={quizId} onChange={(e) => setQuizId(e.target.value)} fullWidth>
+                <option value="">Choose a public quiz</option>
+                {quizzes.map(quiz => (
+                  <option key={quiz.id} value={quiz.id}>{quiz.title}</option>
+                ))}
+              </Select>
+              <div>
+                <Select label="Scoring" id="team-match-scoring" value={scoring} onChange={(e) => setScoring(e.target.value as TeamScoring)} fullWidth>
+                  {(Object.keys(TEAM_SCORING_LABELS) as TeamScoring[]).map(option => (
+                    <option key={option} value={option}>{TEAM_SCORING_LABELS[option]}</option>
+                  ))}
+                </Select>
+                <p className="mt-1 text-xs text-slate-500">{TEAM_SCORING_DESCRIPTIONS[scoring]}</p>
+              </div>
+              <Button type="submit" isLoading={busy === 'match'} disabled={!quizId} leftIcon={<Swords className="h-4 w-4" />} fullWidth>
+                Create Match
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <p className="text-center text-sm">
+        <Link to="/teams" className="text-sky-600 hover:underline">All your teams and matches</Link>
+      </p>
+    </div>
+  );
+};
+
+export default TeamPage;
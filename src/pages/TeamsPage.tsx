@@ -0,0 +1,159 @@
+// src/pages/TeamsPage.tsx
+import React, { FormEvent, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { AlertCircle, ChevronRight, Crown, Loader2, Plus, Shield } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '../components/ui/Button';
+import Card, { CardContent, CardHeader } from '../components/ui/Card';
+import Input from '../components/ui/Input';
+import { useAuthStore } from '../store/authStore';
+import { useTeamStore } from '../store/teamStore';
+import { Team, TeamMatch } from '../types';
+import { getMatchSides, getTeamMatchState, MAX_TEAM_NAME_LENGTH, TEAM_MATCH_STATE_LABELS, TeamMatchState } from '../utils/teams';
+
+const STATE_STYLES: Record<TeamMatchState, string> = {
+  pending: 'bg-yellow-50 text-yellow-700',
+  active: 'bg-sky-50 text-sky-700',
+  declined: 'bg-slate-100 text-slate-600',
+  completed: 'bg-green-50 text-green-700',
+  expired: 'bg-slate-100 text-slate-500',
+};
+
+// The user's teams and their recent team matches, with a way to start a new team
+const TeamsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const userId = user?.id;
+  const { teams, teamMatches, loading, error, fetchTeams, createTeam } = useTeamStore();
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (userId) {
+      fetchTeams(userId);
+    }
+  }, [userId, fetchTeams]);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setCreating(true);
+    try {
+      const teamId = await createTeam(name.trim());
+      toast.success('Team created. Share the invite link with your teammates!');
+      navigate(`/teams/${teamId}`);
+    } catch (err: unknown) {
+      console.error('Error creating a team:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not create the team.');
+      setCreating(false);
+    }
+  };
+
+  const renderTeam = (team: Team) => (
+    <li key={team.id}>
+      <Link to={`/teams/${team.id}`} className="flex items-center justify-between rounded-md px-3 py-3 hover:bg-slate-50">
+        <div>
+          <p className="flex items-center font-medium text-slate-800">
+            {team.name}
+            {team.captainId === userId && <Crown className="h-4 w-4 ml-2 text-yellow-500" aria-label="You are captain" />}
+          </p>
+          <p className="text-sm text-slate-500">
+            {team.members.length} {team.members.length === 1 ? 'member' : 'members'} · {team.record.wins}W {team.record.draws}D {team.record.losses}L
+          </p>
+        </div>
+        <ChevronRight className="h-4 w-4 text-slate-400" />
+      </Link>
+    </li>
+  );
+
+  const renderMatch = (match: TeamMatch) => {
+    const state = getTeamMatchState(match);
+    const [home, away] = getMatchSides(match);
+    return (
+      <li key={match.id}>
+        <Link to={`/team-matches/${match.id}`} className="flex items-center justify-between rounded-md px-3 py-3 hover:bg-slate-50">
+          <div>
+            <p className="font-medium text-slate-800">{home.name} vs {away ? away.name : '?'}</p>
+            <p className="text-sm text-slate-500">{match.quizTitle}</p>
+          </div>
+          <div className="flex items-center">
+            <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATE_STYLES[state]}`}>{TEAM_MATCH_STATE_LABELS[state]}</span>
+            <ChevronRight className="h-4 w-4 ml-2 text-slate-400" />
+          </div>
+        </Link>
+      </li>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[calc(100vh-128px)]">
+        <Loader2 className="h-12 w-12 animate-spin text-sky-500" />
+        <p className="ml-3 text-lg text-slate-600">Loading your teams...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <div className="max-w-3xl mx-auto">
+        <h1 className="flex items-center text-2xl font-bold text-slate-800">
+          <Shield className="h-6 w-6 mr-2 text-sky-500" />
+          Teams
+        </h1>
+        <p className="text-slate-600 mt-1">Play together, take on other teams, and climb the team leaderboard.</p>
+      </div>
+
+      {error && (
+        <p className="flex items-center max-w-3xl mx-auto text-red-600">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </p>
+      )}
+
+      <Card className="max-w-3xl mx-auto">
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-slate-800">Your Teams</h2>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {teams.length === 0 ? (
+            <p className="text-sm text-slate-500">You are not on a team yet. Start one, or ask a captain for their invite link.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100">{teams.map(renderTeam)}</ul>
+          )}
+          <form onSubmit={handleCreate} className="flex flex-col sm:flex-row sm:items-end gap-2">
+            <div className="flex-1">
+              <Input
+                label="New team"
+                id="team-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={MAX_TEAM_NAME_LENGTH}
+                placeholder="e.g., The Offside Rule"
+                fullWidth
+              />
+            </div>
+            <Button type="submit" isLoading={creating} disabled={!name.trim()} leftIcon={<Plus className="h-4 w-4" />}>
+              Create Team
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="max-w-3xl mx-auto">
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-slate-800">Team Matches</h2>
+        </CardHeader>
+        <CardContent>
+          {teamMatches.length === 0 ? (
+            <p className="text-sm text-slate-500">No team matches yet. Captains can challenge another team from their team page.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100">{teamMatches.map(renderMatch)}</ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TeamsPage;
@@ -0,0 +1,159 @@
+// src/pages/TournamentPage.tsx
+import React, { useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { AlertCircle, Loader2, Play, Trophy } from 'lucide-react';
+import Button from '../components/ui/Button';
+import Card, { CardContent, CardHeader } from '../components/ui/Card';
+import TournamentBracket from '../components/tournament/TournamentBracket';
+import TournamentOrganizerPanel from '../components/tournament/TournamentOrganizerPanel';
+import TournamentStandings from '../components/tournament/TournamentStandings';
+import { useAuthStore } from '../store/authStore';
+import { useTournamentStore } from '../store/tournamentStore';
+import { getPlayerName, getRoundName, TOURNAMENT_FORMAT_LABELS } from '../utils/tournaments';
+
+// One tournament at /tournaments/{id}: the live bracket or league, the player's own match, and the organizer's tools
+const TournamentPage: React.FC = () => {
+  const { tournamentId } = useParams<{ tournamentId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const userId = user?.id;
+  const { tournament, matches, loading, error, watchTournament } = useTournamentStore();
+
+  useEffect(() => {
+    if (!tournamentId || !userId) return;
+    return watchTournament(tournamentId);
+  }, [tournamentId, userId, watchTournament]);
+
+  if (loading || (!tournament && !error)) {
+    return (
+      <div className="flex justify-center items-center min-h-[calc(100vh-128px)]">
+        <Loader2 className="h-12 w-12 animate-spin text-sky-500" />
+        <p className="ml-3 text-lg text-slate-600">Loading tournament...</p>
+      </div>
+    );
+  }
+
+  if (error || !tournament || !userId) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[calc(100vh-128px)] text-red-500 p-4">
+        <AlertCircle size={48} className="mb-4" />
+        <h2 className="text-xl font-semibold">Error Loading Tournament</h2>
+        <p className="text-lg text-center">{error}</p>
+        <Button onClick={() => navigate('/tournaments')} className="mt-4">
+          Back to Tournaments
+        </Button>
+      </div>
+    );
+  }
+
+  const isOrganizer = tournament.organizerId === userId;
+  const round = tournament.rounds[tournament.currentRound];
+  const myMatch = matches.find(match => match.status === 'open' && match.round === tournament.currentRound && match.playerIds.includes(userId));
+  const opponentId = myMatch?.playerIds.find(playerId => playerId !== userId) ?? null;
+
+  const renderMyMatch = () => {
+    if (tournament.status === 'completed' || !myMatch) return null;
+    if (myMatch.results[userId]) {
+      return <p className="text-sm text-slate-600">Your result is in. Waiting for {getPlayerName(tournament, opponentId)} to play.</p>;
+    }
+    if (!round?.quizId) {
+      return (
+        <p className="flex items-center text-sm text-slate-600">
+          {round?.generationError ? (
+            "This round's quiz could not be prepared yet. The organizer can try again from the organizer tools."
+          ) : (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Preparing this round's quiz...
+            </>
+          )}
+        </p>
+      );
+    }
+    // A started run is resumed from the quiz page; the match is only claimed once
+    const hasStarted = !!myMatch.sessionIds[userId];
+    return (
+      <Button
+        onClick={() => navigate(`/quiz/${round.quizId}`, hasStarted ? undefined : { state: { tournamentMatch: { tournamentId: tournament.id, matchId: myMatch.id } } })}
+        leftIcon={<Play className="h-4 w-4" />}
+        fullWidth
+      >
+        {hasStarted ? 'Continue Your Match' : `Play vs ${getPlayerName(tournament, opponentId)} (one attempt)`}
+      </Button>
+    );
+  };
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <Card className="max-w-5xl mx-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h1 className="flex items-center text-xl font-bold text-slate-800">
+              <Trophy className="h-5 w-5 mr-2 text-yellow-500" />
+              {tournament.name}
+            </h1>
+            <span className="text-sm text-slate-500">
+              {tournament.status === 'completed' ? 'Finished' : getRoundName(tournament, tournament.currentRound)}
+            </span>
+          </div>
+          <p className="text-sm text-slate-500 mt-1">
+            {TOURNAMENT_FORMAT_LABELS[tournament.format]} · {tournament.participants.length} players · Organized by {tournament.organizerName}
+          </p>
+        </CardHeader>
+        <CardContent>
+          {tournament.status === 'completed' ? (
+            <p className="flex items-center justify-center text-lg font-semibold text-slate-800">
+              <Trophy className="h-5 w-5 mr-2 text-yellow-500" />
+              {tournament.winnerId === userId ? 'You won the tournament!' : `${getPlayerName(tournament, tournament.winnerId)} won the tournament.`}
+            </p>
+          ) : (
+            renderMyMatch() || (
+              <p className="text-sm text-slate-600">
+                {tournament.participants.some(p => p.userId === userId)
+                  ? 'You have no match to play in this round.'
+                  : 'Matches are settled on score, with the quicker player winning a tie.'}
+              </p>
+            )
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="max-w-5xl mx-auto">
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-slate-800">{tournament.format === 'single_elimination' ? 'Bracket' : 'Rounds'}</h2>
+        </CardHeader>
+        <CardContent>
+          <TournamentBracket tournament={tournament} matches={matches} userId={userId} />
+        </CardContent>
+      </Card>
+
+      {tournament.format === 'round_robin' && (
+        <Card className="max-w-5xl mx-auto">
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-slate-800">Standings</h2>
+          </CardHeader>
+          <CardContent>
+            <TournamentStandings tournament={tournament} userId={userId} />
+          </CardContent>
+        </Card>
+      )}
+
+      {isOrganizer && tournament.status === 'active' && (
+        <Card className="max-w-5xl mx-auto">
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-slate-800">Organizer Tools</h2>
+          </CardHeader>
+          <CardContent>
+            <TournamentOrganizerPanel tournament={tournament} matches={matches} />
+          </CardContent>
+        </Card>
+      )}
+
+      <p className="text-center text-sm">
+        <Link to="/tournaments" className="text-sky-600 hover:underline">All your tournaments</Link>
+      </p>
+    </div>
+  );
+};
+
+export default TournamentPage;
@@ -0,0 +1,100 @@
+// src/pages/TournamentsPage.tsx
+import React, { useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { AlertCircle, ChevronRight, Loader2, Plus, Trophy } from 'lucide-react';
+import Button from '../components/ui/Button';
+import Card, { CardContent, CardHeader } from '../components/ui/Card';
+import { useAuthStore } from '../store/authStore';
+import { useTournamentStore } from '../store/tournamentStore';
+import { Tournament } from '../types';
+import { getPlayerName, getRoundName, TOURNAMENT_FORMAT_LABELS } from '../utils/tournaments';
+
+// The tournaments the user organizes or plays in, with a way to set up a new one
+const TournamentsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const userId = user?.id;
+  const { tournaments, loading, error, fetchTournaments } = useTournamentStore();
+
+  useEffect(() => {
+    if (userId) {
+      fetchTournaments(userId);
+    }
+  }, [userId, fetchTournaments]);
+
+  const renderTournament = (tournament: Tournament) => (
+    <li key={tournament.id}>
+      <Link to={`/tournaments/${tournament.id}`} className="flex items-center justify-between rounded-md px-3 py-3 hover:bg-slate-50">
+        <div>
+          <p className="font-medium text-slate-800">{tournament.name}</p>
+          <p className="text-sm text-slate-500">
+            {TOURNAMENT_FORMAT_LABELS[tournament.format]} · {tournament.participants.length} players
+            {tournament.organizerId === userId ? ' · You organize' : ` · By ${tournament.organizerName}`}
+          </p>
+        </div>
+        <div className="flex items-center text-sm text-slate-600">
+          {tournament.status === 'completed'
+            ? `Won by ${getPlayerName(tournament, tournament.winnerId)}`
+            : getRoundName(tournament, tournament.currentRound)}
+          <ChevronRight className="h-4 w-4 ml-2 text-slate-400" />
+        </div>
+      </Link>
+    </li>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[calc(100vh-128px)]">
+        <Loader2 className="h-12 w-12 animate-spin text-sky-500" />
+        <p className="ml-3 text-lg text-slate-600">Loading your tournaments...</p>
+      </div>
+    );
+  }
+
+  const active = tournaments.filter(t => t.status === 'active');
+  const completed = tournaments.filter(t => t.status === 'completed');
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <div className="max-w-3xl mx-auto flex items-start justify-between gap-4">
+        <div>
+          <h1 className="flex items-center text-2xl font-bold text-slate-800">
+            <Trophy className="h-6 w-6 mr-2 text-yellow-500" />
+            Tournaments
+          </h1>
+          <p className="text-slate-600 mt-1">Knockout brackets and round-robin leagues for your group, one quiz per round.</p>
+        </div>
+        <Button onClick={() => navigate('/tournaments/new')} leftIcon={<Plus className="h-4 w-4" />}>
+          New Tournament
+        </Button>
+      </div>
+
+      {error && (
+        <p className="flex items-center max-w-3xl mx-auto text-red-600">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </p>
+      )}
+
+      {[
+        { title: 'In Progress', items: active, empty: 'No tournaments in progress.' },
+        { title: 'Finished', items: completed, empty: 'No finished tournaments yet.' },
+      ].map(section => (
+        <Card key={section.title} className="max-w-3xl mx-auto">
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-slate-800">{section.title}</h2>
+          </CardHeader>
+          <CardContent>
+            {section.items.length === 0 ? (
+              <p className="text-sm text-slate-500">{section.empty}</p>
+            ) : (
+              <ul className="divide-y divide-slate-100">{section.items.map(renderTournament)}</ul>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default TournamentsPage;
@@ -0,0 +1,86 @@
+// src/store/challengeStore.ts
+import { create } from 'zustand';
+import { collection, doc, getDoc, getDocs, limit, orderBy, query, where } from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { createChallengeCallable, respondToChallengeCallable } from '../firebase/functions';
+import { Challenge, ChallengeResult, PlayerQuiz, PlayerQuizQuestion } from '../types';
+
+// Challenges listed on the /challenges page, newest first
+const CHALLENGE_LIST_SIZE = 50;
+
+interface ChallengeState {
+  challenges: Challenge[]; // Sent and received
+  currentChallenge: Challenge | null;
+  results: ChallengeResult[]; // Both sides, once the current challenge is completed
+  questions: PlayerQuizQuestion[]; // The current challenge's questions, for the comparison
+  loading: boolean;
+  error: string | null;
+
+  fetchChallenges: (userId: string) => Promise<void>;
+  fetchChallenge: (challengeId: string, userId: string) => Promise<void>;
+  createChallenge: (attemptId: string) => Promise<string>; // Resolves to the new challenge's id
+  respondToChallenge: (challengeId: string, userId: string, accept: boolean) => Promise<void>;
+}
+
+export const useChallengeStore = create<ChallengeState>((set, get) => ({
+  challenges: [],
+  currentChallenge: null,
+  results: [],
+  questions: [],
+  loading: false,
+  error: null,
+
+  fetchChallenges: async (userId: string) => {
+    set({ loading: true, error: null });
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, 'challenges'),
+        where('participants', 'array-contains', userId),
+        orderBy('createdAt', 'desc'),
+        limit(CHALLENGE_LIST_SIZE),
+      ));
+      set({ challenges: snapshot.docs.map(d => d.data() as Challenge), loading: false });
+    } catch (err: unknown) {
+      console.error('Error fetching challenges:', err);
+      set({ error: err instanceof Error ? err.message : 'Failed to load your challenges.', loading: false });
+    }
+  },
+
+  fetchChallenge: async (challengeId: string, userId: string) => {
+    set({ loading: true, error: null, currentChallenge: null, results: [], questions: [] });
+    try {
+      const challengeDoc = await getDoc(doc(db, 'challenges', challengeId));
+      if (!challengeDoc.exists()) {
+        set({ error: 'Challenge not found. The link may be wrong.', loading: false });
+        return;
+      }
+      const challenge = challengeDoc.data() as Challenge;
+
+      // The answers stay hidden until both sides have played, and from everyone else
+      let results: ChallengeResult[] = [];
+      let questions: PlayerQuizQuestion[] = [];
+      if (challenge.status === 'completed' && challenge.participants.includes(userId)) {
+        const [resultsSnapshot, viewDoc] = await Promise.all([
+          getDocs(collection(challengeDoc.ref, 'results')),
+          getDoc(doc(db, 'quizPlayerViews', challenge.quizId)).catch(() => null), // The quiz may have been removed since
+        ]);
+        results = resultsSnapshot.docs.map(d => d.data() as ChallengeResult);
+        questions = viewDoc?.exists() ? (viewDoc.data() as PlayerQuiz).questions || [] : [];
+      }
+      set({ currentChallenge: challenge, results, questions, loading: false });
+    } catch (err: unknown) {
+      console.error('Error fetching the challenge:', err);
+      set({ error: err instanceof Error ? err.message : 'Failed to load the challenge.', loading: false });
+    }
+  },
+
+  createChallenge: async (attemptId: string) => {
+    const result = await createChallengeCallable({ attemptId });
+    return result.data.challengeId;
+  },
+
+  respondToChallenge: async (challengeId: string, userId: string, accept: boolean) => {
+    await respondToChallengeCallable({ challengeId, accept });
+    await get().fetchChallenge(challengeId, userId);
+  },
+}));
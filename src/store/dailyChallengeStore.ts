@@ -0,0 +1,65 @@
+// src/store/dailyChallengeStore.ts
+import { create } from 'zustand';
+import { collection, doc, getDoc, getDocs, limit, orderBy, query, where } from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { DailyChallenge, DailyChallengeEntry, DailyChallengeStreak } from '../types';
+import { getTodayKey } from '../utils/dailyChallenge';
+
+// Rows of the day's leaderboard and past days shown on the home page card
+const DAILY_LEADERBOARD_SIZE = 10;
+const DAILY_ARCHIVE_DAYS = 7;
+
+interface DailyChallengeState {
+  today: DailyChallenge | null; // null until the scheduled function has created today's challenge
+  entries: DailyChallengeEntry[]; // Today's leaderboard, best first
+  myEntry: DailyChallengeEntry | null; // Set once the user has played today
+  startedToday: boolean; // The user has started today's challenge, whether or not it was submitted
+  streak: DailyChallengeStreak | null;
+  archive: DailyChallenge[]; // Most recent first, today excluded
+  loading: boolean;
+  error: string | null;
+
+  fetchDailyChallenge: (userId: string) => Promise<void>;
+}
+
+export const useDailyChallengeStore = create<DailyChallengeState>((set) => ({
+  today: null,
+  entries: [],
+  myEntry: null,
+  startedToday: false,
+  streak: null,
+  archive: [],
+  loading: false,
+  error: null,
+
+  fetchDailyChallenge: async (userId: string) => {
+    set({ loading: true, error: null });
+    try {
+      const todayKey = getTodayKey();
+      const todayRef = doc(db, 'dailyChallenges', todayKey);
+      const entriesRef = collection(todayRef, 'entries');
+
+      const [todayDoc, topSnapshot, myEntryDoc, streakDoc, archiveSnapshot] = await Promise.all([
+        getDoc(todayRef),
+        getDocs(query(entriesRef, orderBy('points', 'desc'), limit(DAILY_LEADERBOARD_SIZE))),
+        getDoc(doc(entriesRef, userId)),
+        getDoc(doc(db, 'dailyChallengeStreaks', userId)),
+        getDocs(query(collection(db, 'dailyChallenges'), where('date', '<', todayKey), orderBy('date', 'desc'), limit(DAILY_ARCHIVE_DAYS))),
+      ]);
+
+      set({
+        today: todayDoc.exists() ? (todayDoc.data() as DailyChallenge) : null,
+        entries: topSnapshot.docs.map(d => d.data() as DailyChallengeEntry),
+        // An entry is claimed when the session starts and only scored on submit
+        myEntry: myEntryDoc.exists() && myEntryDoc.get('attemptId') ? (myEntryDoc.data() as DailyChallengeEntry) : null,
+        startedToday: myEntryDoc.exists(),
+        streak: streakDoc.exists() ? (streakDoc.data() as DailyChallengeStreak) : null,
+        archive: archiveSnapshot.docs.map(d => d.data() as DailyChallenge),
+        loading: false,
+      });
+    } catch (err: unknown) {
+      console.error('Error fetching the daily challenge:', err);
+      set({ error: err instanceof Error ? err.message : 'Failed to load the daily challenge.', loading: false });
+    }
+  },
+}));
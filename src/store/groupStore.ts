@@ -0,0 +1,170 @@
+// src/store/groupStore.ts
+import { create } from 'zustand';
+import { collection, doc, getDoc, getDocs, onSnapshot, orderBy, query, where } from 'firebase/firestore';
+import { db } from '../firebase/config';
+import {
+  createAssignmentCallable,
+  createGroupCallable,
+  joinGroupCallable,
+  leaveGroupCallable,
+  manageGroupCallable,
+} from '../firebase/functions';
+import { Assignment, Group, PlayerQuiz, QuizAttempt } from '../types';
+
+// An assignment together with the group that set it, for the member's Assigned list
+export interface AssignedQuiz {
+  group: Group;
+  assignment: Assignment;
+}
+
+interface GroupState {
+  coachedGroups: Group[]; // Groups the user coaches
+  memberGroups: Group[]; // Groups the user is a member of
+  assigned: AssignedQuiz[]; // Every assignment of the member groups, soonest due first
+  assignedAttempts: QuizAttempt[]; // The user's own attempts at those assignments
+  group: Group | null; // Kept live by watchGroup
+  assignments: Assignment[]; // The open group's assignments, kept live by watchAssignments
+  attempts: QuizAttempt[]; // The open group's assignment attempts, loaded by fetchAttempts
+  loading: boolean;
+  error: string | null;
+
+  fetchGroups: (userId: string) => Promise<void>; // Also loads the Assigned list
+  watchGroup: (groupId: string) => () => void; // Returns the function that stops listening, like watchAssignments
+  watchAssignments: (groupId: string) => () => void;
+  fetchAttempts: (groupId: string, userId: string | null) => Promise<void>; // null loads every member's (coach only)
+  createGroup: (name: string) => Promise<string>; // Resolves to the group's id, like joinGroup
+  joinGroup: (inviteCode: string) => Promise<string>;
+  leaveGroup: (groupId: string) => Promise<void>;
+  removeMember: (groupId: string, userId: string) => Promise<void>; // Coach only, like the two below
+  resetInvite: (groupId: string) => Promise<void>;
+  createAssignment: (groupId: string, quizId: string, dueAt: number, maxAttempts: number) => Promise<void>;
+  fetchQuestionTexts: (quizId: string) => Promise<Record<string, string>>; // By question id; empty once the quiz is gone
+}
+
+const loadAttempts = async (groupId: string, userId: string | null): Promise<QuizAttempt[]> => {
+  // The rules let a coach read every attempt stamped with their group, and a member only their own
+  const constraints = userId ? [where('groupId', '==', groupId), where('userId', '==', userId)] : [where('groupId', '==', groupId)];
+  const snapshot = await getDocs(query(collection(db, 'quizAttempts'), ...constraints));
+  return snapshot.docs.map(d => ({ ...(d.data() as QuizAttempt), id: d.id }));
+};
+
+// Groups and assignments are only changed by Cloud Functions; attempts come from quizAttempts, stamped by submitQuiz
+export const useGroupStore = create<GroupState>((set) => ({
+  coachedGroups: [],
+  memberGroups: [],
+  assigned: [],
+  assignedAttempts: [],
+  group: null,
+  assignments: [],
+  attempts: [],
+  loading: false,
+  error: null,
+
+  fetchGroups: async (userId: string) => {
+    set({ loading: true, error: null });
+    try {
+      const [coachedSnapshot, memberSnapshot] = await Promise.all([
+        getDocs(query(collection(db, 'groups'), where('coachId', '==', userId))),
+        getDocs(query(collection(db, 'groups'), where('memberIds', 'array-contains', userId))),
+      ]);
+      const byName = (a: Group, b: Group) => a.name.localeCompare(b.name);
+      const memberGroups = memberSnapshot.docs.map(d => d.data() as Group).sort(byName);
+
+      // A member is in a handful of groups at most, so each is read on its own
+      const perGroup = await Promise.all(memberGroups.map(async group => {
+        const [assignmentSnapshot, attempts] = await Promise.all([
+          getDocs(collection(db, 'groups', group.id, 'assignments')),
+          loadAttempts(group.id, userId),
+        ]);
+        return { group, assignments: assignmentSnapshot.docs.map(d => d.data() as Assignment), attempts };
+      }));
+
+      set({
+        coachedGroups: coachedSnapshot.docs.map(d => d.data() as Group).sort(byName),
+        memberGroups,
+        assigned: perGroup
+          .flatMap(({ group, assignments }) => assignments.map(assignment => ({ group, assignment })))
+          .sort((a, b) => a.assignment.dueAt.toMillis() - b.assignment.dueAt.toMillis()),
+        assignedAttempts: perGroup.flatMap(({ attempts }) => attempts),
+        loading: false,
+      });
+    } catch (err: unknown) {
+      console.error('Error fetching groups:', err);
+      set({ error: err instanceof Error ? err.message : 'Failed to load your groups.', loading: false });
+    }
+  },
+
+  watchGroup: (groupId: string) => {
+    set({ group: null, loading: true, error: null });
+    // Anyone but the coach and the members is refused by the rules, which ends up in the error handler
+    return onSnapshot(doc(db, 'groups', groupId), snapshot => {
+      set(snapshot.exists()
+        ? { group: snapshot.data() as Group, loading: false }
+        : { group: null, error: 'Group not found.', loading: false });
+    }, (err) => {
+      console.error(`Error listening to group ${groupId}:`, err);
+      set({ error: err.message || 'Could not open this group.', loading: false });
+    });
+  },
+
+  watchAssignments: (groupId: string) => {
+    set({ assignments: [] });
+    return onSnapshot(query(collection(db, 'groups', groupId, 'assignments'), orderBy('dueAt', 'asc')), snapshot => {
+      set({ assignments: snapshot.docs.map(d => d.data() as Assignment) });
+    }, (err) => {
+      console.error(`Error listening to the assignments of group ${groupId}:`, err);
+      set({ error: err.message || 'Could not load the assignments.' });
+    });
+  },
+
+  fetchAttempts: async (groupId: string, userId: string | null) => {
+    try {
+      set({ attempts: await loadAttempts(groupId, userId) });
+    } catch (err: unknown) {
+      console.error(`Error fetching the attempts of group ${groupId}:`, err);
+      set({ error: err instanceof Error ? err.message : 'Could not load the results.' });
+    }
+  },
+
+  createGroup: async (name: string) => {
+    const result = await createGroupCallable({ name });
+    return result.data.groupId;
+  },
+
+  joinGroup: async (inviteCode: string) => {
+    const result = await joinGroupCallable({ inviteCode });
+    return result.data.groupId;
+  },
+
+  leaveGroup: async (groupId: string) => {
+    await leaveGroupCallable({ groupId });
+    set(state => ({
+      memberGroups: state.memberGroups.filter(group => group.id !== groupId),
+      assigned: state.assigned.filter(item => item.group.id !== groupId),
+    }));
+  },
+
+  removeMember: async (groupId: string, userId: string) => {
+    await manageGroupCallable({ groupId, action: 'remove_member', userId });
+  },
+
+  resetInvite: async (groupId: string) => {
+    await manageGroupCallable({ groupId, action: 'reset_invite' });
+  },
+
+  createAssignment: async (groupId: string, quizId: string, dueAt: number, maxAttempts: number) => {
+    await createAssignmentCallable({ groupId, quizId, dueAt, maxAttempts });
+  },
+
+  // Assigned quizzes are public, so their answer-free player view has the question texts
+  fetchQuestionTexts: async (quizId: string) => {
+    try {
+      const viewDoc = await getDoc(doc(db, 'quizPlayerViews', quizId));
+      const view = viewDoc.exists() ? (viewDoc.data() as Pick<PlayerQuiz, 'questions' | 'status'>) : null;
+      return view && view.status !== 'deleted' ? Object.fromEntries((view.questions || []).map(q => [q.id, q.text])) : {};
+    } catch (err: unknown) {
+      console.warn(`Could not load the questions of quiz ${quizId}:`, err);
+      return {};
+    }
+  },
+}));
@@ -0,0 +1,91 @@
+// src/store/leaderboardStore.ts
+import { create } from 'zustand';
+import {
+  collection,
+  doc,
+  getCountFromServer,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  where,
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { LeaderboardBoard, LeaderboardEntry } from '../types';
+
+// How many rows of a board are shown; the current user's rank is looked up separately
+const LEADERBOARD_PAGE_SIZE = 25;
+
+interface LeaderboardState {
+  boardId: string | null;
+  entries: LeaderboardEntry[];
+  currentUserEntry: LeaderboardEntry | null;
+  currentUserRank: number | null; // 1-based, null when the user is not on the board
+  categoryBoards: LeaderboardBoard[];
+  quizBoards: LeaderboardBoard[];
+  loading: boolean;
+  error: string | null;
+
+  fetchBoardLists: () => Promise<void>;
+  fetchLeaderboard: (boardId: string, userId?: string) => Promise<void>;
+}
+
+export const useLeaderboardStore = create<LeaderboardState>((set, get) => ({
+  boardId: null,
+  entries: [],
+  currentUserEntry: null,
+  currentUserRank: null,
+  categoryBoards: [],
+  quizBoards: [],
+  loading: false,
+  error: null,
+
+  // Categories and quizzes that have at least one ranked attempt, for the tab pickers
+  fetchBoardLists: async () => {
+    try {
+      const [categorySnapshot, quizSnapshot] = await Promise.all([
+        getDocs(query(collection(db, 'leaderboards'), where('kind', '==', 'category'), where('window', '==', 'all_time'))),
+        getDocs(query(collection(db, 'leaderboards'), where('kind', '==', 'quiz'))),
+      ]);
+      const byTitle = (a: LeaderboardBoard, b: LeaderboardBoard) => a.title.localeCompare(b.title);
+
+      set({
+        categoryBoards: categorySnapshot.docs.map(d => d.data() as LeaderboardBoard).sort(byTitle),
+        quizBoards: quizSnapshot.docs.map(d => d.data() as LeaderboardBoard).sort(byTitle),
+      });
+    } catch (err: unknown) {
+      console.error('Error fetching leaderboard lists:', err);
+      set({ error: err instanceof Error ? err.message : 'Failed to load leaderboards.' });
+    }
+  },
+
+  fetchLeaderboard: async (boardId: string, userId?: string) => {
+    set({ loading: true, error: null, boardId });
+    try {
+      const entriesRef = collection(db, 'leaderboards', boardId, 'entries');
+      const topSnapshot = await getDocs(query(entriesRef, orderBy('points', 'desc'), limit(LEADERBOARD_PAGE_SIZE)));
+      const entries = topSnapshot.docs.map(d => d.data() as LeaderboardEntry);
+
+      // ⭐ The user's rank = number of players with more points + 1, counted on the server ⭐
+      let currentUserEntry: LeaderboardEntry | null = null;
+      let currentUserRank: number | null = null;
+      if (userId) {
+        const userEntryDoc = await getDoc(doc(entriesRef, userId));
+        if (userEntryDoc.exists()) {
+          currentUserEntry = userEntryDoc.data() as LeaderboardEntry;
+          const aheadSnapshot = await getCountFromServer(query(entriesRef, where('points', '>', currentUserEntry.points)));
+          currentUserRank = aheadSnapshot.data().count + 1;
+        }
+      }
+
+      // Ignore the response if another board was selected in the meantime
+      if (get().boardId !== boardId) return;
+      set({ entries, currentUserEntry, currentUserRank, loading: false });
+    } catch (err: unknown) {
+      console.error('Error fetching leaderboard:', err);
+      if (get().boardId !== boardId) return;
+      set({ error: err instanceof Error ? err.message : 'Failed to load leaderboard.', entries: [], currentUserEntry: null, currentUserRank: null, loading: false });
+    }
+  },
+}));
@@ -0,0 +1,102 @@
+// src/store/progressStore.ts
+import { create } from 'zustand';
+import { deleteDoc, doc, getDoc, setDoc, Timestamp } from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { QuizProgress, QuizSessionInfo, ResumableQuiz } from '../types';
+import { getProgressDocId, readLocalProgress, removeLocalProgress, writeLocalProgress } from '../utils/quizProgress';
+
+interface ProgressState {
+  resumable: ResumableQuiz | null; // Unfinished run of the quiz last checked with loadProgress
+  checking: boolean;
+
+  loadProgress: (userId: string, quizId: string) => Promise<void>;
+  saveProgress: (progress: QuizProgress) => Promise<void>;
+  clearProgress: (userId: string, quizId: string) => Promise<void>;
+}
+
+// The session as the player needs it, or null when it can no longer be submitted
+const toOpenSession = (sessionId: string, data: Record<string, unknown> | undefined): QuizSessionInfo | null => {
+  if (!data || data.status !== 'active') return null;
+  const startedAt = data.startedAt instanceof Timestamp ? data.startedAt.toMillis() : 0;
+  const expiresAt = data.expiresAt instanceof Timestamp ? data.expiresAt.toMillis() : 0;
+  if (expiresAt <= Date.now()) return null;
+
+  return {
+    sessionId,
+    mode: data.mode === 'practice' ? 'practice' : 'exam',
+    questionOrder: (data.questionOrder as string[]) || [],
+    optionOrder: (data.optionOrder as Record<string, string[]>) || {},
+    startedAt,
+    expiresAt,
+    timePerQuestionSeconds: (data.timePerQuestionSeconds as number | null) ?? null,
+    totalTimeLimitSeconds: (data.totalTimeLimitSeconds as number | null) ?? null,
+    answeredAt: Object.fromEntries(Object.entries((data.answerLog as Record<string, { answeredAt?: unknown }>) || {})
+      .filter(([, entry]) => entry.answeredAt instanceof Timestamp)
+      .map(([questionId, entry]) => [questionId, (entry.answeredAt as Timestamp).toMillis()])),
+  };
+};
+
+export const useProgressStore = create<ProgressState>((set) => ({
+  resumable: null,
+  checking: false,
+
+  // Finds an unfinished run of the quiz: the newer of the local and server copy, as long as its session is still open
+  loadProgress: async (userId, quizId) => {
+    set({ checking: true, resumable: null });
+    const local = readLocalProgress(userId, quizId);
+    let remote: QuizProgress | null = null;
+    try {
+      const progressDoc = await getDoc(doc(db, 'quizProgress', getProgressDocId(userId, quizId)));
+      remote = progressDoc.exists() ? (progressDoc.data() as QuizProgress) : null;
+    } catch (error: unknown) {
+      // Offline: the local copy is all there is
+      console.warn('Could not load saved quiz progress from the server:', error);
+    }
+
+    const progress = [local, remote]
+      .filter((candidate): candidate is QuizProgress => candidate !== null)
+      .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+    if (!progress) {
+      set({ checking: false });
+      return;
+    }
+
+    try {
+      const sessionDoc = await getDoc(doc(db, 'quizSessions', progress.sessionId));
+      const session = toOpenSession(progress.sessionId, sessionDoc.exists() ? sessionDoc.data() : undefined);
+      if (session) {
+        set({ resumable: { progress, session }, checking: false });
+        return;
+      }
+    } catch (error: unknown) {
+      console.warn('Could not check the saved quiz session:', error);
+      set({ checking: false });
+      return;
+    }
+
+    // Submitted or expired: the run cannot be finished any more
+    removeLocalProgress(userId, quizId);
+    deleteDoc(doc(db, 'quizProgress', getProgressDocId(userId, quizId))).catch(() => undefined);
+    set({ checking: false });
+  },
+
+  // Saved locally first, so the run survives a reload even when the server write has to wait for a connection
+  saveProgress: async (progress) => {
+    writeLocalProgress(progress);
+    try {
+      await setDoc(doc(db, 'quizProgress', getProgressDocId(progress.userId, progress.quizId)), progress);
+    } catch (error: unknown) {
+      console.warn('Could not save quiz progress to the server:', error);
+    }
+  },
+
+  clearProgress: async (userId, quizId) => {
+    removeLocalProgress(userId, quizId);
+    set({ resumable: null });
+    try {
+      await deleteDoc(doc(db, 'quizProgress', getProgressDocId(userId, quizId)));
+    } catch (error: unknown) {
+      console.warn('Could not clear saved quiz progress:', error);
+    }
+  },
+}));
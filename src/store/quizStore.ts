@@ -9,14 +9,16 @@ import {
   where,
   orderBy,
   limit,
+  startAfter,
   doc,
   setDoc,
-  addDoc,
   Timestamp,
   DocumentData,
   Query,
+  QueryConstraint,
+  QueryDocumentSnapshot,
 } from 'firebase/firestore';
-import { Quiz, QuizAttempt, QuizFilter, QuizConfig } from '../types';
+import { Quiz, PlayerQuiz, QuizAttempt, QuizFilter, QuizConfig, AttemptFilter, QuizType, TypeDistribution } from '../types';
 import { db, functions } from '../firebase/config';
 import { httpsCallable } from 'firebase/functions';
 import { useAuthStore } from './authStore';
@@ -31,6 +33,40 @@ interface RawQuizAttemptDocument extends DocumentData {
   completedAt?: Timestamp;
 }
 
+// Attempts loaded per page of the history
+const ATTEMPTS_PAGE_SIZE = 10;
+
+const toQuizAttempt = (snapshot: QueryDocumentSnapshot): QuizAttempt => {
+  const rawData = snapshot.data() as RawQuizAttemptDocument;
+  const completedAtTimestamp = rawData.completedAt instanceof Timestamp
+    ? rawData.completedAt
+    : Timestamp.now(); // Fallback if somehow not a Timestamp
+
+  return {
+    id: snapshot.id,
+    ...(rawData as Omit<QuizAttempt, 'id' | 'completedAt'>),
+    completedAt: completedAtTimestamp,
+  } as QuizAttempt;
+};
+
+// Builds the history query for one page; every combination is covered by firestore.indexes.json
+const buildAttemptsQuery = (userId: string, filter: AttemptFilter, cursor: QueryDocumentSnapshot | null) => {
+  const constraints: QueryConstraint[] = [where('userId', '==', userId)];
+  if (filter.category) constraints.push(where('category', '==', filter.category));
+  if (filter.difficulty) constraints.push(where('difficulty', '==', filter.difficulty));
+  if (filter.scoreBand) constraints.push(where('scoreBand', '==', filter.scoreBand));
+  if (filter.fromDate) {
+    constraints.push(where('completedAt', '>=', Timestamp.fromDate(new Date(`${filter.fromDate}T00:00:00`))));
+  }
+  if (filter.toDate) {
+    constraints.push(where('completedAt', '<=', Timestamp.fromDate(new Date(`${filter.toDate}T23:59:59.999`))));
+  }
+  constraints.push(orderBy('completedAt', 'desc'));
+  if (cursor) constraints.push(startAfter(cursor));
+  constraints.push(limit(ATTEMPTS_PAGE_SIZE));
+  return query(collection(db, 'quizAttempts'), ...constraints);
+};
+
 interface GenerateQuizCallableRequest {
   title?: string | null;
   category: string;
@@ -40,7 +76,10 @@ interface GenerateQuizCallableRequest {
   event?: string | null;
   country?: string | null;
   visibility?: 'global' | 'private';
-  quizType: 'multiple_choice' | 'true_false';
+  quizType: QuizType;
+  typeDistribution?: TypeDistribution | null;
+  timePerQuestionSeconds?: number | null;
+  totalTimeLimitSeconds?: number | null;
 }
 
 interface GenerateQuizCallableResponse {
@@ -48,17 +87,27 @@ interface GenerateQuizCallableResponse {
 }
 
 interface QuizState {
-  quizzes: Quiz[];
-  currentQuiz: Quiz | null;
+  // Full documents for creators/admins, answer-free player views for everyone else
+  quizzes: PlayerQuiz[];
+  // Always the player view: answers are revealed per question by the checkAnswer callable
+  currentQuiz: PlayerQuiz | null;
   quizAttempts: QuizAttempt[];
+  currentAttempt: QuizAttempt | null; // Attempt opened on the detail page
+  // Cursor pagination of the attempt history (see fetchUserAttempts / fetchMoreUserAttempts)
+  attemptFilter: AttemptFilter;
+  attemptsCursor: QueryDocumentSnapshot | null;
+  hasMoreAttempts: boolean;
+  loadingMoreAttempts: boolean;
   loading: boolean;
   error: string | null;
 
   generateQuiz: (config: QuizConfig) => Promise<Quiz>;
   saveQuiz: (quiz: Quiz, configUsedToGenerate?: QuizConfig) => Promise<void>;
   fetchQuizById: (id: string) => Promise<void>;
-  fetchUserAttempts: (userId: string) => Promise<void>;
-  saveQuizAttempt: (attempt: Omit<QuizAttempt, 'id'>, originalQuizConfig?: QuizConfig) => Promise<string>;
+  fetchQuizForEdit: (id: string) => Promise<Quiz | null>;
+  fetchUserAttempts: (userId: string, filter?: AttemptFilter) => Promise<void>;
+  fetchMoreUserAttempts: (userId: string) => Promise<void>;
+  fetchAttemptById: (attemptId: string) => Promise<QuizAttempt | null>;
   fetchQuizzes: (filter?: QuizFilter) => Promise<void>;
   updateQuizVisibility: (quizId: string, newVisibility: 'global' | 'private') => Promise<void>;
   updateQuizStatus: (quizId: string, newStatus: 'active' | 'deleted') => Promise<void>;
@@ -68,6 +117,11 @@ export const useQuizStore = create<QuizState>((set, get) => ({
   quizzes: [],
   currentQuiz: null,
   quizAttempts: [],
+  currentAttempt: null,
+  attemptFilter: {},
+  attemptsCursor: null,
+  hasMoreAttempts: false,
+  loadingMoreAttempts: false,
   loading: false,
   error: null,
 
@@ -98,6 +152,9 @@ export const useQuizStore = create<QuizState>((set, get) => ({
         country: config.country,
         visibility: finalVisibility,
         quizType: config.quizType,
+        typeDistribution: config.quizType === 'mixed' ? config.typeDistribution : null,
+        timePerQuestionSeconds: config.timePerQuestionSeconds ?? null,
+        totalTimeLimitSeconds: config.totalTimeLimitSeconds ?? null,
       };
 
       const callGenerateQuiz = httpsCallable<GenerateQuizCallableRequest, GenerateQuizCallableResponse>(
@@ -155,8 +212,10 @@ export const useQuizStore = create<QuizState>((set, get) => ({
           quizDataForFirestore.createdFromQuizConfig = quiz.createdFromQuizConfig;
         }
 
-        const docRef = await addDoc(collection(db, 'quizzes'), quizDataForFirestore);
+        // Reserve the id first so the document stores its own id, like quizzes written by generateQuiz
+        const docRef = doc(collection(db, 'quizzes'));
         quizDataForFirestore.id = docRef.id;
+        await setDoc(docRef, quizDataForFirestore);
 
         // Optimistic update for new quizzes: Convert Timestamp to millis for client state
         // Safely get milliseconds from createdAt, providing a fallback
@@ -221,10 +280,37 @@ export const useQuizStore = create<QuizState>((set, get) => ({
     }
   },
 
-  fetchQuizById: async (id: string) => {
+  // Full quiz including the answer key, for its creator (or an admin) to edit
+  fetchQuizForEdit: async (id: string) => {
     set({ loading: true, error: null });
     try {
       const quizDoc = await getDoc(doc(db, 'quizzes', id));
+      if (!quizDoc.exists()) {
+        set({ error: 'Quiz not found.', loading: false });
+        return null;
+      }
+      const rawData = quizDoc.data() as FirestoreQuizDocument;
+      const quiz: Quiz = {
+        ...rawData,
+        id: quizDoc.id,
+        createdAt: rawData.createdAt instanceof Timestamp ? rawData.createdAt.toMillis() : Date.now(),
+      } as Quiz;
+      set({ loading: false });
+      return quiz;
+    } catch (error: unknown) {
+      // Rules only let the creator or an admin read the full quiz
+      const errorMessage = error instanceof Error ? error.message : 'Failed to load quiz for editing';
+      set({ error: errorMessage, loading: false });
+      console.error('Error fetching quiz for edit:', error);
+      return null;
+    }
+  },
+
+  fetchQuizById: async (id: string) => {
+    set({ loading: true, error: null });
+    try {
+      // ⭐ Play from the answer-free player view so answers never reach the client before submission ⭐
+      const quizDoc = await getDoc(doc(db, 'quizPlayerViews', id));
       if (quizDoc.exists()) {
         const rawData = quizDoc.data() as FirestoreQuizDocument; // Use FirestoreQuizDocument
 
@@ -234,12 +320,12 @@ export const useQuizStore = create<QuizState>((set, get) => ({
           : Date.now(); // Fallback if data is malformed or missing
 
         // Corrected construction of fetchedQuizData
-        const fetchedQuizData: Quiz = {
+        const fetchedQuizData: PlayerQuiz = {
           ...rawData, // Spread all properties from rawData first
           id: quizDoc.id, // Override id with the actual document ID
           createdAt: createdAtMillis, // Override createdAt with the converted number
           status: (rawData.status as Quiz['status']) || 'active', // Ensure status type is correct, default to 'active'
-        };
+        } as PlayerQuiz;
 
         const authState = useAuthStore.getState();
         const isAdmin = authState.user?.isAdmin || false;
@@ -262,29 +348,18 @@ export const useQuizStore = create<QuizState>((set, get) => ({
     }
   },
 
-  fetchUserAttempts: async (userId) => {
-    set({ loading: true, error: null });
+  // Loads the first page of the history; the filter is kept for fetchMoreUserAttempts
+  fetchUserAttempts: async (userId, filter = get().attemptFilter) => {
+    set({ loading: true, error: null, attemptFilter: filter, attemptsCursor: null, hasMoreAttempts: false });
     try {
-      const attemptsQuery = query(
-        collection(db, 'quizAttempts'),
-        where('userId', '==', userId),
-        orderBy('completedAt', 'desc'),
-        limit(10)
-      );
-      const querySnapshot = await getDocs(attemptsQuery);
-      const attempts = querySnapshot.docs.map((doc) => {
-        const rawData = doc.data() as RawQuizAttemptDocument;
-        const completedAtTimestamp = rawData.completedAt instanceof Timestamp
-          ? rawData.completedAt
-          : Timestamp.now(); // Fallback if somehow not a Timestamp
-
-        return {
-          id: doc.id,
-          ...(rawData as Omit<QuizAttempt, 'id' | 'completedAt'>),
-          completedAt: completedAtTimestamp,
-        } as QuizAttempt;
+      const querySnapshot = await getDocs(buildAttemptsQuery(userId, filter, null));
+      const attempts = querySnapshot.docs.map(toQuizAttempt);
+      set({
+        quizAttempts: attempts,
+        attemptsCursor: querySnapshot.docs[querySnapshot.docs.length - 1] || null,
+        hasMoreAttempts: querySnapshot.docs.length === ATTEMPTS_PAGE_SIZE,
+        loading: false,
       });
-      set({ quizAttempts: attempts, loading: false });
     } catch (error: any) {
       set({
         error: error instanceof Error ? error.message : 'Error fetching attempts',
@@ -294,31 +369,52 @@ export const useQuizStore = create<QuizState>((set, get) => ({
     }
   },
 
-  saveQuizAttempt: async (attempt, originalQuizConfig) => {
-    set({ loading: true, error: null });
+  // Appends the next page after the last loaded attempt
+  fetchMoreUserAttempts: async (userId) => {
+    const { attemptsCursor, attemptFilter, hasMoreAttempts, loadingMoreAttempts } = get();
+    if (!attemptsCursor || !hasMoreAttempts || loadingMoreAttempts) return;
+
+    set({ loadingMoreAttempts: true, error: null });
     try {
-      const attemptToSave = {
-        ...attempt,
-        completedAt: Timestamp.now(), // Store as Timestamp directly
-        originalQuizConfig: originalQuizConfig || attempt.originalQuizConfig,
-      };
-      const attemptRef = await addDoc(collection(db, 'quizAttempts'), attemptToSave);
-      await get().fetchUserAttempts(attempt.userId); // Refetch user attempts to update list
-      set({ loading: false });
-      return attemptRef.id;
-    } catch (error: any) {
-      const errorMsg =
-        error instanceof Error ? error.message : 'Failed to save quiz attempt';
-      set({ error: errorMsg, loading: false });
-      console.error('Error saving quiz attempt:', error);
-      throw error;
+      const querySnapshot = await getDocs(buildAttemptsQuery(userId, attemptFilter, attemptsCursor));
+      // A new filter may have been applied while this page was loading
+      if (get().attemptsCursor !== attemptsCursor) return;
+      set((state) => ({
+        quizAttempts: [...state.quizAttempts, ...querySnapshot.docs.map(toQuizAttempt)],
+        attemptsCursor: querySnapshot.docs[querySnapshot.docs.length - 1] || null,
+        hasMoreAttempts: querySnapshot.docs.length === ATTEMPTS_PAGE_SIZE,
+      }));
+    } catch (error: unknown) {
+      set({ error: error instanceof Error ? error.message : 'Error fetching attempts' });
+      console.error('Error fetching more attempts:', error);
+    } finally {
+      set({ loadingMoreAttempts: false });
+    }
+  },
+
+  fetchAttemptById: async (attemptId) => {
+    set({ loading: true, error: null, currentAttempt: null });
+    try {
+      // Rules only let users read their own attempts, so someone else's id surfaces as an error
+      const attemptDoc = await getDoc(doc(db, 'quizAttempts', attemptId));
+      const attempt = attemptDoc.exists() ? toQuizAttempt(attemptDoc) : null;
+      set({ currentAttempt: attempt, loading: false });
+      return attempt;
+    } catch (error: unknown) {
+      set({ error: error instanceof Error ? error.message : 'Error fetching attempt', loading: false });
+      console.error('Error fetching attempt:', error);
+      return null;
     }
   },
 
   fetchQuizzes: async (filter: QuizFilter = {}) => {
     set({ loading: true, error: null });
     try {
-      let quizzesQuery: Query<DocumentData> = collection(db, 'quizzes');
+      // Admins and creators listing their own quizzes read the full documents;
+      // everyone else lists the answer-free player views (see firestore.rules).
+      const { user: authUser } = useAuthStore.getState();
+      const readsFullDocuments = authUser?.isAdmin || (!!filter.createdBy && filter.createdBy === authUser?.id);
+      let quizzesQuery: Query<DocumentData> = collection(db, readsFullDocuments ? 'quizzes' : 'quizPlayerViews');
 
       if (filter.category) {
         quizzesQuery = query(quizzesQuery, where('category', '==', filter.category));
@@ -335,6 +431,9 @@ export const useQuizStore = create<QuizState>((set, get) => ({
       if (filter.country) {
         quizzesQuery = query(quizzesQuery, where('country', '==', filter.country));
       }
+      if (filter.quizType) {
+        quizzesQuery = query(quizzesQuery, where('quizType', '==', filter.quizType));
+      }
       if (filter.title) {
         quizzesQuery = query(quizzesQuery, where('title', '==', filter.title));
       }
@@ -369,7 +468,7 @@ export const useQuizStore = create<QuizState>((set, get) => ({
           id: doc.id, // Override id with the actual document ID
           createdAt: createdAtMillis, // Override createdAt with the converted number
           status: (rawData.status as Quiz['status']) || 'active', // Ensure status type is correct, default to 'active'
-        };
+        } as PlayerQuiz;
       });
       set({ quizzes: fetchedQuizzes, loading: false });
     } catch (error: any) {
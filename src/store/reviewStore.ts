@@ -0,0 +1,90 @@
+// src/store/reviewStore.ts
+import { create } from 'zustand';
+import { collection, doc, getDoc, getDocs, limit, orderBy, query, Timestamp, where } from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { PlayerQuiz, PlayerQuizQuestion, ReviewItem } from '../types';
+import { parseReviewQuestionId, REVIEW_QUIZ_ID, REVIEW_QUIZ_TITLE, REVIEW_SESSION_SIZE, toReviewQuestionId } from '../utils/review';
+
+interface ReviewState {
+  dueItems: ReviewItem[]; // Oldest due first, at most one review's worth
+  reviewQuiz: PlayerQuiz | null; // The due questions (or those of a past review) as one playable quiz
+  loading: boolean;
+  error: string | null;
+
+  fetchDueReview: (userId: string) => Promise<void>;
+  fetchReviewQuiz: (userId: string, reviewQuestionIds: string[]) => Promise<PlayerQuiz>;
+}
+
+// Answer-free questions come from each quiz's player view; quizzes that are gone or no longer visible are skipped
+const buildReviewQuiz = async (userId: string, reviewQuestionIds: string[]): Promise<PlayerQuiz> => {
+  const sources = reviewQuestionIds
+    .map(id => ({ id, source: parseReviewQuestionId(id) }))
+    .filter((entry): entry is { id: string; source: { quizId: string; questionId: string } } => entry.source !== null);
+  const quizIds = [...new Set(sources.map(entry => entry.source.quizId))];
+
+  const views = await Promise.all(quizIds.map(async (quizId): Promise<[string, PlayerQuizQuestion[]]> => {
+    try {
+      const viewDoc = await getDoc(doc(db, 'quizPlayerViews', quizId));
+      const view = viewDoc.exists() ? (viewDoc.data() as Pick<PlayerQuiz, 'questions' | 'status'>) : null;
+      return [quizId, view && view.status !== 'deleted' ? view.questions || [] : []];
+    } catch (err: unknown) {
+      console.warn(`Could not load review questions from quiz ${quizId}:`, err);
+      return [quizId, []];
+    }
+  }));
+  const questionsByQuiz = new Map(views);
+
+  const questions = sources
+    .map(entry => {
+      const question = questionsByQuiz.get(entry.source.quizId)?.find(q => q.id === entry.source.questionId);
+      return question ? { ...question, id: entry.id } : null;
+    })
+    .filter((question): question is PlayerQuizQuestion => question !== null);
+
+  return {
+    id: REVIEW_QUIZ_ID,
+    title: REVIEW_QUIZ_TITLE,
+    category: 'Review',
+    difficulty: 'medium',
+    questions,
+    createdAt: Date.now(),
+    createdBy: userId,
+    visibility: 'private',
+    quizType: 'mixed',
+    status: 'active',
+  };
+};
+
+export const useReviewStore = create<ReviewState>((set) => ({
+  dueItems: [],
+  reviewQuiz: null,
+  loading: false,
+  error: null,
+
+  fetchDueReview: async (userId: string) => {
+    set({ loading: true, error: null });
+    try {
+      const dueQuery = query(
+        collection(db, 'reviewItems'),
+        where('userId', '==', userId),
+        where('dueAt', '<=', Timestamp.now()),
+        orderBy('dueAt', 'asc'),
+        limit(REVIEW_SESSION_SIZE),
+      );
+      const snapshot = await getDocs(dueQuery);
+      const dueItems = snapshot.docs.map(itemDoc => ({ ...itemDoc.data(), id: itemDoc.id }) as ReviewItem);
+      const reviewQuiz = await buildReviewQuiz(userId, dueItems.map(item => toReviewQuestionId(item.quizId, item.questionId)));
+      set({ dueItems, reviewQuiz, loading: false });
+    } catch (err: unknown) {
+      console.error('Error fetching the review queue:', err);
+      set({ error: err instanceof Error ? err.message : 'Failed to load your review.', loading: false });
+    }
+  },
+
+  // For a review being resumed or looked at in the history: the questions it was played with
+  fetchReviewQuiz: async (userId: string, reviewQuestionIds: string[]) => {
+    const reviewQuiz = await buildReviewQuiz(userId, reviewQuestionIds);
+    set({ reviewQuiz });
+    return reviewQuiz;
+  },
+}));
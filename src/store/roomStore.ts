@@ -0,0 +1,74 @@
+// src/store/roomStore.ts
+import { create } from 'zustand';
+import { collection, doc, onSnapshot } from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { advanceRoomCallable, createRoomCallable, joinRoomCallable, submitRoomAnswerCallable } from '../firebase/functions';
+import { Room, RoomPlayer } from '../types';
+
+interface RoomState {
+  room: Room | null; // Kept live by watchRoom
+  players: RoomPlayer[]; // The live scoreboard, best first
+  loading: boolean; // Until the first snapshot of the watched room arrives
+  error: string | null;
+
+  watchRoom: (code: string) => () => void; // Returns the function that stops listening
+  createRoom: (quizId: string, secondsPerQuestion?: number) => Promise<string>; // Resolves to the join code
+  joinRoom: (code: string) => Promise<void>;
+  submitAnswer: (questionId: string, selectedOption: string) => Promise<void>;
+  advanceRoom: () => Promise<void>; // Host only: the step after the one the room is on
+}
+
+const sortPlayers = (players: RoomPlayer[]): RoomPlayer[] =>
+  [...players].sort((a, b) => b.points - a.points || b.score - a.score || a.displayName.localeCompare(b.displayName));
+
+// Every step of a room is taken by a Cloud Function; clients only listen to the room and its scoreboard
+export const useRoomStore = create<RoomState>((set, get) => ({
+  room: null,
+  players: [],
+  loading: false,
+  error: null,
+
+  watchRoom: (code: string) => {
+    set({ room: null, players: [], loading: true, error: null });
+    const roomRef = doc(db, 'rooms', code);
+
+    const onError = (err: Error) => {
+      console.error(`Error listening to room ${code}:`, err);
+      set({ error: err.message || 'Lost the connection to the room.', loading: false });
+    };
+    const stopRoom = onSnapshot(roomRef, snapshot => {
+      set(snapshot.exists()
+        ? { room: snapshot.data() as Room, loading: false }
+        : { room: null, error: 'Room not found. Check the code and try again.', loading: false });
+    }, onError);
+    const stopPlayers = onSnapshot(collection(roomRef, 'players'), snapshot => {
+      set({ players: sortPlayers(snapshot.docs.map(d => d.data() as RoomPlayer)) });
+    }, onError);
+
+    return () => {
+      stopRoom();
+      stopPlayers();
+    };
+  },
+
+  createRoom: async (quizId: string, secondsPerQuestion?: number) => {
+    const result = await createRoomCallable({ quizId, secondsPerQuestion });
+    return result.data.code;
+  },
+
+  joinRoom: async (code: string) => {
+    await joinRoomCallable({ code });
+  },
+
+  submitAnswer: async (questionId: string, selectedOption: string) => {
+    const { room } = get();
+    if (!room) return;
+    await submitRoomAnswerCallable({ code: room.code, questionId, selectedOption });
+  },
+
+  advanceRoom: async () => {
+    const { room } = get();
+    if (!room) return;
+    await advanceRoomCallable({ code: room.code, fromStatus: room.status, fromQuestionIndex: room.currentQuestionIndex });
+  },
+}));
@@ -0,0 +1,30 @@
+// src/store/statsStore.ts
+import { create } from 'zustand';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { UserStats } from '../types';
+
+interface StatsState {
+  stats: UserStats | null; // null until the first quiz is submitted
+  loading: boolean;
+  error: string | null;
+
+  fetchUserStats: (userId: string) => Promise<void>;
+}
+
+export const useStatsStore = create<StatsState>((set) => ({
+  stats: null,
+  loading: false,
+  error: null,
+
+  fetchUserStats: async (userId: string) => {
+    set({ loading: true, error: null });
+    try {
+      const statsDoc = await getDoc(doc(db, 'userStats', userId));
+      set({ stats: statsDoc.exists() ? (statsDoc.data() as UserStats) : null, loading: false });
+    } catch (err: unknown) {
+      console.error('Error fetching user stats:', err);
+      set({ error: err instanceof Error ? err.message : 'Failed to load statistics.', loading: false });
+    }
+  },
+}));
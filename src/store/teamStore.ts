@@ -0,0 +1,146 @@
+// src/store/teamStore.ts
+import { create } from 'zustand';
+import { collection, doc, getDocs, limit, onSnapshot, orderBy, query, where } from 'firebase/firestore';
+import { db } from '../firebase/config';
+import {
+  createTeamCallable,
+  createTeamMatchCallable,
+  getTeamMatchInviteCallable,
+  joinTeamCallable,
+  leaveTeamCallable,
+  manageTeamCallable,
+  respondToTeamMatchCallable,
+} from '../firebase/functions';
+import { Team, TeamMatch, TeamMatchInvite, TeamScoring } from '../types';
+
+// Team matches listed on the /teams page, newest first
+const TEAM_MATCH_LIST_SIZE = 30;
+
+interface TeamState {
+  teams: Team[]; // The user's teams
+  teamMatches: TeamMatch[]; // Matches of any of the user's teams
+  team: Team | null; // Kept live by watchTeam
+  teamMatch: TeamMatch | null; // Kept live by watchTeamMatch
+  teamMatchInvite: TeamMatchInvite | null; // Loaded by watchTeamMatch instead when the user is in neither team
+  loading: boolean;
+  error: string | null;
+
+  fetchTeams: (userId: string) => Promise<void>; // Also loads the team matches
+  watchTeam: (teamId: string) => () => void; // Returns the function that stops listening, like watchTeamMatch
+  watchTeamMatch: (matchId: string) => () => void;
+  createTeam: (name: string) => Promise<string>; // Resolves to the team's id, like joinTeam
+  joinTeam: (inviteCode: string) => Promise<string>;
+  leaveTeam: (teamId: string) => Promise<void>;
+  removeMember: (teamId: string, userId: string) => Promise<void>; // Captain only, like the two below
+  makeCaptain: (teamId: string, userId: string) => Promise<void>;
+  resetInvite: (teamId: string) => Promise<void>;
+  createTeamMatch: (teamId: string, quizId: string, scoring: TeamScoring) => Promise<string>; // Resolves to the match id
+  respondToTeamMatch: (matchId: string, teamId: string, accept: boolean) => Promise<void>;
+}
+
+// Teams and team matches are only changed by Cloud Functions; the pages listen so roster changes and results show up live
+export const useTeamStore = create<TeamState>((set) => ({
+  teams: [],
+  teamMatches: [],
+  team: null,
+  teamMatch: null,
+  teamMatchInvite: null,
+  loading: false,
+  error: null,
+
+  fetchTeams: async (userId: string) => {
+    set({ loading: true, error: null });
+    try {
+      const [teamSnapshot, matchSnapshot] = await Promise.all([
+        getDocs(query(collection(db, 'teams'), where('memberIds', 'array-contains', userId))),
+        getDocs(query(
+          collection(db, 'teamMatches'),
+          where('memberIds', 'array-contains', userId),
+          orderBy('createdAt', 'desc'),
+          limit(TEAM_MATCH_LIST_SIZE),
+        )),
+      ]);
+      set({
+        teams: teamSnapshot.docs.map(d => d.data() as Team).sort((a, b) => a.name.localeCompare(b.name)),
+        teamMatches: matchSnapshot.docs.map(d => d.data() as TeamMatch),
+        loading: false,
+      });
+    } catch (err: unknown) {
+      console.error('Error fetching teams:', err);
+      set({ error: err instanceof Error ? err.message : 'Failed to load your teams.', loading: false });
+    }
+  },
+
+  watchTeam: (teamId: string) => {
+    set({ team: null, loading: true, error: null });
+    // Non-members are refused by the rules, which ends up in the error handler
+    return onSnapshot(doc(db, 'teams', teamId), snapshot => {
+      set(snapshot.exists()
+        ? { team: snapshot.data() as Team, loading: false }
+        : { team: null, error: 'Team not found. It may have been disbanded.', loading: false });
+    }, (err) => {
+      console.error(`Error listening to team ${teamId}:`, err);
+      set({ error: err.message || 'Could not open this team.', loading: false });
+    });
+  },
+
+  watchTeamMatch: (matchId: string) => {
+    set({ teamMatch: null, teamMatchInvite: null, loading: true, error: null });
+    return onSnapshot(doc(db, 'teamMatches', matchId), snapshot => {
+      set(snapshot.exists()
+        ? { teamMatch: snapshot.data() as TeamMatch, loading: false }
+        : { teamMatch: null, error: 'Team match not found.', loading: false });
+    }, async (err) => {
+      // The rules refuse anyone outside the match's teams: they get the invite, without the roster
+      if (err.code === 'permission-denied') {
+        try {
+          const result = await getTeamMatchInviteCallable({ matchId });
+          set({ teamMatchInvite: result.data, loading: false });
+          return;
+        } catch (inviteErr: unknown) {
+          console.error(`Error loading the invite of team match ${matchId}:`, inviteErr);
+          set({ error: inviteErr instanceof Error ? inviteErr.message : 'Could not open this team match.', loading: false });
+          return;
+        }
+      }
+      console.error(`Error listening to team match ${matchId}:`, err);
+      set({ error: err.message || 'Could not open this team match.', loading: false });
+    });
+  },
+
+  createTeam: async (name: string) => {
+    const result = await createTeamCallable({ name });
+    return result.data.teamId;
+  },
+
+  joinTeam: async (inviteCode: string) => {
+    const result = await joinTeamCallable({ inviteCode });
+    return result.data.teamId;
+  },
+
+  leaveTeam: async (teamId: string) => {
+    await leaveTeamCallable({ teamId });
+    set(state => ({ teams: state.teams.filter(team => team.id !== teamId) }));
+  },
+
+  removeMember: async (teamId: string, userId: string) => {
+    await manageTeamCallable({ teamId, action: 'remove_member', userId });
+  },
+
+  makeCaptain: async (teamId: string, userId: string) => {
+    await manageTeamCallable({ teamId, action: 'make_captain', userId });
+  },
+
+  resetInvite: async (teamId: string) => {
+    await manageTeamCallable({ teamId, action: 'reset_invite' });
+  },
+
+  createTeamMatch: async (teamId: string, quizId: string, scoring: TeamScoring) => {
+    const result = await createTeamMatchCallable({ teamId, quizId, scoring });
+    return result.data.matchId;
+  },
+
+  respondToTeamMatch: async (matchId: string, teamId: string, accept: boolean) => {
+    await respondToTeamMatchCallable({ matchId, teamId, accept });
+  },
+}));
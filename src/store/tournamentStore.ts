@@ -0,0 +1,110 @@
+// src/store/tournamentStore.ts
+import { create } from 'zustand';
+import { collection, doc, getDocs, limit, onSnapshot, orderBy, query, where } from 'firebase/firestore';
+import { db } from '../firebase/config';
+import {
+  createTournamentCallable,
+  reseedTournamentCallable,
+  resolveTournamentMatchCallable,
+  retryTournamentRoundCallable,
+} from '../firebase/functions';
+import { Tournament, TournamentFormat, TournamentMatch, TournamentRoundGeneration } from '../types';
+
+// Tournaments listed on the /tournaments page, newest first
+const TOURNAMENT_LIST_SIZE = 50;
+
+export interface NewTournament {
+  name: string;
+  format: TournamentFormat;
+  participantEmails: string[]; // In seed order
+  rounds: { quizId?: string; generation?: TournamentRoundGeneration }[];
+}
+
+interface TournamentState {
+  tournaments: Tournament[]; // Organized or played in
+  tournament: Tournament | null; // Kept live by watchTournament
+  matches: TournamentMatch[]; // The watched tournament's matches, by round and slot
+  loading: boolean;
+  error: string | null;
+
+  fetchTournaments: (userId: string) => Promise<void>;
+  watchTournament: (tournamentId: string) => () => void; // Returns the function that stops listening
+  createTournament: (tournament: NewTournament) => Promise<string>; // Resolves to the new tournament's id
+  reseedTournament: (userIds: string[]) => Promise<void>; // Organizer only, like the two below
+  resolveMatch: (matchId: string, winnerId: string | null) => Promise<void>;
+  retryRound: () => Promise<void>;
+}
+
+const sortMatches = (matches: TournamentMatch[]): TournamentMatch[] =>
+  [...matches].sort((a, b) => a.round - b.round || a.slot - b.slot);
+
+// Tournaments are only changed by Cloud Functions; the bracket page listens so it moves on as matches are settled
+export const useTournamentStore = create<TournamentState>((set, get) => ({
+  tournaments: [],
+  tournament: null,
+  matches: [],
+  loading: false,
+  error: null,
+
+  fetchTournaments: async (userId: string) => {
+    set({ loading: true, error: null });
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, 'tournaments'),
+        where('memberIds', 'array-contains', userId),
+        orderBy('createdAt', 'desc'),
+        limit(TOURNAMENT_LIST_SIZE),
+      ));
+      set({ tournaments: snapshot.docs.map(d => d.data() as Tournament), loading: false });
+    } catch (err: unknown) {
+      console.error('Error fetching tournaments:', err);
+      set({ error: err instanceof Error ? err.message : 'Failed to load your tournaments.', loading: false });
+    }
+  },
+
+  watchTournament: (tournamentId: string) => {
+    set({ tournament: null, matches: [], loading: true, error: null });
+    const tournamentRef = doc(db, 'tournaments', tournamentId);
+
+    const onError = (err: Error) => {
+      console.error(`Error listening to tournament ${tournamentId}:`, err);
+      set({ error: err.message || 'Lost the connection to the tournament.', loading: false });
+    };
+    const stopTournament = onSnapshot(tournamentRef, snapshot => {
+      set(snapshot.exists()
+        ? { tournament: snapshot.data() as Tournament, loading: false }
+        : { tournament: null, error: 'Tournament not found.', loading: false });
+    }, onError);
+    const stopMatches = onSnapshot(collection(tournamentRef, 'matches'), snapshot => {
+      set({ matches: sortMatches(snapshot.docs.map(d => d.data() as TournamentMatch)) });
+    }, onError);
+
+    return () => {
+      stopTournament();
+      stopMatches();
+    };
+  },
+
+  createTournament: async (tournament: NewTournament) => {
+    const result = await createTournamentCallable(tournament);
+    return result.data.tournamentId;
+  },
+
+  reseedTournament: async (userIds: string[]) => {
+    const { tournament } = get();
+    if (!tournament) return;
+    await reseedTournamentCallable({ tournamentId: tournament.id, userIds });
+  },
+
+  resolveMatch: async (matchId: string, winnerId: string | null) => {
+    const { tournament } = get();
+    if (!tournament) return;
+    await resolveTournamentMatchCallable({ tournamentId: tournament.id, matchId, winnerId });
+  },
+
+  retryRound: async () => {
+    const { tournament } = get();
+    if (!tournament) return;
+    await retryTournamentRoundCallable({ tournamentId: tournament.id });
+  },
+}));
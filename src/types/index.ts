@@ -9,17 +9,33 @@ export type User = {
   isAdmin?: boolean;
 };
 
+// Every question format
+export type QuestionType = 'multiple_choice' | 'true_false' | 'multi_select' | 'numeric' | 'ordering' | 'fill_in';
+
+// A quiz's quizType names the format of all its questions, or 'mixed' when they come in several formats
+export type QuizType = QuestionType | 'mixed';
+
+// Mixed quizzes: whole percentage of questions per type, adding up to 100, e.g. { multiple_choice: 60, true_false: 40 }
+export type TypeDistribution = Partial<Record<QuestionType, number>>;
+
+// How a quiz is played: practice gives feedback after every answer and does not count towards stats or
+// leaderboards; exam reveals nothing until the whole quiz is submitted
+export type QuizMode = 'practice' | 'exam';
+
 export interface QuizConfig {
   // ⭐ IMPORTANT CHANGE HERE: Allow 'null' for optional string fields ⭐
   title?: string | null; 
   category: string;
   difficulty: 'easy' | 'medium' | 'hard';
   numberOfQuestions: number;
-  quizType: 'multiple_choice' | 'true_false';
+  quizType: QuizType;
+  typeDistribution?: TypeDistribution | null; // Required when quizType is 'mixed'
   team?: string | null;   // Allow null
   event?: string | null;  // Allow null
   country?: string | null; // Allow null
   visibility?: 'global' | 'private'; // This one is already optional
+  timePerQuestionSeconds?: number | null; // Optional countdown per question
+  totalTimeLimitSeconds?: number | null; // Optional countdown for the whole quiz
 }
 
 // ⭐ DEFINITIVE FIX: Updated QuizQuestion type ⭐
@@ -35,6 +51,8 @@ export type QuizQuestion =
       correctAnswer: string; // The value like "A" or "True"
       category?: string; // Added for 'Generate Similar Quiz'
       difficulty?: 'easy' | 'medium' | 'hard'; // Added for 'Generate Similar Quiz'
+      explanation?: string; // Why the answer is right, shown when reviewing answers
+      source?: string; // Optional reference (URL or publication) backing the answer
     }
   | {
       id: string;
@@ -43,6 +61,53 @@ export type QuizQuestion =
       correctAnswer: 'True' | 'False';
       category?: string; // Added for 'Generate Similar Quiz'
       difficulty?: 'easy' | 'medium' | 'hard'; // Added for 'Generate Similar Quiz'
+      explanation?: string;
+      source?: string;
+    }
+  | {
+      id: string;
+      text: string;
+      type: 'multi_select'; // "Select all that apply"
+      options: string[]; // 4–6 lettered options, e.g. "E. Option 5"
+      correctAnswer: string; // The correct letters, sorted and comma-separated, e.g. "A,C"
+      category?: string;
+      difficulty?: 'easy' | 'medium' | 'hard';
+      explanation?: string;
+      source?: string;
+    }
+  | {
+      id: string;
+      text: string;
+      type: 'numeric';
+      correctAnswer: string; // The number as text, e.g. "1966"
+      tolerance?: number; // Answers this far off still count as correct
+      unit?: string; // Shown next to the input, e.g. "goals"
+      category?: string;
+      difficulty?: 'easy' | 'medium' | 'hard';
+      explanation?: string;
+      source?: string;
+    }
+  | {
+      id: string;
+      text: string;
+      type: 'ordering';
+      options: string[]; // 3–6 lettered items in the order they are shown
+      correctAnswer: string; // The letters in the correct order, e.g. "C,A,D,B"
+      category?: string;
+      difficulty?: 'easy' | 'medium' | 'hard';
+      explanation?: string;
+      source?: string;
+    }
+  | {
+      id: string;
+      text: string;
+      type: 'fill_in';
+      correctAnswer: string; // The preferred answer, e.g. "Pelé"
+      acceptedAnswers?: string[]; // Other spellings that count as correct
+      category?: string;
+      difficulty?: 'easy' | 'medium' | 'hard';
+      explanation?: string;
+      source?: string;
     };
 
 export type Quiz = {
@@ -59,21 +124,89 @@ export type Quiz = {
   createdFromQuizConfig?: QuizConfig; // ⭐ NEW: Store the original config to make "Generate Similar Quiz" more robust ⭐
   createdBy: string;
   visibility: 'global' | 'private';
-  quizType: 'multiple_choice' | 'true_false';
+  quizType: QuizType;
+  typeDistribution?: TypeDistribution; // Only on generated mixed quizzes
   status: 'active' | 'deleted';
+  timePerQuestionSeconds?: number | null; // Timed mode: questions auto-advance when this runs out
+  totalTimeLimitSeconds?: number | null; // Timed mode: the quiz is submitted when this runs out
+  shuffleQuestions?: boolean; // Every attempt plays the questions in a new random order
+  shuffleOptions?: boolean; // Every attempt shows the lettered options in a new random order
+  dailyChallengeDate?: string; // Daily Challenge quizzes: the UTC day (YYYY-MM-DD) they are the challenge of
+  // Generated tournament round quizzes: private to the tournament, played through the matches until the round is over
+  tournamentId?: string;
+  tournamentMemberIds?: string[];
+};
+
+// ⭐ Player view of a quiz (quizPlayerViews/{id}): identical to Quiz but without any answer key
+// (explanations, sources and accepted spellings give the answer away too, so they are stripped as well).
+// Distributes over the QuizQuestion union so each question type keeps its own fields.
+type WithoutAnswerKey<T> = T extends unknown ? Omit<T, 'correctAnswer' | 'explanation' | 'source' | 'acceptedAnswers'> : never;
+
+export type PlayerQuizQuestion = WithoutAnswerKey<QuizQuestion>;
+
+export type PlayerQuiz = Omit<Quiz, 'questions'> & {
+  questions: PlayerQuizQuestion[];
+};
+
+// A server-issued play-through (quizSessions/{id}), as returned by startQuizSession or read back to resume it
+export type QuizSessionInfo = {
+  sessionId: string;
+  mode: QuizMode;
+  questionOrder: string[];
+  optionOrder: Record<string, string[]>; // Per shuffled question: the stored option letters in display order
+  startedAt: number; // Times are server epoch millis
+  expiresAt: number;
+  timePerQuestionSeconds: number | null; // Exams only: a countdown per question, played in order (see lockExamAnswerCallable)
+  totalTimeLimitSeconds: number | null; // Exams only; practice is untimed
+  answeredAt: Record<string, number>; // When the server logged each question's answer; empty for a new session
+};
+
+// An unfinished run of a quiz, kept in localStorage and in quizProgress/{userId}_{quizId} so it survives a reload
+export type QuizProgress = {
+  userId: string;
+  quizId: string;
+  sessionId: string;
+  mode: QuizMode;
+  questionIds: string[] | null; // The subset being played (retaking missed questions), null for the whole quiz
+  currentQuestionIndex: number;
+  answers: { questionId: string; selectedOption: string }[]; // Practice: the questions finished so far
+  examAnswers: Record<string, string>; // Exam: the saved answer per question id
+  updatedAt: number; // Epoch millis; the newer of the local and the server copy wins
+};
+
+// A saved run whose session is still open, ready to be picked up again
+export type ResumableQuiz = {
+  progress: QuizProgress;
+  session: QuizSessionInfo;
 };
 
 export type QuizAttempt = {
   id: string;
   quizId: string;
   userId: string;
-  score: number;
+  mode?: QuizMode; // Missing on attempts from before practice mode, which all counted
+  // Denormalized from the quiz by submitQuiz (missing on attempts saved before they were added)
+  quizTitle?: string;
+  category?: string;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  scoreBand?: ScoreBand;
+  // Attempts at a group assignment only; their group's coach can read them too
+  groupId?: string;
+  assignmentId?: string;
+  score: number; // Correct answers, with partly correct ones counting as a fraction
+  points?: number; // Credit-weighted points plus speed bonus, computed by submitQuiz
   totalQuestions: number;
   answers: {
     questionId: string;
-    userAnswer: string;
+    userAnswer: string; // '' when the question was left unanswered
     correctAnswer: string;
-    isCorrect: boolean;
+    isCorrect: boolean; // Full credit only
+    credit?: number; // 0 to 1, set by submitQuiz (missing on attempts saved before partial credit)
+    timeSpentSeconds?: number | null; // Server-measured
+    points?: number;
+    optionOrder?: string[]; // Shuffled options: the stored letters in the order the player saw them
+    explanation?: string; // Copied from the question by submitQuiz
+    source?: string;
   }[];
   completedAt: Timestamp;
   timeSpent: number;
@@ -82,6 +215,357 @@ export type QuizAttempt = {
   originalQuizConfig?: QuizConfig;
 };
 
+// reviewItems/{userId}_{quizId}_{questionId}: a missed question scheduled for review
+// (written by the updateReviewSchedule trigger, see functions/src/spacedRepetition.ts)
+export type ReviewItem = {
+  id: string;
+  userId: string;
+  quizId: string;
+  questionId: string; // The question's id within its quiz
+  quizTitle: string;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number; // Successful reviews in a row
+  lapses: number; // Times it was missed again after being scheduled
+  dueAt: Timestamp;
+  lastReviewedAt: Timestamp;
+  lastCredit: number;
+};
+
+// dailyChallenges/{date}: the global quiz everyone plays on one UTC day (see functions/src/dailyChallenge.ts)
+export type DailyChallenge = {
+  date: string; // YYYY-MM-DD, UTC
+  quizId: string;
+  title: string;
+  category: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  numberOfQuestions: number;
+};
+
+// dailyChallenges/{date}/entries/{userId}: a player's one scored attempt at the day's challenge.
+// Claimed with just userId, sessionId and startedAt when the player starts; the rest is set once it is submitted
+export type DailyChallengeEntry = {
+  userId: string;
+  sessionId: string;
+  displayName: string;
+  points: number;
+  score: number;
+  totalQuestions: number;
+  timeSpentSeconds: number;
+  attemptId: string;
+};
+
+// dailyChallengeStreaks/{userId}
+export type DailyChallengeStreak = {
+  userId: string;
+  current: number; // Consecutive days played, ending on lastPlayedDate
+  longest: number;
+  lastPlayedDate: string | null;
+};
+
+// challenges/{id}: a head-to-head challenge sent from one attempt (see functions/src/challenges.ts)
+export type ChallengeStatus = 'pending' | 'accepted' | 'declined' | 'completed';
+
+export type Challenge = {
+  id: string;
+  challengerId: string;
+  challengerName: string;
+  challengerAttemptId: string;
+  recipientId: string | null; // Whoever accepted or declined the link
+  recipientName: string | null;
+  recipientSessionId: string | null; // Set once the recipient has started playing
+  recipientAttemptId: string | null;
+  participants: string[];
+  status: ChallengeStatus; // Past `expiresAt`, unfinished challenges are expired (see utils/challenges.ts)
+  quizId: string;
+  quizTitle: string;
+  mode: QuizMode; // The recipient plays in the challenger's mode, order and time limits
+  questionOrder: string[];
+  optionOrder: Record<string, string[]>;
+  timePerQuestionSeconds: number | null;
+  totalTimeLimitSeconds: number | null;
+  totalQuestions: number;
+  challengerScore: number;
+  challengerPoints: number;
+  recipientScore: number | null;
+  recipientPoints: number | null;
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+  respondedAt: Timestamp | null;
+  completedAt: Timestamp | null;
+};
+
+// challenges/{id}/results/{userId}: one side of the comparison, readable by both once the challenge is completed
+export type ChallengeResult = {
+  userId: string;
+  displayName: string;
+  attemptId: string;
+  score: number;
+  points: number;
+  timeSpentSeconds: number;
+  answers: {
+    questionId: string;
+    userAnswer: string; // Stored option letters, as on attempts
+    correctAnswer: string;
+    isCorrect: boolean;
+    credit: number;
+    timeSpentSeconds: number | null;
+    points: number;
+  }[];
+};
+
+// tournaments/{id}: a single-elimination bracket or round-robin league (see functions/src/tournaments.ts)
+export type TournamentFormat = 'single_elimination' | 'round_robin';
+
+export type TournamentRoundGeneration = {
+  category: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  numberOfQuestions: number;
+  quizType: QuestionType;
+};
+
+export type TournamentRound = {
+  quizId: string | null; // Null while a generated round's quiz is being prepared
+  quizTitle: string | null;
+  generation: TournamentRoundGeneration | null;
+  generationError: string | null;
+  status: 'pending' | 'open' | 'completed';
+};
+
+export type TournamentStanding = {
+  userId: string;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  score: number;
+  timeSpentSeconds: number;
+};
+
+export type Tournament = {
+  id: string;
+  name: string;
+  organizerId: string;
+  organizerName: string;
+  format: TournamentFormat;
+  status: 'active' | 'completed';
+  participants: { userId: string; displayName: string; seed: number }[]; // In seed order
+  memberIds: string[]; // Participants and organizer
+  rounds: TournamentRound[];
+  currentRound: number;
+  standings: TournamentStanding[]; // Best first
+  winnerId: string | null;
+  createdAt: Timestamp;
+  completedAt: Timestamp | null;
+};
+
+// tournaments/{id}/matches/{matchId}: one pairing, settled by submitQuiz or by the organizer
+export type TournamentMatch = {
+  id: string;
+  round: number;
+  slot: number; // In a bracket, slots 2k and 2k + 1 feed slot k of the next round
+  playerIds: (string | null)[]; // Null for a bye, or a bracket slot still to be decided
+  sessionIds: Record<string, string>;
+  results: Record<string, { attemptId: string; score: number; points: number; timeSpentSeconds: number }>;
+  status: 'pending' | 'open' | 'completed';
+  winnerId: string | null; // Null for a round-robin draw or a double no-show
+  resolution: 'played' | 'bye' | 'walkover' | null;
+  completedAt: Timestamp | null;
+};
+
+// teams/{id}: readable by the team's members only (see functions/src/teams.ts)
+export type TeamMember = {
+  userId: string;
+  displayName: string;
+  joinedAt: Timestamp;
+};
+
+export type Team = {
+  id: string;
+  name: string;
+  captainId: string;
+  members: TeamMember[]; // In the order they joined
+  memberIds: string[];
+  inviteCode: string; // Shared as /teams/join/{inviteCode}
+  record: { played: number; wins: number; draws: number; losses: number; points: number };
+  createdAt: Timestamp;
+};
+
+// How a side's result is made up: members' points summed or averaged, or the captain's run of the team's answers
+export type TeamScoring = 'sum' | 'average' | 'captain';
+
+export type TeamMatchStatus = 'pending' | 'active' | 'declined' | 'completed';
+
+export type TeamMatchSide = {
+  teamId: string;
+  name: string;
+  captainId: string;
+  playerIds: string[]; // Fixed when the match was set up
+  playerNames: Record<string, string>;
+  sessionIds: Record<string, string>;
+  results: Record<string, { attemptId: string; score: number; points: number; timeSpentSeconds: number }>;
+  score: number; // Aggregates, set when the match is settled
+  points: number;
+};
+
+// teamMatches/{id}: one team against another on one quiz
+export type TeamMatch = {
+  id: string;
+  quizId: string;
+  quizTitle: string;
+  scoring: TeamScoring;
+  status: TeamMatchStatus; // Past `expiresAt`, a pending match can no longer be accepted and is soon declined
+  teamIds: string[]; // The challenging team first
+  sides: Record<string, TeamMatchSide>; // By team id
+  memberIds: string[];
+  createdBy: string;
+  winnerTeamId: string | null; // Null for a draw
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+  respondedAt: Timestamp | null; // Stays null when no team accepted the match in time
+  completedAt: Timestamp | null;
+};
+
+// What another team's captain sees of a match link (getTeamMatchInvite): the match without its roster
+export type TeamMatchInvite = {
+  id: string;
+  teamId: string; // The challenging team
+  teamName: string;
+  quizId: string;
+  quizTitle: string;
+  scoring: TeamScoring;
+  status: TeamMatchStatus;
+  isExpired: boolean; // No team accepted it in time
+  expiresAt: number; // Server epoch millis
+};
+
+// groups/{id}: a coach's group, readable by the coach and its members (see functions/src/groups.ts)
+export type GroupMember = {
+  userId: string;
+  displayName: string;
+  joinedAt: Timestamp;
+};
+
+export type Group = {
+  id: string;
+  name: string;
+  coachId: string; // Not a member
+  coachName: string;
+  members: GroupMember[]; // In the order they joined
+  memberIds: string[];
+  inviteCode: string; // Shared as /groups/join/{inviteCode}
+  createdAt: Timestamp;
+};
+
+// groups/{id}/assignments/{assignmentId}: a public quiz the coach set the group
+export type Assignment = {
+  id: string;
+  groupId: string;
+  quizId: string;
+  quizTitle: string;
+  questionCount: number;
+  dueAt: Timestamp; // Runs can be started until then
+  maxAttempts: number;
+  attemptsStarted: Record<string, number>; // By member; every started run counts, submitted or not
+  createdAt: Timestamp;
+};
+
+// rooms/{code}: a live multiplayer game run by its host (see functions/src/rooms.ts)
+export type RoomStatus = 'lobby' | 'question' | 'reveal' | 'finished';
+
+export type Room = {
+  code: string; // The join code, e.g. "K7MQ2D"
+  hostId: string;
+  hostName: string;
+  quizId: string;
+  quizTitle: string;
+  status: RoomStatus;
+  questionOrder: string[];
+  currentQuestionIndex: number; // -1 in the lobby
+  currentQuestion: PlayerQuizQuestion | null; // Answer-free; the answer is only sent in `reveal`
+  secondsPerQuestion: number;
+  questionStartedAt: Timestamp | null;
+  questionEndsAt: Timestamp | null; // Server time at which the shared countdown ends
+  answerCount: number; // Answers received for the current question
+  playerCount: number;
+  reveal: { questionId: string; correctOption: string; explanation: string | null } | null;
+  createdAt: Timestamp;
+};
+
+// rooms/{code}/players/{userId}: one row of the live scoreboard
+export type RoomPlayer = {
+  userId: string;
+  displayName: string;
+  score: number; // Correct answers, partly correct ones counting as a fraction
+  points: number;
+  correctCount: number;
+  lastResult: { questionId: string; credit: number; points: number; answered: boolean } | null; // The last revealed question
+  joinedAt: Timestamp;
+};
+
+// userStats/{uid}, maintained by submitQuiz (see functions/src/userStats.ts)
+export type AccuracyBucket = {
+  label: string;
+  questions: number;
+  correct: number;
+};
+
+export type UserStats = {
+  userId: string;
+  totals: {
+    attempts: number;
+    questions: number;
+    correct: number;
+    timeSpentSeconds: number;
+  };
+  byCategory: Record<string, AccuracyBucket>;
+  byDifficulty: Record<string, AccuracyBucket>;
+  byQuizType: Record<string, AccuracyBucket>;
+  byTopic: Record<string, AccuracyBucket & { kind: 'team' | 'event' | 'country' }>;
+  daily: Record<string, { attempts: number; questions: number; correct: number }>; // Keyed by UTC date, YYYY-MM-DD
+  streak: {
+    current: number;
+    longest: number;
+    lastActiveDate: string | null; // UTC date, YYYY-MM-DD
+  };
+};
+
+// leaderboards/{boardId}, maintained by the updateLeaderboards Cloud Function
+export type LeaderboardBoard = {
+  id: string;
+  kind: 'quiz' | 'global' | 'category' | 'team';
+  window: 'best' | 'weekly' | 'all_time'; // 'best' = best attempt per player (quiz boards)
+  title: string;
+  quizId?: string;
+  category?: string;
+  week?: string; // ISO week, e.g. "2026-W42"
+};
+
+// leaderboards/{boardId}/entries/{userId}, or entries/{teamId} on team boards
+export type LeaderboardEntry = {
+  userId?: string; // Player boards
+  teamId?: string; // Team boards
+  displayName: string; // The team's name on team boards
+  points: number;
+  attempts?: number; // Summed boards: the quizzes played, each counted once with its best attempt
+  matches?: number; // Team boards
+  wins?: number;
+  score?: number; // Quiz boards: correct answers of the best attempt
+  totalQuestions?: number;
+};
+
+// Score buckets stored on attempts: high >= 70%, medium >= 40%, low below
+export type ScoreBand = 'high' | 'medium' | 'low';
+
+// Filters for the attempt history; dates are 'YYYY-MM-DD' in local time, both ends inclusive
+export type AttemptFilter = {
+  category?: string;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  scoreBand?: ScoreBand;
+  fromDate?: string;
+  toDate?: string;
+};
+
 export type QuizFilter = {
   title?: string;
   category?: string;
@@ -89,6 +573,7 @@ export type QuizFilter = {
   country?: string;
   event?: string;
   difficulty?: 'easy' | 'medium' | 'hard';
+  quizType?: QuizType;
   visibility?: 'global' | 'private';
   createdBy?: string;
   status?: 'active' | 'deleted' | 'all';
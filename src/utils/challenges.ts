@@ -0,0 +1,22 @@
+// src/utils/challenges.ts
+// Head-to-head challenge helpers, mirroring functions/src/challenges.ts.
+import { Challenge, ChallengeStatus } from '../types';
+
+// The stored status, or 'expired' once an unfinished challenge is past its deadline
+export type ChallengeState = ChallengeStatus | 'expired';
+
+export const getChallengeState = (challenge: Challenge, now = Date.now()): ChallengeState =>
+  challenge.status !== 'completed' && challenge.status !== 'declined' && now > challenge.expiresAt.toMillis()
+    ? 'expired'
+    : challenge.status;
+
+export const CHALLENGE_STATE_LABELS: Record<ChallengeState, string> = {
+  pending: 'Waiting for a reply',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  completed: 'Completed',
+  expired: 'Expired',
+};
+
+// The link the challenger shares; whoever opens it first can accept or decline
+export const getChallengeLink = (challengeId: string): string => `${window.location.origin}/challenges/${challengeId}`;
@@ -0,0 +1,18 @@
+// src/utils/dailyChallenge.ts
+// Daily Challenge days, mirroring functions/src/dailyChallenge.ts: a day is a UTC date written as YYYY-MM-DD.
+import { DailyChallengeStreak } from '../types';
+
+export const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const getTodayKey = (): string => toDateKey(new Date());
+
+// The stored streak only changes when a challenge is played, so one that missed yesterday has already ended
+export const getCurrentStreak = (streak: DailyChallengeStreak | null): number => {
+  if (!streak || !streak.lastPlayedDate) return 0;
+  const yesterdayKey = toDateKey(new Date(Date.now() - 86400000));
+  return streak.lastPlayedDate >= yesterdayKey ? streak.current : 0;
+};
+
+// e.g. "Mon, Oct 19"
+export const formatDateKey = (dateKey: string): string =>
+  new Date(`${dateKey}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
@@ -0,0 +1,104 @@
+// src/utils/groups.ts
+// Coach group helpers, mirroring functions/src/groups.ts.
+import { Assignment, QuizAttempt } from '../types';
+
+export const MAX_GROUP_MEMBERS = 50;
+export const MAX_GROUP_NAME_LENGTH = 40;
+export const MAX_ASSIGNMENT_ATTEMPTS = 10;
+
+export const getGroupInviteLink = (inviteCode: string): string => `${window.location.origin}/groups/join/${inviteCode}`;
+
+// Where a member stands on one assignment:
+//   completed    submitted at least one attempt by the due date
+//   late         submitted, but only after the due date (a run started in time and finished after it)
+//   in_progress  started a run that has not been submitted yet
+//   not_started  nothing yet, and still time
+//   missed       nothing submitted by the due date
+export type AssignmentStatus = 'completed' | 'late' | 'in_progress' | 'not_started' | 'missed';
+
+export const ASSIGNMENT_STATUS_LABELS: Record<AssignmentStatus, string> = {
+  completed: 'Completed',
+  late: 'Completed late',
+  in_progress: 'In progress',
+  not_started: 'Not started',
+  missed: 'Missed',
+};
+
+export const ASSIGNMENT_STATUS_STYLES: Record<AssignmentStatus, string> = {
+  completed: 'bg-green-50 text-green-700',
+  late: 'bg-yellow-50 text-yellow-700',
+  in_progress: 'bg-sky-50 text-sky-700',
+  not_started: 'bg-slate-100 text-slate-600',
+  missed: 'bg-red-50 text-red-600',
+};
+
+export interface AssignmentProgress {
+  status: AssignmentStatus;
+  attemptsUsed: number; // Runs started, which is what the limit counts
+  attemptsLeft: number;
+  best: QuizAttempt | null; // Highest score, then most points
+  isDue: boolean;
+}
+
+/**
+ * Sums up one member's attempts at an assignment. `attempts` may hold other attempts too;
+ * only the member's ones for this assignment are looked at.
+ */
+export const getAssignmentProgress = (
+  assignment: Assignment,
+  userId: string,
+  attempts: QuizAttempt[],
+  now = Date.now(),
+): AssignmentProgress => {
+  const own = attempts.filter(a => a.assignmentId === assignment.id && a.userId === userId);
+  const dueMillis = assignment.dueAt.toMillis();
+  const isDue = now > dueMillis;
+  const attemptsUsed = Math.max(assignment.attemptsStarted[userId] || 0, own.length);
+  const best = own.reduce<QuizAttempt | null>((top, attempt) =>
+    !top || attempt.score > top.score || (attempt.score === top.score && (attempt.points || 0) > (top.points || 0)) ? attempt : top, null);
+
+  let status: AssignmentStatus;
+  if (own.some(a => a.completedAt.toMillis() <= dueMillis)) status = 'completed';
+  else if (own.length > 0) status = 'late';
+  else if (isDue) status = 'missed';
+  else status = attemptsUsed > 0 ? 'in_progress' : 'not_started';
+
+  return { status, attemptsUsed, attemptsLeft: Math.max(assignment.maxAttempts - attemptsUsed, 0), best, isDue };
+};
+
+export interface QuestionDifficulty {
+  questionId: string;
+  answered: number; // Members whose first attempt included the question
+  averageCredit: number; // 0 to 1; the lower, the harder the question was for the group
+}
+
+/**
+ * Per-question results for one assignment, hardest first. Only each member's first attempt counts:
+ * a retake comes after seeing the answers, which would make every question look easier than it was.
+ */
+export const getQuestionDifficulty = (assignmentId: string, attempts: QuizAttempt[]): QuestionDifficulty[] => {
+  const firstAttempts = new Map<string, QuizAttempt>();
+  for (const attempt of attempts) {
+    if (attempt.assignmentId !== assignmentId) continue;
+    const earlier = firstAttempts.get(attempt.userId);
+    if (!earlier || attempt.completedAt.toMillis() < earlier.completedAt.toMillis()) {
+      firstAttempts.set(attempt.userId, attempt);
+    }
+  }
+
+  const totals = new Map<string, { answered: number; credit: number }>();
+  for (const attempt of firstAttempts.values()) {
+    for (const answer of attempt.answers) {
+      const total = totals.get(answer.questionId) || { answered: 0, credit: 0 };
+      total.answered += 1;
+      total.credit += answer.credit ?? (answer.isCorrect ? 1 : 0);
+      totals.set(answer.questionId, total);
+    }
+  }
+
+  return Array.from(totals, ([questionId, total]) => ({
+    questionId,
+    answered: total.answered,
+    averageCredit: total.credit / total.answered,
+  })).sort((a, b) => a.averageCredit - b.averageCredit);
+};
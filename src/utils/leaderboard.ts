@@ -0,0 +1,34 @@
+// src/utils/leaderboard.ts
+// Leaderboard ids, mirroring functions/src/leaderboards.ts where the boards are written.
+
+export type LeaderboardScope = 'global' | 'category' | 'quiz' | 'team';
+export type LeaderboardTimeWindow = 'weekly' | 'all_time';
+
+// ISO 8601 week of a date in UTC, e.g. "2026-W42"
+export const getIsoWeekKey = (date: Date): string => {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const weekday = day.getUTCDay() || 7; // Monday = 1 ... Sunday = 7
+  day.setUTCDate(day.getUTCDate() + 4 - weekday); // Thursday of this week decides the year
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${day.getUTCFullYear()}-W${week.toString().padStart(2, '0')}`;
+};
+
+export const toCategorySlug = (category: string): string =>
+  category.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'uncategorized';
+
+const getWindowSuffix = (timeWindow: LeaderboardTimeWindow): string =>
+  timeWindow === 'weekly' ? getIsoWeekKey(new Date()) : 'all_time';
+
+export const getGlobalBoardId = (timeWindow: LeaderboardTimeWindow): string =>
+  `global_${getWindowSuffix(timeWindow)}`;
+
+export const getCategoryBoardId = (category: string, timeWindow: LeaderboardTimeWindow): string =>
+  `category_${toCategorySlug(category)}_${getWindowSuffix(timeWindow)}`;
+
+// Team boards rank teams on the points of their completed team matches
+export const getTeamBoardId = (timeWindow: LeaderboardTimeWindow): string =>
+  `teams_${getWindowSuffix(timeWindow)}`;
+
+// Quiz boards keep each player's best attempt, so they have no time window
+export const getQuizBoardId = (quizId: string): string => `quiz_${quizId}`;
@@ -0,0 +1,303 @@
+// src/utils/quizExport.ts
+// Turns quizzes (with their answer key) into downloadable files. JSON and CSV use the layouts that
+// src/utils/quizImport.ts reads, so exported quizzes can be imported again.
+import { Quiz, QuizQuestion } from '../types';
+import { CSV_COLUMNS } from './quizImport';
+import { formatAnswer, parseLetterList } from './quizHelpers';
+import { OPTION_LETTERS, stripOptionLetter } from './quizValidation';
+
+export type ExportFormat = 'json' | 'csv' | 'gift' | 'handout' | 'answer_key';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'json', label: 'JSON (re-importable)', extension: 'json', mimeType: 'application/json' },
+  { format: 'csv', label: 'CSV spreadsheet', extension: 'csv', mimeType: 'text/csv' },
+  { format: 'gift', label: 'Moodle GIFT', extension: 'gift.txt', mimeType: 'text/plain' },
+  { format: 'handout', label: 'Printable handout', extension: 'handout.html', mimeType: 'text/html' },
+  { format: 'answer_key', label: 'Printable answer key', extension: 'answer-key.html', mimeType: 'text/html' },
+];
+
+type MultipleChoiceQuestion = Extract<QuizQuestion, { type: 'multiple_choice' }>;
+
+/**
+ * Index of the correct option. generateQuiz stores the letter ("B"), but older or hand-made quizzes
+ * may hold the full option ("B. Netherlands") or just its text ("Netherlands"); all three are accepted.
+ * Returns -1 when the answer matches no option.
+ */
+export const getCorrectOptionIndex = (question: MultipleChoiceQuestion): number => {
+  const answer = question.correctAnswer.trim();
+  const letterIndex = (OPTION_LETTERS as readonly string[]).indexOf(answer.toUpperCase());
+  if (letterIndex >= 0 && letterIndex < question.options.length) return letterIndex;
+  const answerText = stripOptionLetter(answer).toLowerCase();
+  return question.options.findIndex(option => option === answer || stripOptionLetter(option).toLowerCase() === answerText);
+};
+
+// Letter of the correct option ("B"), True/False, or the stored key of the other types ("A,C", "1966", "Pelé")
+export const getCorrectAnswerKey = (question: QuizQuestion): string => {
+  if (question.type !== 'multiple_choice') return question.correctAnswer;
+  const index = getCorrectOptionIndex(question);
+  return index >= 0 ? OPTION_LETTERS[index] : question.correctAnswer;
+};
+
+// The correct answer as a player sees it, e.g. "B. Netherlands", "True", "1966 goals (±1)" or "Pelé (also: Pele)"
+export const getCorrectAnswerLabel = (question: QuizQuestion): string => {
+  switch (question.type) {
+    case 'multiple_choice': {
+      const index = getCorrectOptionIndex(question);
+      return index >= 0 ? question.options[index] : question.correctAnswer;
+    }
+    case 'numeric':
+      return `${formatAnswer(question, question.correctAnswer)}${question.tolerance ? ` (±${question.tolerance})` : ''}`;
+    case 'fill_in':
+      return question.acceptedAnswers && question.acceptedAnswers.length > 0
+        ? `${question.correctAnswer} (also: ${question.acceptedAnswers.join(', ')})`
+        : question.correctAnswer;
+    default:
+      return formatAnswer(question, question.correctAnswer);
+  }
+};
+
+// Lettered options of the choice and ordering types; none for the others
+const optionsOf = (question: QuizQuestion): string[] => ('options' in question ? question.options : []);
+
+// --- JSON ---
+
+const toJsonQuestion = (question: QuizQuestion) => ({
+  text: question.text,
+  type: question.type,
+  ...('options' in question ? { options: question.options } : {}),
+  correctAnswer: getCorrectAnswerKey(question),
+  ...(question.type === 'numeric' && question.tolerance ? { tolerance: question.tolerance } : {}),
+  ...(question.type === 'numeric' && question.unit ? { unit: question.unit } : {}),
+  ...(question.type === 'fill_in' && question.acceptedAnswers?.length ? { acceptedAnswers: question.acceptedAnswers } : {}),
+  ...(question.category ? { category: question.category } : {}),
+  ...(question.difficulty ? { difficulty: question.difficulty } : {}),
+  ...(question.explanation ? { explanation: question.explanation } : {}),
+  ...(question.source ? { source: question.source } : {}),
+});
+
+const toJsonQuiz = (quiz: Quiz) => ({
+  title: quiz.title,
+  category: quiz.category,
+  difficulty: quiz.difficulty,
+  team: quiz.team || '',
+  event: quiz.event || '',
+  country: quiz.country || '',
+  timePerQuestionSeconds: quiz.timePerQuestionSeconds ?? null,
+  totalTimeLimitSeconds: quiz.totalTimeLimitSeconds ?? null,
+  questions: quiz.questions.map(toJsonQuestion),
+});
+
+// --- CSV ---
+
+const escapeCsv = (value: string): string =>
+  /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsvRows = (quiz: Quiz): string[][] =>
+  quiz.questions.map(question => {
+    const options = optionsOf(question).map(stripOptionLetter);
+    const values: Record<typeof CSV_COLUMNS[number], string> = {
+      quiz_title: quiz.title,
+      text: question.text,
+      type: question.type,
+      option_a: options[0] || '',
+      option_b: options[1] || '',
+      option_c: options[2] || '',
+      option_d: options[3] || '',
+      option_e: options[4] || '',
+      option_f: options[5] || '',
+      // Fill-in answers carry their accepted spellings, as the importer expects
+      answer: question.type === 'fill_in'
+        ? [question.correctAnswer, ...(question.acceptedAnswers || [])].join('|')
+        : getCorrectAnswerKey(question),
+      category: question.category || quiz.category,
+      difficulty: question.difficulty || quiz.difficulty,
+      tolerance: question.type === 'numeric' && question.tolerance ? String(question.tolerance) : '',
+      unit: question.type === 'numeric' && question.unit ? question.unit : '',
+      explanation: question.explanation || '',
+      source: question.source || '',
+    };
+    return CSV_COLUMNS.map(column => values[column]);
+  });
+
+// --- Moodle GIFT ---
+
+// Characters with a meaning in GIFT must be escaped with a backslash
+const escapeGift = (value: string): string => value.replace(/([~=#{}:\\])/g, '\\$1');
+
+// Moodle wants answer weights as percentages with at most five decimals
+const giftWeight = (percentage: number): string => `%${Math.round(percentage * 100000) / 100000}%`;
+
+const toGiftQuestion = (question: QuizQuestion, index: number): string => {
+  const stem = `::Q${index + 1}:: ${escapeGift(question.text)}`;
+  switch (question.type) {
+    case 'multiple_choice': {
+      const correctIndex = getCorrectOptionIndex(question);
+      const answers = question.options.map((option, optionIndex) =>
+        `  ${optionIndex === correctIndex ? '=' : '~'}${escapeGift(stripOptionLetter(option))}`
+      );
+      return `${stem} {\n${answers.join('\n')}\n}`;
+    }
+    case 'multi_select': {
+      // Right picks share +100%, wrong picks share -100%, matching the partial credit in submitQuiz
+      const correctLetters = parseLetterList(question.correctAnswer);
+      const wrongCount = question.options.length - correctLetters.length;
+      const answers = question.options.map(option => {
+        const isCorrect = correctLetters.includes(option.charAt(0));
+        const weight = isCorrect ? 100 / correctLetters.length : -100 / Math.max(1, wrongCount);
+        return `  ~${giftWeight(weight)}${escapeGift(stripOptionLetter(option))}`;
+      });
+      return `${stem} {\n${answers.join('\n')}\n}`;
+    }
+    case 'numeric':
+      return `${stem} {#${question.correctAnswer}${question.tolerance ? `:${question.tolerance}` : ''}}`;
+    case 'fill_in':
+      return `${stem} {${[question.correctAnswer, ...(question.acceptedAnswers || [])].map(answer => `=${escapeGift(answer)}`).join(' ')}}`;
+    case 'ordering':
+      // GIFT has no ordering questions; the comment keeps the numbering readable
+      return `// Q${index + 1} (ordering) is not supported by GIFT: ${question.text.replace(/\s+/g, ' ')}`;
+    default:
+      return `${stem} {${question.correctAnswer === 'True' ? 'TRUE' : 'FALSE'}}`;
+  }
+};
+
+const toGift = (quiz: Quiz): string =>
+  [
+    `// ${quiz.title}`,
+    `$CATEGORY: ${quiz.category.replace(/\//g, '-')}/${quiz.title.replace(/\//g, '-')}`,
+    '',
+    quiz.questions.map(toGiftQuestion).join('\n\n'),
+  ].join('\n');
+
+// --- Printable handout and answer key ---
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const printableDocument = (title: string, body: string): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Georgia, serif; max-width: 720px; margin: 2rem auto; color: #1e293b; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  .meta { color: #64748b; margin-bottom: 1.5rem; }
+  ol.questions > li { margin-bottom: 1.25rem; page-break-inside: avoid; }
+  ul.options { list-style: none; padding-left: 1rem; margin: 0.5rem 0 0; }
+  .answer-line { margin-top: 0.5rem; color: #64748b; }
+  section { page-break-after: always; }
+  section:last-child { page-break-after: auto; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const quizMeta = (quiz: Quiz): string =>
+  escapeHtml([quiz.category, quiz.difficulty, quiz.team, quiz.event, quiz.country].filter(Boolean).join(' · '));
+
+const toHandoutSection = (quiz: Quiz): string => {
+  const questions = quiz.questions.map(question => {
+    const optionList = (items: string[]) => `<ul class="options">${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+    let options = '';
+    let answerLine = 'Answer: ____________';
+    switch (question.type) {
+      case 'multiple_choice':
+        options = optionList(question.options);
+        break;
+      case 'multi_select':
+        options = optionList(question.options);
+        answerLine = 'Answer (all that apply): ____________';
+        break;
+      case 'ordering':
+        options = optionList(question.options);
+        answerLine = `Order: ${question.options.map(() => '___').join(' → ')}`;
+        break;
+      case 'numeric':
+        answerLine = `Answer: ____________${question.unit ? ` ${escapeHtml(question.unit)}` : ''}`;
+        break;
+      case 'true_false':
+        options = optionList(['True / False']);
+        break;
+    }
+    return `<li>${escapeHtml(question.text)}${options}<div class="answer-line">${answerLine}</div></li>`;
+  });
+  return `<section>
+<h1>${escapeHtml(quiz.title)}</h1>
+<p class="meta">${quizMeta(quiz)} · Name: ______________________</p>
+<ol class="questions">${questions.join('\n')}</ol>
+</section>`;
+};
+
+const toAnswerKeySection = (quiz: Quiz): string => {
+  const answers = quiz.questions.map(question => {
+    const explanation = question.explanation ? `<div class="meta">${escapeHtml(question.explanation)}</div>` : '';
+    return `<li>${escapeHtml(getCorrectAnswerLabel(question))}${explanation}</li>`;
+  });
+  return `<section>
+<h1>${escapeHtml(quiz.title)} – Answer Key</h1>
+<p class="meta">${quizMeta(quiz)}</p>
+<ol>${answers.join('\n')}</ol>
+</section>`;
+};
+
+// --- Files ---
+
+export interface QuizExportFile {
+  fileName: string;
+  content: string;
+  mimeType: string;
+}
+
+const toFileSlug = (value: string): string =>
+  value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'quiz';
+
+/**
+ * Builds one file holding all given quizzes in the chosen format.
+ * The quizzes must be full documents: exports always include the answer key.
+ */
+export const exportQuizzes = (quizzes: Quiz[], format: ExportFormat): QuizExportFile => {
+  const { extension, mimeType } = EXPORT_FORMATS.find(option => option.format === format) || EXPORT_FORMATS[0];
+  const baseName = quizzes.length === 1
+    ? toFileSlug(quizzes[0].title)
+    : `quizzes-${new Date().toISOString().slice(0, 10)}`;
+  const documentTitle = quizzes.length === 1 ? quizzes[0].title : `${quizzes.length} quizzes`;
+
+  let content: string;
+  switch (format) {
+    case 'csv':
+      content = [[...CSV_COLUMNS], ...quizzes.flatMap(toCsvRows)]
+        .map(row => row.map(escapeCsv).join(','))
+        .join('\r\n');
+      break;
+    case 'gift':
+      content = quizzes.map(toGift).join('\n\n');
+      break;
+    case 'handout':
+      content = printableDocument(documentTitle, quizzes.map(toHandoutSection).join('\n'));
+      break;
+    case 'answer_key':
+      content = printableDocument(`${documentTitle} – Answer Key`, quizzes.map(toAnswerKeySection).join('\n'));
+      break;
+    case 'json':
+    default:
+      content = JSON.stringify(quizzes.length === 1 ? toJsonQuiz(quizzes[0]) : quizzes.map(toJsonQuiz), null, 2);
+  }
+
+  return { fileName: `${baseName}.${extension}`, content, mimeType: `${mimeType};charset=utf-8` };
+};
+
+// Starts a browser download of an export
+export const downloadExportFile = ({ fileName, content, mimeType }: QuizExportFile): void => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,88 @@
+// src/utils/quizHelpers.ts
+import { PlayerQuiz, PlayerQuizQuestion, QuestionType, Quiz, QuizQuestion, QuizType } from '../types';
+
+// True when the quiz came from quizzes/{id} (creator/admin) rather than the answer-free player view
+export const hasAnswerKey = (quiz: PlayerQuiz | Quiz): quiz is Quiz =>
+  quiz.questions.every((question) => 'correctAnswer' in question);
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: 'Multiple Choice',
+  true_false: 'True/False',
+  multi_select: 'Select All That Apply',
+  numeric: 'Numeric',
+  ordering: 'Ordering',
+  fill_in: 'Fill In',
+};
+
+export const QUIZ_TYPE_LABELS: Record<QuizType, string> = {
+  ...QUESTION_TYPE_LABELS,
+  mixed: 'Mixed',
+};
+
+// The quizType a set of questions is saved under: their shared type, or 'mixed'
+export const getQuizType = (questions: { type: QuestionType }[]): QuizType => {
+  const types = new Set(questions.map(question => question.type));
+  return types.size === 1 ? questions[0].type : 'mixed';
+};
+
+// Letters of a multi-select or ordering answer ("A,C" or "C,A,B,D"), in the given order
+export const parseLetterList = (value: string): string[] =>
+  value.split(',').map(letter => letter.trim().toUpperCase()).filter(Boolean);
+
+/**
+ * An answer as the player reads it. Answers are stored as the player sent them (see functions/src/scoring.ts):
+ * option letters become their options ("A. Pelé; C. Cruyff", or joined with arrows for ordering),
+ * numbers get their unit, and multiple choice keys ("A") are expanded to the full option.
+ */
+export const formatAnswer = (question: PlayerQuizQuestion | QuizQuestion, answer: string): string => {
+  const optionFor = (letter: string) =>
+    ('options' in question ? question.options.find(option => option.startsWith(`${letter}.`)) : undefined) || letter;
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return /^[A-F]$/.test(answer) ? optionFor(answer) : answer;
+    case 'multi_select':
+      return parseLetterList(answer).map(optionFor).join('; ');
+    case 'ordering':
+      return parseLetterList(answer).map(optionFor).join(' → ');
+    case 'numeric':
+      return question.unit ? `${answer} ${question.unit}` : answer;
+    default:
+      return answer;
+  }
+};
+
+/**
+ * Shuffled options (see functions/src/optionOrder.ts): an option order lists the stored option letters in the
+ * order the player saw them, so ["C", "A", "B", "D"] shows the stored option C as the player's option A.
+ * Returns the question with its options relabelled in that order; without an order it is returned as is.
+ */
+export const applyOptionOrder = <T extends PlayerQuizQuestion | QuizQuestion>(question: T, optionOrder?: string[] | null): T => {
+  if (!optionOrder || !('options' in question)) return question;
+  const options = question.options;
+  return {
+    ...question,
+    options: optionOrder.map((storedLetter, index) => {
+      const stored = options.find(option => option.startsWith(`${storedLetter}.`)) || storedLetter;
+      return `${options[index]?.charAt(0) || storedLetter}. ${stored.replace(/^[A-F]\.\s*/, '')}`;
+    }),
+  };
+};
+
+// An answer in stored option letters (as saved on attempts) rewritten in the letters the player saw
+export const toDisplayedAnswer = (question: PlayerQuizQuestion | QuizQuestion, answer: string, optionOrder?: string[] | null): string => {
+  if (!optionOrder || answer === '' || !('options' in question)) return answer;
+  const displayedLetter = (storedLetter: string) => {
+    const index = optionOrder.indexOf(storedLetter);
+    return index === -1 ? storedLetter : question.options[index]?.charAt(0) || storedLetter;
+  };
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return displayedLetter(answer.charAt(0));
+    case 'multi_select':
+      return parseLetterList(answer).map(displayedLetter).sort().join(',');
+    default:
+      return parseLetterList(answer).map(displayedLetter).join(',');
+  }
+};
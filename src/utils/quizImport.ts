@@ -0,0 +1,437 @@
+// src/utils/quizImport.ts
+// Reads quizzes from JSON or CSV files and reports every problem per question before anything is saved.
+//
+// JSON: one quiz object or an array of them.
+//   {
+//     "title": "World Cup Finals",          // required
+//     "category": "Football",               // required
+//     "difficulty": "medium",               // optional: easy | medium | hard (default medium)
+//     "team": "", "event": "", "country": "", // optional
+//     "timePerQuestionSeconds": 30,          // optional: 5–300, or null for no limit
+//     "totalTimeLimitSeconds": null,         // optional: 30–10800, or null for no limit
+//     "questions": [
+//       { "text": "Who won in 2010?", "type": "multiple_choice",
+//         "options": ["Spain", "Netherlands", "Germany", "Uruguay"], "correctAnswer": "A" },
+//       { "text": "The 1930 final was played in Uruguay.", "type": "true_false", "correctAnswer": "True",
+//         "explanation": "Uruguay hosted and won the first World Cup.", "source": "https://www.fifa.com" }
+//     ]
+//   }
+//   Options may carry their letter ("A. Spain") or not. correctAnswer is a letter, the full option text,
+//   or True/False. Every question may have an "explanation" and a "source". The other question types:
+//       { "type": "multi_select", "options": [...4 to 6...], "correctAnswer": "A,C" }
+//       { "type": "ordering", "options": [...3 to 6, in the order players see them...], "correctAnswer": "C,A,D,B" }
+//       { "type": "numeric", "correctAnswer": "1966", "tolerance": 0, "unit": "" }
+//       { "type": "fill_in", "correctAnswer": "Pelé", "acceptedAnswers": ["Pele"] }
+//
+// CSV: a header row, then one row per question. Columns (any order, case-insensitive):
+//   quiz_title (optional, rows with the same title form one quiz), text, type, option_a … option_f,
+//   answer, category, difficulty, tolerance, unit, explanation, source
+//   type is multiple_choice / true_false / multi_select / numeric / ordering / fill_in (mc / tf / ms also work);
+//   left empty it is inferred from the options and the answer. Fill-in answers list their accepted
+//   spellings after the preferred one, separated by "|" (e.g. "Pelé|Pele").
+import { Quiz, QuizQuestion } from '../types';
+import { parseLetterList } from './quizHelpers';
+import { ITEM_LETTERS, OPTION_LETTERS, formatOption, parseNumericAnswer, stripOptionLetter, validateQuestion } from './quizValidation';
+
+type Difficulty = Quiz['difficulty'];
+
+// A quiz ready for saveQuiz once its report is clean
+export type ImportedQuiz = Pick<Quiz, 'title' | 'category' | 'difficulty' | 'team' | 'event' | 'country' | 'questions' | 'timePerQuestionSeconds' | 'totalTimeLimitSeconds'>;
+
+export type ImportRowReport = {
+  location: string; // Where the question came from, e.g. "Row 4" or "Quiz 1, question 2"
+  quizIndex: number; // Index into ImportResult.quizzes
+  text: string;
+  errors: string[];
+};
+
+export type ImportResult = {
+  quizzes: ImportedQuiz[];
+  quizErrors: string[][]; // Problems with each quiz as a whole, parallel to quizzes
+  rows: ImportRowReport[];
+  fileErrors: string[]; // Problems that stop the whole file from being read
+};
+
+export const IMPORT_DEFAULT_TITLE = 'Imported Quiz';
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export const CSV_COLUMNS = [
+  'quiz_title', 'text', 'type', 'option_a', 'option_b', 'option_c', 'option_d', 'option_e', 'option_f',
+  'answer', 'category', 'difficulty', 'tolerance', 'unit', 'explanation', 'source',
+] as const;
+const CSV_OPTION_COLUMNS = ['option_a', 'option_b', 'option_c', 'option_d', 'option_e', 'option_f'] as const;
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+const emptyResult = (fileErrors: string[] = []): ImportResult => ({ quizzes: [], quizErrors: [], rows: [], fileErrors });
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '');
+
+const parseDifficulty = (value: unknown, errors: string[]): Difficulty | undefined => {
+  const difficulty = asString(value).toLowerCase();
+  if (!difficulty) return undefined;
+  if (!(DIFFICULTIES as string[]).includes(difficulty)) {
+    errors.push(`Unknown difficulty "${difficulty}" (use easy, medium or hard).`);
+    return undefined;
+  }
+  return difficulty as Difficulty;
+};
+
+// Same bounds generateQuiz accepts for the optional countdowns
+const parseTimeLimit = (value: unknown, name: string, min: number, max: number, errors: string[]): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    errors.push(`"${name}" must be a whole number of seconds between ${min} and ${max}, or null.`);
+    return null;
+  }
+  return value;
+};
+
+const TYPE_ALIASES: Record<string, QuizQuestion['type']> = {
+  multiple_choice: 'multiple_choice',
+  mc: 'multiple_choice',
+  true_false: 'true_false',
+  tf: 'true_false',
+  multi_select: 'multi_select',
+  ms: 'multi_select',
+  select_all: 'multi_select',
+  numeric: 'numeric',
+  number: 'numeric',
+  ordering: 'ordering',
+  order: 'ordering',
+  fill_in: 'fill_in',
+  text: 'fill_in',
+};
+
+// A blank type is inferred: options make it multiple choice (select-all with several letters),
+// otherwise True/False answers, numbers and anything else make it true/false, numeric and fill-in
+const parseQuestionType = (value: string, hasOptions: boolean, answer: string, errors: string[]): QuizQuestion['type'] | null => {
+  const type = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (!type) {
+    if (hasOptions) return parseLetterList(answer).length > 1 ? 'multi_select' : 'multiple_choice';
+    if (['true', 'false', 't', 'f'].includes(answer.toLowerCase())) return 'true_false';
+    return parseNumericAnswer(answer) !== null ? 'numeric' : 'fill_in';
+  }
+  if (TYPE_ALIASES[type]) return TYPE_ALIASES[type];
+  errors.push(`Unknown question type "${value}" (use multiple_choice, true_false, multi_select, numeric, ordering or fill_in).`);
+  return null;
+};
+
+// Letter of the correct option, given a letter ("b", "B.") or the option text itself
+const resolveOptionAnswer = (answer: string, optionTexts: string[]): string => {
+  const letter = answer.replace(/\.$/, '').toUpperCase();
+  if ((OPTION_LETTERS as readonly string[]).includes(letter)) return letter;
+  const index = optionTexts.findIndex(text => text.toLowerCase() === stripOptionLetter(answer).toLowerCase());
+  return index >= 0 ? OPTION_LETTERS[index] : answer;
+};
+
+const resolveTrueFalseAnswer = (answer: string): string => {
+  const normalized = answer.toLowerCase();
+  if (normalized === 'true' || normalized === 't') return 'True';
+  if (normalized === 'false' || normalized === 'f') return 'False';
+  return answer;
+};
+
+// Letters given as "A,C", "a; c" or "A C"
+const resolveLetterList = (answer: string): string =>
+  parseLetterList(answer.replace(/[;\s]+/g, ',')).map(letter => letter.replace(/\.$/, '')).join(',');
+
+// Tolerance from JSON (a number) or CSV (text); blank means exact answers only
+const parseTolerance = (value: unknown, errors: string[]): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const tolerance = typeof value === 'number' ? value : parseNumericAnswer(String(value));
+  if (tolerance === null || !Number.isFinite(tolerance) || tolerance < 0) {
+    errors.push(`Tolerance "${value}" must be zero or a positive number.`);
+    return undefined;
+  }
+  return tolerance;
+};
+
+interface RawQuestion {
+  text: string;
+  type: string;
+  options: string[];
+  answer: string;
+  acceptedAnswers: string[];
+  tolerance: unknown;
+  unit: string;
+  category: string;
+  difficulty: unknown;
+  explanation: string;
+  source: string;
+}
+
+// Builds a question from loosely typed input and returns it with every problem found
+const buildQuestion = (raw: RawQuestion, id: string): { question: QuizQuestion | null; errors: string[] } => {
+  const errors: string[] = [];
+  const optionTexts = raw.options.map(option => stripOptionLetter(option.trim()));
+  const type = parseQuestionType(raw.type, optionTexts.some(Boolean), raw.answer, errors);
+  const difficulty = parseDifficulty(raw.difficulty, errors);
+  if (!type) return { question: null, errors };
+
+  // Optional fields are only set when present: Firestore rejects undefined values
+  const base = {
+    id,
+    text: raw.text,
+    ...(raw.category ? { category: raw.category } : {}),
+    ...(difficulty ? { difficulty } : {}),
+    ...(raw.explanation ? { explanation: raw.explanation } : {}),
+    ...(raw.source ? { source: raw.source } : {}),
+  };
+
+  let question: QuizQuestion;
+  if (type === 'multiple_choice') {
+    question = {
+      ...base,
+      type,
+      options: optionTexts.map((text, index) => formatOption(OPTION_LETTERS[index] || '?', text)),
+      correctAnswer: resolveOptionAnswer(raw.answer, optionTexts),
+    };
+    if (raw.answer && !(OPTION_LETTERS as readonly string[]).includes(question.correctAnswer)) {
+      errors.push(`Answer "${raw.answer}" is not A–D or the text of one of the options.`);
+    }
+  } else if (type === 'multi_select' || type === 'ordering') {
+    question = {
+      ...base,
+      type,
+      options: optionTexts.map((text, index) => formatOption(ITEM_LETTERS[index] || '?', text)),
+      correctAnswer: resolveLetterList(raw.answer),
+    };
+    // Select-all answers are kept sorted, like the editor stores them
+    if (type === 'multi_select') question.correctAnswer = parseLetterList(question.correctAnswer).sort().join(',');
+  } else {
+    // Spreadsheets sometimes fill the option columns with True/False; anything else is a mistake
+    if (optionTexts.some(text => text && !['true', 'false'].includes(text.toLowerCase()))) {
+      errors.push(`${type === 'true_false' ? 'True/False' : 'Numeric and fill-in'} questions cannot have answer options.`);
+    }
+    if (type === 'numeric') {
+      const tolerance = parseTolerance(raw.tolerance, errors);
+      const value = parseNumericAnswer(raw.answer);
+      question = {
+        ...base,
+        type,
+        correctAnswer: value === null ? raw.answer : String(value),
+        ...(tolerance ? { tolerance } : {}),
+        ...(raw.unit ? { unit: raw.unit } : {}),
+      };
+    } else if (type === 'fill_in') {
+      // CSV keeps the accepted spellings in the answer cell: "Pelé|Pele"
+      const [correctAnswer = '', ...variants] = raw.answer.split('|').map(answer => answer.trim());
+      const acceptedAnswers = [...new Set([...variants, ...raw.acceptedAnswers])].filter(answer => answer && answer !== correctAnswer);
+      question = { ...base, type, correctAnswer, ...(acceptedAnswers.length > 0 ? { acceptedAnswers } : {}) };
+    } else {
+      question = { ...base, type, correctAnswer: resolveTrueFalseAnswer(raw.answer) as 'True' | 'False' };
+    }
+  }
+
+  errors.push(...validateQuestion(question));
+  return { question: errors.length > 0 ? null : question, errors };
+};
+
+// Quiz-level checks once all questions are assigned
+const validateImportedQuiz = (quiz: ImportedQuiz, questionCount: number): string[] => {
+  const errors: string[] = [];
+  if (!quiz.title.trim()) errors.push('Title is required.');
+  if (!quiz.category.trim()) errors.push('Category is required.');
+  if (questionCount === 0) errors.push('The quiz has no questions.');
+  return errors;
+};
+
+/**
+ * Parses the JSON import format (see the top of this file). newId creates question ids.
+ */
+export const parseQuizJson = (content: string, newId: () => string): ImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err: unknown) {
+    return emptyResult([`The file is not valid JSON${err instanceof Error ? `: ${err.message}` : '.'}`]);
+  }
+
+  const rawQuizzes = Array.isArray(parsed) ? parsed : [parsed];
+  if (rawQuizzes.length === 0 || !rawQuizzes.every(quiz => quiz && typeof quiz === 'object' && !Array.isArray(quiz))) {
+    return emptyResult(['Expected a quiz object or an array of quiz objects.']);
+  }
+
+  const result = emptyResult();
+  (rawQuizzes as Record<string, unknown>[]).forEach((rawQuiz, quizIndex) => {
+    const quizErrors: string[] = [];
+    const rawQuestions = Array.isArray(rawQuiz.questions) ? rawQuiz.questions : [];
+    if (!Array.isArray(rawQuiz.questions)) quizErrors.push('"questions" must be an array.');
+
+    const quiz: ImportedQuiz = {
+      title: asString(rawQuiz.title),
+      category: asString(rawQuiz.category),
+      difficulty: parseDifficulty(rawQuiz.difficulty, quizErrors) || 'medium',
+      team: asString(rawQuiz.team),
+      event: asString(rawQuiz.event),
+      country: asString(rawQuiz.country),
+      timePerQuestionSeconds: parseTimeLimit(rawQuiz.timePerQuestionSeconds, 'timePerQuestionSeconds', 5, 300, quizErrors),
+      totalTimeLimitSeconds: parseTimeLimit(rawQuiz.totalTimeLimitSeconds, 'totalTimeLimitSeconds', 30, 3 * 60 * 60, quizErrors),
+      questions: [],
+    };
+
+    rawQuestions.forEach((rawQuestion: unknown, questionIndex: number) => {
+      const location = `Quiz ${quizIndex + 1}, question ${questionIndex + 1}`;
+      if (!rawQuestion || typeof rawQuestion !== 'object') {
+        result.rows.push({ location, quizIndex, text: '', errors: ['Expected a question object.'] });
+        return;
+      }
+      const fields = rawQuestion as Record<string, unknown>;
+      const options = Array.isArray(fields.options) ? fields.options.map(asString) : [];
+      const { question, errors } = buildQuestion({
+        text: asString(fields.text),
+        type: asString(fields.type),
+        options,
+        // Lists of letters may also be given as arrays: ["A", "C"]
+        answer: Array.isArray(fields.correctAnswer) ? fields.correctAnswer.map(asString).join(',') : asString(fields.correctAnswer),
+        acceptedAnswers: Array.isArray(fields.acceptedAnswers) ? fields.acceptedAnswers.map(asString) : [],
+        tolerance: fields.tolerance,
+        unit: asString(fields.unit),
+        category: asString(fields.category),
+        difficulty: fields.difficulty,
+        explanation: asString(fields.explanation),
+        source: asString(fields.source),
+      }, newId());
+      if (question) quiz.questions.push(question);
+      result.rows.push({ location, quizIndex, text: asString(fields.text), errors });
+    });
+
+    quizErrors.push(...validateImportedQuiz(quiz, rawQuestions.length));
+    result.quizzes.push(quiz);
+    result.quizErrors.push(quizErrors);
+  });
+  return result;
+};
+
+// Splits CSV text into rows of fields (RFC 4180: quoted fields may contain commas, quotes and newlines)
+export const parseCsvRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Parses the CSV import format (see the top of this file). newId creates question ids.
+ * Each quiz takes its category and difficulty from its first row.
+ */
+export const parseQuizCsv = (content: string, newId: () => string): ImportResult => {
+  const rows = parseCsvRows(content.replace(/^\uFEFF/, '')); // Spreadsheet exports often start with a BOM
+  if (rows.length < 2) {
+    return emptyResult(['The file needs a header row and at least one question row.']);
+  }
+
+  const header = rows[0].map(name => name.trim().toLowerCase().replace(/\s+/g, '_'));
+  const columnIndex = {} as Record<CsvColumn, number>;
+  CSV_COLUMNS.forEach(column => {
+    columnIndex[column] = header.indexOf(column);
+  });
+  const missing = (['text', 'answer'] as CsvColumn[]).filter(column => columnIndex[column] < 0);
+  if (missing.length > 0) {
+    return emptyResult([`Missing required column(s): ${missing.join(', ')}.`]);
+  }
+  const cell = (row: string[], column: CsvColumn) => (columnIndex[column] >= 0 ? (row[columnIndex[column]] || '').trim() : '');
+
+  const result = emptyResult();
+  const quizIndexByTitle = new Map<string, number>();
+  const questionCounts: number[] = [];
+
+  rows.slice(1).forEach((row, rowIndex) => {
+    if (row.every(value => !value.trim())) return; // Blank lines
+    const location = `Row ${rowIndex + 2}`; // Spreadsheet row number, counting the header
+
+    const title = cell(row, 'quiz_title') || IMPORT_DEFAULT_TITLE;
+    let quizIndex = quizIndexByTitle.get(title);
+    if (quizIndex === undefined) {
+      quizIndex = result.quizzes.length;
+      quizIndexByTitle.set(title, quizIndex);
+      result.quizzes.push({
+        title,
+        category: cell(row, 'category'),
+        difficulty: parseDifficulty(cell(row, 'difficulty'), []) || 'medium', // An unknown value is reported on the row itself
+        team: '',
+        event: '',
+        country: '',
+        timePerQuestionSeconds: null,
+        totalTimeLimitSeconds: null,
+        questions: [],
+      });
+      result.quizErrors.push([]);
+      questionCounts.push(0);
+    }
+    questionCounts[quizIndex] += 1;
+
+    // All option columns empty means the row has no options (True/False, numeric, fill-in).
+    // Trailing empty columns are dropped, so 4 filled columns make 4 options.
+    const options = CSV_OPTION_COLUMNS.map(column => cell(row, column));
+    while (options.length > 0 && !options[options.length - 1]) options.pop();
+    const { question, errors } = buildQuestion({
+      text: cell(row, 'text'),
+      type: cell(row, 'type'),
+      options,
+      answer: cell(row, 'answer'),
+      acceptedAnswers: [],
+      tolerance: cell(row, 'tolerance'),
+      unit: cell(row, 'unit'),
+      category: cell(row, 'category'),
+      difficulty: cell(row, 'difficulty'),
+      explanation: cell(row, 'explanation'),
+      source: cell(row, 'source'),
+    }, newId());
+    if (question) result.quizzes[quizIndex].questions.push(question);
+    result.rows.push({ location, quizIndex, text: cell(row, 'text'), errors });
+  });
+
+  result.quizzes.forEach((quiz, index) => {
+    result.quizErrors[index].push(...validateImportedQuiz(quiz, questionCounts[index]));
+  });
+  if (result.rows.length === 0) {
+    result.fileErrors.push('The file has no question rows.');
+  }
+  return result;
+};
+
+// Picks the parser from the file name, falling back to the content
+export const parseQuizImport = (fileName: string, content: string, newId: () => string): ImportResult => {
+  const lowerName = fileName.toLowerCase();
+  const looksLikeJson = lowerName.endsWith('.json') || (!lowerName.endsWith('.csv') && /^\s*[[{]/.test(content));
+  return looksLikeJson ? parseQuizJson(content, newId) : parseQuizCsv(content, newId);
+};
+
+// A quiz is imported only when it and every one of its rows are free of problems
+export const isQuizImportable = (result: ImportResult, quizIndex: number): boolean =>
+  result.quizErrors[quizIndex].length === 0 &&
+  result.rows.every(row => row.quizIndex !== quizIndex || row.errors.length === 0);
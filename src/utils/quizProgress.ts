@@ -0,0 +1,37 @@
+// src/utils/quizProgress.ts
+// Local copy of unfinished quiz runs, so a reload or a dropped connection can pick up where the player left off.
+// The same records are mirrored to Firestore by the progress store (see store/progressStore.ts).
+import { QuizProgress } from '../types';
+
+const storageKey = (userId: string, quizId: string) => `quizProgress:${userId}:${quizId}`;
+
+// Document id in quizProgress: one run per player and quiz
+export const getProgressDocId = (userId: string, quizId: string): string => `${userId}_${quizId}`;
+
+export const readLocalProgress = (userId: string, quizId: string): QuizProgress | null => {
+  try {
+    const raw = localStorage.getItem(storageKey(userId, quizId));
+    if (!raw) return null;
+    const progress = JSON.parse(raw) as QuizProgress;
+    return progress && typeof progress.sessionId === 'string' ? progress : null;
+  } catch {
+    // Storage can be unavailable (private browsing) or hold something unreadable
+    return null;
+  }
+};
+
+export const writeLocalProgress = (progress: QuizProgress): void => {
+  try {
+    localStorage.setItem(storageKey(progress.userId, progress.quizId), JSON.stringify(progress));
+  } catch {
+    // Full or unavailable storage: the server copy still works
+  }
+};
+
+export const removeLocalProgress = (userId: string, quizId: string): void => {
+  try {
+    localStorage.removeItem(storageKey(userId, quizId));
+  } catch {
+    // Nothing to clean up
+  }
+};
@@ -0,0 +1,242 @@
+// src/utils/quizValidation.ts
+// Checks a quiz before it is saved by hand (editor, import). Mirrors what generateQuiz accepts.
+import { Quiz, QuizQuestion } from '../types';
+import { parseLetterList } from './quizHelpers';
+
+export const OPTION_LETTERS = ['A', 'B', 'C', 'D'] as const;
+export const TRUE_FALSE_ANSWERS = ['True', 'False'] as const;
+// Multi-select options and ordering items can go up to F
+export const ITEM_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'] as const;
+export const MULTI_SELECT_OPTION_COUNT = { min: 4, max: 6 } as const;
+export const ORDERING_ITEM_COUNT = { min: 3, max: 6 } as const;
+
+type OrderingQuestion = Extract<QuizQuestion, { type: 'ordering' }>;
+
+// Multiple choice options are stored with their letter, e.g. "A. Uruguay"
+export const formatOption = (letter: string, text: string): string => `${letter}. ${text}`;
+
+// The option text without its "A. " prefix, for editing
+export const stripOptionLetter = (option: string): string => option.replace(/^[A-F]\.\s*/, '');
+
+// A typed number as submitQuiz reads it (see functions/src/scoring.ts); null when it is not a number
+export const parseNumericAnswer = (value: string): number | null => {
+  const cleaned = value.trim().replace(/(\d),(?=\d{3}\b)/g, '$1');
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(cleaned)) return null;
+  return Number(cleaned);
+};
+
+// Item texts of an ordering question in their correct order
+export const getOrderingItems = (question: OrderingQuestion): string[] => {
+  const order = parseLetterList(question.correctAnswer);
+  const texts = order.map(letter => question.options.find(option => option.startsWith(`${letter}.`)));
+  // An answer that does not cover every item (e.g. a bad import) falls back to the shown order
+  if (texts.length !== question.options.length || texts.some(text => text === undefined)) {
+    return question.options.map(stripOptionLetter);
+  }
+  return texts.map(text => stripOptionLetter(text as string));
+};
+
+/**
+ * Stores ordering items given in their correct order. Players see the items in the stored order, so a new
+ * set of items is shuffled (never into the correct order); edits that keep the item count keep the shuffle.
+ */
+export const buildOrderingQuestion = (question: OrderingQuestion, items: string[]): OrderingQuestion => {
+  const currentOrder = parseLetterList(question.correctAnswer);
+  const keepsShuffle = currentOrder.length === items.length && question.options.length === items.length &&
+    ITEM_LETTERS.slice(0, items.length).every(letter => currentOrder.includes(letter));
+  if (keepsShuffle) {
+    const options = question.options.map((_, index) =>
+      formatOption(ITEM_LETTERS[index], items[currentOrder.indexOf(ITEM_LETTERS[index])]));
+    return { ...question, options };
+  }
+
+  // displayOrder[position] = index of the item shown at that position
+  const displayOrder = items.map((_, index) => index);
+  for (let i = displayOrder.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [displayOrder[i], displayOrder[j]] = [displayOrder[j], displayOrder[i]];
+  }
+  if (displayOrder.length > 1 && displayOrder.every((itemIndex, position) => itemIndex === position)) {
+    displayOrder.push(displayOrder.shift() as number);
+  }
+  return {
+    ...question,
+    options: displayOrder.map((itemIndex, position) => formatOption(ITEM_LETTERS[position], items[itemIndex])),
+    correctAnswer: items.map((_, itemIndex) => ITEM_LETTERS[displayOrder.indexOf(itemIndex)]).join(','),
+  };
+};
+
+// Switching type keeps the id and text; options and answer start fresh for the new type
+export const convertQuestionType = (question: QuizQuestion, type: QuizQuestion['type']): QuizQuestion => {
+  if (type === question.type) return question;
+  // Optional fields are only copied when set: Firestore rejects undefined values
+  const base = {
+    id: question.id,
+    text: question.text,
+    ...(question.category ? { category: question.category } : {}),
+    ...(question.difficulty ? { difficulty: question.difficulty } : {}),
+    ...(question.explanation ? { explanation: question.explanation } : {}),
+    ...(question.source ? { source: question.source } : {}),
+  };
+  switch (type) {
+    case 'multiple_choice':
+      return { ...base, type, options: OPTION_LETTERS.map(letter => formatOption(letter, '')), correctAnswer: 'A' };
+    case 'multi_select':
+      return {
+        ...base,
+        type,
+        options: ITEM_LETTERS.slice(0, MULTI_SELECT_OPTION_COUNT.min).map(letter => formatOption(letter, '')),
+        correctAnswer: '',
+      };
+    case 'ordering':
+      return buildOrderingQuestion({ ...base, type, options: [], correctAnswer: '' }, ['', '', '', '']);
+    case 'numeric':
+    case 'fill_in':
+      return { ...base, type, correctAnswer: '' };
+    default:
+      return { ...base, type: 'true_false', correctAnswer: 'True' };
+  }
+};
+
+// Trims the explanation and source, dropping them when blank: Firestore rejects undefined values
+export const cleanQuestionExtras = (question: QuizQuestion): QuizQuestion => {
+  const { explanation, source, ...rest } = question;
+  return {
+    ...rest,
+    ...(explanation && explanation.trim() ? { explanation: explanation.trim() } : {}),
+    ...(source && source.trim() ? { source: source.trim() } : {}),
+  } as QuizQuestion;
+};
+
+// Trims what the player will see before saving; options keep their "A. " prefix
+export const cleanQuestion = (question: QuizQuestion): QuizQuestion => {
+  const withExtras = cleanQuestionExtras(question);
+  const text = withExtras.text.trim();
+  switch (withExtras.type) {
+    case 'multiple_choice':
+    case 'multi_select':
+    case 'ordering':
+      return {
+        ...withExtras,
+        text,
+        options: withExtras.options.map((option, index) => formatOption(ITEM_LETTERS[index], stripOptionLetter(option).trim())),
+      };
+    case 'numeric': {
+      const { tolerance, unit, ...rest } = withExtras;
+      return {
+        ...rest,
+        text,
+        correctAnswer: String(parseNumericAnswer(rest.correctAnswer) ?? rest.correctAnswer.trim()),
+        ...(tolerance ? { tolerance } : {}),
+        ...(unit && unit.trim() ? { unit: unit.trim() } : {}),
+      };
+    }
+    case 'fill_in': {
+      const { acceptedAnswers, ...rest } = withExtras;
+      const correctAnswer = rest.correctAnswer.trim();
+      const variants = [...new Set((acceptedAnswers || []).map(answer => answer.trim()))]
+        .filter(answer => answer && answer !== correctAnswer);
+      return { ...rest, text, correctAnswer, ...(variants.length > 0 ? { acceptedAnswers: variants } : {}) };
+    }
+    default:
+      return { ...withExtras, text };
+  }
+};
+
+// Errors for options that must be lettered in order and carry some text
+const validateLetteredOptions = (options: string[], errors: string[]) => {
+  options.forEach((option, index) => {
+    const letter = ITEM_LETTERS[index];
+    if (!option.startsWith(`${letter}.`) || !stripOptionLetter(option).trim()) {
+      errors.push(`Option ${letter} needs some text.`);
+    }
+  });
+};
+
+export type QuizValidationErrors = {
+  quiz: string[]; // Problems with the quiz as a whole
+  questions: Record<string, string[]>; // Problems per question, keyed by question id
+};
+
+export const validateQuestion = (question: QuizQuestion): string[] => {
+  const errors: string[] = [];
+  if (!question.text || !question.text.trim()) {
+    errors.push('Question text is required.');
+  }
+
+  if (question.type === 'multiple_choice') {
+    if (!Array.isArray(question.options) || question.options.length !== OPTION_LETTERS.length) {
+      errors.push('Multiple choice questions need exactly 4 options.');
+    } else {
+      validateLetteredOptions(question.options, errors);
+    }
+    if (!(OPTION_LETTERS as readonly string[]).includes(question.correctAnswer)) {
+      errors.push('Pick the correct option (A, B, C or D).');
+    }
+  } else if (question.type === 'true_false') {
+    if (!(TRUE_FALSE_ANSWERS as readonly string[]).includes(question.correctAnswer)) {
+      errors.push('Pick True or False as the correct answer.');
+    }
+  } else if (question.type === 'multi_select') {
+    const { min, max } = MULTI_SELECT_OPTION_COUNT;
+    if (!Array.isArray(question.options) || question.options.length < min || question.options.length > max) {
+      errors.push(`Select-all questions need between ${min} and ${max} options.`);
+    } else {
+      validateLetteredOptions(question.options, errors);
+      const letters = parseLetterList(question.correctAnswer);
+      const validLetters: string[] = ITEM_LETTERS.slice(0, question.options.length);
+      if (letters.length === 0 || !letters.every(letter => validLetters.includes(letter))) {
+        errors.push('Tick at least one correct option.');
+      }
+    }
+  } else if (question.type === 'ordering') {
+    const { min, max } = ORDERING_ITEM_COUNT;
+    if (!Array.isArray(question.options) || question.options.length < min || question.options.length > max) {
+      errors.push(`Ordering questions need between ${min} and ${max} items.`);
+    } else {
+      validateLetteredOptions(question.options, errors);
+      const expected = ITEM_LETTERS.slice(0, question.options.length).join(',');
+      if (parseLetterList(question.correctAnswer).sort().join(',') !== expected) {
+        errors.push('The correct order must list every item exactly once.');
+      }
+    }
+  } else if (question.type === 'numeric') {
+    if (parseNumericAnswer(question.correctAnswer) === null) {
+      errors.push('The correct answer must be a number.');
+    }
+    if (question.tolerance !== undefined && !(Number.isFinite(question.tolerance) && question.tolerance >= 0)) {
+      errors.push('The tolerance must be zero or a positive number.');
+    }
+  } else if (question.type === 'fill_in') {
+    if (!question.correctAnswer || !question.correctAnswer.trim()) {
+      errors.push('Enter the correct answer.');
+    }
+  } else {
+    errors.push('Unknown question type.');
+  }
+  return errors;
+};
+
+export const validateQuiz = (quiz: Pick<Quiz, 'title' | 'category' | 'questions'>): QuizValidationErrors => {
+  const errors: QuizValidationErrors = { quiz: [], questions: {} };
+  if (!quiz.title || !quiz.title.trim()) {
+    errors.quiz.push('Title is required.');
+  }
+  if (!quiz.category || !quiz.category.trim()) {
+    errors.quiz.push('Category is required.');
+  }
+  if (quiz.questions.length === 0) {
+    errors.quiz.push('Add at least one question.');
+  }
+
+  quiz.questions.forEach((question) => {
+    const questionErrors = validateQuestion(question);
+    if (questionErrors.length > 0) {
+      errors.questions[question.id] = questionErrors;
+    }
+  });
+  return errors;
+};
+
+export const hasValidationErrors = (errors: QuizValidationErrors): boolean =>
+  errors.quiz.length > 0 || Object.keys(errors.questions).length > 0;
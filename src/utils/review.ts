@@ -0,0 +1,19 @@
+// src/utils/review.ts
+// Review question ids, mirroring functions/src/reviewQueue.ts where reviews are scored and scheduled.
+
+// Pseudo quiz id under which reviews are played, submitted and saved in the history
+export const REVIEW_QUIZ_ID = 'review';
+export const REVIEW_QUIZ_TITLE = 'Daily Review';
+
+// Questions reviewed in one sitting; the rest stay due for the next one
+export const REVIEW_SESSION_SIZE = 20;
+
+// A review mixes questions from several quizzes, so each is identified as {quizId}:{questionId}
+export const toReviewQuestionId = (quizId: string, questionId: string): string => `${quizId}:${questionId}`;
+
+// Quiz ids never contain ':', so everything after the first one is the question id
+export const parseReviewQuestionId = (reviewQuestionId: string): { quizId: string; questionId: string } | null => {
+  const separator = reviewQuestionId.indexOf(':');
+  if (separator <= 0 || separator === reviewQuestionId.length - 1) return null;
+  return { quizId: reviewQuestionId.slice(0, separator), questionId: reviewQuestionId.slice(separator + 1) };
+};
@@ -0,0 +1,5 @@
+// src/utils/rooms.ts
+// Live room settings, mirroring functions/src/rooms.ts where rooms are created and run.
+
+// Join codes are six characters from an alphabet without look-alikes (no 0/O, 1/I/L)
+export const ROOM_CODE_LENGTH = 6;
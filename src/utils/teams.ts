@@ -0,0 +1,47 @@
+// src/utils/teams.ts
+// Team helpers, mirroring functions/src/teams.ts.
+import { TeamMatch, TeamMatchSide, TeamMatchStatus, TeamScoring } from '../types';
+
+export const MAX_TEAM_MEMBERS = 20;
+export const MAX_TEAM_NAME_LENGTH = 40;
+
+export const TEAM_SCORING_LABELS: Record<TeamScoring, string> = {
+  sum: 'Total of all members',
+  average: 'Average of all members',
+  captain: "Captain plays the team's answers",
+};
+
+export const TEAM_SCORING_DESCRIPTIONS: Record<TeamScoring, string> = {
+  sum: "Every member plays once and the team scores everyone's points added up.",
+  average: 'Every member plays once and the team scores the average of those who played.',
+  captain: 'The team agrees on one answer per question and the captain plays them in. Only that run counts.',
+};
+
+// The stored status, or 'expired' once a pending match is past its deadline, including after
+// closeExpiredTeamMatches declined it (no captain responded)
+export type TeamMatchState = TeamMatchStatus | 'expired';
+
+export const getTeamMatchState = (match: TeamMatch, now = Date.now()): TeamMatchState =>
+  (match.status === 'pending' && now > match.expiresAt.toMillis()) || (match.status === 'declined' && !match.respondedAt)
+    ? 'expired'
+    : match.status;
+
+export const TEAM_MATCH_STATE_LABELS: Record<TeamMatchState, string> = {
+  pending: 'Waiting for an opponent',
+  active: 'Under way',
+  declined: 'Declined',
+  completed: 'Completed',
+  expired: 'Expired',
+};
+
+// Home side first, then the opponent once a team accepted
+export const getMatchSides = (match: TeamMatch): TeamMatchSide[] => match.teamIds.map(teamId => match.sides[teamId]);
+
+export const findPlayerSide = (match: TeamMatch, userId: string): TeamMatchSide | null =>
+  getMatchSides(match).find(side => side.playerIds.includes(userId)) || null;
+
+// The link a team's members share to bring others in
+export const getTeamInviteLink = (inviteCode: string): string => `${window.location.origin}/teams/join/${inviteCode}`;
+
+// The link a captain sends to another team's captain
+export const getTeamMatchLink = (matchId: string): string => `${window.location.origin}/team-matches/${matchId}`;
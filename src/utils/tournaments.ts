@@ -0,0 +1,36 @@
+// src/utils/tournaments.ts
+// Tournament helpers, mirroring functions/src/tournaments.ts.
+import { Tournament, TournamentFormat, TournamentMatch } from '../types';
+
+export const MIN_TOURNAMENT_PLAYERS = 2;
+export const MAX_TOURNAMENT_PLAYERS = 16;
+
+export const TOURNAMENT_FORMAT_LABELS: Record<TournamentFormat, string> = {
+  single_elimination: 'Single elimination',
+  round_robin: 'Round robin',
+};
+
+// A bracket needs enough rounds to halve the field down to one; a round-robin pairs everyone once
+export const getRoundCount = (format: TournamentFormat, playerCount: number): number => {
+  if (playerCount < MIN_TOURNAMENT_PLAYERS) return 0;
+  if (format === 'single_elimination') return Math.ceil(Math.log2(playerCount));
+  return playerCount % 2 === 0 ? playerCount - 1 : playerCount;
+};
+
+// The last bracket rounds get their usual names
+export const getRoundName = (tournament: Tournament, round: number): string => {
+  const roundsLeft = tournament.rounds.length - round;
+  if (tournament.format === 'single_elimination' && roundsLeft <= 3) {
+    return ['Final', 'Semi-finals', 'Quarter-finals'][roundsLeft - 1];
+  }
+  return `Round ${round + 1}`;
+};
+
+export const getPlayerName = (tournament: Tournament, userId: string | null): string =>
+  (userId && tournament.participants.find(p => p.userId === userId)?.displayName) || 'TBD';
+
+// The seeding can change until the first match has been started (the schedule is rebuilt from it)
+export const canReseed = (tournament: Tournament, matches: TournamentMatch[]): boolean =>
+  tournament.status === 'active'
+  && tournament.currentRound === 0
+  && matches.every(match => Object.keys(match.sessionIds).length === 0 && match.resolution !== 'walkover');